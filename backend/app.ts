@@ -20,8 +20,26 @@ import likeRoutes from "./like-routes";
 import commentRoutes from "./comment-routes";
 import notificationRoutes from "./notification-routes";
 import bankTransferRoutes from "./banktransfer-routes";
+import scheduleRoutes from "./schedule-routes";
+import splitRoutes from "./split-routes";
+import exchangeRateRoutes from "./exchangerate-routes";
+import statementRoutes from "./statement-routes";
+import disputeRoutes from "./dispute-routes";
+import auditLogRoutes from "./auditlog-routes";
+import budgetRoutes from "./budget-routes";
+import insightsRoutes from "./insights-routes";
+import groupRoutes from "./group-routes";
+import paymentLinkRoutes from "./paymentlink-routes";
+import riskReviewRoutes from "./riskreview-routes";
 import testDataRoutes from "./testdata-routes";
-import { checkAuth0Jwt, verifyOktaToken, checkCognitoJwt, checkGoogleJwt } from "./helpers";
+import { expireOverdueRequests, runDueSchedules, removeExpiredIdempotencyKeys } from "./database";
+import {
+  checkAuth0Jwt,
+  verifyOktaToken,
+  checkCognitoJwt,
+  checkGoogleJwt,
+  auditRequest,
+} from "./helpers";
 import resolvers from "./graphql/resolvers";
 import { frontendPort, getBackendPort } from "../src/utils/portUtils";
 
@@ -30,6 +48,8 @@ require("dotenv").config();
 const corsOption = {
   origin: `http://localhost:${frontendPort}`,
   credentials: true,
+  // lets the frontend name downloaded exports after the file the backend sends
+  exposedHeaders: ["Content-Disposition", "X-Request-Id"],
 };
 
 const schema = loadSchemaSync(join(__dirname, "./graphql/schema.graphql"), {
@@ -94,6 +114,10 @@ if (process.env.REACT_APP_GOOGLE) {
   app.use(checkGoogleJwt);
 }
 
+// after every provider has set req.user, so the actor is known; the test data routes and
+// sign-in routes above are not audited
+app.use(auditRequest);
+
 app.use(
   "/graphql",
   graphqlHTTP({
@@ -110,7 +134,30 @@ app.use("/likes", likeRoutes);
 app.use("/comments", commentRoutes);
 app.use("/notifications", notificationRoutes);
 app.use("/bankTransfers", bankTransferRoutes);
+app.use("/schedules", scheduleRoutes);
+app.use("/splits", splitRoutes);
+app.use("/exchangeRates", exchangeRateRoutes);
+app.use("/statements", statementRoutes);
+app.use("/disputes", disputeRoutes);
+app.use("/auditLog", auditLogRoutes);
+app.use("/budgets", budgetRoutes);
+app.use("/insights", insightsRoutes);
+app.use("/groups", groupRoutes);
+app.use("/paymentLinks", paymentLinkRoutes);
+app.use("/riskReviews", riskReviewRoutes);
 
 app.use(express.static(join(__dirname, "../public")));
 
+// sweep overdue payment requests to incomplete
+setInterval(expireOverdueRequests, +process.env.REQUEST_EXPIRY_SWEEP_INTERVAL! || 60 * 1000);
+
+// make scheduled payments that have fallen due
+setInterval(runDueSchedules, +process.env.SCHEDULE_RUN_INTERVAL! || 60 * 1000);
+
+// forget idempotency keys once they have expired
+setInterval(
+  removeExpiredIdempotencyKeys,
+  +process.env.IDEMPOTENCY_KEY_SWEEP_INTERVAL! || 60 * 60 * 1000
+);
+
 getBackendPort().then((port) => app.listen(port));
@@ -0,0 +1,48 @@
+// Context of the API call being audited. State-changing requests run inside it, so database
+// writes can be attributed to the user, route and request ID that caused them.
+import { AsyncLocalStorage } from "async_hooks";
+import { get, isEqual, keys, union } from "lodash/fp";
+import { AuditFieldChanges } from "../src/models";
+
+export interface AuditContext {
+  requestId: string;
+  actorId?: string;
+  route: string;
+}
+
+const REDACTED = "[redacted]";
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+export const runWithAuditContext = <T>(context: AuditContext, callback: () => T) =>
+  auditStorage.run(context, callback);
+
+export const getAuditContext = () => auditStorage.getStore();
+
+const redactValue = (value: any) => (value === undefined ? value : REDACTED);
+
+// Fields that differ between two versions of a record; a missing version stands for a record
+// that was created or deleted
+export const diffRecords = (
+  before: object | undefined,
+  after: object | undefined,
+  redactedFields: string[] = []
+): AuditFieldChanges =>
+  union(keys(before), keys(after)).reduce((changes: AuditFieldChanges, field) => {
+    const beforeValue = get(field, before);
+    const afterValue = get(field, after);
+
+    if (isEqual(beforeValue, afterValue)) {
+      return changes;
+    }
+
+    const isRedacted = redactedFields.includes(field);
+
+    return {
+      ...changes,
+      [field]: {
+        before: isRedacted ? redactValue(beforeValue) : beforeValue,
+        after: isRedacted ? redactValue(afterValue) : afterValue,
+      },
+    };
+  }, {});
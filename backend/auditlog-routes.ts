@@ -0,0 +1,39 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import { getAuditLogForEntity, getTransactionById, getBankAccountById } from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import { isAuditLogQSValidator } from "./validators";
+import { isTransactionParty } from "../src/utils/disputeUtils";
+import { AuditLogQueryPayload } from "../src/models";
+const router = express.Router();
+
+// Permission: a party to the transaction, the owner of the bank account, or the user themselves
+const canViewAuditLog = (userId: string, { entity, entityId }: AuditLogQueryPayload) => {
+  if (entity === "transactions") {
+    const transaction = getTransactionById(entityId);
+    return !!transaction && isTransactionParty(userId, transaction);
+  }
+  if (entity === "bankaccounts") {
+    return getBankAccountById(entityId)?.userId === userId;
+  }
+  return entityId === userId;
+};
+
+// Routes
+
+//GET /auditLog?entity=transactions&entityId=<id> (scoped-user) - who changed the record and when
+router.get("/", ensureAuthenticated, validateMiddleware(isAuditLogQSValidator), (req, res) => {
+  const query: AuditLogQueryPayload = req.query;
+
+  /* istanbul ignore next */
+  if (!canViewAuditLog(req.user?.id!, query)) {
+    return res.sendStatus(404);
+  }
+
+  res.status(200);
+  res.json({ results: getAuditLogForEntity(query.entity, query.entityId) });
+});
+
+export default router;
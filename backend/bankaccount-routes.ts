@@ -7,9 +7,26 @@ import {
   getBankAccountById,
   createBankAccountForUser,
   removeBankAccountById,
+  isActiveBankAccountForUser,
+  verifyBankAccount,
+  updateBankAccountById,
+  restoreBankAccountById,
+  getBankAccountSourceError,
 } from "./database";
 import { ensureAuthenticated, validateMiddleware } from "./helpers";
-import { shortIdValidation, isBankAccountValidator } from "./validators";
+import {
+  shortIdValidation,
+  isBankAccountValidator,
+  isBankAccountVerificationValidator,
+  isBankAccountUpdateValidator,
+} from "./validators";
+import {
+  maskBankAccount,
+  isVerifiedBankAccount,
+  getBankAccountVerificationError,
+  getVerificationFailureMessage,
+} from "../src/utils/bankAccountUtils";
+import { BankAccountVerificationPayload, BankAccountUpdatePayload } from "../src/models";
 const router = express.Router();
 
 // Routes
@@ -20,7 +37,7 @@ router.get("/", ensureAuthenticated, (req, res) => {
   const accounts = getBankAccountsByUserId(req.user?.id!);
 
   res.status(200);
-  res.json({ results: accounts });
+  res.json({ results: accounts.map(maskBankAccount) });
 });
 
 //GET /bankAccounts/:bankAccountId (scoped-user)
@@ -33,8 +50,14 @@ router.get(
 
     const account = getBankAccountById(bankAccountId);
 
+    // Permission: bank account owner
+    /* istanbul ignore next */
+    if (!account || account.userId !== req.user?.id) {
+      return res.sendStatus(404);
+    }
+
     res.status(200);
-    res.json({ account });
+    res.json({ account: maskBankAccount(account) });
   }
 );
 
@@ -44,9 +67,107 @@ router.post("/", ensureAuthenticated, validateMiddleware(isBankAccountValidator)
   const account = createBankAccountForUser(req.user?.id!, req.body);
 
   res.status(200);
-  res.json({ account });
+  res.json({ account: maskBankAccount(account) });
 });
 
+//PATCH /bankAccounts/:bankAccountId (scoped-user) - rename or make the default account
+router.patch(
+  "/:bankAccountId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("bankAccountId"), ...isBankAccountUpdateValidator]),
+  (req, res) => {
+    const { bankAccountId } = req.params;
+    const edits: BankAccountUpdatePayload = req.body;
+
+    // Permission: bank account owner
+    /* istanbul ignore next */
+    if (!isActiveBankAccountForUser(req.user?.id!, bankAccountId)) {
+      return res.sendStatus(404);
+    }
+
+    // withdrawals go to the default account, so it must be able to receive them
+    /* istanbul ignore next */
+    const defaultError = edits.isDefault && getBankAccountSourceError(req.user?.id!, bankAccountId);
+    if (defaultError) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "isDefault", msg: defaultError }],
+      });
+    }
+
+    const account = updateBankAccountById(bankAccountId, edits);
+
+    res.status(200);
+    res.json({ account: maskBankAccount(account) });
+  }
+);
+
+//POST /bankAccounts/:bankAccountId/restore (scoped-user)
+router.post(
+  "/:bankAccountId/restore",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("bankAccountId")]),
+  (req, res) => {
+    const { bankAccountId } = req.params;
+    const bankAccount = getBankAccountById(bankAccountId);
+
+    // Permission: bank account owner
+    /* istanbul ignore next */
+    if (!bankAccount || bankAccount.userId !== req.user?.id) {
+      return res.sendStatus(404);
+    }
+
+    if (!bankAccount.isDeleted) {
+      return res.status(422).json({
+        errors: [
+          { location: "params", param: "bankAccountId", msg: "Bank account is not deleted" },
+        ],
+      });
+    }
+
+    const account = restoreBankAccountById(bankAccountId);
+
+    res.status(200);
+    res.json({ account: maskBankAccount(account) });
+  }
+);
+
+//POST /bankAccounts/:bankAccountId/verify (scoped-user)
+router.post(
+  "/:bankAccountId/verify",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("bankAccountId"), ...isBankAccountVerificationValidator]),
+  (req, res) => {
+    const { bankAccountId } = req.params;
+    const { amounts }: BankAccountVerificationPayload = req.body;
+
+    // Permission: bank account owner
+    /* istanbul ignore next */
+    if (!isActiveBankAccountForUser(req.user?.id!, bankAccountId)) {
+      return res.sendStatus(404);
+    }
+
+    const verificationError = getBankAccountVerificationError(getBankAccountById(bankAccountId));
+    if (verificationError) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "bankAccountId", msg: verificationError }],
+      });
+    }
+
+    const account = verifyBankAccount(bankAccountId, amounts);
+
+    if (!isVerifiedBankAccount(account)) {
+      return res.status(422).json({
+        errors: [
+          { location: "body", param: "amounts", msg: getVerificationFailureMessage(account) },
+        ],
+      });
+    }
+
+    res.status(200);
+    res.json({ account: maskBankAccount(account) });
+  }
+);
+
 //DELETE (soft) /bankAccounts (scoped-user)
 router.delete(
   "/:bankAccountId",
@@ -1,11 +1,46 @@
 ///<reference path="types.ts" />
 
-import express from "express";
+import express, { Request, Response } from "express";
 
-import { getBankTransfersByUserId } from "./database";
-import { ensureAuthenticated } from "./helpers";
+import {
+  getBankTransfersByUserId,
+  getUserById,
+  getBankAccountSourceError,
+  createBankTransferForUser,
+} from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import { isBankTransferPayloadValidator } from "./validators";
+import { BankTransferType } from "../src/models";
 const router = express.Router();
 
+const createBankTransfer = (transferType: BankTransferType) => (req: Request, res: Response) => {
+  const { source, amount } = req.body;
+  /* istanbul ignore next */
+  const userId = req.user?.id!;
+
+  // Permission: bank account owner, once the account is verified
+  const sourceError = getBankAccountSourceError(userId, source);
+  if (sourceError) {
+    return res.status(422).json({
+      errors: [{ location: "body", param: "source", msg: sourceError }],
+    });
+  }
+
+  if (
+    transferType === BankTransferType.withdrawal &&
+    getUserById(userId).balance < Math.round(amount * 100)
+  ) {
+    return res.status(422).json({
+      errors: [{ location: "body", param: "amount", msg: "Insufficient funds" }],
+    });
+  }
+
+  const transfer = createBankTransferForUser(userId, transferType, { source, amount });
+
+  res.status(200);
+  res.json({ transfer });
+};
+
 // Routes
 
 //GET /bankTransfers (scoped-user)
@@ -17,4 +52,20 @@ router.get("/", ensureAuthenticated, (req, res) => {
   res.json({ transfers });
 });
 
+//POST /bankTransfers/deposit (scoped-user)
+router.post(
+  "/deposit",
+  ensureAuthenticated,
+  validateMiddleware(isBankTransferPayloadValidator),
+  createBankTransfer(BankTransferType.deposit)
+);
+
+//POST /bankTransfers/withdrawal (scoped-user)
+router.post(
+  "/withdrawal",
+  ensureAuthenticated,
+  validateMiddleware(isBankTransferPayloadValidator),
+  createBankTransfer(BankTransferType.withdrawal)
+);
+
 export default router;
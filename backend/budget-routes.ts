@@ -0,0 +1,57 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import {
+  getBudgetById,
+  getBudgetSummariesForUser,
+  saveBudgetForUser,
+  removeBudgetById,
+} from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import { shortIdValidation, isBudgetPayloadValidator } from "./validators";
+import { BudgetPayload } from "../src/models";
+const router = express.Router();
+
+// Routes
+
+//GET /budgets (scoped-user) - each budget with what has been spent of it this month
+router.get("/", ensureAuthenticated, (req, res) => {
+  /* istanbul ignore next */
+  const budgets = getBudgetSummariesForUser(req.user?.id!);
+
+  res.status(200);
+  res.json({ results: budgets });
+});
+
+//POST /budgets (scoped-user) - sets the monthly budget for a category
+router.post("/", ensureAuthenticated, validateMiddleware(isBudgetPayloadValidator), (req, res) => {
+  const budgetDetails: BudgetPayload = req.body;
+
+  /* istanbul ignore next */
+  const budget = saveBudgetForUser(req.user?.id!, budgetDetails);
+
+  res.status(200);
+  res.json({ budget });
+});
+
+//DELETE /budgets/:budgetId (scoped-user)
+router.delete(
+  "/:budgetId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("budgetId")]),
+  (req, res) => {
+    const budget = getBudgetById(req.params.budgetId);
+
+    // Permission: budget owner
+    /* istanbul ignore next */
+    if (!budget || budget.userId !== req.user?.id) {
+      return res.sendStatus(404);
+    }
+
+    removeBudgetById(budget.id);
+    res.sendStatus(204);
+  }
+);
+
+export default router;
@@ -0,0 +1,13 @@
+// Clock used for time-based business rules (e.g. request expiry).
+// Tests can pin it to a fixed date with setClock and restore it with resetClock.
+let pinnedDate: Date | undefined;
+
+export const now = () => (pinnedDate ? new Date(pinnedDate) : new Date());
+
+export const setClock = (date: Date | string) => {
+  pinnedDate = new Date(date);
+};
+
+export const resetClock = () => {
+  pinnedDate = undefined;
+};
@@ -12,13 +12,40 @@ import {
   flow,
   flatMap,
   curry,
-  get,
-  constant,
   filter,
   inRange,
   remove,
+  omit,
+  uniq,
+  groupBy,
+  pickBy,
+  pick,
+  negate,
+  keys,
+  isEmpty,
+  sumBy,
+  fromPairs,
+  union,
+  sortBy,
+  toPairs,
+  take,
 } from "lodash/fp";
-import { isWithinInterval } from "date-fns";
+import { encryptFields, decryptFields } from "./encryption";
+import { AuditContext, getAuditContext, diffRecords } from "./audit";
+import {
+  isResolvedDispute,
+  isTransactionParty,
+  getOtherTransactionPartyId,
+} from "../src/utils/disputeUtils";
+import {
+  isWithinInterval,
+  addDays,
+  addHours,
+  subHours,
+  startOfDay,
+  startOfMonth,
+  format as formatDate,
+} from "date-fns";
 import low from "lowdb";
 import FileSync from "lowdb/adapters/FileSync";
 import shortid from "shortid";
@@ -43,28 +70,158 @@ import {
   BankTransfer,
   BankTransferPayload,
   BankTransferType,
+  BankTransferStatus,
+  BankTransferCreatePayload,
   NotificationResponseItem,
   TransactionQueryPayload,
   DefaultPrivacyLevel,
+  LedgerEntry,
+  LedgerAccountType,
+  LedgerMovement,
+  LedgerConsistencyReport,
+  Schedule,
+  SchedulePayload,
+  ScheduleUpdatePayload,
+  ScheduleStatus,
+  ScheduleRunStatus,
+  ScheduleNotification,
+  DisputeNotification,
+  Dispute,
+  DisputeMessage,
+  DisputeStatus,
+  DisputePayload,
+  DisputeUpdatePayload,
+  DisputeResponseItem,
+  RiskEvaluation,
+  RiskOutcome,
+  RiskRule,
+  AuditLogEntry,
+  AuditAction,
+  ScheduleSummary,
+  ScheduleResponseItem,
+  Split,
+  SplitPayload,
+  ExchangeRate,
+  CurrencyCode,
+  LinkedTransaction,
+  TransactionRequestPaymentPayload,
+  TransactionRefundPayload,
+  SpendingLimitsSummary,
+  IdempotencyKey,
+  BankAccountVerificationStatus,
+  BankAccountUpdatePayload,
+  Statement,
+  StatementLine,
+  Insights,
+  InsightsQueryPayload,
+  MonthlyInsight,
+  CounterpartyInsight,
+  TransactionTypeInsight,
+  TransactionLabel,
+  TransactionLabelPayload,
+  TransactionLabelQueryPayload,
+  TransactionCategory,
+  Budget,
+  BudgetPayload,
+  BudgetSummary,
+  BudgetNotification,
+  Group,
+  GroupMember,
+  GroupRole,
+  GroupPayload,
+  GroupMemberPayload,
+  GroupMemberUpdatePayload,
+  GroupPaymentPayload,
+  GroupPaymentType,
+  GroupResponseItem,
+  GroupMemberResponseItem,
+  GroupNotification,
+  PaymentLink,
+  PaymentLinkPayload,
+  PaymentLinkResponseItem,
 } from "../src/models";
 import Fuse from "fuse.js";
 import {
   isPayment,
   getTransferAmount,
   hasSufficientFunds,
-  getChargeAmount,
   hasDateQueryFields,
   getDateQueryFields,
   hasAmountQueryFields,
   getAmountQueryFields,
   getQueryWithoutFilterFields,
-  getPayAppCreditedAmount,
+  hasLabelQueryFields,
+  getLabelQueryFields,
+  omitLabelQueryFields,
   isRequestTransaction,
   formatFullName,
   isLikeNotification,
   isCommentNotification,
+  isExpiredRequestTransaction,
+  isScheduleNotification,
+  isDisputeNotification,
+  isBudgetNotification,
+  isGroupNotification,
+  isGroupTransaction,
+  isRefundableTransaction,
+  getTransactionPayeeId,
+  getTransactionPayerId,
+  isPaymentRefundedNotification,
+  isCancelledRequestTransaction,
+  isAcceptedRequestTransaction,
+  isPayableRequestTransaction,
+  isPaymentPartiallyPaidNotification,
 } from "../src/utils/transactionUtils";
+import {
+  getScheduleOccurrence,
+  getUpcomingRunCount,
+  isPastScheduleEnd,
+  isScheduleDue,
+} from "../src/utils/scheduleUtils";
+import { getSplitShareAmounts, getSplitSummary } from "../src/utils/splitUtils";
+import {
+  DEFAULT_CURRENCY,
+  getCurrency,
+  getExchangeRate,
+  convertAmount,
+  getTransactionAmountForUser,
+  getLinkedTransactionExchangeRate,
+} from "../src/utils/currencyUtils";
+import {
+  userLedgerAccount,
+  groupLedgerAccount,
+  bankAccountLedgerAccount,
+  openingBalanceLedgerAccount,
+  exchangeLedgerAccount,
+  createLedgerEntries,
+  getLedgerBalance,
+  isBalancedJournal,
+  isDebitEntry,
+  sumEntryAmounts,
+  getEntryBalanceChange,
+} from "../src/utils/ledgerUtils";
+import {
+  getSpendingLimits,
+  getSpendingLimitError,
+  isNewAccount,
+} from "../src/utils/spendingLimitUtils";
+import { defaultRiskRules, evaluateRiskRules } from "../src/utils/riskUtils";
+import {
+  normalizeTags,
+  suggestCategory,
+  getReachedBudgetThresholds,
+} from "../src/utils/categoryUtils";
+import { getGroupPaymentType } from "../src/utils/groupUtils";
+import { getLineItemBreakdown } from "../src/utils/lineItemUtils";
+import {
+  MAX_BANK_ACCOUNT_VERIFICATION_ATTEMPTS,
+  isVerifiedBankAccount,
+  createMicroDepositAmounts,
+  matchesMicroDepositAmounts,
+} from "../src/utils/bankAccountUtils";
 import { DbSchema } from "../src/models/db-schema";
+import { now } from "./clock";
+import { signPaymentLink, verifyPaymentLink } from "./paymentlinks";
 
 export type TDatabase = {
   users: User[];
@@ -75,6 +232,18 @@ export type TDatabase = {
   comments: Comment[];
   notifications: NotificationType[];
   banktransfers: BankTransfer[];
+  ledger: LedgerEntry[];
+  schedules: Schedule[];
+  splits: Split[];
+  exchangerates: ExchangeRate[];
+  idempotencykeys: IdempotencyKey[];
+  disputes: Dispute[];
+  riskevaluations: RiskEvaluation[];
+  auditlog: AuditLogEntry[];
+  transactionlabels: TransactionLabel[];
+  budgets: Budget[];
+  groups: Group[];
+  groupmembers: GroupMember[];
 };
 
 const USER_TABLE = "users";
@@ -85,12 +254,191 @@ const LIKE_TABLE = "likes";
 const COMMENT_TABLE = "comments";
 const NOTIFICATION_TABLE = "notifications";
 const BANK_TRANSFER_TABLE = "banktransfers";
+const LEDGER_TABLE = "ledger";
+const SCHEDULE_TABLE = "schedules";
+const SPLIT_TABLE = "splits";
+const EXCHANGE_RATE_TABLE = "exchangerates";
+const IDEMPOTENCY_KEY_TABLE = "idempotencykeys";
+const DISPUTE_TABLE = "disputes";
+const RISK_EVALUATION_TABLE = "riskevaluations";
+const AUDIT_LOG_TABLE = "auditlog";
+const TRANSACTION_LABEL_TABLE = "transactionlabels";
+const BUDGET_TABLE = "budgets";
+const GROUP_TABLE = "groups";
+const GROUP_MEMBER_TABLE = "groupmembers";
 
 const databaseFile = path.join(__dirname, "../data/database.json");
 const adapter = new FileSync<DbSchema>(databaseFile);
 
 const db = low(adapter);
 
+// Sensitive fields are encrypted at rest; the helpers below encrypt them on write and decrypt
+// them on read, so they cannot be used as lookup keys
+const encryptedFields: { [entity in keyof DbSchema]?: string[] } = {
+  [USER_TABLE]: ["email", "phoneNumber"],
+  [BANK_ACCOUNT_TABLE]: ["accountNumber"],
+};
+
+export const encryptRecord =
+  (entity: keyof DbSchema) =>
+  <T extends object>(record: T): T =>
+    encryptFields(encryptedFields[entity] || [], record);
+
+const decryptRecord =
+  (entity: keyof DbSchema) =>
+  <T extends object>(record: T): T =>
+    record && decryptFields(encryptedFields[entity] || [], record);
+
+const decryptRecords = <K extends keyof DbSchema>(entity: K, records: DbSchema[K]) =>
+  (records as Array<DbSchema[K][number]>).map(decryptRecord(entity)) as DbSchema[K];
+
+// Encrypts (or re-encrypts under the current key) every sensitive field in a database snapshot
+export const encryptDatabase = (database: TDatabase): TDatabase =>
+  (keys(encryptedFields) as Array<keyof DbSchema>).reduce(
+    (result, entity) => ({
+      ...result,
+      [entity]: (result[entity] as object[]).map(encryptRecord(entity)),
+    }),
+    database
+  );
+
+// Audit Log
+
+const auditedTables: Array<keyof DbSchema> = [
+  USER_TABLE,
+  CONTACT_TABLE,
+  BANK_ACCOUNT_TABLE,
+  TRANSACTION_TABLE,
+  LIKE_TABLE,
+  COMMENT_TABLE,
+  NOTIFICATION_TABLE,
+  BANK_TRANSFER_TABLE,
+  SCHEDULE_TABLE,
+  SPLIT_TABLE,
+  EXCHANGE_RATE_TABLE,
+  DISPUTE_TABLE,
+  RISK_EVALUATION_TABLE,
+  TRANSACTION_LABEL_TABLE,
+  BUDGET_TABLE,
+  GROUP_TABLE,
+  GROUP_MEMBER_TABLE,
+];
+
+// Values that must not be readable in the audit log
+const auditRedactedFields: { [entity in keyof DbSchema]?: string[] } = {
+  ...encryptedFields,
+  [USER_TABLE]: ["email", "phoneNumber", "password"],
+};
+
+// Each audited record as it was last written, serialized so later in-place edits do not touch it
+type AuditSnapshot = { [entity: string]: { [id: string]: string } };
+
+const getTableSnapshot = (state: DbSchema, entity: keyof DbSchema) =>
+  fromPairs(
+    ((state[entity] || []) as Array<{ id: string }>).map((record) => [
+      record.id,
+      JSON.stringify(record),
+    ])
+  );
+
+// Only the tables an API call reads or writes are snapshotted, the first time it gets them, so
+// writes outside an API call and untouched tables cost nothing
+const auditSnapshots = new WeakMap<AuditContext, AuditSnapshot>();
+
+const snapshotAuditedTable = (entity: keyof DbSchema) => {
+  const context = getAuditContext();
+
+  if (!context || !auditedTables.includes(entity)) {
+    return;
+  }
+
+  const snapshot = auditSnapshots.get(context) || {};
+  if (!snapshot[entity]) {
+    auditSnapshots.set(context, { ...snapshot, [entity]: getTableSnapshot(db.getState(), entity) });
+  }
+};
+
+const getDatabaseTable = db.get.bind(db);
+db.get = ((entity: keyof DbSchema) => {
+  snapshotAuditedTable(entity);
+  return getDatabaseTable(entity);
+}) as typeof db.get;
+
+const getAuditAction = (before?: string, after?: string) => {
+  if (!before) {
+    return AuditAction.create;
+  }
+  return after ? AuditAction.update : AuditAction.delete;
+};
+
+const parseAuditRecord = (entity: keyof DbSchema, record?: string) =>
+  record ? decryptRecord(entity)(JSON.parse(record)) : undefined;
+
+// Both versions are decrypted first; encrypted values are re-encrypted with a new IV on every
+// save, so their ciphertext changes even when the value does not
+const getAuditEntries = (
+  previous: AuditSnapshot,
+  current: AuditSnapshot,
+  entity: keyof DbSchema
+): AuditLogEntry[] =>
+  union(keys(previous[entity]), keys(current[entity])).flatMap((entityId) => {
+    const before = previous[entity][entityId];
+    const after = current[entity][entityId];
+    const changes =
+      before !== after &&
+      diffRecords(
+        parseAuditRecord(entity, before),
+        parseAuditRecord(entity, after),
+        auditRedactedFields[entity]
+      );
+
+    return changes && !isEmpty(changes)
+      ? [
+          {
+            id: shortid(),
+            uuid: v4(),
+            ...getAuditContext()!,
+            entity,
+            entityId,
+            action: getAuditAction(before, after),
+            changes,
+            createdAt: new Date(),
+          },
+        ]
+      : [];
+  });
+
+// Every write made while an API call is being audited appends what it changed to the log.
+// Writes from the sweepers and the test data routes are not audited.
+const appendAuditLog = (state: DbSchema) => {
+  const context = getAuditContext();
+  const previous = context && auditSnapshots.get(context);
+
+  if (!context || !previous) {
+    return state;
+  }
+
+  const entities = keys(previous) as Array<keyof DbSchema>;
+  const current: AuditSnapshot = fromPairs(
+    entities.map((entity) => [entity, getTableSnapshot(state, entity)])
+  );
+
+  state[AUDIT_LOG_TABLE] = [
+    ...(state[AUDIT_LOG_TABLE] || []),
+    ...entities.flatMap((entity) => getAuditEntries(previous, current, entity)),
+  ];
+  auditSnapshots.set(context, current);
+
+  return state;
+};
+
+const writeDatabaseFile = adapter.write.bind(adapter);
+adapter.write = (state: DbSchema) => writeDatabaseFile(appendAuditLog(state));
+
+// Changes to the record, oldest first
+export const getAuditLogForEntity = (entity: keyof DbSchema, entityId: string): AuditLogEntry[] =>
+  sortBy("createdAt", getAllByObj(AUDIT_LOG_TABLE, { entity, entityId }));
+
 export const seedDatabase = () => {
   const testSeed = JSON.parse(
     fs.readFileSync(path.join(process.cwd(), "data", "database-seed.json"), "utf-8")
@@ -101,41 +449,42 @@ export const seedDatabase = () => {
   return;
 };
 
-export const getAllUsers = () => db.get(USER_TABLE).value();
+export const getAllUsers = () => decryptRecords(USER_TABLE, db.get(USER_TABLE).value());
 
 export const getAllPublicTransactions = () =>
   db.get(TRANSACTION_TABLE).filter({ privacyLevel: DefaultPrivacyLevel.public }).value();
 
-export const getAllForEntity = (entity: keyof DbSchema) => db.get(entity).value();
+export const getAllForEntity = <K extends keyof DbSchema>(entity: K) =>
+  decryptRecords(entity, db.get(entity).value() as DbSchema[K]);
 
-export const getAllBy = (entity: keyof DbSchema, key: string, value: any) => {
+export const getAllBy = <K extends keyof DbSchema>(entity: K, key: string, value: any) => {
   const result = db
     .get(entity)
     // @ts-ignore
     .filter({ [`${key}`]: value })
     .value();
 
-  return result;
+  return decryptRecords(entity, result);
 };
 
-export const getBy = (entity: keyof DbSchema, key: string, value: any) => {
+export const getBy = <K extends keyof DbSchema>(entity: K, key: string, value: any) => {
   const result = db
     .get(entity)
     // @ts-ignore
     .find({ [`${key}`]: value })
     .value();
 
-  return result;
+  return decryptRecord(entity)(result);
 };
 
-export const getAllByObj = (entity: keyof DbSchema, query: object) => {
+export const getAllByObj = <K extends keyof DbSchema>(entity: K, query: object) => {
   const result = db
     .get(entity)
     // @ts-ignore
     .filter(query)
     .value();
 
-  return result;
+  return decryptRecords(entity, result);
 };
 
 // Search
@@ -186,7 +535,8 @@ export const createUser = (userDetails: Partial<User>): User => {
     password,
     email: userDetails.email!,
     phoneNumber: userDetails.phoneNumber!,
-    balance: userDetails.balance! || 0,
+    balance: 0, // derived from the ledger, see postLedgerMovements
+    currency: userDetails.currency || DEFAULT_CURRENCY,
     avatar: userDetails.avatar!,
     defaultPrivacyLevel: userDetails.defaultPrivacyLevel!,
     createdAt: new Date(),
@@ -194,17 +544,22 @@ export const createUser = (userDetails: Partial<User>): User => {
   };
 
   saveUser(user);
-  return user;
+
+  return getUserById(user.id);
 };
 
 const saveUser = (user: User) => {
-  db.get(USER_TABLE).push(user).write();
+  db.get(USER_TABLE).push(encryptRecord(USER_TABLE)(user)).write();
 };
 
 export const updateUserById = (userId: string, edits: Partial<User>) => {
   const user = getUserById(userId);
 
-  db.get(USER_TABLE).find(user).assign(edits).write();
+  // balance is derived from the ledger and can only change through a ledger movement
+  db.get(USER_TABLE)
+    .find({ id: user.id })
+    .assign(encryptRecord(USER_TABLE)(omit("balance", edits)))
+    .write();
 };
 
 // Contact
@@ -256,7 +611,7 @@ export const getBankAccountsBy = (key: string, value: any) =>
   getAllBy(BANK_ACCOUNT_TABLE, key, value);
 
 export const createBankAccount = (bankaccount: BankAccount) => {
-  db.get(BANK_ACCOUNT_TABLE).push(bankaccount).write();
+  db.get(BANK_ACCOUNT_TABLE).push(encryptRecord(BANK_ACCOUNT_TABLE)(bankaccount)).write();
 
   // manual lookup after create
   return getBankAccountBy("id", bankaccount.id);
@@ -271,6 +626,9 @@ export const createBankAccountForUser = (userId: string, accountDetails: Partial
     bankName: accountDetails.bankName!,
     accountNumber: accountDetails.accountNumber!,
     routingNumber: accountDetails.routingNumber!,
+    verificationStatus: BankAccountVerificationStatus.unverified,
+    verificationAttempts: 0,
+    isDefault: false, // only a verified account can become the default, see verifyBankAccount
     isDeleted: false,
     createdAt: new Date(),
     modifiedAt: new Date(),
@@ -279,30 +637,140 @@ export const createBankAccountForUser = (userId: string, accountDetails: Partial
   // Write bank account record to the database
   const result = createBankAccount(bankaccount);
 
+  createMicroDepositsForBankAccount(result);
+
   return result;
 };
 
 export const removeBankAccountById = (bankAccountId: string) => {
   db.get(BANK_ACCOUNT_TABLE)
     .find({ id: bankAccountId })
-    .assign({ isDeleted: true }) // soft delete
+    .assign({ isDeleted: true, isDefault: false }) // soft delete
+    .write();
+};
+
+export const getDefaultBankAccountForUser = (userId: User["id"]): BankAccount | undefined =>
+  getAllByObj(BANK_ACCOUNT_TABLE, { userId, isDefault: true, isDeleted: false })[0];
+
+export const updateBankAccountById = (
+  bankAccountId: BankAccount["id"],
+  edits: BankAccountUpdatePayload
+) => {
+  const bankAccount = getBankAccountById(bankAccountId);
+
+  // only one account per user can be the default
+  if (edits.isDefault) {
+    db.get(BANK_ACCOUNT_TABLE)
+      .filter({ userId: bankAccount.userId, isDefault: true })
+      .each((account) => {
+        account.isDefault = false;
+      })
+      .value();
+  }
+
+  db.get(BANK_ACCOUNT_TABLE)
+    .find({ id: bankAccountId })
+    .assign({
+      ...pickBy((value) => value !== undefined, pick(["bankName", "isDefault"], edits)),
+      modifiedAt: new Date(),
+    })
+    .write();
+
+  return getBankAccountById(bankAccountId);
+};
+
+// A restored account only becomes the default when the user has no other default
+export const restoreBankAccountById = (bankAccountId: BankAccount["id"]) => {
+  const bankAccount = getBankAccountById(bankAccountId);
+
+  db.get(BANK_ACCOUNT_TABLE)
+    .find({ id: bankAccountId })
+    .assign({
+      isDeleted: false,
+      isDefault:
+        isVerifiedBankAccount(bankAccount) && !getDefaultBankAccountForUser(bankAccount.userId),
+      modifiedAt: new Date(),
+    })
+    .write();
+
+  return getBankAccountById(bankAccountId);
+};
+
+export const isActiveBankAccountForUser = (userId: User["id"], bankAccountId: string) => {
+  const bankAccount: BankAccount = getBankAccountById(bankAccountId);
+
+  return !!bankAccount && bankAccount.userId === userId && !bankAccount.isDeleted;
+};
+
+// Reason the bank account cannot fund a transaction or transfer for the user, if any
+export const getBankAccountSourceError = (userId: User["id"], bankAccountId: string) => {
+  if (!isActiveBankAccountForUser(userId, bankAccountId)) {
+    return "Bank account not found";
+  }
+  if (!isVerifiedBankAccount(getBankAccountById(bankAccountId))) {
+    return "Bank account is not verified";
+  }
+};
+
+// Bank Account Verification
+
+export const getMicroDepositsForBankAccount = (bankAccountId: BankAccount["id"]): BankTransfer[] =>
+  getAllByObj(BANK_TRANSFER_TABLE, { source: bankAccountId, type: BankTransferType.microDeposit });
+
+// The deposits are simulated, so they are recorded without moving money on the ledger
+export const createMicroDepositsForBankAccount = (bankAccount: BankAccount) =>
+  createMicroDepositAmounts().map((amount) =>
+    createBankTransfer({
+      userId: bankAccount.userId,
+      source: bankAccount.id,
+      amount,
+      currency: getCurrency(getUserById(bankAccount.userId)),
+      type: BankTransferType.microDeposit,
+      status: BankTransferStatus.complete,
+    })
+  );
+
+// Every wrong guess counts as an attempt; the account is locked once none are left
+export const verifyBankAccount = (bankAccountId: BankAccount["id"], amounts: number[]) => {
+  const bankAccount: BankAccount = getBankAccountById(bankAccountId);
+  const expectedAmounts = map("amount", getMicroDepositsForBankAccount(bankAccountId));
+  const isMatch = matchesMicroDepositAmounts(
+    expectedAmounts,
+    amounts.map((amount) => Math.round(amount * 100))
+  );
+  const verificationAttempts = bankAccount.verificationAttempts + (isMatch ? 0 : 1);
+
+  db.get(BANK_ACCOUNT_TABLE)
+    .find({ id: bankAccountId })
+    .assign({
+      verificationStatus: isMatch
+        ? BankAccountVerificationStatus.verified
+        : verificationAttempts >= MAX_BANK_ACCOUNT_VERIFICATION_ATTEMPTS
+        ? BankAccountVerificationStatus.locked
+        : BankAccountVerificationStatus.unverified,
+      verificationAttempts,
+      // the user's first verified account becomes the default
+      isDefault:
+        bankAccount.isDefault || (isMatch && !getDefaultBankAccountForUser(bankAccount.userId)),
+      modifiedAt: new Date(),
+    })
     .write();
+
+  return getBankAccountById(bankAccountId);
 };
 
 // Bank Transfer
-// Note: Balance transfers from/to bank accounts is a future feature,
-// but some of the backend database functionality is already implemented here.
 
-/* istanbul ignore next */
 export const getBankTransferBy = (key: string, value: any) =>
   getBy(BANK_TRANSFER_TABLE, key, value);
 
+export const getBankTransferById = (id: string): BankTransfer => getBankTransferBy("id", id);
+
 export const getBankTransfersBy = (key: string, value: any) =>
   getAllBy(BANK_TRANSFER_TABLE, key, value);
 
 export const getBankTransfersByUserId = (userId: string) => getBankTransfersBy("userId", userId);
 
-/* istanbul ignore next */
 export const createBankTransfer = (bankTransferDetails: BankTransferPayload) => {
   const bankTransfer: BankTransfer = {
     id: shortid(),
@@ -316,7 +784,6 @@ export const createBankTransfer = (bankTransferDetails: BankTransferPayload) =>
   return savedBankTransfer;
 };
 
-/* istanbul ignore next */
 const saveBankTransfer = (bankTransfer: BankTransfer): BankTransfer => {
   db.get(BANK_TRANSFER_TABLE).push(bankTransfer).write();
 
@@ -324,6 +791,47 @@ const saveBankTransfer = (bankTransfer: BankTransfer): BankTransfer => {
   return getBankTransferBy("id", bankTransfer.id);
 };
 
+export const createBankTransferForUser = (
+  userId: User["id"],
+  transferType: BankTransferType,
+  transferDetails: BankTransferCreatePayload
+) => {
+  const bankTransfer = createBankTransfer({
+    userId,
+    source: transferDetails.source,
+    amount: Math.round(transferDetails.amount * 100),
+    currency: getCurrency(getUserById(userId)),
+    type: transferType,
+    status: BankTransferStatus.pending,
+  });
+
+  return completeBankTransfer(bankTransfer.id);
+};
+
+// A deposit moves money from the bank account into the pay app balance, a withdrawal moves it out
+export const completeBankTransfer = (bankTransferId: BankTransfer["id"]) => {
+  const bankTransfer = getBankTransferById(bankTransferId);
+  const bankAccount = bankAccountLedgerAccount(bankTransfer.source);
+  const userAccount = userLedgerAccount(bankTransfer.userId);
+  const isDeposit = bankTransfer.type === BankTransferType.deposit;
+
+  db.get(BANK_TRANSFER_TABLE)
+    .find({ id: bankTransferId })
+    .assign({ status: BankTransferStatus.complete, modifiedAt: new Date() })
+    .value();
+
+  postLedgerMovements([
+    {
+      debit: isDeposit ? bankAccount : userAccount,
+      credit: isDeposit ? userAccount : bankAccount,
+      amount: bankTransfer.amount,
+      bankTransferId,
+    },
+  ]);
+
+  return getBankTransferById(bankTransferId);
+};
+
 // Transaction
 
 export const getTransactionBy = (key: string, value: any) => getBy(TRANSACTION_TABLE, key, value);
@@ -340,38 +848,82 @@ export const getTransactionsForUserForApi = (userId: string, query?: object) =>
 
 export const getFullNameForUser = (userId: User["id"]) => flow(getUserById, formatFullName)(userId);
 
+// A group stands in for a user on its side of a group payment
+const getTransactionPartyDetails = (transaction: Transaction, partyId: string) => {
+  if (partyId === transaction.groupId) {
+    return { name: getGroupById(partyId).name, avatar: "" };
+  }
+  const user = getUserById(partyId);
+
+  return { name: formatFullName(user), avatar: user.avatar };
+};
+
+const getTransactionPartyBalance = (transaction: Transaction, partyId: string) =>
+  partyId === transaction.groupId ? getGroupById(partyId).balance : getUserById(partyId).balance;
+
 export const formatTransactionForApiResponse = (
   transaction: Transaction
 ): TransactionResponseItem => {
-  const receiver = getUserById(transaction.receiverId);
-  const sender = getUserById(transaction.senderId);
-
-  const receiverName = getFullNameForUser(transaction.receiverId);
-  const senderName = getFullNameForUser(transaction.senderId);
+  const receiver = getTransactionPartyDetails(transaction, transaction.receiverId);
+  const sender = getTransactionPartyDetails(transaction, transaction.senderId);
   const likes = getLikesByTransactionId(transaction.id);
   const comments = getCommentsByTransactionId(transaction.id);
+  const schedule = transaction.scheduleId
+    ? getScheduleSummary(getScheduleById(transaction.scheduleId))
+    : undefined;
+  const split = transaction.splitId ? getSplitSummaryById(transaction.splitId) : undefined;
+  const refunds = isRefundableTransaction(transaction)
+    ? map(formatLinkedTransaction, getRefundsForTransaction(transaction.id))
+    : undefined;
+  const refundableAmount = isRefundableTransaction(transaction)
+    ? getRefundableAmount(transaction)
+    : undefined;
+  const requestPayments = isRequestTransaction(transaction)
+    ? map(formatLinkedTransaction, getPaymentsForRequest(transaction.id))
+    : undefined;
+  const paidAmount = isRequestTransaction(transaction)
+    ? getRequestPaidAmount(transaction)
+    : undefined;
+  const payableAmount = isPayableRequestTransaction(transaction)
+    ? getRequestPayableAmount(transaction)
+    : undefined;
 
   return {
-    receiverName,
-    senderName,
+    receiverName: receiver.name,
+    senderName: sender.name,
     receiverAvatar: receiver.avatar,
     senderAvatar: sender.avatar,
     likes,
     comments,
-    ...transaction,
+    schedule,
+    split,
+    refunds,
+    refundableAmount,
+    requestPayments,
+    paidAmount,
+    payableAmount,
+    ...omit(["balanceAtCompletion", "receiverBalanceAtCompletion"], transaction),
   };
 };
 
+const formatLinkedTransaction = ({
+  id,
+  amount,
+  currency,
+  receiverAmount,
+  createdAt,
+}: Transaction): LinkedTransaction => ({ id, amount, currency, receiverAmount, createdAt });
+
 export const formatTransactionsForApiResponse = (
   transactions: Transaction[]
 ): TransactionResponseItem[] =>
   orderBy(
-    [(transaction: Transaction) => new Date(transaction.modifiedAt)],
+    [(transaction: TransactionResponseItem) => new Date(transaction.modifiedAt)],
     ["desc"],
     transactions.map((transaction) => formatTransactionForApiResponse(transaction))
   );
 
-export const getAllTransactionsForUserByObj = curry((userId: string, query?: object) => {
+export const getAllTransactionsForUserByObj = curry((userId: string, query: object) => {
   const queryWithoutFilterFields = query && getQueryWithoutFilterFields(query);
 
   const queryFields = queryWithoutFilterFields || query;
@@ -387,18 +939,45 @@ export const getAllTransactionsForUserByObj = curry((userId: string, query?: obj
     },
   ]);
 
-  if (query && (hasDateQueryFields(query) || hasAmountQueryFields(query))) {
+  if (
+    query &&
+    (hasDateQueryFields(query) || hasAmountQueryFields(query) || hasLabelQueryFields(query))
+  ) {
     const { dateRangeStart, dateRangeEnd } = getDateQueryFields(query);
     const { amountMin, amountMax } = getAmountQueryFields(query);
 
     return flow(
       transactionsWithinDateRange(dateRangeStart!, dateRangeEnd!),
-      transactionsWithinAmountRange(amountMin!, amountMax!)
+      transactionsWithinAmountRange(amountMin!, amountMax!),
+      transactionsWithLabels(userId, getLabelQueryFields(query))
     )(userTransactions);
   }
   return userTransactions;
 });
 
+// Only the user's own labels are matched
+export const transactionsWithLabels = curry(
+  (
+    userId: string,
+    { category, tag }: TransactionLabelQueryPayload,
+    transactions: Transaction[]
+  ) => {
+    if (!category && !tag) {
+      return transactions;
+    }
+
+    return filter((transaction: Transaction) => {
+      const label = getTransactionLabel(userId, transaction.id);
+
+      return (
+        !!label &&
+        (!category || label.category === category) &&
+        (!tag || includes(normalizeTags([tag])[0], label.tags))
+      );
+    }, transactions);
+  }
+);
+
 export const transactionsWithinAmountRange = curry(
   (amountMin: number, amountMax: number, transactions: Transaction[]) => {
     if (!amountMin || !amountMax) {
@@ -436,14 +1015,16 @@ export const getTransactionsForUserByObj = curry((userId: string, query: object)
 export const getContactIdsForUser = (userId: string): Contact["id"][] =>
   flow(getContactsByUserId, map("contactUserId"))(userId);
 
+// Cancelled requests were withdrawn, so they only show in the feeds of the two users involved.
+// Labels are private, so they do not filter the feeds of other users.
 export const getTransactionsForUserContacts = (userId: string, query?: object) =>
-  uniqBy(
-    "id",
-    flatMap(
-      (contactId) => getTransactionsForUserForApi(contactId, query),
-      getContactIdsForUser(userId)
-    )
-  );
+  flow(
+    flatMap((contactId: string) =>
+      getTransactionsForUserForApi(contactId, query && omitLabelQueryFields(query))
+    ),
+    uniqBy("id"),
+    reject(isCancelledRequestTransaction)
+  )(getContactIdsForUser(userId));
 
 export const getTransactionIds = (transactions: Transaction[]) => map("id", transactions);
 
@@ -454,7 +1035,8 @@ export const nonContactPublicTransactions = (userId: string): Transaction[] => {
   const contactsTransactionIds = getContactsTransactionIds(userId);
   return flow(
     getAllPublicTransactions,
-    reject((transaction: Transaction) => includes(transaction.id, contactsTransactionIds))
+    reject((transaction: Transaction) => includes(transaction.id, contactsTransactionIds)),
+    reject(isCancelledRequestTransaction)
   )();
 };
 
@@ -486,24 +1068,163 @@ export const getPublicTransactionsByQuery = (userId: string, query: TransactionQ
   }
 };
 
-export const resetPayAppBalance = constant(0);
+// Ledger
+
+export const getLedgerEntriesByObj = (query: object): LedgerEntry[] =>
+  getAllByObj(LEDGER_TABLE, query);
+
+export const getLedgerEntriesForUser = (userId: User["id"]) =>
+  getLedgerEntriesByObj(userLedgerAccount(userId));
+
+export const getLedgerEntriesByTransactionId = (transactionId: Transaction["id"]) =>
+  getLedgerEntriesByObj({ transactionId });
+
+export const getLedgerBalanceForUser = (userId: User["id"]) =>
+  flow(getLedgerEntriesForUser, getLedgerBalance)(userId);
+
+export const getLedgerBalanceForGroup = (groupId: Group["id"]) =>
+  flow(groupLedgerAccount, getLedgerEntriesByObj, getLedgerBalance)(groupId);
+
+// Records each movement as a balanced debit/credit pair and refreshes the derived balances
+// of the users and groups involved. Everything is persisted in a single write so that a failure
+// cannot leave one side of a movement recorded without the other.
+export const postLedgerMovements = (movements: LedgerMovement[]): LedgerEntry[] => {
+  const entries = flatMap(createLedgerEntries(new Date()), movements);
+
+  db.get(LEDGER_TABLE)
+    .push(...entries)
+    .value();
+
+  const userIds: string[] = flow(
+    filter({ accountType: LedgerAccountType.user }),
+    map("accountId"),
+    uniq
+  )(entries);
+
+  userIds.forEach((userId) => {
+    db.get(USER_TABLE)
+      .find({ id: userId })
+      .assign({ balance: getLedgerBalanceForUser(userId) })
+      .value();
+  });
+
+  const groupIds: string[] = flow(
+    filter({ accountType: LedgerAccountType.group }),
+    map("accountId"),
+    uniq
+  )(entries);
+
+  groupIds.forEach((groupId) => {
+    db.get(GROUP_TABLE)
+      .find({ id: groupId })
+      .assign({ balance: getLedgerBalanceForGroup(groupId) })
+      .value();
+  });
+
+  db.write();
+  return entries;
+};
+
+// Moves the user's balance to the given amount against the opening balance (equity) account;
+// only for seeding and migrations, users' balances change through transactions
+export const adjustPayAppBalance = (userId: User["id"], balance: number) => {
+  const difference = balance - getLedgerBalanceForUser(userId);
+
+  if (difference === 0) {
+    return [];
+  }
+
+  return postLedgerMovements([
+    difference > 0
+      ? {
+          debit: openingBalanceLedgerAccount,
+          credit: userLedgerAccount(userId),
+          amount: difference,
+        }
+      : {
+          debit: userLedgerAccount(userId),
+          credit: openingBalanceLedgerAccount,
+          amount: Math.abs(difference),
+        },
+  ]);
+};
+
+// Tops the payer's balance up from the transaction's bank account when it is too low
+const getBankTopUpMovements = (payer: User, payerTransaction: Transaction): LedgerMovement[] => {
+  /* istanbul ignore next */
+  if (hasSufficientFunds(payer, payerTransaction)) {
+    return [];
+  }
+  const bankTransfer = flow(
+    getTransferAmount(payer),
+    createBankTransferWithdrawal(payer, payerTransaction)
+  )(payerTransaction);
+
+  return [
+    {
+      debit: bankAccountLedgerAccount(payerTransaction.source),
+      credit: userLedgerAccount(payer.id),
+      amount: bankTransfer.amount,
+      transactionId: payerTransaction.id,
+      bankTransferId: bankTransfer.id,
+    },
+  ];
+};
+
+// Each side of the transfer moves the transaction amount in its own currency
+export const transferPayAppBalance = (payer: User, payee: User, transaction: Transaction) => {
+  const movements: LedgerMovement[] = [];
+  const payerAmount = getTransactionAmountForUser(payer.id, transaction);
+  const payeeAmount = getTransactionAmountForUser(payee.id, transaction);
+
+  movements.push(...getBankTopUpMovements(payer, { ...transaction, amount: payerAmount }));
 
-export const debitPayAppBalance = (user: User, transaction: Transaction) => {
-  if (hasSufficientFunds(user, transaction)) {
-    flow(getChargeAmount, savePayAppBalance(user))(user, transaction);
+  if (getCurrency(payer) === getCurrency(payee)) {
+    movements.push({
+      debit: userLedgerAccount(payer.id),
+      credit: userLedgerAccount(payee.id),
+      amount: payerAmount,
+      transactionId: transaction.id,
+    });
   } else {
-    /* istanbul ignore next */
-    flow(
-      getTransferAmount(user),
-      createBankTransferWithdrawal(user, transaction),
-      resetPayAppBalance,
-      savePayAppBalance(user)
-    )(transaction);
+    movements.push(
+      {
+        debit: userLedgerAccount(payer.id),
+        credit: exchangeLedgerAccount(getCurrency(payer)),
+        amount: payerAmount,
+        transactionId: transaction.id,
+      },
+      {
+        debit: exchangeLedgerAccount(getCurrency(payee)),
+        credit: userLedgerAccount(payee.id),
+        amount: payeeAmount,
+        transactionId: transaction.id,
+      }
+    );
   }
+
+  return postLedgerMovements(movements);
 };
 
-export const creditPayAppBalance = (user: User, transaction: Transaction) =>
-  flow(getPayAppCreditedAmount, savePayAppBalance(user))(user, transaction);
+// Group wallets hold the currency of all of their members, so no exchange is needed. A member
+// paying in is topped up from their bank account like for any other payment; a group is not.
+export const transferGroupBalance = (transaction: Transaction) => {
+  const getPartyAccount = (partyId: string) =>
+    partyId === transaction.groupId ? groupLedgerAccount(partyId) : userLedgerAccount(partyId);
+  const movements: LedgerMovement[] =
+    transaction.senderId === transaction.groupId
+      ? []
+      : getBankTopUpMovements(getUserById(transaction.senderId), transaction);
+
+  movements.push({
+    debit: getPartyAccount(transaction.senderId),
+    credit: getPartyAccount(transaction.receiverId),
+    amount: transaction.amount,
+    transactionId: transaction.id,
+  });
+
+  return postLedgerMovements(movements);
+};
 
 /* istanbul ignore next */
 export const createBankTransferWithdrawal = curry(
@@ -512,14 +1233,61 @@ export const createBankTransferWithdrawal = curry(
       userId: sender.id,
       source: transaction.source,
       amount: transferAmount,
+      currency: getCurrency(sender),
       transactionId: transaction.id,
       type: BankTransferType.withdrawal,
+      status: BankTransferStatus.complete,
     })
 );
 
-export const savePayAppBalance = curry((sender: User, balance: number) =>
-  updateUserById(get("id", sender), { balance })
-);
+export const checkLedgerConsistency = (): LedgerConsistencyReport => {
+  const unbalancedJournalIds: string[] = flow(
+    groupBy("journalId"),
+    pickBy(negate(isBalancedJournal)),
+    keys
+  )(getAllForEntity(LEDGER_TABLE));
+
+  // group wallets hold money of their own, so they are reconciled like users
+  const balanceMismatches = [
+    ...getAllUsers().map((user: User) => ({
+      userId: user.id,
+      balance: user.balance,
+      ledgerBalance: getLedgerBalanceForUser(user.id),
+    })),
+    ...getAllForEntity(GROUP_TABLE).map((group: Group) => ({
+      groupId: group.id,
+      balance: group.balance,
+      ledgerBalance: getLedgerBalanceForGroup(group.id),
+    })),
+  ].filter(
+    ({ balance, ledgerBalance }: { balance: number; ledgerBalance: number }) =>
+      balance !== ledgerBalance
+  );
+
+  return {
+    isConsistent: isEmpty(unbalancedJournalIds) && isEmpty(balanceMismatches),
+    unbalancedJournalIds,
+    balanceMismatches,
+  };
+};
+
+// Exchange Rates
+
+export const getAllExchangeRates = (): ExchangeRate[] => db.get(EXCHANGE_RATE_TABLE).value();
+
+export const getExchangeRateByCurrency = (currency: CurrencyCode): ExchangeRate =>
+  getBy(EXCHANGE_RATE_TABLE, "currency", currency);
+
+export const getExchangeRateForCurrencies = (from: CurrencyCode, to: CurrencyCode) =>
+  getExchangeRate(getAllExchangeRates(), from, to);
+
+export const updateExchangeRate = (currency: CurrencyCode, rate: number) => {
+  db.get(EXCHANGE_RATE_TABLE).find({ currency }).assign({ rate, modifiedAt: new Date() }).write();
+
+  return getExchangeRateByCurrency(currency);
+};
+
+export const getRequestExpiresAt = () => addDays(now(), +process.env.REQUEST_EXPIRY_DAYS! || 7);
 
 export const createTransaction = (
   userId: User["id"],
@@ -528,35 +1296,63 @@ export const createTransaction = (
 ): Transaction => {
   const sender = getUserById(userId);
   const receiver = getUserById(transactionDetails.receiverId);
+  const group = transactionDetails.groupId ? getGroupById(transactionDetails.groupId) : undefined;
+  const amount = Math.round(transactionDetails.amount * 100);
+  const currency = getCurrency(group || sender);
+  // a group is the receiver of contributions, and the sender of payouts
+  const receiverCurrency = getCurrency(receiver || group);
+  const linkedTransactionId = transactionDetails.refundOf || transactionDetails.requestId;
+  // the rate is fixed when the transaction is created, also for requests accepted later
+  const exchangeRate = linkedTransactionId
+    ? getLinkedTransactionExchangeRate(getTransactionById(linkedTransactionId), currency)
+    : getExchangeRateForCurrencies(currency, receiverCurrency);
+  // checked before any balance changes; a held payment waits for review, a blocked one never completes
+  const riskEvaluation = isRiskCheckedPayment(transactionType, transactionDetails)
+    ? evaluateRiskRules(riskRules, getRiskContext(sender, receiver, amount))
+    : undefined;
+  const riskOutcome = riskEvaluation?.outcome;
   const transaction: Transaction = {
     id: shortid(),
     uuid: v4(),
     source: transactionDetails.source,
-    amount: transactionDetails.amount * 100,
+    amount,
+    currency,
+    exchangeRate,
+    ...(currency !== receiverCurrency && {
+      receiverCurrency,
+      receiverAmount: convertAmount(amount, exchangeRate),
+    }),
     description: transactionDetails.description,
     receiverId: transactionDetails.receiverId,
-    senderId: userId,
+    senderId: group && transactionDetails.receiverId !== group.id ? group.id : userId,
     privacyLevel: transactionDetails.privacyLevel || sender.defaultPrivacyLevel,
-    status: TransactionStatus.pending,
+    status:
+      riskOutcome === RiskOutcome.block ? TransactionStatus.incomplete : TransactionStatus.pending,
     requestStatus: transactionType === "request" ? TransactionRequestStatus.pending : undefined,
+    requestExpiresAt: transactionType === "request" ? getRequestExpiresAt() : undefined,
+    scheduleId: transactionDetails.scheduleId,
+    splitId: transactionDetails.splitId,
+    refundOf: transactionDetails.refundOf,
+    requestId: transactionDetails.requestId,
+    riskOutcome: riskOutcome === RiskOutcome.allow ? undefined : riskOutcome,
+    groupId: group?.id,
+    groupMemberId: group && userId,
+    lineItems: transactionDetails.lineItems && getLineItemBreakdown(transactionDetails.lineItems),
     createdAt: new Date(),
     modifiedAt: new Date(),
   };
 
   const savedTransaction = saveTransaction(transaction);
 
-  // if payment, debit sender's balance for payment amount
+  if (riskEvaluation) {
+    saveRiskEvaluation(transaction, riskEvaluation);
+  }
+
+  // if payment, move payment amount from sender's balance to receiver's balance
   if (isPayment(transaction)) {
-    debitPayAppBalance(sender, transaction);
-    creditPayAppBalance(receiver, transaction);
-    updateTransactionById(transaction.id, {
-      status: TransactionStatus.complete,
-    });
-    createPaymentNotification(
-      transaction.receiverId,
-      transaction.id,
-      PaymentNotificationStatus.received
-    );
+    if (!transaction.riskOutcome) {
+      completePayment(transaction);
+    }
   } else {
     createPaymentNotification(
       transaction.receiverId,
@@ -568,6 +1364,45 @@ export const createTransaction = (
   return savedTransaction;
 };
 
+const completePayment = (payment: Transaction) => {
+  if (isGroupTransaction(payment)) {
+    transferGroupBalance(payment);
+  } else {
+    transferPayAppBalance(getUserById(payment.senderId), getUserById(payment.receiverId), payment);
+  }
+  updateTransactionById(payment.id, {
+    status: TransactionStatus.complete,
+    ...getBalancesAtCompletion(payment),
+  });
+
+  if (isGroupTransaction(payment)) {
+    notifyGroupMembers(payment);
+  }
+  if (payment.receiverId !== payment.groupId) {
+    createPaymentNotification(
+      payment.receiverId,
+      payment.id,
+      getPaymentNotificationStatus(payment)
+    );
+  }
+};
+
+const getPaymentNotificationStatus = (payment: Transaction) => {
+  if (payment.refundOf) {
+    return PaymentNotificationStatus.refunded;
+  }
+  if (payment.requestId && getRequestPayableAmount(getTransactionById(payment.requestId)) > 0) {
+    return PaymentNotificationStatus.partiallyPaid;
+  }
+  return PaymentNotificationStatus.received;
+};
+
+// Balances of both parties right after the money for the transaction has moved
+const getBalancesAtCompletion = (transaction: Transaction) => ({
+  balanceAtCompletion: getTransactionPartyBalance(transaction, transaction.senderId),
+  receiverBalanceAtCompletion: getTransactionPartyBalance(transaction, transaction.receiverId),
+});
+
 const saveTransaction = (transaction: Transaction): Transaction => {
   db.get(TRANSACTION_TABLE).push(transaction).write();
 
@@ -581,11 +1416,36 @@ export const updateTransactionById = (transactionId: string, edits: Partial<Tran
   const sender = getUserById(senderId);
   const receiver = getUserById(receiverId);
 
-  // if payment, debit sender's balance for payment amount
-  if (isRequestTransaction(transaction)) {
-    debitPayAppBalance(receiver, transaction);
-    creditPayAppBalance(sender, transaction);
+  // a cancelled request is withdrawn by its sender without moving any money
+  if (edits.requestStatus === TransactionRequestStatus.cancelled) {
+    edits.status = TransactionStatus.incomplete;
+
+    createPaymentNotification(
+      transaction.receiverId,
+      transaction.id,
+      PaymentNotificationStatus.cancelled
+    );
+  } else if (
+    edits.requestStatus === TransactionRequestStatus.accepted &&
+    !isEmpty(getPaymentsForRequest(transactionId))
+  ) {
+    // the rest of a partly paid request is paid the same way as the earlier parts
+    createPaymentForRequest(transaction, {
+      amount: getRequestPayableAmount(transaction) / 100,
+      source: getRequestPaymentSource(transaction),
+    });
+    return;
+  } else if (edits.requestStatus === TransactionRequestStatus.rejected) {
+    // a rejected request is turned down by its payer without moving any money
+    edits.status = TransactionStatus.incomplete;
+  } else if (edits.requestStatus === TransactionRequestStatus.accepted) {
+    // an accepted request moves its amount from the receiver's balance to the sender's balance
+    transferPayAppBalance(receiver, sender, {
+      ...transaction,
+      source: getRequestPaymentSource(transaction),
+    });
     edits.status = TransactionStatus.complete;
+    Object.assign(edits, getBalancesAtCompletion(transaction));
 
     createPaymentNotification(
       transaction.senderId,
@@ -595,48 +1455,1203 @@ export const updateTransactionById = (transactionId: string, edits: Partial<Tran
   }
 
   db.get(TRANSACTION_TABLE).find(transaction).assign(edits).write();
-};
 
-// Likes
+  if (edits.status === TransactionStatus.complete) {
+    notifyReachedBudgetThresholds(getTransactionPayerId(transaction));
+  }
+};
 
-export const getLikeBy = (key: string, value: any): Like => getBy(LIKE_TABLE, key, value);
-export const getLikesByObj = (query: object) => getAllByObj(LIKE_TABLE, query);
+// Moves overdue pending requests to incomplete and notifies both parties
+export const expireOverdueRequests = (): Transaction[] => {
+  const expiredRequests: Transaction[] = filter(
+    isExpiredRequestTransaction(now()),
+    getTransactionsByObj({ status: TransactionStatus.pending })
+  );
 
-export const getLikeById = (id: string): Like => getLikeBy("id", id);
-export const getLikesByTransactionId = (transactionId: string) => getLikesByObj({ transactionId });
+  expiredRequests.forEach((transaction: Transaction) => {
+    db.get(TRANSACTION_TABLE)
+      .find({ id: transaction.id })
+      .assign({ status: TransactionStatus.incomplete, modifiedAt: now() })
+      .write();
 
-export const createLike = (userId: string, transactionId: string): Like => {
-  const like = {
-    id: shortid(),
-    uuid: v4(),
-    userId,
-    transactionId,
-    createdAt: new Date(),
-    modifiedAt: new Date(),
-  };
+    createPaymentNotification(
+      transaction.senderId,
+      transaction.id,
+      PaymentNotificationStatus.incomplete
+    );
+    createPaymentNotification(
+      transaction.receiverId,
+      transaction.id,
+      PaymentNotificationStatus.incomplete
+    );
+  });
 
-  const savedLike = saveLike(like);
-  return savedLike;
+  return expiredRequests;
 };
 
-export const createLikes = (userId: string, transactionId: string) => {
-  const { senderId, receiverId } = getTransactionById(transactionId);
+// Refunds
 
-  const like = createLike(userId, transactionId);
+export const getRefundsForTransaction = (transactionId: string): Transaction[] =>
+  getTransactionsByObj({ refundOf: transactionId });
 
-  /* istanbul ignore next */
-  if (userId !== senderId || userId !== receiverId) {
-    createLikeNotification(senderId, transactionId, like.id);
-    createLikeNotification(receiverId, transactionId, like.id);
-  } else if (userId === senderId) {
-    createLikeNotification(senderId, transactionId, like.id);
-  } else {
-    createLikeNotification(receiverId, transactionId, like.id);
-  }
+// Amount in the payee's currency that has not been returned yet
+export const getRefundableAmount = (transaction: Transaction) =>
+  getTransactionAmountForUser(getTransactionPayeeId(transaction), transaction) -
+  sumBy("amount", getRefundsForTransaction(transaction.id));
+
+// A refund is a payment back from the payee, so balances move as for any other payment
+export const createRefundForTransaction = (
+  transaction: Transaction,
+  refundDetails: TransactionRefundPayload
+): Transaction => {
+  const payeeId = getTransactionPayeeId(transaction);
+
+  return createTransaction(payeeId, "payment", {
+    source: refundDetails.source || "",
+    senderId: payeeId,
+    receiverId: getTransactionPayerId(transaction),
+    description: `Refund: ${transaction.description}`,
+    amount: refundDetails.amount,
+    privacyLevel: transaction.privacyLevel,
+    status: TransactionStatus.pending,
+    refundOf: transaction.id,
+  });
 };
 
-const saveLike = (like: Like): Like => {
-  db.get(LIKE_TABLE).push(like).write();
+// Request Payments
+
+export const getPaymentsForRequest = (requestId: string): Transaction[] =>
+  getTransactionsByObj({ requestId });
+
+// Amount of a request paid so far, in the requester's currency
+export const getRequestPaidAmount = (request: Transaction) =>
+  isAcceptedRequestTransaction(request)
+    ? request.amount
+    : sumBy(
+        (payment: Transaction) => getTransactionAmountForUser(request.senderId, payment),
+        getPaymentsForRequest(request.id)
+      );
+
+// Amount of a request left to pay, in the payer's currency; nothing is left once it is settled
+export const getRequestPayableAmount = (request: Transaction) =>
+  isPayableRequestTransaction(request)
+    ? getTransactionAmountForUser(request.receiverId, request) -
+      sumBy("amount", getPaymentsForRequest(request.id))
+    : 0;
+
+// The request's own source is the requester's bank account, so accepting it tops up the
+// payer's balance from the payer's default bank account, if they have one
+export const getRequestPaymentSource = (request: Transaction) =>
+  getDefaultBankAccountForUser(request.receiverId)?.id || "";
+
+// Each part is a payment of its own; the request is settled once it has been paid in full
+export const createPaymentForRequest = (
+  request: Transaction,
+  paymentDetails: TransactionRequestPaymentPayload
+): Transaction => {
+  const payment = createTransaction(request.receiverId, "payment", {
+    source: paymentDetails.source || "",
+    senderId: request.receiverId,
+    receiverId: request.senderId,
+    description: `Payment: ${request.description}`,
+    amount: paymentDetails.amount,
+    privacyLevel: request.privacyLevel,
+    status: TransactionStatus.pending,
+    requestId: request.id,
+  });
+
+  if (getRequestPayableAmount(request) <= 0) {
+    db.get(TRANSACTION_TABLE)
+      .find({ id: request.id })
+      .assign({
+        requestStatus: TransactionRequestStatus.accepted,
+        status: TransactionStatus.complete,
+        ...getBalancesAtCompletion(request),
+        modifiedAt: new Date(),
+      })
+      .write();
+  }
+
+  return payment;
+};
+
+// Disputes
+
+export const getDisputeBy = (key: string, value: any): Dispute => getBy(DISPUTE_TABLE, key, value);
+
+export const getDisputeById = (id: string) => getDisputeBy("id", id);
+
+export const getDisputesByObj = (query: object): Dispute[] => getAllByObj(DISPUTE_TABLE, query);
+
+export const getDisputesForTransaction = (transactionId: Transaction["id"]) =>
+  orderBy(["createdAt"], ["desc"], getDisputesByObj({ transactionId }));
+
+// A transaction has at most one unresolved dispute at a time
+export const getActiveDisputeForTransaction = (transactionId: Transaction["id"]) =>
+  getDisputesForTransaction(transactionId).find(negate(isResolvedDispute));
+
+export const getDisputesForUser = (userId: User["id"]) =>
+  orderBy(
+    ["createdAt"],
+    ["desc"],
+    db
+      .get(DISPUTE_TABLE)
+      .filter((dispute: Dispute) =>
+        isTransactionParty(userId, getTransactionById(dispute.transactionId))
+      )
+      .value()
+  );
+
+export const formatDisputeForApiResponse = (dispute: Dispute): DisputeResponseItem => ({
+  ...dispute,
+  userFullName: getFullNameForUser(dispute.userId),
+  messages: dispute.messages.map((message) => ({
+    ...message,
+    userFullName: getFullNameForUser(message.userId),
+  })),
+});
+
+const createDisputeMessage = (userId: User["id"], content: string): DisputeMessage => ({
+  id: shortid(),
+  userId,
+  content,
+  createdAt: new Date(),
+});
+
+// The other party is notified of the dispute and of every status change
+const notifyOtherDisputeParty = (userId: User["id"], dispute: Dispute) =>
+  createDisputeNotification(
+    getOtherTransactionPartyId(userId, getTransactionById(dispute.transactionId)),
+    dispute
+  );
+
+export const createDisputeForUser = (userId: User["id"], disputeDetails: DisputePayload) => {
+  const dispute: Dispute = {
+    id: shortid(),
+    uuid: v4(),
+    transactionId: disputeDetails.transactionId,
+    userId,
+    reason: disputeDetails.reason,
+    status: DisputeStatus.open,
+    messages: [createDisputeMessage(userId, disputeDetails.message)],
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+
+  db.get(DISPUTE_TABLE).push(dispute).write();
+  notifyOtherDisputeParty(userId, dispute);
+
+  return getDisputeById(dispute.id);
+};
+
+export const addDisputeMessage = (
+  disputeId: Dispute["id"],
+  userId: User["id"],
+  content: string
+) => {
+  const dispute = getDisputeById(disputeId);
+
+  db.get(DISPUTE_TABLE)
+    .find({ id: disputeId })
+    .assign({
+      messages: [...dispute.messages, createDisputeMessage(userId, content)],
+      modifiedAt: new Date(),
+    })
+    .write();
+
+  return getDisputeById(disputeId);
+};
+
+// Resolving with a refund returns whatever the payee has not refunded yet
+export const updateDisputeStatus = (
+  disputeId: Dispute["id"],
+  userId: User["id"],
+  { status, source }: DisputeUpdatePayload
+) => {
+  const dispute = getDisputeById(disputeId);
+  const transaction = getTransactionById(dispute.transactionId);
+  const refundableAmount = getRefundableAmount(transaction);
+
+  const refund =
+    status === DisputeStatus.resolvedRefund && refundableAmount > 0
+      ? createRefundForTransaction(transaction, { amount: refundableAmount / 100, source })
+      : undefined;
+
+  db.get(DISPUTE_TABLE)
+    .find({ id: disputeId })
+    .assign({
+      status,
+      refundId: refund?.id,
+      resolvedAt: status === DisputeStatus.underReview ? undefined : new Date(),
+      modifiedAt: new Date(),
+    })
+    .write();
+
+  const updatedDispute = getDisputeById(disputeId);
+  notifyOtherDisputeParty(userId, updatedDispute);
+
+  return updatedDispute;
+};
+
+// Risk Checks
+
+// Tests can swap in their own rules with setRiskRules and restore the defaults with resetRiskRules
+let riskRules: RiskRule[] = defaultRiskRules;
+
+export const setRiskRules = (rules: RiskRule[]) => {
+  riskRules = rules;
+};
+
+export const resetRiskRules = () => {
+  riskRules = defaultRiskRules;
+};
+
+// Refunds and payments towards a request go back to someone who asked for the money, and group
+// payments stay between the members and the people they chose to pay, so only direct payments
+// are checked
+const isRiskCheckedPayment = (
+  transactionType: "payment" | "request",
+  transactionDetails: TransactionPayload
+) =>
+  transactionType === "payment" &&
+  !transactionDetails.refundOf &&
+  !transactionDetails.requestId &&
+  !transactionDetails.groupId;
+
+const getRiskContext = (sender: User, receiver: User, amount: number) => ({
+  sender,
+  receiver,
+  amount,
+  currentDate: now(),
+  senderPayments: filter(isPayment, getTransactionsByObj({ senderId: sender.id })),
+});
+
+const saveRiskEvaluation = (
+  transaction: Transaction,
+  { score, outcome, results }: Pick<RiskEvaluation, "score" | "outcome" | "results">
+) => {
+  const riskEvaluation: RiskEvaluation = {
+    id: shortid(),
+    uuid: v4(),
+    transactionId: transaction.id,
+    userId: transaction.senderId,
+    amount: transaction.amount,
+    score,
+    outcome,
+    results,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+
+  db.get(RISK_EVALUATION_TABLE).push(riskEvaluation).write();
+};
+
+export const getRiskEvaluationsByObj = (query: object): RiskEvaluation[] =>
+  getAllByObj(RISK_EVALUATION_TABLE, query);
+
+export const getRiskEvaluationForTransaction = (transactionId: Transaction["id"]): RiskEvaluation =>
+  getBy(RISK_EVALUATION_TABLE, "transactionId", transactionId);
+
+// Held payments stay pending until an operator reviews them
+export const getRiskEvaluationsAwaitingReview = (): RiskEvaluation[] =>
+  orderBy(
+    ["createdAt"],
+    ["asc"],
+    getRiskEvaluationsByObj({ outcome: RiskOutcome.hold }).filter(
+      ({ reviewOutcome }) => !reviewOutcome
+    )
+  );
+
+// A released payment completes as if it had never been held; a rejected one becomes incomplete
+export const reviewHeldTransaction = (
+  transactionId: Transaction["id"],
+  reviewOutcome: RiskOutcome.allow | RiskOutcome.block
+) => {
+  db.get(RISK_EVALUATION_TABLE)
+    .find({ transactionId })
+    .assign({ reviewOutcome, reviewedAt: now(), modifiedAt: new Date() })
+    .write();
+
+  db.get(TRANSACTION_TABLE)
+    .find({ id: transactionId })
+    .assign({
+      riskOutcome: reviewOutcome,
+      ...(reviewOutcome === RiskOutcome.block && { status: TransactionStatus.incomplete }),
+      modifiedAt: new Date(),
+    })
+    .write();
+
+  if (reviewOutcome === RiskOutcome.allow) {
+    completePayment(getTransactionById(transactionId));
+  }
+
+  return getTransactionById(transactionId);
+};
+
+// Categories and Budgets
+
+export const getTransactionLabel = (
+  userId: User["id"],
+  transactionId: Transaction["id"]
+): TransactionLabel | undefined =>
+  getAllByObj(TRANSACTION_LABEL_TABLE, { userId, transactionId })[0];
+
+export const getTransactionLabelsForUser = (userId: User["id"]): TransactionLabel[] =>
+  getAllByObj(TRANSACTION_LABEL_TABLE, { userId });
+
+export const formatTransactionLabelsForUser = curry(
+  (userId: User["id"], transaction: TransactionResponseItem): TransactionResponseItem => {
+    const label = getTransactionLabel(userId, transaction.id);
+
+    return { ...transaction, category: label?.category, tags: label?.tags || [] };
+  }
+);
+
+// Categories the user has chosen for earlier transactions with the same counterparty
+const getCounterpartyCategoriesForUser = (userId: User["id"], counterpartyId: User["id"]) =>
+  getTransactionLabelsForUser(userId)
+    .filter(
+      (label) =>
+        !!label.category &&
+        isTransactionParty(counterpartyId, getTransactionById(label.transactionId))
+    )
+    .map((label) => label.category!);
+
+export const getSuggestedCategoryForUser = (userId: User["id"], transaction: Transaction) =>
+  suggestCategory(
+    transaction.description,
+    getCounterpartyCategoriesForUser(userId, getOtherTransactionPartyId(userId, transaction))
+  );
+
+export const saveTransactionLabel = (
+  userId: User["id"],
+  transactionId: Transaction["id"],
+  { category, tags }: TransactionLabelPayload
+) => {
+  const label = getTransactionLabel(userId, transactionId);
+  const edits = pickBy((value) => value !== undefined, {
+    category,
+    tags: tags && normalizeTags(tags),
+  });
+
+  if (label) {
+    db.get(TRANSACTION_LABEL_TABLE)
+      .find({ id: label.id })
+      .assign({ ...edits, modifiedAt: new Date() })
+      .write();
+  } else {
+    const newLabel: TransactionLabel = {
+      id: shortid(),
+      uuid: v4(),
+      transactionId,
+      userId,
+      tags: [],
+      ...edits,
+      createdAt: new Date(),
+      modifiedAt: new Date(),
+    };
+    db.get(TRANSACTION_LABEL_TABLE).push(newLabel).write();
+  }
+
+  notifyReachedBudgetThresholds(userId);
+
+  return getTransactionLabel(userId, transactionId)!;
+};
+
+export const getBudgetById = (id: string): Budget => getBy(BUDGET_TABLE, "id", id);
+
+export const getBudgetsForUser = (userId: User["id"]): Budget[] =>
+  getAllByObj(BUDGET_TABLE, { userId });
+
+// What the user paid this month in transactions they put in the category
+export const getBudgetSpentForUser = (userId: User["id"], category: TransactionCategory) => {
+  const monthStart = startOfMonth(now());
+
+  return flow(
+    filter({ category }),
+    map((label: TransactionLabel) => getTransactionById(label.transactionId)),
+    filter(
+      (transaction: Transaction) =>
+        transaction.status === TransactionStatus.complete &&
+        getTransactionPayerId(transaction) === userId &&
+        new Date(transaction.createdAt) >= monthStart
+    ),
+    sumBy((transaction: Transaction) => getTransactionAmountForUser(userId, transaction))
+  )(getTransactionLabelsForUser(userId));
+};
+
+export const getBudgetSummariesForUser = (userId: User["id"]): BudgetSummary[] =>
+  getBudgetsForUser(userId).map((budget) => ({
+    ...budget,
+    spent: getBudgetSpentForUser(userId, budget.category),
+  }));
+
+// Setting a budget for a category that already has one replaces its amount
+export const saveBudgetForUser = (userId: User["id"], { category, amount }: BudgetPayload) => {
+  const budget = getBudgetsForUser(userId).find((budget) => budget.category === category);
+
+  if (budget) {
+    db.get(BUDGET_TABLE)
+      .find({ id: budget.id })
+      .assign({ amount: Math.round(amount * 100), modifiedAt: new Date() })
+      .write();
+  } else {
+    const newBudget: Budget = {
+      id: shortid(),
+      uuid: v4(),
+      userId,
+      category,
+      amount: Math.round(amount * 100),
+      createdAt: new Date(),
+      modifiedAt: new Date(),
+    };
+    db.get(BUDGET_TABLE).push(newBudget).write();
+  }
+
+  notifyReachedBudgetThresholds(userId);
+
+  return getBudgetsForUser(userId).find((budget) => budget.category === category)!;
+};
+
+export const removeBudgetById = (budgetId: Budget["id"]) => {
+  db.get(BUDGET_TABLE).remove({ id: budgetId }).write();
+};
+
+// Each threshold is notified at most once per budget per calendar month
+const notifyReachedBudgetThresholds = (userId: User["id"]) => {
+  const monthStart = startOfMonth(now());
+
+  getBudgetSummariesForUser(userId).forEach((budget) =>
+    getReachedBudgetThresholds(budget.spent, budget.amount)
+      .filter(
+        (threshold) =>
+          !getAllByObj(NOTIFICATION_TABLE, { userId, budgetId: budget.id, threshold }).some(
+            (notification: NotificationType) => new Date(notification.createdAt) >= monthStart
+          )
+      )
+      .forEach((threshold) => createBudgetNotification(userId, budget, threshold))
+  );
+};
+
+// Spending Limits
+
+// Money sent from the user's balance since the given date; refunds give money back, so they do not count
+export const getOutgoingAmountForUserSince = (userId: User["id"], since: Date) =>
+  flow(
+    filter(
+      (entry: LedgerEntry) =>
+        isDebitEntry(entry) &&
+        !!entry.transactionId &&
+        new Date(entry.createdAt) >= since &&
+        !getTransactionById(entry.transactionId).refundOf
+    ),
+    sumEntryAmounts
+  )(getLedgerEntriesForUser(userId));
+
+export const getTransactionCountForUserSince = (userId: User["id"], since: Date) =>
+  filter(
+    (transaction: Transaction) => new Date(transaction.createdAt) >= since,
+    getTransactionsByObj({ senderId: userId })
+  ).length;
+
+export const getSpendingLimitsForUser = (userId: User["id"]): SpendingLimitsSummary => {
+  const user = getUserById(userId);
+  const currentDate = now();
+  const limits = getSpendingLimits(currentDate, user);
+
+  return {
+    dailyAmount: {
+      limit: limits.dailyAmount,
+      used: getOutgoingAmountForUserSince(userId, startOfDay(currentDate)),
+    },
+    monthlyAmount: {
+      limit: limits.monthlyAmount,
+      used: getOutgoingAmountForUserSince(userId, startOfMonth(currentDate)),
+    },
+    hourlyCount: {
+      limit: limits.hourlyCount,
+      used: getTransactionCountForUserSince(userId, subHours(currentDate, 1)),
+    },
+    isNewAccount: isNewAccount(currentDate, user),
+  };
+};
+
+// Outgoing money and new transactions count towards the user's spending limits
+export const getSpendingLimitErrorForUser = (
+  userId: User["id"],
+  amount: number,
+  transactionCount = 1
+) =>
+  getSpendingLimitError(
+    getUserById(userId),
+    getSpendingLimitsForUser(userId),
+    amount,
+    transactionCount
+  );
+
+// Statements
+
+const getStatementLineDescription = (entry: LedgerEntry) => {
+  if (entry.transactionId) {
+    const { description } = getTransactionById(entry.transactionId);
+    return entry.bankTransferId ? `Bank transfer for: ${description}` : description;
+  }
+  if (entry.bankTransferId) {
+    return getBankTransferById(entry.bankTransferId).type === BankTransferType.deposit
+      ? "Deposit from bank account"
+      : "Withdrawal to bank account";
+  }
+  return "Balance adjustment";
+};
+
+// Lines are the movements on the user's ledger account, each with the balance right after it
+export const getStatementForUser = (userId: User["id"], from: Date, to: Date): Statement => {
+  const entries = getLedgerEntriesForUser(userId);
+  const openingBalance = getLedgerBalance(
+    filter((entry: LedgerEntry) => new Date(entry.createdAt) < from, entries)
+  );
+  let balance = openingBalance;
+
+  const lines = filter(
+    (entry: LedgerEntry) => isWithinInterval(new Date(entry.createdAt), { start: from, end: to }),
+    entries
+  ).map((entry: LedgerEntry): StatementLine => {
+    balance += getEntryBalanceChange(entry);
+
+    return {
+      id: entry.id,
+      date: entry.createdAt,
+      description: getStatementLineDescription(entry),
+      amount: getEntryBalanceChange(entry),
+      balance,
+      transactionId: entry.transactionId,
+      bankTransferId: entry.bankTransferId,
+    };
+  });
+
+  return {
+    userId,
+    currency: getCurrency(getUserById(userId)),
+    from,
+    to,
+    openingBalance,
+    lines,
+    closingBalance: balance,
+  };
+};
+
+// Groups
+
+export const getGroupById = (id: string): Group => getBy(GROUP_TABLE, "id", id);
+
+export const getGroupMemberById = (id: string): GroupMember => getBy(GROUP_MEMBER_TABLE, "id", id);
+
+export const getGroupMembersByGroupId = (groupId: Group["id"]): GroupMember[] =>
+  getAllByObj(GROUP_MEMBER_TABLE, { groupId });
+
+export const getGroupMemberForUser = (
+  groupId: Group["id"],
+  userId: User["id"]
+): GroupMember | undefined => getAllByObj(GROUP_MEMBER_TABLE, { groupId, userId })[0];
+
+const formatGroupMemberForApiResponse = (member: GroupMember): GroupMemberResponseItem => {
+  const user = getUserById(member.userId);
+
+  return { ...member, fullName: formatFullName(user), avatar: user.avatar };
+};
+
+export const formatGroupForUser = curry(
+  (userId: User["id"], group: Group): GroupResponseItem => ({
+    ...group,
+    role: getGroupMemberForUser(group.id, userId)!.role,
+    members: map(formatGroupMemberForApiResponse, getGroupMembersByGroupId(group.id)),
+  })
+);
+
+export const getGroupsForUser = (userId: User["id"]): GroupResponseItem[] =>
+  flow(
+    map((member: GroupMember) => getGroupById(member.groupId)),
+    map(formatGroupForUser(userId))
+  )(getAllByObj(GROUP_MEMBER_TABLE, { userId }));
+
+// The user who creates a group is its first admin, and the group holds their currency
+export const createGroup = (userId: User["id"], { name }: GroupPayload): Group => {
+  const group: Group = {
+    id: shortid(),
+    uuid: v4(),
+    name,
+    currency: getCurrency(getUserById(userId)),
+    balance: 0,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+  db.get(GROUP_TABLE).push(group).write();
+
+  addGroupMember(group.id, { userId, role: GroupRole.admin });
+
+  return getGroupById(group.id);
+};
+
+export const addGroupMember = (
+  groupId: Group["id"],
+  { userId, role }: GroupMemberPayload
+): GroupMember => {
+  const member: GroupMember = {
+    id: shortid(),
+    uuid: v4(),
+    groupId,
+    userId,
+    role,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+  db.get(GROUP_MEMBER_TABLE).push(member).write();
+
+  return getGroupMemberById(member.id);
+};
+
+export const updateGroupMemberById = (
+  memberId: GroupMember["id"],
+  edits: GroupMemberUpdatePayload
+) => {
+  db.get(GROUP_MEMBER_TABLE)
+    .find({ id: memberId })
+    .assign({ ...edits, modifiedAt: new Date() })
+    .write();
+
+  return getGroupMemberById(memberId);
+};
+
+export const removeGroupMemberById = (memberId: GroupMember["id"]) => {
+  db.get(GROUP_MEMBER_TABLE).remove({ id: memberId }).write();
+};
+
+// Why the user cannot join the group, if they cannot
+export const getGroupMemberError = (group: Group, userId: User["id"]) => {
+  const user = getUserById(userId);
+
+  if (!user) {
+    return "User not found";
+  }
+  if (getGroupMemberForUser(group.id, userId)) {
+    return "User is already a member of the group";
+  }
+  if (getCurrency(user) !== group.currency) {
+    return `Members of the group must use ${group.currency}`;
+  }
+};
+
+// A group always keeps an admin to manage its members
+export const isLastGroupAdmin = (member: GroupMember) =>
+  member.role === GroupRole.admin &&
+  getGroupMembersByGroupId(member.groupId).filter(({ role }) => role === GroupRole.admin).length ===
+    1;
+
+export const getTransactionsForGroupForApi = (groupId: Group["id"]) =>
+  flow(
+    getTransactionsByObj,
+    orderBy(["createdAt"], ["desc"]),
+    formatTransactionsForApiResponse
+  )({ groupId });
+
+// Why the group cannot make the payment, if it cannot; contributions come from the member's own
+// balance and bank account, so only payouts are checked here
+export const getGroupPaymentError = (
+  group: Group,
+  { paymentType, amount, receiverId }: GroupPaymentPayload
+) => {
+  if (paymentType !== GroupPaymentType.payout) {
+    return;
+  }
+  const receiver = receiverId && getUserById(receiverId);
+
+  if (!receiver) {
+    return { location: "body", param: "receiverId", msg: "Receiver not found" };
+  }
+  if (getCurrency(receiver) !== group.currency) {
+    return {
+      location: "body",
+      param: "receiverId",
+      msg: `The group can only pay users who use ${group.currency}`,
+    };
+  }
+  if (Math.round(amount * 100) > group.balance) {
+    return { location: "body", param: "amount", msg: "The group balance is too low" };
+  }
+};
+
+// Group payments are private to the people involved; members follow them on the group's feed
+export const createGroupPayment = (
+  userId: User["id"],
+  group: Group,
+  { paymentType, amount, description, receiverId, source }: GroupPaymentPayload
+): Transaction => {
+  const isPayout = paymentType === GroupPaymentType.payout;
+
+  return createTransaction(userId, "payment", {
+    source: source || "",
+    senderId: isPayout ? group.id : userId,
+    receiverId: isPayout ? receiverId! : group.id,
+    description,
+    amount,
+    privacyLevel: DefaultPrivacyLevel.private,
+    status: TransactionStatus.pending,
+    groupId: group.id,
+  });
+};
+
+// The member who made the payment, and a member who was paid by it, already know about it
+const notifyGroupMembers = (transaction: Transaction) =>
+  getGroupMembersByGroupId(transaction.groupId!)
+    .filter(
+      ({ userId }) => userId !== transaction.groupMemberId && userId !== transaction.receiverId
+    )
+    .forEach(({ userId }) => createGroupNotification(userId, transaction));
+
+// Payment Links
+
+const formatPaymentLinkForApiResponse = (
+  token: string,
+  { userId, amount, description, expiresAt }: PaymentLink
+): PaymentLinkResponseItem => {
+  const user = getUserById(userId);
+
+  return {
+    token,
+    receiver: pick(["id", "username", "firstName", "lastName", "avatar"], user),
+    currency: getCurrency(user),
+    amount,
+    description,
+    expiresAt,
+  };
+};
+
+// Preset amounts are kept in the user's currency, like their balance
+export const createPaymentLinkForUser = (
+  userId: User["id"],
+  { amount, description, expiresAt }: PaymentLinkPayload
+): PaymentLinkResponseItem => {
+  const paymentLink: PaymentLink = {
+    userId,
+    amount: amount ? Math.round(amount * 100) : undefined,
+    description: description || undefined,
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+  };
+
+  return formatPaymentLinkForApiResponse(signPaymentLink(paymentLink), paymentLink);
+};
+
+// Links that were not signed by us, or whose receiver is gone, are not found
+export const getPaymentLinkForApi = (token: string): PaymentLinkResponseItem | undefined => {
+  const paymentLink = verifyPaymentLink(token);
+
+  if (!paymentLink || !getUserById(paymentLink.userId)) {
+    return;
+  }
+  return formatPaymentLinkForApiResponse(token, paymentLink);
+};
+
+// Insights
+
+// Most counterparties listed in the insights
+export const TOP_COUNTERPARTIES_LIMIT = 5;
+
+// Requests paid in parts moved their money through the payments, so only those count
+const isMoneyMovingTransaction = (transaction: Transaction) =>
+  transaction.status === TransactionStatus.complete &&
+  !(isRequestTransaction(transaction) && !isEmpty(getPaymentsForRequest(transaction.id)));
+
+const isRequestRelatedTransaction = (transaction: Transaction) =>
+  isRequestTransaction(transaction) || !!transaction.requestId;
+
+export const getInsightsForUser = (
+  userId: User["id"],
+  query: InsightsQueryPayload = {}
+): Insights => {
+  const transactions: Transaction[] = filter(
+    isMoneyMovingTransaction,
+    getTransactionsForUserByObj(userId, getDateQueryFields(query))
+  );
+  const sumAmounts = sumBy((transaction: Transaction) =>
+    getTransactionAmountForUser(userId, transaction)
+  );
+  const getTypeInsight = (typeTransactions: Transaction[]): TransactionTypeInsight => ({
+    count: typeTransactions.length,
+    amount: sumAmounts(typeTransactions),
+  });
+
+  const monthly = flow(
+    groupBy((transaction: Transaction) => formatDate(new Date(transaction.createdAt), "yyyy-MM")),
+    toPairs,
+    map(
+      ([month, monthTransactions]: [string, Transaction[]]): MonthlyInsight => ({
+        month,
+        sent: sumAmounts(
+          filter((transaction) => getTransactionPayerId(transaction) === userId, monthTransactions)
+        ),
+        received: sumAmounts(
+          filter((transaction) => getTransactionPayeeId(transaction) === userId, monthTransactions)
+        ),
+      })
+    ),
+    sortBy("month")
+  )(transactions);
+
+  const topCounterparties = flow(
+    groupBy((transaction: Transaction) => getOtherTransactionPartyId(userId, transaction)),
+    toPairs,
+    map(
+      ([counterpartyId, counterpartyTransactions]: [
+        string,
+        Transaction[]
+      ]): CounterpartyInsight => {
+        const counterparty = getTransactionPartyDetails(
+          counterpartyTransactions[0],
+          counterpartyId
+        );
+
+        return {
+          userId: counterpartyId,
+          fullName: counterparty.name,
+          avatar: counterparty.avatar,
+          transactionCount: counterpartyTransactions.length,
+          amount: sumAmounts(counterpartyTransactions),
+        };
+      }
+    ),
+    orderBy(["amount"], ["desc"]),
+    take(TOP_COUNTERPARTIES_LIMIT)
+  )(transactions);
+
+  return {
+    userId,
+    currency: getCurrency(getUserById(userId)),
+    monthly,
+    topCounterparties,
+    averageAmount: transactions.length
+      ? Math.round(sumAmounts(transactions) / transactions.length)
+      : 0,
+    payments: getTypeInsight(reject(isRequestRelatedTransaction, transactions)),
+    requests: getTypeInsight(filter(isRequestRelatedTransaction, transactions)),
+  };
+};
+
+// Idempotency Keys
+
+export const getIdempotencyKeyForUser = (
+  userId: User["id"],
+  key: string
+): IdempotencyKey | undefined =>
+  getAllByObj(IDEMPOTENCY_KEY_TABLE, { userId, key }).find(
+    (idempotencyKey: IdempotencyKey) => new Date(idempotencyKey.expiresAt) > now()
+  );
+
+export const getIdempotencyKeyExpiresAt = () =>
+  addHours(now(), +process.env.IDEMPOTENCY_KEY_TTL_HOURS! || 24);
+
+// Reserves the key before the request is handled, so a concurrent retry cannot run it twice
+export const createIdempotencyKey = (
+  keyDetails: Pick<IdempotencyKey, "key" | "userId" | "method" | "path" | "requestHash">
+): IdempotencyKey => {
+  removeIdempotencyKeyForUser(keyDetails.userId, keyDetails.key);
+
+  const idempotencyKey: IdempotencyKey = {
+    id: shortid(),
+    uuid: v4(),
+    ...keyDetails,
+    expiresAt: getIdempotencyKeyExpiresAt(),
+    createdAt: now(),
+    modifiedAt: now(),
+  };
+
+  db.get(IDEMPOTENCY_KEY_TABLE).push(idempotencyKey).write();
+
+  return idempotencyKey;
+};
+
+export const saveIdempotencyKeyResponse = (
+  idempotencyKeyId: IdempotencyKey["id"],
+  responseStatus: number,
+  responseBody?: object
+) => {
+  db.get(IDEMPOTENCY_KEY_TABLE)
+    .find({ id: idempotencyKeyId })
+    .assign({ responseStatus, responseBody, modifiedAt: now() })
+    .write();
+};
+
+export const removeIdempotencyKeyById = (idempotencyKeyId: IdempotencyKey["id"]) => {
+  db.get(IDEMPOTENCY_KEY_TABLE).remove({ id: idempotencyKeyId }).write();
+};
+
+const removeIdempotencyKeyForUser = (userId: User["id"], key: string) => {
+  db.get(IDEMPOTENCY_KEY_TABLE).remove({ userId, key }).write();
+};
+
+export const removeExpiredIdempotencyKeys = (): IdempotencyKey[] => {
+  const expiredKeys = db
+    .get(IDEMPOTENCY_KEY_TABLE)
+    .remove((idempotencyKey: IdempotencyKey) => new Date(idempotencyKey.expiresAt) <= now())
+    .value();
+
+  db.write();
+  return expiredKeys;
+};
+
+// Schedules
+
+export const getScheduleBy = (key: string, value: any): Schedule =>
+  getBy(SCHEDULE_TABLE, key, value);
+
+export const getScheduleById = (id: string) => getScheduleBy("id", id);
+
+export const getSchedulesByObj = (query: object): Schedule[] => getAllByObj(SCHEDULE_TABLE, query);
+
+export const getSchedulesByUserId = (userId: string) => getSchedulesByObj({ userId });
+
+export const getSchedulesForUserForApi = (userId: string) =>
+  flow(getSchedulesByUserId, formatSchedulesForApiResponse)(userId);
+
+export const formatScheduleForApiResponse = (schedule: Schedule): ScheduleResponseItem => ({
+  currency: getCurrency(getUserById(schedule.userId)),
+  receiverName: getFullNameForUser(schedule.receiverId),
+  receiverAvatar: getUserById(schedule.receiverId).avatar,
+  ...schedule,
+});
+
+export const formatSchedulesForApiResponse = (schedules: Schedule[]): ScheduleResponseItem[] =>
+  orderBy(
+    [(schedule: Schedule) => new Date(schedule.createdAt)],
+    ["desc"],
+    schedules.map(formatScheduleForApiResponse)
+  );
+
+export const getScheduleSummary = (schedule: Schedule): ScheduleSummary =>
+  pick(["id", "frequency", "interval", "startDate", "endDate", "status"], schedule);
+
+export const createScheduleForUser = (userId: User["id"], scheduleDetails: SchedulePayload) => {
+  const startDate = new Date(scheduleDetails.startDate);
+  const schedule: Schedule = {
+    id: shortid(),
+    uuid: v4(),
+    userId,
+    receiverId: scheduleDetails.receiverId,
+    source: scheduleDetails.source || "",
+    amount: Math.round(scheduleDetails.amount * 100),
+    description: scheduleDetails.description,
+    privacyLevel: scheduleDetails.privacyLevel || getUserById(userId).defaultPrivacyLevel,
+    frequency: scheduleDetails.frequency,
+    interval: scheduleDetails.interval,
+    startDate,
+    endDate: scheduleDetails.endDate ? new Date(scheduleDetails.endDate) : undefined,
+    runCount: 0,
+    nextRunAt: startDate,
+    status: ScheduleStatus.active,
+    createdAt: now(),
+    modifiedAt: now(),
+  };
+
+  saveSchedule(schedule);
+
+  // a schedule starting today makes its first payment right away
+  if (isScheduleDue(now(), schedule)) {
+    runSchedule(schedule);
+  }
+
+  return getScheduleById(schedule.id);
+};
+
+const saveSchedule = (schedule: Schedule) => {
+  db.get(SCHEDULE_TABLE).push(schedule).write();
+};
+
+export const updateScheduleById = (scheduleId: string, edits: ScheduleUpdatePayload) => {
+  const schedule = getScheduleById(scheduleId);
+  const { amount, ...otherEdits } = edits;
+  const updatedSchedule: Schedule = {
+    ...schedule,
+    ...otherEdits,
+    amount: amount ? Math.round(amount * 100) : schedule.amount,
+    modifiedAt: now(),
+  };
+
+  // payments that fell due while the schedule was paused are skipped, not caught up
+  if (schedule.status === ScheduleStatus.paused && edits.status === ScheduleStatus.active) {
+    updatedSchedule.runCount = getUpcomingRunCount(now(), schedule);
+    updatedSchedule.nextRunAt = getScheduleOccurrence(schedule, updatedSchedule.runCount);
+  }
+
+  if (isPastScheduleEnd(updatedSchedule, new Date(updatedSchedule.nextRunAt))) {
+    updatedSchedule.status = ScheduleStatus.completed;
+  }
+
+  db.get(SCHEDULE_TABLE).find({ id: scheduleId }).assign(updatedSchedule).write();
+  return getScheduleById(scheduleId);
+};
+
+export const cancelScheduleById = (scheduleId: string) => {
+  db.get(SCHEDULE_TABLE)
+    .find({ id: scheduleId })
+    .assign({ status: ScheduleStatus.cancelled, modifiedAt: now() })
+    .write();
+
+  return getScheduleById(scheduleId);
+};
+
+// A short balance may only be topped up from the bank account chosen for the schedule, and the
+// payment counts against the sender's spending limits like a manual one
+const getScheduledPaymentFailure = (sender: User, schedule: Schedule) => {
+  if (
+    sender.balance < schedule.amount &&
+    (!schedule.source || getBankAccountSourceError(sender.id, schedule.source))
+  ) {
+    return "Insufficient funds";
+  }
+
+  return getSpendingLimitErrorForUser(sender.id, schedule.amount)?.msg;
+};
+
+// The payment goes through the same risk checks as a manual one; a blocked payment is kept,
+// incomplete, and fails the run
+const makeScheduledPayment = (schedule: Schedule) => {
+  const payment = createTransaction(schedule.userId, "payment", {
+    source: schedule.source,
+    senderId: schedule.userId,
+    receiverId: schedule.receiverId,
+    description: schedule.description,
+    amount: schedule.amount / 100,
+    privacyLevel: schedule.privacyLevel,
+    status: TransactionStatus.pending,
+    scheduleId: schedule.id,
+  });
+
+  if (payment.riskOutcome === RiskOutcome.block) {
+    return "Payment was blocked by risk checks";
+  }
+};
+
+// Makes the payment for the schedule's current occurrence and moves it on to the next one.
+// A failed payment is not retried; the sender is notified and the next occurrence still runs.
+export const runSchedule = (schedule: Schedule) => {
+  const sender = getUserById(schedule.userId);
+  const failureReason =
+    getScheduledPaymentFailure(sender, schedule) || makeScheduledPayment(schedule);
+
+  if (failureReason) {
+    createScheduleNotification(schedule.userId, schedule.id, failureReason);
+  }
+
+  const runCount = schedule.runCount + 1;
+  const nextRunAt = getScheduleOccurrence(schedule, runCount);
+
+  db.get(SCHEDULE_TABLE)
+    .find({ id: schedule.id })
+    .assign({
+      runCount,
+      nextRunAt,
+      lastRunAt: now(),
+      lastRunStatus: failureReason ? ScheduleRunStatus.failed : ScheduleRunStatus.complete,
+      status: isPastScheduleEnd(schedule, nextRunAt) ? ScheduleStatus.completed : schedule.status,
+      modifiedAt: now(),
+    })
+    .write();
+
+  return getScheduleById(schedule.id);
+};
+
+// Runs at most one occurrence per schedule; overdue occurrences are picked up by later runs
+export const runDueSchedules = (): Schedule[] =>
+  filter(isScheduleDue(now()), getSchedulesByObj({ status: ScheduleStatus.active })).map(
+    runSchedule
+  );
+
+// Splits
+
+export const getSplitBy = (key: string, value: any): Split => getBy(SPLIT_TABLE, key, value);
+
+export const getSplitById = (id: string) => getSplitBy("id", id);
+
+export const getRequestsForSplit = (splitId: Split["id"]): Transaction[] =>
+  getTransactionsByObj({ splitId });
+
+export const getSplitSummaryById = (splitId: Split["id"]) =>
+  getSplitSummary(getSplitById(splitId), getRequestsForSplit(splitId));
+
+// Creates the split record and one request per share, all sent by the requester
+export const createSplitForUser = (userId: User["id"], splitDetails: SplitPayload) => {
+  const amount = Math.round(splitDetails.amount * 100);
+  const split: Split = {
+    id: shortid(),
+    uuid: v4(),
+    userId,
+    amount,
+    currency: getCurrency(getUserById(userId)),
+    description: splitDetails.description,
+    privacyLevel: splitDetails.privacyLevel || getUserById(userId).defaultPrivacyLevel,
+    method: splitDetails.method,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+
+  db.get(SPLIT_TABLE).push(split).write();
+
+  const shareAmounts = getSplitShareAmounts(amount, split.method, splitDetails.shares);
+  splitDetails.shares.forEach((share, index) =>
+    createTransaction(userId, "request", {
+      source: "",
+      senderId: userId,
+      receiverId: share.receiverId,
+      description: split.description,
+      amount: shareAmounts[index] / 100,
+      privacyLevel: split.privacyLevel,
+      status: TransactionStatus.pending,
+      splitId: split.id,
+    })
+  );
+
+  return getSplitById(split.id);
+};
+
+// Likes
+
+export const getLikeBy = (key: string, value: any): Like => getBy(LIKE_TABLE, key, value);
+export const getLikesByObj = (query: object) => getAllByObj(LIKE_TABLE, query);
+
+export const getLikeById = (id: string): Like => getLikeBy("id", id);
+export const getLikesByTransactionId = (transactionId: string) => getLikesByObj({ transactionId });
+
+export const createLike = (userId: string, transactionId: string): Like => {
+  const like = {
+    id: shortid(),
+    uuid: v4(),
+    userId,
+    transactionId,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+
+  const savedLike = saveLike(like);
+  return savedLike;
+};
+
+export const createLikes = (userId: string, transactionId: string) => {
+  const { senderId, receiverId } = getTransactionById(transactionId);
+
+  const like = createLike(userId, transactionId);
+
+  /* istanbul ignore next */
+  if (userId !== senderId || userId !== receiverId) {
+    createLikeNotification(senderId, transactionId, like.id);
+    createLikeNotification(receiverId, transactionId, like.id);
+  } else if (userId === senderId) {
+    createLikeNotification(senderId, transactionId, like.id);
+  } else {
+    createLikeNotification(receiverId, transactionId, like.id);
+  }
+};
+
+const saveLike = (like: Like): Like => {
+  db.get(LIKE_TABLE).push(like).write();
 
   // manual lookup after like created
   return getLikeById(like.id);
@@ -694,7 +2709,7 @@ const saveComment = (comment: Comment): Comment => {
 export const getNotificationBy = (key: string, value: any): NotificationType =>
   getBy(NOTIFICATION_TABLE, key, value);
 
-export const getNotificationsByObj = (query: object): Notification[] =>
+export const getNotificationsByObj = (query: object): NotificationType[] =>
   getAllByObj(NOTIFICATION_TABLE, query);
 
 export const getUnreadNotificationsByUserId = (userId: string) =>
@@ -760,6 +2775,87 @@ export const createCommentNotification = (
   return notification;
 };
 
+export const createScheduleNotification = (
+  userId: string,
+  scheduleId: string,
+  reason: string
+): ScheduleNotification => {
+  const notification: ScheduleNotification = {
+    id: shortid(),
+    uuid: v4(),
+    userId: userId,
+    scheduleId: scheduleId,
+    reason,
+    isRead: false,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+
+  saveNotification(notification);
+  return notification;
+};
+
+export const createDisputeNotification = (
+  userId: string,
+  dispute: Dispute
+): DisputeNotification => {
+  const notification: DisputeNotification = {
+    id: shortid(),
+    uuid: v4(),
+    userId: userId,
+    transactionId: dispute.transactionId,
+    disputeId: dispute.id,
+    disputeStatus: dispute.status,
+    isRead: false,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+
+  saveNotification(notification);
+  return notification;
+};
+
+export const createBudgetNotification = (
+  userId: string,
+  budget: Budget,
+  threshold: number
+): BudgetNotification => {
+  const notification: BudgetNotification = {
+    id: shortid(),
+    uuid: v4(),
+    userId: userId,
+    budgetId: budget.id,
+    category: budget.category,
+    threshold,
+    isRead: false,
+    createdAt: now(),
+    modifiedAt: now(),
+  };
+
+  saveNotification(notification);
+  return notification;
+};
+
+export const createGroupNotification = (
+  userId: string,
+  transaction: Transaction
+): GroupNotification => {
+  const notification: GroupNotification = {
+    id: shortid(),
+    uuid: v4(),
+    userId: userId,
+    transactionId: transaction.id,
+    groupId: transaction.groupId!,
+    groupPaymentType: getGroupPaymentType(transaction),
+    isRead: false,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+
+  saveNotification(notification);
+  return notification;
+};
+
 const saveNotification = (notification: NotificationType) => {
   db.get(NOTIFICATION_TABLE).push(notification).write();
 };
@@ -791,10 +2887,48 @@ export const updateNotificationById = (
 export const formatNotificationForApiResponse = (
   notification: NotificationType
 ): NotificationResponseItem => {
+  if (isBudgetNotification(notification)) {
+    return {
+      userFullName: getFullNameForUser(notification.userId),
+      ...notification,
+    };
+  }
+
+  if (isScheduleNotification(notification)) {
+    const schedule = getScheduleById(notification.scheduleId);
+
+    return {
+      userFullName: getFullNameForUser(schedule.receiverId),
+      ...notification,
+    };
+  }
+
   let userFullName = getFullNameForUser(notification.userId);
   const transaction = getTransactionById(notification.transactionId);
 
-  if (isRequestTransaction(transaction)) {
+  if (isGroupNotification(notification)) {
+    return {
+      userFullName: getFullNameForUser(transaction.groupMemberId!),
+      groupName: getGroupById(notification.groupId).name,
+      ...notification,
+    };
+  }
+
+  // dispute notifications go to the party who did not make the change
+  if (isDisputeNotification(notification)) {
+    return {
+      userFullName: getFullNameForUser(
+        getOtherTransactionPartyId(notification.userId, transaction)
+      ),
+      ...notification,
+    };
+  }
+
+  if (
+    isRequestTransaction(transaction) ||
+    isPaymentRefundedNotification(notification) ||
+    isPaymentPartiallyPaidNotification(notification)
+  ) {
     userFullName = getFullNameForUser(transaction.senderId);
   }
 
@@ -0,0 +1,176 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import {
+  getDisputeById,
+  getDisputesForUser,
+  getActiveDisputeForTransaction,
+  getTransactionById,
+  getRefundableAmount,
+  createDisputeForUser,
+  addDisputeMessage,
+  updateDisputeStatus,
+  formatDisputeForApiResponse,
+} from "./database";
+import { ensureAuthenticated, validateMiddleware, getFundingError } from "./helpers";
+import {
+  shortIdValidation,
+  isDisputePayloadValidator,
+  isDisputeMessageValidator,
+  isDisputePatchValidator,
+} from "./validators";
+import {
+  isTransactionParty,
+  isDisputableTransaction,
+  isResolvedDispute,
+  getDisputeStatusChangeError,
+} from "../src/utils/disputeUtils";
+import { Dispute, DisputePayload, DisputeStatus, DisputeUpdatePayload } from "../src/models";
+const router = express.Router();
+
+// Permission: either party to the disputed transaction
+const isDisputeParty = (userId: string, dispute?: Dispute) =>
+  !!dispute && isTransactionParty(userId, getTransactionById(dispute.transactionId));
+
+// Routes
+
+//GET /disputes - scoped-user
+router.get("/", ensureAuthenticated, (req, res) => {
+  /* istanbul ignore next */
+  const disputes = getDisputesForUser(req.user?.id!);
+
+  res.status(200);
+  res.json({ results: disputes.map(formatDisputeForApiResponse) });
+});
+
+//GET /disputes/:disputeId - scoped-user
+router.get(
+  "/:disputeId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("disputeId")]),
+  (req, res) => {
+    const dispute = getDisputeById(req.params.disputeId);
+
+    /* istanbul ignore next */
+    if (!isDisputeParty(req.user?.id!, dispute)) {
+      return res.sendStatus(404);
+    }
+
+    res.status(200);
+    res.json({ dispute: formatDisputeForApiResponse(dispute) });
+  }
+);
+
+//POST /disputes - scoped-user
+router.post("/", ensureAuthenticated, validateMiddleware(isDisputePayloadValidator), (req, res) => {
+  const disputeDetails: DisputePayload = req.body;
+  /* istanbul ignore next */
+  const userId = req.user?.id!;
+  const transaction = getTransactionById(disputeDetails.transactionId);
+
+  // Permission: either party to the transaction
+  if (!transaction || !isTransactionParty(userId, transaction)) {
+    return res.sendStatus(404);
+  }
+
+  if (!isDisputableTransaction(transaction)) {
+    return res.status(422).json({
+      errors: [{ location: "body", param: "transactionId", msg: "Transaction cannot be disputed" }],
+    });
+  }
+
+  if (getActiveDisputeForTransaction(transaction.id)) {
+    return res.status(422).json({
+      errors: [
+        {
+          location: "body",
+          param: "transactionId",
+          msg: "Transaction already has an open dispute",
+        },
+      ],
+    });
+  }
+
+  const dispute = createDisputeForUser(userId, disputeDetails);
+
+  res.status(200);
+  res.json({ dispute: formatDisputeForApiResponse(dispute) });
+});
+
+//POST /disputes/:disputeId/messages - scoped-user
+router.post(
+  "/:disputeId/messages",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("disputeId"), ...isDisputeMessageValidator]),
+  (req, res) => {
+    const { disputeId } = req.params;
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const dispute = getDisputeById(disputeId);
+
+    if (!isDisputeParty(userId, dispute)) {
+      return res.sendStatus(404);
+    }
+
+    if (isResolvedDispute(dispute)) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "disputeId", msg: "Dispute is already resolved" }],
+      });
+    }
+
+    const updatedDispute = addDisputeMessage(disputeId, userId, req.body.content);
+
+    res.status(200);
+    res.json({ dispute: formatDisputeForApiResponse(updatedDispute) });
+  }
+);
+
+//PATCH /disputes/:disputeId - scoped-user
+router.patch(
+  "/:disputeId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("disputeId"), ...isDisputePatchValidator]),
+  (req, res) => {
+    const { disputeId } = req.params;
+    const disputeUpdate: DisputeUpdatePayload = req.body;
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const dispute = getDisputeById(disputeId);
+
+    if (!isDisputeParty(userId, dispute)) {
+      return res.sendStatus(404);
+    }
+
+    const transaction = getTransactionById(dispute.transactionId);
+    const statusError = getDisputeStatusChangeError(
+      dispute,
+      transaction,
+      userId,
+      disputeUpdate.status
+    );
+    if (statusError) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "status", msg: statusError }],
+      });
+    }
+
+    if (disputeUpdate.status === DisputeStatus.resolvedRefund) {
+      const fundingError = getFundingError(
+        userId,
+        getRefundableAmount(transaction),
+        disputeUpdate.source
+      );
+      if (fundingError) {
+        return res.status(422).json({ errors: [fundingError] });
+      }
+    }
+
+    const updatedDispute = updateDisputeStatus(disputeId, userId, disputeUpdate);
+
+    res.status(200);
+    res.json({ dispute: formatDisputeForApiResponse(updatedDispute) });
+  }
+);
+
+export default router;
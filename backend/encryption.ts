@@ -0,0 +1,103 @@
+import crypto from "crypto";
+
+// Field-level encryption for sensitive values kept in the data store.
+// Values are encrypted with AES-256-GCM under FIELD_ENCRYPTION_KEY (a base64-encoded 32-byte key).
+// Keys in FIELD_ENCRYPTION_PREVIOUS_KEYS (comma separated) can still decrypt, which lets
+// existing records be re-encrypted after the current key is rotated.
+const ALGORITHM = "aes-256-gcm";
+const ENCRYPTED_VALUE_PREFIX = "enc:v1";
+
+// Encrypts the bundled seed data so the app runs out of the box in development and tests only
+const DEVELOPMENT_KEY = "4p36t3YNIZeLSypa33Yo2A93jANaapVn3TWxt+/gNGo=";
+
+const parseKey = (encodedKey: string) => {
+  const key = Buffer.from(encodedKey.trim(), "base64");
+
+  if (key.length !== 32) {
+    throw new Error("Field encryption keys must be base64-encoded 32-byte keys");
+  }
+  return key;
+};
+
+const getKeyId = (key: Buffer) => crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+
+const getCurrentKey = () => {
+  if (process.env.FIELD_ENCRYPTION_KEY) {
+    return parseKey(process.env.FIELD_ENCRYPTION_KEY);
+  }
+  if (process.env.NODE_ENV !== "development" && process.env.NODE_ENV !== "test") {
+    throw new Error("FIELD_ENCRYPTION_KEY must be set to encrypt sensitive fields");
+  }
+  return parseKey(DEVELOPMENT_KEY);
+};
+
+const getDecryptionKeys = () => [
+  getCurrentKey(),
+  ...(process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS || "")
+    .split(",")
+    .filter((encodedKey) => encodedKey.trim())
+    .map(parseKey),
+];
+
+export const isEncryptedValue = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith(`${ENCRYPTED_VALUE_PREFIX}:`);
+
+// Encrypted values look like enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>
+export const encryptValue = (value: string) => {
+  const key = getCurrentKey();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+
+  return [
+    ENCRYPTED_VALUE_PREFIX,
+    getKeyId(key),
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+};
+
+// Plaintext values (written before encryption was enabled) are returned as they are
+export const decryptValue = (value: string) => {
+  if (!isEncryptedValue(value)) {
+    return value;
+  }
+
+  const [keyId, iv, authTag, ciphertext] = value
+    .slice(ENCRYPTED_VALUE_PREFIX.length + 1)
+    .split(":");
+  const key = getDecryptionKeys().find((candidate) => getKeyId(candidate) === keyId);
+
+  if (!key) {
+    throw new Error(`No field encryption key available for key id ${keyId}`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+};
+
+const mapStringFields = <T extends object>(
+  fields: string[],
+  transform: (value: string) => string,
+  record: T
+): T =>
+  fields.reduce(
+    (result, field) =>
+      typeof result[field as keyof T] === "string"
+        ? { ...result, [field]: transform(result[field as keyof T] as unknown as string) }
+        : result,
+    record
+  );
+
+// Values already encrypted under an older key are re-encrypted under the current one
+export const encryptFields = <T extends object>(fields: string[], record: T): T =>
+  mapStringFields(fields, (value) => encryptValue(decryptValue(value)), record);
+
+export const decryptFields = <T extends object>(fields: string[], record: T): T =>
+  mapStringFields(fields, decryptValue, record);
@@ -0,0 +1,35 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import { getAllExchangeRates, updateExchangeRate } from "./database";
+import { ensureAuthenticated, ensureOperator, validateMiddleware } from "./helpers";
+import { isExchangeRatePatchValidator } from "./validators";
+import { CurrencyCode, ExchangeRateUpdatePayload } from "../src/models";
+const router = express.Router();
+
+// Routes
+
+//GET /exchangeRates
+router.get("/", ensureAuthenticated, (req, res) => {
+  res.status(200);
+  res.json({ results: getAllExchangeRates() });
+});
+
+//PATCH /exchangeRates/:currency (operator)
+router.patch(
+  "/:currency",
+  ensureAuthenticated,
+  ensureOperator,
+  validateMiddleware(isExchangeRatePatchValidator),
+  (req, res) => {
+    const { rate }: ExchangeRateUpdatePayload = req.body;
+
+    const exchangeRate = updateExchangeRate(req.params.currency as CurrencyCode, rate);
+
+    res.status(200);
+    res.json({ exchangeRate });
+  }
+);
+
+export default router;
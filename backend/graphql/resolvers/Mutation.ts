@@ -1,14 +1,89 @@
-import { createBankAccountForUser, removeBankAccountById } from "../../database";
+import {
+  createBankAccountForUser,
+  removeBankAccountById,
+  isActiveBankAccountForUser,
+  getBankAccountById,
+  verifyBankAccount,
+  updateBankAccountById,
+  restoreBankAccountById,
+  getBankAccountSourceError,
+} from "../../database";
+import {
+  maskBankAccount,
+  isValidRoutingNumber,
+  isValidAccountNumber,
+  isVerifiedBankAccount,
+  getBankAccountVerificationError,
+  getVerificationFailureMessage,
+} from "../../../src/utils/bankAccountUtils";
 
 const Mutation = {
   createBankAccount: (obj: any, args: any, ctx: any) => {
+    if (!isValidRoutingNumber(args.routingNumber)) {
+      throw new Error("Must be a valid bank routing number");
+    }
+    if (!isValidAccountNumber(args.accountNumber)) {
+      throw new Error("Must be a valid bank account number");
+    }
+
     const account = createBankAccountForUser(ctx.user.id!, args);
-    return account;
+    return maskBankAccount(account);
   },
   deleteBankAccount: (obj: any, args: any, ctx: any) => {
     removeBankAccountById(args.id);
     return true;
   },
+  verifyBankAccount: (obj: any, args: any, ctx: any) => {
+    if (!isActiveBankAccountForUser(ctx.user.id!, args.id)) {
+      throw new Error("Bank account not found");
+    }
+
+    const verificationError = getBankAccountVerificationError(getBankAccountById(args.id));
+    if (verificationError) {
+      throw new Error(verificationError);
+    }
+
+    const account = verifyBankAccount(args.id, args.amounts);
+    if (!isVerifiedBankAccount(account)) {
+      throw new Error(getVerificationFailureMessage(account));
+    }
+
+    return maskBankAccount(account);
+  },
+  updateBankAccount: (obj: any, args: any, ctx: any) => {
+    if (!isActiveBankAccountForUser(ctx.user.id!, args.id)) {
+      throw new Error("Bank account not found");
+    }
+    if (args.bankName !== undefined && args.bankName.trim().length < 5) {
+      throw new Error("Must contain at least 5 characters");
+    }
+    if (args.isDefault === false) {
+      throw new Error("Set another bank account as the default instead");
+    }
+
+    const defaultError = args.isDefault && getBankAccountSourceError(ctx.user.id!, args.id);
+    if (defaultError) {
+      throw new Error(defaultError);
+    }
+
+    const account = updateBankAccountById(args.id, {
+      bankName: args.bankName?.trim(),
+      isDefault: args.isDefault,
+    });
+    return maskBankAccount(account);
+  },
+  restoreBankAccount: (obj: any, args: any, ctx: any) => {
+    const bankAccount = getBankAccountById(args.id);
+
+    if (!bankAccount || bankAccount.userId !== ctx.user.id) {
+      throw new Error("Bank account not found");
+    }
+    if (!bankAccount.isDeleted) {
+      throw new Error("Bank account is not deleted");
+    }
+
+    return maskBankAccount(restoreBankAccountById(args.id));
+  },
 };
 
 export default Mutation;
@@ -1,4 +1,5 @@
 import { getBankAccountsByUserId } from "../../database";
+import { maskBankAccount } from "../../../src/utils/bankAccountUtils";
 
 const Query = {
   listBankAccount(obj: any, args: any, ctx: any) {
@@ -6,7 +7,7 @@ const Query = {
     try {
       const accounts = getBankAccountsByUserId(ctx.user.id!);
 
-      return accounts;
+      return accounts.map(maskBankAccount);
       /* istanbul ignore next */
     } catch (err: any) {
       /* istanbul ignore next */
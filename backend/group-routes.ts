@@ -0,0 +1,275 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import {
+  getGroupById,
+  getGroupMemberById,
+  getGroupMemberForUser,
+  getGroupsForUser,
+  formatGroupForUser,
+  createGroup,
+  addGroupMember,
+  updateGroupMemberById,
+  removeGroupMemberById,
+  getGroupMemberError,
+  isLastGroupAdmin,
+  getTransactionsForGroupForApi,
+  getGroupPaymentError,
+  createGroupPayment,
+  getSpendingLimitErrorForUser,
+} from "./database";
+import {
+  ensureAuthenticated,
+  validateMiddleware,
+  ensureIdempotent,
+  getFundingError,
+} from "./helpers";
+import {
+  shortIdValidation,
+  isGroupPayloadValidator,
+  isGroupMemberValidator,
+  isGroupMemberUpdateValidator,
+  isGroupPaymentValidator,
+} from "./validators";
+import { getPaginatedItems } from "../src/utils/transactionUtils";
+import { canManageGroup, canMakeGroupPayment } from "../src/utils/groupUtils";
+import {
+  GroupPayload,
+  GroupMemberPayload,
+  GroupMemberUpdatePayload,
+  GroupPaymentPayload,
+  GroupPaymentType,
+  GroupRole,
+} from "../src/models";
+const router = express.Router();
+
+// Routes
+
+//GET /groups (scoped-user) - the groups the user is a member of
+router.get("/", ensureAuthenticated, (req, res) => {
+  /* istanbul ignore next */
+  const groups = getGroupsForUser(req.user?.id!);
+
+  res.status(200);
+  res.json({ results: groups });
+});
+
+//POST /groups (scoped-user) - creates a group with the user as its admin
+router.post("/", ensureAuthenticated, validateMiddleware(isGroupPayloadValidator), (req, res) => {
+  const groupDetails: GroupPayload = req.body;
+
+  /* istanbul ignore next */
+  const userId = req.user?.id!;
+  const group = createGroup(userId, groupDetails);
+
+  res.status(200);
+  res.json({ group: formatGroupForUser(userId, group) });
+});
+
+//GET /groups/:groupId (scoped-user)
+router.get(
+  "/:groupId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("groupId")]),
+  (req, res) => {
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const group = getGroupById(req.params.groupId);
+
+    // Permission: group member
+    if (!group || !getGroupMemberForUser(group.id, userId)) {
+      return res.sendStatus(404);
+    }
+
+    res.status(200);
+    res.json({ group: formatGroupForUser(userId, group) });
+  }
+);
+
+//GET /groups/:groupId/transactions (scoped-user) - the group's feed
+router.get(
+  "/:groupId/transactions",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("groupId")]),
+  (req, res) => {
+    const group = getGroupById(req.params.groupId);
+
+    // Permission: group member
+    /* istanbul ignore next */
+    if (!group || !getGroupMemberForUser(group.id, req.user?.id!)) {
+      return res.sendStatus(404);
+    }
+
+    const { totalPages, data: paginatedItems } = getPaginatedItems(
+      req.query.page,
+      req.query.limit,
+      getTransactionsForGroupForApi(group.id)
+    );
+
+    res.status(200);
+    res.json({
+      pageData: {
+        page: res.locals.paginate.page,
+        limit: res.locals.paginate.limit,
+        hasNextPages: res.locals.paginate.hasNextPages(totalPages),
+        totalPages,
+      },
+      results: paginatedItems,
+    });
+  }
+);
+
+//POST /groups/:groupId/members (scoped-user) - adds a member to the group
+router.post(
+  "/:groupId/members",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("groupId"), ...isGroupMemberValidator]),
+  (req, res) => {
+    const memberDetails: GroupMemberPayload = req.body;
+    const group = getGroupById(req.params.groupId);
+
+    // Permission: group admin
+    /* istanbul ignore next */
+    if (!group || !canManageGroup(getGroupMemberForUser(group.id, req.user?.id!))) {
+      return res.sendStatus(404);
+    }
+
+    const memberError = getGroupMemberError(group, memberDetails.userId);
+    if (memberError) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "userId", msg: memberError }],
+      });
+    }
+
+    const member = addGroupMember(group.id, memberDetails);
+
+    res.status(200);
+    res.json({ member });
+  }
+);
+
+//PATCH /groups/:groupId/members/:memberId (scoped-user) - changes a member's role
+router.patch(
+  "/:groupId/members/:memberId",
+  ensureAuthenticated,
+  validateMiddleware([
+    shortIdValidation("groupId"),
+    shortIdValidation("memberId"),
+    ...isGroupMemberUpdateValidator,
+  ]),
+  (req, res) => {
+    const { role }: GroupMemberUpdatePayload = req.body;
+    const group = getGroupById(req.params.groupId);
+    const member = getGroupMemberById(req.params.memberId);
+
+    // Permission: group admin
+    /* istanbul ignore next */
+    if (
+      !group ||
+      member?.groupId !== group.id ||
+      !canManageGroup(getGroupMemberForUser(group.id, req.user?.id!))
+    ) {
+      return res.sendStatus(404);
+    }
+
+    if (role !== GroupRole.admin && isLastGroupAdmin(member)) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "role", msg: "The group must keep an admin" }],
+      });
+    }
+
+    res.status(200);
+    res.json({ member: updateGroupMemberById(member.id, { role }) });
+  }
+);
+
+//DELETE /groups/:groupId/members/:memberId (scoped-user) - admins remove members, members leave
+router.delete(
+  "/:groupId/members/:memberId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("groupId"), shortIdValidation("memberId")]),
+  (req, res) => {
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const group = getGroupById(req.params.groupId);
+    const member = getGroupMemberById(req.params.memberId);
+
+    // Permission: group admin, or the member themselves
+    if (
+      !group ||
+      member?.groupId !== group.id ||
+      (member.userId !== userId && !canManageGroup(getGroupMemberForUser(group.id, userId)))
+    ) {
+      return res.sendStatus(404);
+    }
+
+    if (isLastGroupAdmin(member)) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "memberId", msg: "The group must keep an admin" }],
+      });
+    }
+
+    removeGroupMemberById(member.id);
+    res.sendStatus(204);
+  }
+);
+
+//POST /groups/:groupId/payments (scoped-user) - pays into the group, or has the group pay out
+router.post(
+  "/:groupId/payments",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("groupId"), ...isGroupPaymentValidator]),
+  ensureIdempotent,
+  (req, res) => {
+    const paymentDetails: GroupPaymentPayload = req.body;
+
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const group = getGroupById(req.params.groupId);
+    const member = group && getGroupMemberForUser(group.id, userId);
+
+    // Permission: group member
+    if (!member) {
+      return res.sendStatus(404);
+    }
+
+    if (!canMakeGroupPayment(paymentDetails.paymentType, member)) {
+      return res.status(422).json({
+        errors: [
+          {
+            location: "body",
+            param: "paymentType",
+            msg: "Only admins and spenders can pay out of the group",
+          },
+        ],
+      });
+    }
+
+    // contributions are the member's own outgoing money
+    if (paymentDetails.paymentType === GroupPaymentType.contribution) {
+      const contributionAmount = Math.round(paymentDetails.amount * 100);
+      const fundingError = getFundingError(userId, contributionAmount, paymentDetails.source);
+      if (fundingError) {
+        return res.status(422).json({ errors: [fundingError] });
+      }
+
+      const spendingLimitError = getSpendingLimitErrorForUser(userId, contributionAmount);
+      if (spendingLimitError) {
+        return res.status(422).json({ errors: [spendingLimitError] });
+      }
+    }
+
+    const paymentError = getGroupPaymentError(group, paymentDetails);
+    if (paymentError) {
+      return res.status(422).json({ errors: [paymentError] });
+    }
+
+    const transaction = createGroupPayment(userId, group, paymentDetails);
+
+    res.status(200);
+    res.json({ transaction });
+  }
+);
+
+export default router;
@@ -1,9 +1,21 @@
 import dotenv from "dotenv";
-import { set } from "lodash";
+import crypto from "crypto";
+import { set, get } from "lodash";
+import { v4 } from "uuid";
 import { Request, Response, NextFunction } from "express";
 import { validationResult } from "express-validator";
 import jwt from "express-jwt";
 import jwksRsa from "jwks-rsa";
+import {
+  getIdempotencyKeyForUser,
+  createIdempotencyKey,
+  saveIdempotencyKeyResponse,
+  removeIdempotencyKeyById,
+  getBankAccountSourceError,
+  getUserById,
+} from "./database";
+import { runWithAuditContext } from "./audit";
+import { UserRole } from "../src/models";
 
 // @ts-ignore
 import OktaJwtVerifier from "@okta/jwt-verifier";
@@ -110,6 +122,18 @@ export const ensureAuthenticated = (req: Request, res: Response, next: NextFunct
   });
 };
 
+// Runs after ensureAuthenticated; the role is read from the database, as some providers only
+// pass the user's ID
+export const ensureOperator = (req: Request, res: Response, next: NextFunction) => {
+  /* istanbul ignore next */
+  if (getUserById(req.user?.id!)?.role === UserRole.operator) {
+    return next();
+  }
+  res.status(403).send({
+    error: "Forbidden",
+  });
+};
+
 export const validateMiddleware = (validations: any[]) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     await Promise.all(validations.map((validation: any) => validation.run(req)));
@@ -122,3 +146,115 @@ export const validateMiddleware = (validations: any[]) => {
     res.status(422).json({ errors: errors.array() });
   };
 };
+
+// Refunds and partial payments are paid from the balance unless a bank account covers them
+export const getFundingError = (userId: string, amount: number, source?: string) => {
+  const sourceError = source && getBankAccountSourceError(userId, source);
+  if (sourceError) {
+    return { location: "body", param: "source", msg: sourceError };
+  }
+
+  if (!source && getUserById(userId).balance < amount) {
+    return { location: "body", param: "amount", msg: "Insufficient funds" };
+  }
+};
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+const auditedMethods = ["POST", "PUT", "PATCH", "DELETE"];
+
+// Runs state-changing requests in an audit context, so every database write they make is
+// logged with the user, route and request ID. Callers may pass their own request ID.
+export const auditRequest = (req: Request, res: Response, next: NextFunction) => {
+  if (!auditedMethods.includes(req.method)) {
+    return next();
+  }
+
+  const requestId = req.get(REQUEST_ID_HEADER) || v4();
+  res.set(REQUEST_ID_HEADER, requestId);
+
+  runWithAuditContext(
+    {
+      requestId,
+      // users signed in with a third-party provider are identified by their sub
+      actorId: req.user?.id || get(req.user, "sub"),
+      route: `${req.method} ${req.originalUrl.split("?")[0]}`,
+    },
+    next
+  );
+};
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+const idempotencyKeyError = (res: Response, status: number, msg: string) =>
+  res.status(status).json({
+    errors: [{ location: "headers", param: IDEMPOTENCY_KEY_HEADER, msg }],
+  });
+
+// Replays the stored response when a request is retried with the same Idempotency-Key.
+// Only successful responses are kept, so a failed request can be retried with its key.
+export const ensureIdempotent = (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER);
+
+  if (key === undefined) {
+    return next();
+  }
+
+  if (key.length === 0 || key.length > 255) {
+    return idempotencyKeyError(res, 422, "Idempotency-Key must be 1 to 255 characters");
+  }
+
+  /* istanbul ignore next */
+  const userId = req.user?.id!;
+  const path = req.originalUrl.split("?")[0];
+  const requestHash = crypto.createHash("sha256").update(JSON.stringify(req.body)).digest("hex");
+  const storedKey = getIdempotencyKeyForUser(userId, key);
+
+  if (storedKey) {
+    if (
+      storedKey.method !== req.method ||
+      storedKey.path !== path ||
+      storedKey.requestHash !== requestHash
+    ) {
+      return idempotencyKeyError(
+        res,
+        422,
+        "Idempotency-Key was already used for a different request"
+      );
+    }
+
+    if (!storedKey.responseStatus) {
+      return idempotencyKeyError(res, 409, "A request with this Idempotency-Key is in progress");
+    }
+
+    res.set("Idempotent-Replayed", "true");
+    return storedKey.responseBody
+      ? res.status(storedKey.responseStatus).json(storedKey.responseBody)
+      : res.sendStatus(storedKey.responseStatus);
+  }
+
+  const idempotencyKey = createIdempotencyKey({
+    key,
+    userId,
+    method: req.method,
+    path,
+    requestHash,
+  });
+
+  let responseBody: object | undefined;
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.on("finish", () => {
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      saveIdempotencyKeyResponse(idempotencyKey.id, res.statusCode, responseBody);
+    } else {
+      removeIdempotencyKeyById(idempotencyKey.id);
+    }
+  });
+
+  next();
+};
@@ -0,0 +1,24 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import { getInsightsForUser } from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import { isInsightsQSValidator } from "./validators";
+import { InsightsQueryPayload } from "../src/models";
+const router = express.Router();
+
+// Routes
+
+//GET /insights (scoped-user) - covers all of the user's transactions without a date range
+router.get("/", ensureAuthenticated, validateMiddleware(isInsightsQSValidator), (req, res) => {
+  const query: InsightsQueryPayload = req.query;
+
+  /* istanbul ignore next */
+  const insights = getInsightsForUser(req.user?.id!, query);
+
+  res.status(200);
+  res.json({ insights });
+});
+
+export default router;
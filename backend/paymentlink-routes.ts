@@ -0,0 +1,49 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import { createPaymentLinkForUser, getPaymentLinkForApi } from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import { isPaymentLinkPayloadValidator } from "./validators";
+import { isExpiredPaymentLink } from "../src/utils/paymentLinkUtils";
+import { PaymentLinkPayload } from "../src/models";
+import { now } from "./clock";
+const router = express.Router();
+
+// Routes
+
+//POST /paymentLinks (scoped-user) - signs a link that pays the user
+router.post(
+  "/",
+  ensureAuthenticated,
+  validateMiddleware(isPaymentLinkPayloadValidator),
+  (req, res) => {
+    const paymentLinkDetails: PaymentLinkPayload = req.body;
+
+    /* istanbul ignore next */
+    const paymentLink = createPaymentLinkForUser(req.user?.id!, paymentLinkDetails);
+
+    res.status(200);
+    res.json({ paymentLink });
+  }
+);
+
+//GET /paymentLinks/:token - public, like the profile of the user it pays
+router.get("/:token", (req, res) => {
+  const paymentLink = getPaymentLinkForApi(req.params.token);
+
+  if (!paymentLink) {
+    return res.sendStatus(404);
+  }
+
+  if (isExpiredPaymentLink(paymentLink, now())) {
+    return res.status(422).json({
+      errors: [{ location: "params", param: "token", msg: "This payment link has expired" }],
+    });
+  }
+
+  res.status(200);
+  res.json({ paymentLink });
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import { PaymentLink } from "../src/models";
+
+// Payment links are signed with HMAC-SHA256 under PAYMENT_LINK_SECRET, so their receiver, amount,
+// note and expiry cannot be changed by whoever holds the link.
+const ALGORITHM = "sha256";
+
+// Signs links in development and tests so the app runs out of the box; never used elsewhere
+const DEVELOPMENT_SECRET = "NhVUdlQdpUPHm2oyCGnu4SxUW1K2ZUmkPjB3fJYqG0I=";
+
+const getSecret = () => {
+  if (process.env.PAYMENT_LINK_SECRET) {
+    return process.env.PAYMENT_LINK_SECRET;
+  }
+  if (process.env.NODE_ENV !== "development" && process.env.NODE_ENV !== "test") {
+    throw new Error("PAYMENT_LINK_SECRET must be set to sign payment links");
+  }
+  return DEVELOPMENT_SECRET;
+};
+
+// Buffer's own "base64url" encoding needs Node 14.18, above the version in package.json engines
+const toBase64Url = (value: Buffer) =>
+  value.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+
+const sign = (encodedLink: string) =>
+  toBase64Url(crypto.createHmac(ALGORITHM, getSecret()).update(encodedLink).digest());
+
+// Tokens look like <base64url link>.<base64url signature>
+export const signPaymentLink = (link: PaymentLink) => {
+  const encodedLink = toBase64Url(Buffer.from(JSON.stringify(link), "utf8"));
+
+  return `${encodedLink}.${sign(encodedLink)}`;
+};
+
+// The link a token carries, if the token was signed by us
+export const verifyPaymentLink = (token: string): PaymentLink | undefined => {
+  const [encodedLink, signature, ...rest] = token.split(".");
+
+  if (!encodedLink || !signature || rest.length > 0) {
+    return;
+  }
+
+  const expectedSignature = Buffer.from(sign(encodedLink));
+  const givenSignature = Buffer.from(signature);
+  if (
+    givenSignature.length !== expectedSignature.length ||
+    !crypto.timingSafeEqual(givenSignature, expectedSignature)
+  ) {
+    return;
+  }
+
+  try {
+    return JSON.parse(fromBase64Url(encodedLink).toString("utf8"));
+  } catch (error) {
+    return;
+  }
+};
@@ -0,0 +1,54 @@
+///<reference path="types.ts" />
+
+import express from "express";
+
+import {
+  getRiskEvaluationsAwaitingReview,
+  getRiskEvaluationForTransaction,
+  reviewHeldTransaction,
+} from "./database";
+import { ensureAuthenticated, ensureOperator, validateMiddleware } from "./helpers";
+import { shortIdValidation, isRiskReviewValidator } from "./validators";
+import { RiskOutcome, RiskReviewPayload } from "../src/models";
+const router = express.Router();
+
+// Routes
+
+//GET /riskReviews (operator) - held payments waiting for a review, oldest first
+router.get("/", ensureAuthenticated, ensureOperator, (req, res) => {
+  res.status(200);
+  res.json({ results: getRiskEvaluationsAwaitingReview() });
+});
+
+//POST /riskReviews/:transactionId (operator) - releases (allow) or rejects (block) a held payment
+router.post(
+  "/:transactionId",
+  ensureAuthenticated,
+  ensureOperator,
+  validateMiddleware([shortIdValidation("transactionId"), ...isRiskReviewValidator]),
+  (req, res) => {
+    const { outcome }: RiskReviewPayload = req.body;
+    const riskEvaluation = getRiskEvaluationForTransaction(req.params.transactionId);
+
+    // Permission: a held payment, which operators do not review for themselves
+    /* istanbul ignore next */
+    if (riskEvaluation?.outcome !== RiskOutcome.hold || riskEvaluation.userId === req.user?.id) {
+      return res.sendStatus(404);
+    }
+
+    if (riskEvaluation.reviewOutcome) {
+      return res.status(422).json({
+        errors: [
+          { location: "params", param: "transactionId", msg: "Payment has already been reviewed" },
+        ],
+      });
+    }
+
+    const transaction = reviewHeldTransaction(riskEvaluation.transactionId, outcome);
+
+    res.status(200);
+    res.json({ transaction });
+  }
+);
+
+export default router;
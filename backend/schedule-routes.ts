@@ -0,0 +1,141 @@
+///<reference path="types.ts" />
+
+import express, { Request, Response, NextFunction } from "express";
+import { pick } from "lodash/fp";
+import { isBefore } from "date-fns";
+
+import {
+  getSchedulesForUserForApi,
+  getScheduleById,
+  getUserById,
+  createScheduleForUser,
+  updateScheduleById,
+  cancelScheduleById,
+  getBankAccountSourceError,
+} from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import {
+  shortIdValidation,
+  isSchedulePayloadValidator,
+  isSchedulePatchValidator,
+} from "./validators";
+import { ScheduleStatus } from "../src/models";
+const router = express.Router();
+
+// Permission: schedule owner
+const ensureScheduleOwner = (req: Request, res: Response, next: NextFunction) => {
+  const schedule = getScheduleById(req.params.scheduleId);
+
+  /* istanbul ignore next */
+  if (!schedule || schedule.userId !== req.user?.id) {
+    return res.sendStatus(404);
+  }
+
+  next();
+};
+
+const scheduleError = (param: string, msg: string) => ({
+  errors: [{ location: "body", param, msg }],
+});
+
+// Routes
+
+//GET /schedules (scoped-user)
+router.get("/", ensureAuthenticated, (req, res) => {
+  /* istanbul ignore next */
+  const schedules = getSchedulesForUserForApi(req.user?.id!);
+
+  res.status(200);
+  res.json({ results: schedules });
+});
+
+//GET /schedules/:scheduleId (scoped-user)
+router.get(
+  "/:scheduleId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("scheduleId")]),
+  ensureScheduleOwner,
+  (req, res) => {
+    const schedule = getScheduleById(req.params.scheduleId);
+
+    res.status(200);
+    res.json({ schedule });
+  }
+);
+
+//POST /schedules (scoped-user)
+router.post(
+  "/",
+  ensureAuthenticated,
+  validateMiddleware(isSchedulePayloadValidator),
+  (req, res) => {
+    const { receiverId, source, startDate, endDate } = req.body;
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+
+    if (receiverId === userId || !getUserById(receiverId)) {
+      return res.status(422).json(scheduleError("receiverId", "Receiver not found"));
+    }
+
+    const sourceError = source && getBankAccountSourceError(userId, source);
+    if (sourceError) {
+      return res.status(422).json(scheduleError("source", sourceError));
+    }
+
+    if (endDate && isBefore(new Date(endDate), new Date(startDate))) {
+      return res.status(422).json(scheduleError("endDate", "End date is before start date"));
+    }
+
+    const schedule = createScheduleForUser(userId, req.body);
+
+    res.status(200);
+    res.json({ schedule });
+  }
+);
+
+//PATCH /schedules/:scheduleId (scoped-user)
+router.patch(
+  "/:scheduleId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("scheduleId"), ...isSchedulePatchValidator]),
+  ensureScheduleOwner,
+  (req, res) => {
+    const { scheduleId } = req.params;
+    const schedule = getScheduleById(scheduleId);
+    const { source } = req.body;
+
+    if (schedule.status !== ScheduleStatus.active && schedule.status !== ScheduleStatus.paused) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "scheduleId", msg: "Schedule has ended" }],
+      });
+    }
+
+    /* istanbul ignore next */
+    const sourceError = source && getBankAccountSourceError(req.user?.id!, source);
+    if (sourceError) {
+      return res.status(422).json(scheduleError("source", sourceError));
+    }
+
+    updateScheduleById(
+      scheduleId,
+      pick(["amount", "description", "source", "endDate", "status"], req.body)
+    );
+    res.sendStatus(204);
+  }
+);
+
+//DELETE /schedules/:scheduleId (scoped-user)
+router.delete(
+  "/:scheduleId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("scheduleId")]),
+  ensureScheduleOwner,
+  (req, res) => {
+    const schedule = cancelScheduleById(req.params.scheduleId);
+
+    res.status(200);
+    res.json({ schedule });
+  }
+);
+
+export default router;
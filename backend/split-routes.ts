@@ -0,0 +1,88 @@
+///<reference path="types.ts" />
+
+import express from "express";
+import { map, uniq, some } from "lodash/fp";
+
+import {
+  getSplitById,
+  getSplitSummaryById,
+  getRequestsForSplit,
+  getUserById,
+  createSplitForUser,
+  formatTransactionsForApiResponse,
+} from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import { shortIdValidation, isSplitPayloadValidator } from "./validators";
+import { SplitShare, Transaction } from "../src/models";
+import { getSplitShareError } from "../src/utils/splitUtils";
+import { getCurrency } from "../src/utils/currencyUtils";
+const router = express.Router();
+
+// Routes
+
+//GET /splits/:splitId (scoped-user)
+router.get(
+  "/:splitId",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("splitId")]),
+  (req, res) => {
+    const { splitId } = req.params;
+    const split = getSplitById(splitId);
+    const requests = getRequestsForSplit(splitId);
+
+    // Permission: requester or one of the people asked to pay
+    /* istanbul ignore next */
+    if (
+      !split ||
+      (split.userId !== req.user?.id &&
+        !some((request: Transaction) => request.receiverId === req.user?.id, requests))
+    ) {
+      return res.sendStatus(404);
+    }
+
+    res.status(200);
+    res.json({
+      split,
+      summary: getSplitSummaryById(splitId),
+      requests: formatTransactionsForApiResponse(requests),
+    });
+  }
+);
+
+//POST /splits (scoped-user)
+router.post("/", ensureAuthenticated, validateMiddleware(isSplitPayloadValidator), (req, res) => {
+  const { amount, method, shares } = req.body;
+  /* istanbul ignore next */
+  const userId = req.user?.id!;
+  const receiverIds: string[] = map("receiverId", shares);
+
+  if (
+    uniq(receiverIds).length !== receiverIds.length ||
+    receiverIds.some((receiverId) => receiverId === userId || !getUserById(receiverId))
+  ) {
+    return res.status(422).json({
+      errors: [
+        { location: "body", param: "shares", msg: "Receivers must be other, distinct users" },
+      ],
+    });
+  }
+
+  const shareError = getSplitShareError(
+    Math.round(amount * 100),
+    method,
+    shares as SplitShare[],
+    getCurrency(getUserById(userId))
+  );
+  if (shareError) {
+    return res.status(422).json({
+      errors: [{ location: "body", param: "shares", msg: shareError }],
+    });
+  }
+
+  const split = createSplitForUser(userId, req.body);
+
+  res.status(200);
+  res.json({ split, summary: getSplitSummaryById(split.id) });
+});
+
+export default router;
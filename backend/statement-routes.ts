@@ -0,0 +1,30 @@
+///<reference path="types.ts" />
+
+import express from "express";
+import { startOfMonth } from "date-fns";
+
+import { getStatementForUser } from "./database";
+import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import { isStatementQSValidator } from "./validators";
+import { StatementQueryPayload } from "../src/models";
+import { now } from "./clock";
+const router = express.Router();
+
+// Routes
+
+//GET /statements (scoped-user) - defaults to the current month so far
+router.get("/", ensureAuthenticated, validateMiddleware(isStatementQSValidator), (req, res) => {
+  const { from, to }: StatementQueryPayload = req.query;
+
+  /* istanbul ignore next */
+  const statement = getStatementForUser(
+    req.user?.id!,
+    from ? new Date(from) : startOfMonth(now()),
+    to ? new Date(to) : now()
+  );
+
+  res.status(200);
+  res.json({ statement });
+});
+
+export default router;
@@ -1,7 +1,8 @@
 ///<reference path="types.ts" />
 
 import express from "express";
-import { getAllForEntity, seedDatabase } from "./database";
+import { getAllForEntity, seedDatabase, expireOverdueRequests, runDueSchedules } from "./database";
+import { setClock, resetClock } from "./clock";
 import { validateMiddleware } from "./helpers";
 import { isValidEntityValidator } from "./validators";
 import { DbSchema } from "../src/models/db-schema";
@@ -15,6 +16,34 @@ router.post("/seed", (req, res) => {
   res.sendStatus(200);
 });
 
+//POST /testData/clock - pin the clock used for time-based rules
+router.post("/clock", (req, res) => {
+  setClock(req.body.now);
+  res.sendStatus(200);
+});
+
+//DELETE /testData/clock
+router.delete("/clock", (req, res) => {
+  resetClock();
+  res.sendStatus(200);
+});
+
+//POST /testData/expireRequests - run the request expiry sweeper immediately
+router.post("/expireRequests", (req, res) => {
+  const results = expireOverdueRequests();
+
+  res.status(200);
+  res.json({ results });
+});
+
+//POST /testData/runSchedules - run the scheduled payments runner immediately
+router.post("/runSchedules", (req, res) => {
+  const results = runDueSchedules();
+
+  res.status(200);
+  res.json({ results });
+});
+
 //GET /testData/:entity
 router.get("/:entity", validateMiddleware([...isValidEntityValidator]), (req, res) => {
   const { entity } = req.params;
@@ -1,7 +1,7 @@
 ///<reference path="types.ts" />
 
 import express from "express";
-import { remove, isEmpty, slice, concat } from "lodash/fp";
+import { remove, isEmpty, slice, concat, includes, map } from "lodash/fp";
 import {
   getTransactionsForUserContacts,
   createTransaction,
@@ -10,8 +10,28 @@ import {
   getTransactionByIdForApi,
   getTransactionsForUserForApi,
   getPublicTransactionsByQuery,
+  getTransactionById,
+  getUserById,
+  getBankAccountSourceError,
+  getRefundableAmount,
+  createRefundForTransaction,
+  getPaymentsForRequest,
+  getRequestPayableAmount,
+  getRequestPaymentSource,
+  createPaymentForRequest,
+  getSpendingLimitErrorForUser,
+  getDisputesForTransaction,
+  formatDisputeForApiResponse,
+  formatTransactionLabelsForUser,
+  getSuggestedCategoryForUser,
+  saveTransactionLabel,
 } from "./database";
-import { ensureAuthenticated, validateMiddleware } from "./helpers";
+import {
+  ensureAuthenticated,
+  validateMiddleware,
+  getFundingError,
+  ensureIdempotent,
+} from "./helpers";
 import {
   sanitizeTransactionStatus,
   sanitizeRequestStatus,
@@ -20,8 +40,43 @@ import {
   shortIdValidation,
   isTransactionPatchValidator,
   isTransactionPublicQSValidator,
+  isTransactionRefundValidator,
+  isTransactionRequestPaymentValidator,
+  isTransactionLabelValidator,
+  isTransactionExportQSValidator,
 } from "./validators";
-import { getPaginatedItems } from "../src/utils/transactionUtils";
+import {
+  getPaginatedItems,
+  isIncompleteTransaction,
+  isExpiredRequestTransaction,
+  isRefundableTransaction,
+  getTransactionPayeeId,
+  isCancelledRequestTransaction,
+  isRequestTransaction,
+  isPendingRequestTransaction,
+  isPayableRequestTransaction,
+} from "../src/utils/transactionUtils";
+import { isTransactionParty } from "../src/utils/disputeUtils";
+import { getLineItemsError } from "../src/utils/lineItemUtils";
+import {
+  exportContentTypes,
+  getExportFilename,
+  csvHeader,
+  formatCsvRow,
+  formatTransactionCsvRow,
+  formatOfxHeader,
+  formatTransactionOfx,
+  formatOfxFooter,
+  isSettledTransaction,
+} from "../src/utils/exportUtils";
+import { getCurrency } from "../src/utils/currencyUtils";
+import {
+  TransactionRequestStatus,
+  TransactionExportQueryPayload,
+  TransactionResponseItem,
+  RiskOutcome,
+} from "../src/models";
+import { now } from "./clock";
 const router = express.Router();
 
 // Routes
@@ -37,7 +92,8 @@ router.get(
   ]),
   (req, res) => {
     /* istanbul ignore next */
-    const transactions = getTransactionsForUserForApi(req.user?.id!, req.query);
+    const userId = req.user?.id!;
+    const transactions = getTransactionsForUserForApi(userId, req.query);
 
     const { totalPages, data: paginatedItems } = getPaginatedItems(
       req.query.page,
@@ -53,7 +109,10 @@ router.get(
         hasNextPages: res.locals.paginate.hasNextPages(totalPages),
         totalPages,
       },
-      results: paginatedItems,
+      results: map(
+        formatTransactionLabelsForUser(userId),
+        paginatedItems as TransactionResponseItem[]
+      ),
     });
   }
 );
@@ -133,11 +192,55 @@ router.get(
   }
 );
 
+//GET /transactions/export - scoped user, auth-required
+// Same result set as GET /transactions, unpaginated, written out one transaction at a time
+router.get(
+  "/export",
+  ensureAuthenticated,
+  validateMiddleware([
+    sanitizeTransactionStatus,
+    sanitizeRequestStatus,
+    ...isTransactionExportQSValidator,
+  ]),
+  (req, res) => {
+    const { format, ...query }: TransactionExportQueryPayload = req.query;
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const user = getUserById(userId);
+    const currency = getCurrency(user);
+    const generatedAt = now();
+    const transactions: TransactionResponseItem[] = getTransactionsForUserForApi(userId, query);
+
+    res.status(200);
+    res.type(exportContentTypes[format]);
+    res.attachment(getExportFilename(format, generatedAt));
+
+    if (format === "csv") {
+      res.write(formatCsvRow(csvHeader));
+      transactions.forEach((transaction) =>
+        res.write(formatTransactionCsvRow(userId, currency, transaction))
+      );
+    } else {
+      res.write(
+        formatOfxHeader(userId, currency, generatedAt, query.dateRangeStart, query.dateRangeEnd)
+      );
+      // a statement only lists money that moved
+      transactions
+        .filter(isSettledTransaction)
+        .forEach((transaction) => res.write(formatTransactionOfx(userId, transaction)));
+      res.write(formatOfxFooter(user.balance, generatedAt));
+    }
+
+    res.end();
+  }
+);
+
 //POST /transactions - scoped-user
 router.post(
   "/",
   ensureAuthenticated,
   validateMiddleware(isTransactionPayloadValidator),
+  ensureIdempotent,
   (req, res) => {
     const transactionPayload = req.body;
     const transactionType = transactionPayload.transactionType;
@@ -145,7 +248,44 @@ router.post(
     remove("transactionType", transactionPayload);
 
     /* istanbul ignore next */
-    const transaction = createTransaction(req.user?.id!, transactionType, transactionPayload);
+    const userId = req.user?.id!;
+    const sourceError =
+      transactionPayload.source && getBankAccountSourceError(userId, transactionPayload.source);
+    if (sourceError) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "source", msg: sourceError }],
+      });
+    }
+
+    const lineItemsError =
+      transactionPayload.lineItems &&
+      getLineItemsError(
+        Math.round(transactionPayload.amount * 100),
+        transactionPayload.lineItems,
+        getCurrency(getUserById(userId))
+      );
+    if (lineItemsError) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "amount", msg: lineItemsError }],
+      });
+    }
+
+    const spendingLimitError = getSpendingLimitErrorForUser(
+      userId,
+      transactionType === "payment" ? Math.round(transactionPayload.amount * 100) : 0
+    );
+    if (spendingLimitError) {
+      return res.status(422).json({ errors: [spendingLimitError] });
+    }
+
+    const transaction = createTransaction(userId, transactionType, transactionPayload);
+
+    // the blocked payment is kept, incomplete, with its risk evaluation
+    if (transaction.riskOutcome === RiskOutcome.block) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "amount", msg: "Payment was blocked by risk checks" }],
+      });
+    }
 
     res.status(200);
     res.json({ transaction });
@@ -161,9 +301,52 @@ router.get(
     const { transactionId } = req.params;
 
     const transaction = getTransactionByIdForApi(transactionId);
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+
+    // disputes and labels are only shown to the two parties
+    if (!isTransactionParty(userId, transaction)) {
+      res.status(200);
+      return res.json({ transaction });
+    }
+
+    const [latestDispute] = getDisputesForTransaction(transactionId);
+    const labelledTransaction = formatTransactionLabelsForUser(userId, transaction);
 
     res.status(200);
-    res.json({ transaction });
+    res.json({
+      transaction: {
+        ...labelledTransaction,
+        dispute: latestDispute && formatDisputeForApiResponse(latestDispute),
+        suggestedCategory: labelledTransaction.category
+          ? undefined
+          : getSuggestedCategoryForUser(userId, transaction),
+      },
+    });
+  }
+);
+
+//PATCH /transactions/:transactionId/labels - scoped-user
+// Each party keeps their own category and tags for the transaction
+router.patch(
+  "/:transactionId/labels",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("transactionId"), ...isTransactionLabelValidator]),
+  (req, res) => {
+    const { transactionId } = req.params;
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const transaction = getTransactionById(transactionId);
+
+    // Permission: either party to the transaction
+    if (!transaction || !isTransactionParty(userId, transaction)) {
+      return res.sendStatus(404);
+    }
+
+    const label = saveTransactionLabel(userId, transactionId, req.body);
+
+    res.status(200);
+    res.json({ label });
   }
 );
 
@@ -172,8 +355,66 @@ router.patch(
   "/:transactionId",
   ensureAuthenticated,
   validateMiddleware([shortIdValidation("transactionId"), ...isTransactionPatchValidator]),
+  ensureIdempotent,
   (req, res) => {
     const { transactionId } = req.params;
+    const transaction = getTransactionById(transactionId);
+
+    if (isCancelledRequestTransaction(transaction)) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "transactionId", msg: "Request was cancelled" }],
+      });
+    }
+
+    if (
+      (isPendingRequestTransaction(transaction) && isIncompleteTransaction(transaction)) ||
+      isExpiredRequestTransaction(now(), transaction)
+    ) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "transactionId", msg: "Request has expired" }],
+      });
+    }
+
+    if (!isPayableRequestTransaction(transaction)) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "transactionId", msg: "Request is no longer open" }],
+      });
+    }
+
+    if (
+      includes(req.body.requestStatus, [
+        TransactionRequestStatus.rejected,
+        TransactionRequestStatus.cancelled,
+      ]) &&
+      !isEmpty(getPaymentsForRequest(transactionId))
+    ) {
+      return res.status(422).json({
+        errors: [
+          { location: "params", param: "transactionId", msg: "Request has been partly paid" },
+        ],
+      });
+    }
+
+    // Accepting pays what is left of the request, without creating a new transaction
+    if (req.body.requestStatus === TransactionRequestStatus.accepted) {
+      const fundingError = getFundingError(
+        transaction.receiverId,
+        getRequestPayableAmount(transaction),
+        getRequestPaymentSource(transaction)
+      );
+      if (fundingError) {
+        return res.status(422).json({ errors: [fundingError] });
+      }
+
+      const spendingLimitError = getSpendingLimitErrorForUser(
+        transaction.receiverId,
+        getRequestPayableAmount(transaction),
+        0
+      );
+      if (spendingLimitError) {
+        return res.status(422).json({ errors: [spendingLimitError] });
+      }
+    }
 
     /* istanbul ignore next */
     updateTransactionById(transactionId, req.body);
@@ -182,4 +423,95 @@ router.patch(
   }
 );
 
+//POST /transactions/:transactionId/refunds - scoped-user
+router.post(
+  "/:transactionId/refunds",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("transactionId"), ...isTransactionRefundValidator]),
+  (req, res) => {
+    const { transactionId } = req.params;
+    const { amount, source } = req.body;
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const transaction = getTransactionById(transactionId);
+
+    // Permission: the user who received the money
+    if (!transaction || getTransactionPayeeId(transaction) !== userId) {
+      return res.sendStatus(404);
+    }
+
+    if (!isRefundableTransaction(transaction)) {
+      return res.status(422).json({
+        errors: [
+          { location: "params", param: "transactionId", msg: "Transaction cannot be refunded" },
+        ],
+      });
+    }
+
+    const refundAmount = Math.round(amount * 100);
+    if (refundAmount > getRefundableAmount(transaction)) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "amount", msg: "Amount exceeds what can be refunded" }],
+      });
+    }
+
+    const fundingError = getFundingError(userId, refundAmount, source);
+    if (fundingError) {
+      return res.status(422).json({ errors: [fundingError] });
+    }
+
+    const refund = createRefundForTransaction(transaction, { amount, source });
+
+    res.status(200);
+    res.json({ transaction: refund });
+  }
+);
+
+//POST /transactions/:transactionId/payments - scoped-user
+router.post(
+  "/:transactionId/payments",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("transactionId"), ...isTransactionRequestPaymentValidator]),
+  (req, res) => {
+    const { transactionId } = req.params;
+    const { amount, source } = req.body;
+    /* istanbul ignore next */
+    const userId = req.user?.id!;
+    const request = getTransactionById(transactionId);
+
+    // Permission: the user asked to pay the request
+    if (!request || !isRequestTransaction(request) || request.receiverId !== userId) {
+      return res.sendStatus(404);
+    }
+
+    if (!isPayableRequestTransaction(request) || isExpiredRequestTransaction(now(), request)) {
+      return res.status(422).json({
+        errors: [{ location: "params", param: "transactionId", msg: "Request is no longer open" }],
+      });
+    }
+
+    const paymentAmount = Math.round(amount * 100);
+    if (paymentAmount > getRequestPayableAmount(request)) {
+      return res.status(422).json({
+        errors: [{ location: "body", param: "amount", msg: "Amount exceeds what is left to pay" }],
+      });
+    }
+
+    const fundingError = getFundingError(userId, paymentAmount, source);
+    if (fundingError) {
+      return res.status(422).json({ errors: [fundingError] });
+    }
+
+    const spendingLimitError = getSpendingLimitErrorForUser(userId, paymentAmount);
+    if (spendingLimitError) {
+      return res.status(422).json({ errors: [spendingLimitError] });
+    }
+
+    const payment = createPaymentForRequest(request, { amount, source });
+
+    res.status(200);
+    res.json({ transaction: payment });
+  }
+);
+
 export default router;
@@ -1,7 +1,7 @@
 ///<reference path="types.ts" />
 
 import express from "express";
-import { isEqual, pick } from "lodash/fp";
+import { isEqual, isEmpty, pick } from "lodash/fp";
 
 import {
   getAllUsers,
@@ -11,8 +11,11 @@ import {
   getUserByUsername,
   searchUsers,
   removeUserFromResults,
+  getSpendingLimitsForUser,
+  getGroupsForUser,
 } from "./database";
 import { User } from "../src/models/user";
+import { getCurrency } from "../src/utils/currencyUtils";
 import { ensureAuthenticated, validateMiddleware } from "./helpers";
 import {
   shortIdValidation,
@@ -69,6 +72,28 @@ router.get(
   }
 );
 
+router.get(
+  "/:userId/limits",
+  ensureAuthenticated,
+  validateMiddleware([shortIdValidation("userId")]),
+  (req, res) => {
+    const { userId } = req.params;
+
+    // Permission: account owner
+    /* istanbul ignore next */
+    if (!isEqual(userId, req.user?.id)) {
+      return res.status(401).send({
+        error: "Unauthorized",
+      });
+    }
+
+    const limits = getSpendingLimitsForUser(userId);
+
+    res.status(200);
+    res.json({ limits });
+  }
+);
+
 router.get("/profile/:username", (req, res) => {
   const { username } = req.params;
 
@@ -86,7 +111,44 @@ router.patch(
   (req, res) => {
     const { userId } = req.params;
 
+    // Permission: account owner
+    /* istanbul ignore next */
+    if (!isEqual(userId, req.user?.id)) {
+      return res.status(401).send({
+        error: "Unauthorized",
+      });
+    }
+
     const edits: User = req.body;
+    const user = getUserById(userId);
+
+    const isCurrencyChange = !!edits.currency && edits.currency !== getCurrency(user);
+
+    // balances are kept in the user's currency, so it can only change while there is none
+    if (isCurrencyChange && user.balance !== 0) {
+      return res.status(422).json({
+        errors: [
+          {
+            location: "body",
+            param: "currency",
+            msg: "Currency can only be changed when the balance is zero",
+          },
+        ],
+      });
+    }
+
+    // members pay into and out of group wallets without an exchange, in the group's currency
+    if (isCurrencyChange && !isEmpty(getGroupsForUser(userId))) {
+      return res.status(422).json({
+        errors: [
+          {
+            location: "body",
+            param: "currency",
+            msg: "Currency cannot be changed while the user is a member of a group",
+          },
+        ],
+      });
+    }
 
     updateUserById(userId, edits);
 
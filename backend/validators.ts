@@ -5,13 +5,30 @@ import {
   TransactionRequestStatus,
   DefaultPrivacyLevel,
   NotificationsType,
+  ScheduleFrequency,
+  ScheduleStatus,
+  SplitMethod,
+  CurrencyCode,
+  DisputeReason,
+  DisputeStatus,
+  TransactionCategory,
+  GroupRole,
+  GroupPaymentType,
+  RiskOutcome,
 } from "../src/models";
 import { includes } from "lodash/fp";
+import { getTransactionById } from "./database";
+import { now } from "./clock";
+import { isValidRoutingNumber, isValidAccountNumber } from "../src/utils/bankAccountUtils";
 
 const TransactionStatusValues = Object.values(TransactionStatus);
 const RequestStatusValues = Object.values(TransactionRequestStatus);
 const DefaultPrivacyLevelValues = Object.values(DefaultPrivacyLevel);
 const NotificationsTypeValues = Object.values(NotificationsType);
+const ScheduleFrequencyValues = Object.values(ScheduleFrequency);
+const CurrencyCodeValues = Object.values(CurrencyCode);
+const TransactionCategoryValues = Object.values(TransactionCategory);
+const GroupRoleValues = Object.values(GroupRole);
 
 // Validators
 
@@ -25,15 +42,46 @@ export const userFieldsValidator = oneOf([
   check("firstName").exists(),
   check("lastName").exists(),
   check("password").exists(),
-  check("balance").exists(),
   check("avatar").exists(),
   check("defaultPrivacyLevel").exists(),
+  check("currency").exists(),
 ]);
 
 export const isBankAccountValidator = [
   body("bankName").isString().trim(),
-  body("accountNumber").isString().trim(),
-  body("routingNumber").isString().trim(),
+  body("accountNumber")
+    .isString()
+    .trim()
+    .custom(isValidAccountNumber)
+    .withMessage("Must be a valid bank account number"),
+  body("routingNumber")
+    .isString()
+    .trim()
+    .custom(isValidRoutingNumber)
+    .withMessage("Must be a valid bank routing number"),
+];
+
+export const isBankAccountUpdateValidator = [
+  body("bankName")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 5 })
+    .withMessage("Must contain at least 5 characters"),
+  body("isDefault")
+    .optional()
+    .custom((value) => value === true)
+    .withMessage("Set another bank account as the default instead"),
+];
+
+export const isBankAccountVerificationValidator = [
+  body("amounts").isArray({ min: 2, max: 2 }),
+  body("amounts.*").isFloat({ gt: 0, lt: 1 }).toFloat(),
+];
+
+export const isBankTransferPayloadValidator = [
+  body("source").isString().trim(),
+  body("amount").isFloat({ gt: 0 }).toFloat(),
 ];
 
 export const isUserValidator = [
@@ -43,11 +91,16 @@ export const isUserValidator = [
   check("password").optional({ checkFalsy: true }).isString().trim(),
   check("email").optional({ checkFalsy: true }).isString().trim(),
   check("phoneNumber").optional({ checkFalsy: true }).isString().trim(),
-  check("balance").optional({ checkFalsy: true }).isNumeric().trim(),
+  check("balance").not().exists().withMessage("Balance can only change through transactions"),
+  check("role").not().exists().withMessage("Roles cannot be changed"),
+  check("spendingLimits").not().exists().withMessage("Spending limits cannot be changed"),
+  check("createdAt").not().exists().withMessage("Account dates cannot be changed"),
+  check("modifiedAt").not().exists().withMessage("Account dates cannot be changed"),
   check("avatar").optional({ checkFalsy: true }).isURL().trim(),
   check("defaultPrivacyLevel")
     .optional({ checkFalsy: true })
     .isIn(["public", "private", "contacts"]),
+  check("currency").optional({ checkFalsy: true }).isIn(CurrencyCodeValues),
 ];
 
 export const sanitizeTransactionStatus = sanitizeQuery("status").customSanitizer((value) => {
@@ -76,6 +129,13 @@ export const isTransactionQSValidator = [
   query("rangeEndTs").optional({ checkFalsy: true }).isString().trim(),
   query("amountMax").optional({ checkFalsy: true }).isNumeric().trim(),
   query("amountMin").optional({ checkFalsy: true }).isNumeric().trim(),
+  query("category").optional({ checkFalsy: true }).isIn(TransactionCategoryValues).trim(),
+  query("tag").optional({ checkFalsy: true }).isString().trim(),
+];
+
+export const isTransactionExportQSValidator = [
+  query("format").isIn(["csv", "ofx"]).trim(),
+  ...isTransactionQSValidator,
 ];
 
 export const isTransactionPayloadValidator = [
@@ -84,10 +144,89 @@ export const isTransactionPayloadValidator = [
   body("source").optional().isString().trim(),
   body("receiverId").isString().trim(),
   body("description").isString().trim(),
-  body("amount").isNumeric().trim().toInt(),
+  body("amount").isNumeric().trim().toFloat(),
+  body("lineItems")
+    .optional()
+    .isArray({ min: 1, max: 50 })
+    .custom((lineItems, { req }) => {
+      if (req.body.transactionType !== "request") {
+        throw new Error("Only requests can be itemized");
+      }
+      return true;
+    }),
+  body("lineItems.*.name").isString().trim().notEmpty(),
+  body("lineItems.*.quantity").isFloat({ gt: 0 }).toFloat(),
+  body("lineItems.*.unitPrice").isFloat({ min: 0 }).toFloat(),
+  body("lineItems.*.taxRate")
+    .optional({ checkFalsy: true })
+    .isFloat({ min: 0, max: 100 })
+    .toFloat(),
+];
+
+export const isTransactionPatchValidator = [
+  body("requestStatus")
+    .isIn(RequestStatusValues)
+    .custom((requestStatus, { req }) => {
+      const transaction = getTransactionById(req.params!.transactionId);
+
+      // only the user who sent a request can withdraw it
+      if (
+        requestStatus === TransactionRequestStatus.cancelled &&
+        transaction?.senderId !== req.user?.id
+      ) {
+        throw new Error("Only the sender can cancel a request");
+      }
+      // and only the user it was sent to can pay or decline it
+      if (
+        requestStatus !== TransactionRequestStatus.cancelled &&
+        transaction?.receiverId !== req.user?.id
+      ) {
+        throw new Error("Only the receiver can accept or reject a request");
+      }
+      return true;
+    }),
 ];
 
-export const isTransactionPatchValidator = [body("requestStatus").isIn(RequestStatusValues)];
+export const isTransactionRefundValidator = [
+  body("amount").isFloat({ gt: 0 }).toFloat(),
+  body("source").optional({ checkFalsy: true }).isString().trim(),
+];
+
+export const isTransactionRequestPaymentValidator = [
+  body("amount").isFloat({ gt: 0 }).toFloat(),
+  body("source").optional({ checkFalsy: true }).isString().trim(),
+];
+
+export const isSchedulePayloadValidator = [
+  body("receiverId").isString().trim(),
+  body("source").optional().isString().trim(),
+  body("description").isString().trim(),
+  body("amount").isFloat({ gt: 0 }).toFloat(),
+  body("privacyLevel").optional().isIn(DefaultPrivacyLevelValues).trim(),
+  body("frequency").isIn(ScheduleFrequencyValues),
+  body("interval").isInt({ min: 1, max: 52 }).toInt(),
+  body("startDate").isISO8601(),
+  body("endDate").optional({ checkFalsy: true }).isISO8601(),
+];
+
+export const isSchedulePatchValidator = [
+  body("source").optional().isString().trim(),
+  body("description").optional().isString().trim(),
+  body("amount").optional().isFloat({ gt: 0 }).toFloat(),
+  body("endDate").optional({ checkFalsy: true }).isISO8601(),
+  body("status").optional().isIn([ScheduleStatus.active, ScheduleStatus.paused]),
+];
+
+export const isSplitPayloadValidator = [
+  body("description").isString().trim(),
+  body("amount").isFloat({ gt: 0 }).toFloat(),
+  body("privacyLevel").optional().isIn(DefaultPrivacyLevelValues).trim(),
+  body("method").isIn(Object.values(SplitMethod)),
+  body("shares").isArray({ min: 2 }),
+  body("shares.*.receiverId").isString().trim(),
+  body("shares.*.percentage").optional().isFloat({ gt: 0 }).toFloat(),
+  body("shares.*.amount").optional().isFloat({ gt: 0 }).toFloat(),
+];
 
 export const isTransactionPublicQSValidator = [
   query("order").optional({ checkFalsy: true }).isIn(["default"]),
@@ -95,6 +234,19 @@ export const isTransactionPublicQSValidator = [
 
 export const isCommentValidator = body("content").isString().trim();
 
+export const isDisputePayloadValidator = [
+  body("transactionId").custom(isShortId),
+  body("reason").isIn(Object.values(DisputeReason)),
+  body("message").isString().trim().notEmpty(),
+];
+
+export const isDisputeMessageValidator = [body("content").isString().trim().notEmpty()];
+
+export const isDisputePatchValidator = [
+  body("status").isIn(Object.values(DisputeStatus)),
+  body("source").optional().isString().trim(),
+];
+
 export const isNotificationsBodyValidator = [
   body("items.*.type").isIn(NotificationsTypeValues).trim(),
   body("items.*.transactionId").custom(isShortId),
@@ -102,6 +254,89 @@ export const isNotificationsBodyValidator = [
 
 export const isNotificationPatchValidator = [body("isRead").isBoolean()];
 
+export const isExchangeRatePatchValidator = [
+  check("currency").isIn(CurrencyCodeValues),
+  body("rate").isFloat({ gt: 0 }).toFloat(),
+];
+
+export const isTransactionLabelValidator = [
+  body("category").optional().isIn(TransactionCategoryValues),
+  body("tags").optional().isArray({ max: 20 }),
+  body("tags.*").isString().trim().isLength({ min: 1, max: 30 }),
+];
+
+export const isBudgetPayloadValidator = [
+  body("category").isIn(TransactionCategoryValues),
+  body("amount").isFloat({ gt: 0 }).toFloat(),
+];
+
+export const isGroupPayloadValidator = [body("name").isString().trim().notEmpty()];
+
+export const isGroupMemberValidator = [
+  body("userId").custom(isShortId),
+  body("role").isIn(GroupRoleValues),
+];
+
+export const isGroupMemberUpdateValidator = [body("role").isIn(GroupRoleValues)];
+
+export const isGroupPaymentValidator = [
+  body("paymentType").isIn(Object.values(GroupPaymentType)),
+  body("amount").isFloat({ gt: 0 }).toFloat(),
+  body("description").isString().trim().notEmpty(),
+  body("receiverId").optional({ checkFalsy: true }).isString().trim(),
+  body("source").optional({ checkFalsy: true }).isString().trim(),
+];
+
+export const isPaymentLinkPayloadValidator = [
+  body("amount").optional({ checkFalsy: true }).isFloat({ gt: 0 }).toFloat(),
+  body("description").optional({ checkFalsy: true }).isString().trim().isLength({ max: 140 }),
+  body("expiresAt")
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .custom((expiresAt) => {
+      if (new Date(expiresAt) <= now()) {
+        throw new Error("Payment links must expire in the future");
+      }
+      return true;
+    }),
+];
+
+export const isAuditLogQSValidator = [
+  query("entity").isIn(["transactions", "bankaccounts", "users"]).trim(),
+  query("entityId").custom(isShortId),
+];
+
+export const isStatementQSValidator = [
+  query("from").optional({ checkFalsy: true }).isISO8601(),
+  query("to")
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .custom((to, { req }) => {
+      if (req.query?.from && new Date(to) < new Date(req.query.from)) {
+        throw new Error("End of the statement must not be before its start");
+      }
+      return true;
+    }),
+];
+
+export const isInsightsQSValidator = [
+  query("dateRangeStart").optional({ checkFalsy: true }).isISO8601(),
+  query("dateRangeEnd")
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .custom((dateRangeEnd, { req }) => {
+      if (
+        req.query?.dateRangeStart &&
+        new Date(dateRangeEnd) < new Date(req.query.dateRangeStart)
+      ) {
+        throw new Error("End of the date range must not be before its start");
+      }
+      return true;
+    }),
+];
+
+export const isRiskReviewValidator = [body("outcome").isIn([RiskOutcome.allow, RiskOutcome.block])];
+
 export const isValidEntityValidator = [
   check("entity")
     .isIn([
@@ -113,6 +348,18 @@ export const isValidEntityValidator = [
       "likes",
       "comments",
       "banktransfers",
+      "ledger",
+      "schedules",
+      "splits",
+      "exchangerates",
+      "idempotencykeys",
+      "disputes",
+      "riskevaluations",
+      "auditlog",
+      "transactionlabels",
+      "budgets",
+      "groups",
+      "groupmembers",
     ])
     .trim(),
 ];
@@ -0,0 +1,65 @@
+import { User, BankAccount } from "../../../src/models";
+
+type TestAuditLogCtx = {
+  authenticatedUser?: User;
+  bankAccountId?: string;
+  otherBankAccountId?: string;
+};
+
+const apiAuditLog = `${Cypress.env("apiUrl")}/auditLog`;
+const apiBankAccounts = `${Cypress.env("apiUrl")}/bankAccounts`;
+
+describe("Audit Log API", function () {
+  let ctx: TestAuditLogCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+
+      cy.database("filter", "bankaccounts").then((bankAccounts: BankAccount[]) => {
+        ctx.bankAccountId = bankAccounts.find(({ userId }) => userId === users[0].id)!.id;
+        ctx.otherBankAccountId = bankAccounts.find(({ userId }) => userId !== users[0].id)!.id;
+      });
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+  });
+
+  context("GET /auditLog", function () {
+    it("records who changed a bank account and when", function () {
+      cy.request({
+        method: "PATCH",
+        url: `${apiBankAccounts}/${ctx.bankAccountId}`,
+        headers: { "X-Request-Id": "rename-request" },
+        body: { bankName: "Audited Bank" },
+      }).then((response) => {
+        expect(response.headers["x-request-id"]).to.eq("rename-request");
+      });
+
+      cy.request("GET", `${apiAuditLog}?entity=bankaccounts&entityId=${ctx.bankAccountId}`).then(
+        (response) => {
+          expect(response.status).to.eq(200);
+          expect(response.body.results[0]).to.include({
+            requestId: "rename-request",
+            actorId: ctx.authenticatedUser!.id,
+            route: `PATCH /bankAccounts/${ctx.bankAccountId}`,
+            action: "update",
+          });
+          expect(response.body.results[0].changes.bankName.after).to.eq("Audited Bank");
+        }
+      );
+    });
+
+    it("error when the record belongs to another user", function () {
+      cy.request({
+        method: "GET",
+        url: `${apiAuditLog}?entity=bankaccounts&entityId=${ctx.otherBankAccountId}`,
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(404);
+      });
+    });
+  });
+});
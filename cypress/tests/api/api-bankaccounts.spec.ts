@@ -39,6 +39,15 @@ describe("Bank Accounts API", function () {
         expect(response.body.results[0].userId).to.eq(userId);
       });
     });
+
+    it("masks account numbers to the last four digits", function () {
+      cy.request("GET", `${apiBankAccounts}`).then((response) => {
+        const { id, accountNumber } = response.body.results[0];
+        const bankAccount = ctx.bankAccounts!.find((account) => account.id === id)!;
+
+        expect(accountNumber).to.eq(`****${bankAccount.accountNumber.slice(-4)}`);
+      });
+    });
   });
 
   context("GET /bankAccounts/:bankAccountId", function () {
@@ -50,6 +59,22 @@ describe("Bank Accounts API", function () {
         expect(response.body.account.userId).to.eq(userId);
       });
     });
+
+    it("error when getting another user's or an unknown bank account", function () {
+      const { id: otherBankAccountId } = ctx.bankAccounts!.find(
+        ({ userId }) => userId !== ctx.authenticatedUser!.id
+      )!;
+
+      [otherBankAccountId, "unknownAcct1"].forEach((bankAccountId) => {
+        cy.request({
+          method: "GET",
+          url: `${apiBankAccounts}/${bankAccountId}`,
+          failOnStatusCode: false,
+        }).then((response) => {
+          expect(response.status).to.eq(404);
+        });
+      });
+    });
   });
 
   context("POST /bankAccounts", function () {
@@ -59,13 +84,45 @@ describe("Bank Accounts API", function () {
       cy.request("POST", `${apiBankAccounts}`, {
         bankName: `${faker.company.companyName()} Bank`,
         accountNumber: faker.finance.account(10),
-        routingNumber: faker.finance.account(9),
+        routingNumber: faker.finance.routingNumber(),
       }).then((response) => {
         expect(response.status).to.eq(200);
         expect(response.body.account.id).to.be.a("string");
         expect(response.body.account.userId).to.eq(userId);
       });
     });
+
+    it("error when the routing number fails the checksum", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiBankAccounts}`,
+        body: {
+          bankName: `${faker.company.companyName()} Bank`,
+          accountNumber: faker.finance.account(10),
+          routingNumber: "123456789",
+        },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("routingNumber");
+      });
+    });
+
+    it("error when the account number is not all digits", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiBankAccounts}`,
+        body: {
+          bankName: `${faker.company.companyName()} Bank`,
+          accountNumber: "12345-6789",
+          routingNumber: faker.finance.routingNumber(),
+        },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("accountNumber");
+      });
+    });
   });
 
   context("DELETE /contacts/:bankAccountId", function () {
@@ -77,6 +134,140 @@ describe("Bank Accounts API", function () {
     });
   });
 
+  context("PATCH /bankAccounts/:bankAccountId", function () {
+    it("renames a bank account", function () {
+      const { id: bankAccountId } = ctx.bankAccounts![0];
+      cy.request("PATCH", `${apiBankAccounts}/${bankAccountId}`, {
+        bankName: "Renamed Bank",
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.account.bankName).to.eq("Renamed Bank");
+        expect(response.body.account.isDefault).to.eq(true);
+      });
+    });
+
+    it("error when making an unverified bank account the default", function () {
+      cy.request("POST", `${apiBankAccounts}`, {
+        bankName: `${faker.company.companyName()} Bank`,
+        accountNumber: faker.finance.account(10),
+        routingNumber: faker.finance.routingNumber(),
+      }).then((response) => {
+        cy.request({
+          method: "PATCH",
+          url: `${apiBankAccounts}/${response.body.account.id}`,
+          body: { isDefault: true },
+          failOnStatusCode: false,
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+          expect(response.body.errors[0].msg).to.eq("Bank account is not verified");
+        });
+      });
+    });
+
+    it("error when editing another user's bank account", function () {
+      const { id: bankAccountId } = ctx.bankAccounts![1];
+      cy.request({
+        method: "PATCH",
+        url: `${apiBankAccounts}/${bankAccountId}`,
+        body: { bankName: "Renamed Bank" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(404);
+      });
+    });
+  });
+
+  context("POST /bankAccounts/:bankAccountId/restore", function () {
+    it("restores a deleted bank account as the default", function () {
+      const { id: bankAccountId } = ctx.bankAccounts![0];
+      cy.request("DELETE", `${apiBankAccounts}/${bankAccountId}`);
+      cy.request("POST", `${apiBankAccounts}/${bankAccountId}/restore`).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.account.isDeleted).to.eq(false);
+        expect(response.body.account.isDefault).to.eq(true);
+      });
+    });
+
+    it("error when the bank account is not deleted", function () {
+      const { id: bankAccountId } = ctx.bankAccounts![0];
+      cy.request({
+        method: "POST",
+        url: `${apiBankAccounts}/${bankAccountId}/restore`,
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+      });
+    });
+  });
+
+  context("POST /bankAccounts/:bankAccountId/verify", function () {
+    const createBankAccount = () =>
+      cy
+        .request("POST", `${apiBankAccounts}`, {
+          bankName: `${faker.company.companyName()} Bank`,
+          accountNumber: faker.finance.account(10),
+          routingNumber: faker.finance.routingNumber(),
+        })
+        .then((response) => response.body.account as BankAccount);
+
+    it("creates new bank accounts unverified", function () {
+      createBankAccount().then((bankAccount) => {
+        expect(bankAccount.verificationStatus).to.eq("unverified");
+        expect(bankAccount.verificationAttempts).to.eq(0);
+      });
+    });
+
+    it("verifies a bank account with the micro-deposit amounts", function () {
+      createBankAccount().then((bankAccount) => {
+        cy.database("filter", "banktransfers", {
+          source: bankAccount.id,
+          type: "microDeposit",
+        }).then((deposits: any[]) => {
+          cy.request("POST", `${apiBankAccounts}/${bankAccount.id}/verify`, {
+            amounts: deposits.map((deposit) => deposit.amount / 100),
+          }).then((response) => {
+            expect(response.status).to.eq(200);
+            expect(response.body.account.verificationStatus).to.eq("verified");
+          });
+        });
+      });
+    });
+
+    it("error when the amounts do not match", function () {
+      createBankAccount().then((bankAccount) => {
+        cy.request({
+          method: "POST",
+          url: `${apiBankAccounts}/${bankAccount.id}/verify`,
+          body: { amounts: [0.001, 0.002] },
+          failOnStatusCode: false,
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+          expect(response.body.errors.length).to.eq(1);
+        });
+      });
+    });
+
+    it("error when paying from an unverified bank account", function () {
+      createBankAccount().then((bankAccount) => {
+        cy.request({
+          method: "POST",
+          url: `${Cypress.env("apiUrl")}/transactions`,
+          body: {
+            transactionType: "payment",
+            source: bankAccount.id,
+            receiverId: ctx.allUsers![1].id,
+            description: faker.lorem.sentence(),
+            amount: 100,
+            privacyLevel: "public",
+          },
+          failOnStatusCode: false,
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+        });
+      });
+    });
+  });
+
   context("/graphql", function () {
     it("gets a list of bank accounts for user", function () {
       const { id: userId } = ctx.authenticatedUser!;
@@ -97,6 +288,7 @@ describe("Bank Accounts API", function () {
       }).then((response) => {
         expect(response.status).to.eq(200);
         expect(response.body.data.listBankAccount[0].userId).to.eq(userId);
+        expect(response.body.data.listBankAccount[0].accountNumber).to.match(/^\*{4}\d{4}$/);
       });
     });
     it("creates a new bank account", function () {
@@ -121,13 +313,28 @@ describe("Bank Accounts API", function () {
         variables: {
           bankName: `${faker.company.companyName()} Bank`,
           accountNumber: faker.finance.account(10),
-          routingNumber: faker.finance.account(9),
+          routingNumber: faker.finance.routingNumber(),
         },
       }).then((response) => {
         expect(response.status).to.eq(200);
         expect(response.body.data.createBankAccount.userId).to.eq(userId);
       });
     });
+    it("sets the default bank account", function () {
+      const { id: bankAccountId } = ctx.bankAccounts![0];
+      cy.request("POST", `${apiGraphQL}`, {
+        query: `mutation updateBankAccount ($id: ID!, $isDefault: Boolean) {
+          updateBankAccount(id: $id, isDefault: $isDefault) {
+            id
+            isDefault
+          }
+        }`,
+        variables: { id: bankAccountId, isDefault: true },
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.data.updateBankAccount.isDefault).to.eq(true);
+      });
+    });
     it("deletes a bank account", function () {
       const { id: bankAccountId } = ctx.bankAccounts![0];
       cy.request("POST", `${apiGraphQL}`, {
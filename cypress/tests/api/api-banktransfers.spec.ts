@@ -1,9 +1,11 @@
-import { User } from "../../../src/models";
+import { User, BankAccount } from "../../../src/models";
 
 const apiBankTransfer = `${Cypress.env("apiUrl")}/bankTransfers`;
 
 type TestBankTransferCtx = {
   authenticatedUser?: User;
+  bankAccount?: BankAccount;
+  otherBankAccount?: BankAccount;
 };
 
 describe("Bank Transfer API", function () {
@@ -17,6 +19,13 @@ describe("Bank Transfer API", function () {
 
       return cy.loginByApi(ctx.authenticatedUser.username);
     });
+
+    cy.database("filter", "bankaccounts").then((bankAccounts: BankAccount[]) => {
+      ctx.bankAccount = bankAccounts.find(({ userId }) => userId === ctx.authenticatedUser!.id);
+      ctx.otherBankAccount = bankAccounts.find(
+        ({ userId }) => userId !== ctx.authenticatedUser!.id
+      );
+    });
   });
 
   context("GET /bankTransfer", function () {
@@ -28,4 +37,75 @@ describe("Bank Transfer API", function () {
       });
     });
   });
+
+  context("POST /bankTransfers/deposit", function () {
+    it("deposits from a bank account into the user's balance", function () {
+      const { id: userId, balance } = ctx.authenticatedUser!;
+
+      cy.request("POST", `${apiBankTransfer}/deposit`, {
+        source: ctx.bankAccount!.id,
+        amount: 25,
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.transfer).to.include({
+          userId,
+          type: "deposit",
+          status: "complete",
+          amount: 2500,
+        });
+      });
+
+      cy.database("find", "users", { id: userId })
+        .its("balance")
+        .should("equal", balance + 2500);
+    });
+
+    it("error when bank account belongs to another user", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiBankTransfer}/deposit`,
+        failOnStatusCode: false,
+        body: {
+          source: ctx.otherBankAccount!.id,
+          amount: 25,
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("source");
+      });
+    });
+  });
+
+  context("POST /bankTransfers/withdrawal", function () {
+    it("withdraws from the user's balance to a bank account", function () {
+      const { id: userId, balance } = ctx.authenticatedUser!;
+
+      cy.request("POST", `${apiBankTransfer}/withdrawal`, {
+        source: ctx.bankAccount!.id,
+        amount: 10,
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.transfer).to.include({ type: "withdrawal", status: "complete" });
+      });
+
+      cy.database("find", "users", { id: userId })
+        .its("balance")
+        .should("equal", balance - 1000);
+    });
+
+    it("error when withdrawal exceeds balance", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiBankTransfer}/withdrawal`,
+        failOnStatusCode: false,
+        body: {
+          source: ctx.bankAccount!.id,
+          amount: ctx.authenticatedUser!.balance,
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].msg).to.eq("Insufficient funds");
+      });
+    });
+  });
 });
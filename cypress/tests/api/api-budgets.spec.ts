@@ -0,0 +1,122 @@
+import { User, BankAccount } from "../../../src/models";
+
+type TestBudgetsCtx = {
+  authenticatedUser?: User;
+  receiver?: User;
+  outsider?: User;
+  transactionId?: string;
+};
+
+const apiBudgets = `${Cypress.env("apiUrl")}/budgets`;
+const apiTransactions = `${Cypress.env("apiUrl")}/transactions`;
+
+describe("Categories and Budgets API", function () {
+  let ctx: TestBudgetsCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.receiver = users[1];
+      ctx.outsider = users[2];
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+
+    cy.database("find", "bankaccounts").then((bankaccount: BankAccount) => {
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "payment",
+        source: bankaccount.id,
+        receiverId: ctx.receiver!.id,
+        description: "Pizza dinner",
+        amount: 30,
+        privacyLevel: "public",
+      }).then((response) => {
+        ctx.transactionId = response.body.transaction.id;
+      });
+    });
+  });
+
+  context("PATCH /transactions/:transactionId/labels", function () {
+    it("labels a transaction and filters the personal list by it", function () {
+      cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+        expect(response.body.transaction.suggestedCategory).to.eq("food");
+      });
+
+      cy.request("PATCH", `${apiTransactions}/${ctx.transactionId}/labels`, {
+        category: "food",
+        tags: ["Friday", "friday "],
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.label).to.deep.include({ category: "food", tags: ["friday"] });
+      });
+
+      cy.request("GET", `${apiTransactions}?category=food&tag=friday`).then((response) => {
+        expect(response.body.results.length).to.eq(1);
+        expect(response.body.results[0]).to.include({ id: ctx.transactionId, category: "food" });
+      });
+    });
+
+    it("error when the user is not a party to the transaction", function () {
+      cy.loginByApi(ctx.outsider!.username);
+
+      cy.request({
+        method: "PATCH",
+        url: `${apiTransactions}/${ctx.transactionId}/labels`,
+        body: { category: "food" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(404);
+      });
+    });
+
+    it("error for an unknown category", function () {
+      cy.request({
+        method: "PATCH",
+        url: `${apiTransactions}/${ctx.transactionId}/labels`,
+        body: { category: "snacks" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors.length).to.eq(1);
+      });
+    });
+  });
+
+  context("/budgets", function () {
+    it("sets a budget and reports what has been spent", function () {
+      cy.request("PATCH", `${apiTransactions}/${ctx.transactionId}/labels`, { category: "food" });
+
+      cy.request("POST", apiBudgets, { category: "food", amount: 100 }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.budget).to.include({ category: "food", amount: 10000 });
+      });
+
+      cy.request("GET", apiBudgets).then((response) => {
+        expect(response.body.results.length).to.eq(1);
+        expect(response.body.results[0]).to.include({ amount: 10000, spent: 3000 });
+      });
+    });
+
+    it("deletes a budget only for its owner", function () {
+      cy.request("POST", apiBudgets, { category: "food", amount: 100 }).then((response) => {
+        const budgetId = response.body.budget.id;
+
+        cy.loginByApi(ctx.outsider!.username);
+        cy.request({
+          method: "DELETE",
+          url: `${apiBudgets}/${budgetId}`,
+          failOnStatusCode: false,
+        }).then((response) => {
+          expect(response.status).to.eq(404);
+        });
+
+        cy.loginByApi(ctx.authenticatedUser!.username);
+        cy.request("DELETE", `${apiBudgets}/${budgetId}`).then((response) => {
+          expect(response.status).to.eq(204);
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { User, BankAccount } from "../../../src/models";
+
+type TestDisputesCtx = {
+  authenticatedUser?: User;
+  receiver?: User;
+  outsider?: User;
+  bankAccountId?: string;
+  transactionId?: string;
+  disputeId?: string;
+};
+
+const apiDisputes = `${Cypress.env("apiUrl")}/disputes`;
+const apiTransactions = `${Cypress.env("apiUrl")}/transactions`;
+
+describe("Disputes API", function () {
+  let ctx: TestDisputesCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.receiver = users[1];
+      ctx.outsider = users[2];
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+
+    cy.database("find", "bankaccounts").then((bankaccount: BankAccount) => {
+      ctx.bankAccountId = bankaccount.id;
+
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "payment",
+        source: ctx.bankAccountId,
+        receiverId: ctx.receiver!.id,
+        description: `Payment: ${ctx.authenticatedUser!.id} to ${ctx.receiver!.id}`,
+        amount: 30,
+        privacyLevel: "public",
+      }).then((response) => {
+        ctx.transactionId = response.body.transaction.id;
+      });
+    });
+  });
+
+  const openDispute = () =>
+    cy
+      .request("POST", apiDisputes, {
+        transactionId: ctx.transactionId,
+        reason: "wrongRecipient",
+        message: "I sent this to the wrong person",
+      })
+      .then((response) => {
+        ctx.disputeId = response.body.dispute.id;
+      });
+
+  context("POST /disputes", function () {
+    it("opens a dispute on a payment", function () {
+      cy.request("POST", apiDisputes, {
+        transactionId: ctx.transactionId,
+        reason: "wrongRecipient",
+        message: "I sent this to the wrong person",
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.dispute).to.include({
+          transactionId: ctx.transactionId,
+          status: "open",
+        });
+
+        cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+          expect(response.body.transaction.dispute.messages.length).to.eq(1);
+        });
+      });
+    });
+
+    it("error when the transaction already has an open dispute", function () {
+      openDispute();
+
+      cy.request({
+        method: "POST",
+        url: apiDisputes,
+        failOnStatusCode: false,
+        body: {
+          transactionId: ctx.transactionId,
+          reason: "other",
+          message: "Again",
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].msg).to.eq("Transaction already has an open dispute");
+      });
+    });
+
+    it("error when the user is not a party to the transaction", function () {
+      cy.loginByApi(ctx.outsider!.username);
+
+      cy.request({
+        method: "POST",
+        url: apiDisputes,
+        failOnStatusCode: false,
+        body: {
+          transactionId: ctx.transactionId,
+          reason: "other",
+          message: "Not mine",
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(404);
+      });
+    });
+  });
+
+  context("POST /disputes/:disputeId/messages", function () {
+    it("adds a message from the other party", function () {
+      openDispute();
+      cy.loginByApi(ctx.receiver!.username);
+
+      cy.request("POST", `${apiDisputes}/${ctx.disputeId}/messages`, {
+        content: "Let me check",
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.dispute.messages.length).to.eq(2);
+      });
+    });
+  });
+
+  context("PATCH /disputes/:disputeId", function () {
+    beforeEach(function () {
+      openDispute();
+    });
+
+    it("error when the opener takes the dispute under review", function () {
+      cy.request({
+        method: "PATCH",
+        url: `${apiDisputes}/${ctx.disputeId}`,
+        failOnStatusCode: false,
+        body: { status: "underReview" },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("status");
+      });
+    });
+
+    it("reviews and resolves a dispute with a refund", function () {
+      cy.loginByApi(ctx.receiver!.username);
+
+      cy.request("PATCH", `${apiDisputes}/${ctx.disputeId}`, { status: "underReview" }).then(
+        (response) => {
+          expect(response.status).to.eq(200);
+          expect(response.body.dispute.status).to.eq("underReview");
+        }
+      );
+
+      cy.request("PATCH", `${apiDisputes}/${ctx.disputeId}`, { status: "resolvedRefund" }).then(
+        (response) => {
+          expect(response.status).to.eq(200);
+          expect(response.body.dispute.status).to.eq("resolvedRefund");
+          expect(response.body.dispute.refundId).to.be.a("string");
+
+          cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+            expect(response.body.transaction.refundableAmount).to.eq(0);
+          });
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { User } from "../../../src/models";
+
+const apiExchangeRates = `${Cypress.env("apiUrl")}/exchangeRates`;
+const apiUsers = `${Cypress.env("apiUrl")}/users`;
+
+type TestExchangeRateCtx = {
+  authenticatedUser?: User;
+};
+
+describe("Exchange Rates API", function () {
+  let ctx: TestExchangeRateCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+  });
+
+  context("GET /exchangeRates", function () {
+    it("gets the rate of every currency", function () {
+      cy.request("GET", apiExchangeRates).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.results.map(({ currency }: any) => currency)).to.have.members([
+          "USD",
+          "EUR",
+          "GBP",
+          "CAD",
+          "AUD",
+        ]);
+      });
+    });
+  });
+
+  context("PATCH /exchangeRates/:currency", function () {
+    beforeEach(function () {
+      cy.database("find", "users", { role: "operator" }).then((operator: User) =>
+        cy.loginByApi(operator.username)
+      );
+    });
+
+    it("updates the rate of a currency", function () {
+      cy.request("PATCH", `${apiExchangeRates}/EUR`, { rate: 0.95 }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.exchangeRate).to.include({ currency: "EUR", rate: 0.95 });
+      });
+    });
+
+    it("error when the rate is not positive", function () {
+      cy.request({
+        method: "PATCH",
+        url: `${apiExchangeRates}/EUR`,
+        failOnStatusCode: false,
+        body: { rate: 0 },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+      });
+    });
+
+    it("error when the user is not an operator", function () {
+      cy.loginByApi(ctx.authenticatedUser!.username);
+
+      cy.request({
+        method: "PATCH",
+        url: `${apiExchangeRates}/EUR`,
+        failOnStatusCode: false,
+        body: { rate: 0.95 },
+      }).then((response) => {
+        expect(response.status).to.eq(403);
+      });
+    });
+  });
+
+  context("PATCH /users/:userId", function () {
+    it("error when changing currency with a non-zero balance", function () {
+      cy.request({
+        method: "PATCH",
+        url: `${apiUsers}/${ctx.authenticatedUser!.id}`,
+        failOnStatusCode: false,
+        body: { currency: "EUR" },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("currency");
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { User, BankAccount } from "../../../src/models";
+
+type TestGroupsCtx = {
+  authenticatedUser?: User;
+  member?: User;
+  outsider?: User;
+  groupId?: string;
+};
+
+const apiGroups = `${Cypress.env("apiUrl")}/groups`;
+
+describe("Groups API", function () {
+  let ctx: TestGroupsCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.member = users[1];
+      ctx.outsider = users[2];
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+
+    cy.request("POST", apiGroups, { name: "Roommates" }).then((response) => {
+      ctx.groupId = response.body.group.id;
+
+      cy.request("POST", `${apiGroups}/${ctx.groupId}/members`, {
+        userId: ctx.member!.id,
+        role: "contributor",
+      });
+    });
+  });
+
+  context("/groups", function () {
+    it("lists the groups of the user with their members", function () {
+      cy.request("GET", apiGroups).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.results.length).to.eq(1);
+        expect(response.body.results[0]).to.include({ name: "Roommates", role: "admin" });
+        expect(response.body.results[0].members.length).to.eq(2);
+      });
+    });
+
+    it("error when the user is not a member of the group", function () {
+      cy.loginByApi(ctx.outsider!.username);
+
+      cy.request({
+        method: "GET",
+        url: `${apiGroups}/${ctx.groupId}`,
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(404);
+      });
+    });
+  });
+
+  context("/groups/:groupId/members", function () {
+    it("error when adding an existing member", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiGroups}/${ctx.groupId}/members`,
+        body: { userId: ctx.member!.id, role: "spender" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("userId");
+      });
+    });
+
+    it("keeps the last admin of the group", function () {
+      cy.request("GET", `${apiGroups}/${ctx.groupId}`).then((response) => {
+        const admin = response.body.group.members.find(
+          ({ userId }: { userId: string }) => userId === ctx.authenticatedUser!.id
+        );
+
+        cy.request({
+          method: "DELETE",
+          url: `${apiGroups}/${ctx.groupId}/members/${admin.id}`,
+          failOnStatusCode: false,
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+        });
+      });
+    });
+  });
+
+  context("PATCH /users/:userId", function () {
+    it("error when a member changes their currency", function () {
+      cy.request("POST", `${Cypress.env("apiUrl")}/users`, {
+        firstName: "Group",
+        lastName: "Member",
+        username: "group_member",
+        password: "s3cret",
+      }).then((response) => {
+        const newMember = response.body.user;
+
+        cy.request("POST", `${apiGroups}/${ctx.groupId}/members`, {
+          userId: newMember.id,
+          role: "contributor",
+        });
+
+        cy.loginByApi(newMember.username, "s3cret");
+        cy.request({
+          method: "PATCH",
+          url: `${Cypress.env("apiUrl")}/users/${newMember.id}`,
+          body: { currency: "EUR" },
+          failOnStatusCode: false,
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+          expect(response.body.errors[0].msg).to.eq(
+            "Currency cannot be changed while the user is a member of a group"
+          );
+        });
+      });
+    });
+  });
+
+  context("/groups/:groupId/payments", function () {
+    it("pays into the group and shows the payment on its feed", function () {
+      cy.loginByApi(ctx.member!.username);
+
+      cy.database("find", "bankaccounts", { userId: ctx.member!.id }).then(
+        (bankAccount: BankAccount) => {
+          cy.request("POST", `${apiGroups}/${ctx.groupId}/payments`, {
+            paymentType: "contribution",
+            amount: 40,
+            description: "Rent",
+            source: bankAccount.id,
+          }).then((response) => {
+            expect(response.status).to.eq(200);
+            expect(response.body.transaction).to.include({ receiverId: ctx.groupId });
+          });
+        }
+      );
+
+      cy.request("GET", `${apiGroups}/${ctx.groupId}`).then((response) => {
+        expect(response.body.group.balance).to.eq(4000);
+      });
+
+      cy.request("GET", `${apiGroups}/${ctx.groupId}/transactions`).then((response) => {
+        expect(response.body.results.length).to.eq(1);
+        expect(response.body.results[0]).to.include({ description: "Rent" });
+      });
+    });
+
+    it("error when a contribution without a bank account exceeds the member's balance", function () {
+      cy.loginByApi(ctx.member!.username);
+
+      cy.request({
+        method: "POST",
+        url: `${apiGroups}/${ctx.groupId}/payments`,
+        body: {
+          paymentType: "contribution",
+          amount: ctx.member!.balance / 100 + 1,
+          description: "Rent",
+        },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0]).to.include({ param: "amount", msg: "Insufficient funds" });
+      });
+
+      cy.request("GET", `${apiGroups}/${ctx.groupId}`).then((response) => {
+        expect(response.body.group.balance).to.eq(0);
+      });
+    });
+
+    it("error when a contributor has the group pay out", function () {
+      cy.loginByApi(ctx.member!.username);
+
+      cy.request({
+        method: "POST",
+        url: `${apiGroups}/${ctx.groupId}/payments`,
+        body: {
+          paymentType: "payout",
+          amount: 10,
+          description: "Groceries",
+          receiverId: ctx.member!.id,
+        },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("paymentType");
+      });
+    });
+
+    it("error when the group balance is too low", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiGroups}/${ctx.groupId}/payments`,
+        body: {
+          paymentType: "payout",
+          amount: 10,
+          description: "Groceries",
+          receiverId: ctx.member!.id,
+        },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("amount");
+      });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { User } from "../../../src/models";
+
+const apiInsights = `${Cypress.env("apiUrl")}/insights`;
+const apiTransactions = `${Cypress.env("apiUrl")}/transactions`;
+
+type TestInsightsCtx = {
+  authenticatedUser?: User;
+  receiver?: User;
+};
+
+describe("Insights API", function () {
+  let ctx: TestInsightsCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.receiver = users[1];
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+  });
+
+  context("GET /insights", function () {
+    it("gets the insights for a date range", function () {
+      const dateRangeStart = new Date();
+      dateRangeStart.setHours(0, 0, 0, 0);
+
+      cy.request("POST", apiTransactions, {
+        transactionType: "payment",
+        receiverId: ctx.receiver!.id,
+        description: `Payment: ${ctx.authenticatedUser!.id} to ${ctx.receiver!.id}`,
+        amount: 10,
+        privacyLevel: "public",
+      });
+
+      cy.request({
+        method: "GET",
+        url: apiInsights,
+        qs: {
+          dateRangeStart: dateRangeStart.toISOString(),
+          dateRangeEnd: new Date().toISOString(),
+        },
+      }).then((response) => {
+        const { insights } = response.body;
+
+        expect(response.status).to.eq(200);
+        expect(insights.monthly).to.have.length(1);
+        expect(insights.monthly[0]).to.include({ sent: 1000, received: 0 });
+        expect(insights.topCounterparties[0]).to.include({
+          userId: ctx.receiver!.id,
+          amount: 1000,
+        });
+        expect(insights.averageAmount).to.eq(1000);
+        expect(insights.payments).to.deep.equal({ count: 1, amount: 1000 });
+      });
+    });
+
+    it("error when the range ends before it starts", function () {
+      cy.request({
+        method: "GET",
+        url: apiInsights,
+        qs: {
+          dateRangeStart: "2020-01-31T00:00:00.000Z",
+          dateRangeEnd: "2020-01-01T00:00:00.000Z",
+        },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("dateRangeEnd");
+      });
+    });
+  });
+});
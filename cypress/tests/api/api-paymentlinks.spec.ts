@@ -0,0 +1,67 @@
+import { User } from "../../../src/models";
+
+type TestPaymentLinksCtx = {
+  authenticatedUser?: User;
+};
+
+const apiPaymentLinks = `${Cypress.env("apiUrl")}/paymentLinks`;
+
+describe("Payment Links API", function () {
+  let ctx: TestPaymentLinksCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("find", "users").then((user: User) => {
+      ctx.authenticatedUser = user;
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+  });
+
+  context("POST /paymentLinks", function () {
+    it("creates a signed link that can be opened without logging in", function () {
+      cy.request("POST", apiPaymentLinks, { amount: 25, description: "Dinner" }).then(
+        (response) => {
+          expect(response.status).to.eq(200);
+          expect(response.body.paymentLink).to.include({ amount: 2500, description: "Dinner" });
+
+          cy.clearCookies();
+          cy.request(
+            "GET",
+            `${apiPaymentLinks}/${encodeURIComponent(response.body.paymentLink.token)}`
+          ).then((response) => {
+            expect(response.status).to.eq(200);
+            expect(response.body.paymentLink.receiver).to.include({
+              id: ctx.authenticatedUser!.id,
+            });
+          });
+        }
+      );
+    });
+
+    it("error when the link would already be expired", function () {
+      cy.request({
+        method: "POST",
+        url: apiPaymentLinks,
+        body: { expiresAt: "2020-01-01T00:00:00.000Z" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("expiresAt");
+      });
+    });
+  });
+
+  context("GET /paymentLinks/:token", function () {
+    it("error when the link was not signed by the app", function () {
+      cy.request({
+        method: "GET",
+        url: `${apiPaymentLinks}/eyJ1c2VySWQiOiJ4In0.bm90LXNpZ25lZA`,
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(404);
+      });
+    });
+  });
+});
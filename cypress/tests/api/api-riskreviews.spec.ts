@@ -0,0 +1,112 @@
+import { User, Transaction, BankAccount } from "../../../src/models";
+
+type TestRiskReviewsCtx = {
+  authenticatedUser?: User;
+  operator?: User;
+  transactionId?: string;
+};
+
+const apiRiskReviews = `${Cypress.env("apiUrl")}/riskReviews`;
+const apiTransactions = `${Cypress.env("apiUrl")}/transactions`;
+
+describe("Risk Reviews API", function () {
+  let ctx: TestRiskReviewsCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.operator = users.find(({ role }) => role === "operator");
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+
+    // a large first payment to a new payee is held for review
+    cy.database("filter", "users").then((users: User[]) => {
+      cy.database("filter", "transactions", { senderId: users[0].id }).then(
+        (transactions: Transaction[]) => {
+          const payee = users.find(
+            (user) =>
+              user.id !== users[0].id &&
+              !transactions.some(({ receiverId }) => receiverId === user.id)
+          )!;
+
+          cy.database("find", "bankaccounts", { userId: users[0].id }).then(
+            (bankAccount: BankAccount) => {
+              cy.request("POST", apiTransactions, {
+                transactionType: "payment",
+                source: bankAccount.id,
+                receiverId: payee.id,
+                description: "Held payment",
+                amount: 1500,
+                privacyLevel: "public",
+              }).then((response) => {
+                ctx.transactionId = response.body.transaction.id;
+              });
+            }
+          );
+        }
+      );
+    });
+  });
+
+  context("GET /riskReviews", function () {
+    it("lists the payments waiting for a review", function () {
+      cy.loginByApi(ctx.operator!.username);
+
+      cy.request("GET", apiRiskReviews).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.results[0]).to.include({
+          transactionId: ctx.transactionId,
+          outcome: "hold",
+        });
+      });
+    });
+
+    it("error when the user is not an operator", function () {
+      cy.request({ method: "GET", url: apiRiskReviews, failOnStatusCode: false }).then(
+        (response) => {
+          expect(response.status).to.eq(403);
+        }
+      );
+    });
+  });
+
+  context("POST /riskReviews/:transactionId", function () {
+    it("rejects a held payment", function () {
+      cy.loginByApi(ctx.operator!.username);
+
+      cy.request("POST", `${apiRiskReviews}/${ctx.transactionId}`, { outcome: "block" }).then(
+        (response) => {
+          expect(response.status).to.eq(200);
+          expect(response.body.transaction).to.include({
+            status: "incomplete",
+            riskOutcome: "block",
+          });
+        }
+      );
+
+      cy.request({
+        method: "POST",
+        url: `${apiRiskReviews}/${ctx.transactionId}`,
+        body: { outcome: "allow" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].msg).to.eq("Payment has already been reviewed");
+      });
+    });
+
+    it("error when the user is not an operator", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiRiskReviews}/${ctx.transactionId}`,
+        body: { outcome: "allow" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(403);
+      });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { User, Schedule } from "../../../src/models";
+
+const apiSchedules = `${Cypress.env("apiUrl")}/schedules`;
+
+type TestScheduleCtx = {
+  authenticatedUser?: User;
+  receiver?: User;
+};
+
+describe("Schedules API", function () {
+  let ctx: TestScheduleCtx = {};
+
+  const schedulePayload = () => ({
+    receiverId: ctx.receiver!.id,
+    description: "Rent",
+    amount: 25,
+    frequency: "monthly",
+    interval: 1,
+    startDate: new Date().toISOString(),
+  });
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.receiver = users[1];
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+  });
+
+  context("POST /schedules", function () {
+    it("creates a schedule and makes the first payment", function () {
+      cy.request("POST", apiSchedules, schedulePayload()).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.schedule).to.include({
+          userId: ctx.authenticatedUser!.id,
+          amount: 2500,
+          status: "active",
+          runCount: 1,
+        });
+
+        cy.database("find", "transactions", { scheduleId: response.body.schedule.id })
+          .its("amount")
+          .should("equal", 2500);
+      });
+    });
+
+    it("error when the receiver is the current user", function () {
+      cy.request({
+        method: "POST",
+        url: apiSchedules,
+        failOnStatusCode: false,
+        body: { ...schedulePayload(), receiverId: ctx.authenticatedUser!.id },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("receiverId");
+      });
+    });
+  });
+
+  context("GET /schedules", function () {
+    it("gets a list of schedules for user", function () {
+      cy.request("POST", apiSchedules, schedulePayload());
+
+      cy.request("GET", apiSchedules).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.results[0].receiverId).to.eq(ctx.receiver!.id);
+      });
+    });
+  });
+
+  context("PATCH /schedules/:scheduleId", function () {
+    it("pauses a schedule", function () {
+      cy.request("POST", apiSchedules, schedulePayload()).then((response) => {
+        const schedule: Schedule = response.body.schedule;
+
+        cy.request("PATCH", `${apiSchedules}/${schedule.id}`, { status: "paused" }).then(
+          (response) => {
+            expect(response.status).to.eq(204);
+          }
+        );
+
+        cy.database("find", "schedules", { id: schedule.id })
+          .its("status")
+          .should("equal", "paused");
+      });
+    });
+  });
+
+  context("DELETE /schedules/:scheduleId", function () {
+    it("cancels a schedule", function () {
+      cy.request("POST", apiSchedules, schedulePayload()).then((response) => {
+        cy.request("DELETE", `${apiSchedules}/${response.body.schedule.id}`).then((response) => {
+          expect(response.status).to.eq(200);
+          expect(response.body.schedule.status).to.eq("cancelled");
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { User } from "../../../src/models";
+
+const apiSplits = `${Cypress.env("apiUrl")}/splits`;
+
+type TestSplitCtx = {
+  authenticatedUser?: User;
+  receivers?: User[];
+};
+
+describe("Splits API", function () {
+  let ctx: TestSplitCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.receivers = users.slice(1, 3);
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+  });
+
+  context("POST /splits", function () {
+    it("creates a split with one request per receiver", function () {
+      cy.request("POST", apiSplits, {
+        amount: 50,
+        description: "Dinner",
+        method: "percentage",
+        shares: [
+          { receiverId: ctx.receivers![0].id, percentage: 60 },
+          { receiverId: ctx.receivers![1].id, percentage: 40 },
+        ],
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.summary).to.include({ requestCount: 2, pendingCount: 2 });
+
+        cy.request("GET", `${apiSplits}/${response.body.split.id}`).then((response) => {
+          expect(response.status).to.eq(200);
+          expect(response.body.requests.map(({ amount }: any) => amount)).to.have.members([
+            3000, 2000,
+          ]);
+        });
+      });
+    });
+
+    it("error when the shares do not add up", function () {
+      cy.request({
+        method: "POST",
+        url: apiSplits,
+        failOnStatusCode: false,
+        body: {
+          amount: 50,
+          description: "Dinner",
+          method: "custom",
+          shares: [
+            { receiverId: ctx.receivers![0].id, amount: 10 },
+            { receiverId: ctx.receivers![1].id, amount: 10 },
+          ],
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].msg).to.eq("Amounts must add up to the total");
+      });
+    });
+  });
+});
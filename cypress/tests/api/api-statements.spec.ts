@@ -0,0 +1,71 @@
+import { User } from "../../../src/models";
+
+const apiStatements = `${Cypress.env("apiUrl")}/statements`;
+const apiTransactions = `${Cypress.env("apiUrl")}/transactions`;
+
+type TestStatementCtx = {
+  authenticatedUser?: User;
+  receiver?: User;
+};
+
+describe("Statements API", function () {
+  let ctx: TestStatementCtx = {};
+
+  beforeEach(function () {
+    cy.task("db:seed");
+
+    cy.database("filter", "users").then((users: User[]) => {
+      ctx.authenticatedUser = users[0];
+      ctx.receiver = users[1];
+
+      return cy.loginByApi(ctx.authenticatedUser.username);
+    });
+  });
+
+  context("GET /statements", function () {
+    it("gets the opening balance, the lines and the closing balance", function () {
+      cy.request("POST", apiTransactions, {
+        transactionType: "payment",
+        receiverId: ctx.receiver!.id,
+        description: `Payment: ${ctx.authenticatedUser!.id} to ${ctx.receiver!.id}`,
+        amount: 10,
+        privacyLevel: "public",
+      });
+
+      cy.request("GET", apiStatements).then((response) => {
+        const { statement } = response.body;
+        const { balance } = ctx.authenticatedUser!;
+
+        expect(response.status).to.eq(200);
+        expect(statement.openingBalance).to.eq(balance);
+        expect(statement.lines).to.have.length(1);
+        expect(statement.lines[0]).to.include({ amount: -1000, balance: balance - 1000 });
+        expect(statement.closingBalance).to.eq(balance - 1000);
+      });
+    });
+
+    it("gets a statement for a date range", function () {
+      cy.request({
+        method: "GET",
+        url: apiStatements,
+        qs: { from: "2019-01-01T00:00:00.000Z", to: "2019-12-31T23:59:59.999Z" },
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.statement.openingBalance).to.eq(0);
+        expect(response.body.statement.closingBalance).to.eq(ctx.authenticatedUser!.balance);
+      });
+    });
+
+    it("error when the range ends before it starts", function () {
+      cy.request({
+        method: "GET",
+        url: apiStatements,
+        qs: { from: "2020-01-02T00:00:00.000Z", to: "2020-01-01T00:00:00.000Z" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("to");
+      });
+    });
+  });
+});
@@ -4,6 +4,7 @@ import { User, NotificationType, Transaction, BankAccount } from "../../../src/m
 
 type TestTransactionsCtx = {
   receiver?: User;
+  otherUser?: User;
   authenticatedUser?: User;
   transactionId?: string;
   notificationId?: string;
@@ -25,6 +26,7 @@ describe("Transactions API", function () {
     cy.database("filter", "users").then((users: User[]) => {
       ctx.authenticatedUser = users[0];
       ctx.receiver = users[1];
+      ctx.otherUser = users[2];
 
       return cy.loginByApi(ctx.authenticatedUser.username);
     });
@@ -100,6 +102,69 @@ describe("Transactions API", function () {
       cy.request("GET", `${apiTransactions}/public`).then((response) => {
         expect(response.status).to.eq(200);
         expect(response.body.results).length.to.be.greaterThan(1);
+        response.body.results.forEach((transaction: Transaction) => {
+          expect(transaction).not.to.have.any.keys(
+            "balanceAtCompletion",
+            "receiverBalanceAtCompletion"
+          );
+        });
+      });
+    });
+  });
+
+  context("GET /transactions/export", function () {
+    it("exports the user's transactions as CSV", function () {
+      cy.request({
+        method: "GET",
+        url: `${apiTransactions}/export`,
+        qs: { format: "csv", status: "pending" },
+      }).then((response) => {
+        const [header, ...rows] = response.body.trim().split("\r\n");
+
+        expect(response.status).to.eq(200);
+        expect(response.headers["content-type"]).to.contain("text/csv");
+        expect(response.headers["content-disposition"]).to.contain("attachment");
+        expect(header).to.eq(
+          "id,date,type,status,requestStatus,sender,receiver,description,amount,currency"
+        );
+        expect(rows.length).to.be.greaterThan(0);
+        rows.forEach((row: string) => expect(row.split(",")[3]).to.eq("pending"));
+      });
+    });
+
+    it("exports the user's transactions as OFX", function () {
+      cy.request({
+        method: "GET",
+        url: `${apiTransactions}/export`,
+        qs: { format: "ofx" },
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body).to.contain("<BANKTRANLIST>");
+        expect(response.body).to.contain("<STMTTRN>");
+        expect(response.body).to.contain(`<ACCTID>${ctx.authenticatedUser!.id}</ACCTID>`);
+      });
+    });
+
+    it("leaves transactions that moved no money out of the OFX export", function () {
+      cy.request({
+        method: "GET",
+        url: `${apiTransactions}/export`,
+        qs: { format: "ofx", status: "pending" },
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body).not.to.contain("<STMTTRN>");
+      });
+    });
+
+    it("error when the format is not supported", function () {
+      cy.request({
+        method: "GET",
+        url: `${apiTransactions}/export`,
+        qs: { format: "pdf" },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("format");
       });
     });
   });
@@ -136,9 +201,201 @@ describe("Transactions API", function () {
         expect(response.body.transaction.requestStatus).to.eq("pending");
       });
     });
+
+    it("creates an itemized request", function () {
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "request",
+        source: ctx.bankAccountId,
+        receiverId: ctx.receiver!.id,
+        description: "Invoice: web design",
+        amount: 141.51,
+        privacyLevel: "public",
+        lineItems: [
+          { name: "Design", quantity: 3, unitPrice: 40.5, taxRate: 8.25 },
+          { name: "Hosting", quantity: 1, unitPrice: 9.99 },
+        ],
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.transaction.amount).to.eq(14151);
+        expect(response.body.transaction.lineItems[0]).to.include({ subtotal: 12150, tax: 1002 });
+      });
+    });
+
+    it("error when the line items do not add up to the amount", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiTransactions}`,
+        failOnStatusCode: false,
+        body: {
+          transactionType: "request",
+          source: ctx.bankAccountId,
+          receiverId: ctx.receiver!.id,
+          description: "Invoice: web design",
+          amount: 120,
+          privacyLevel: "public",
+          lineItems: [{ name: "Design", quantity: 3, unitPrice: 40.5 }],
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0]).to.include({ param: "amount" });
+      });
+    });
+
+    it("error when a payment is itemized", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiTransactions}`,
+        failOnStatusCode: false,
+        body: {
+          transactionType: "payment",
+          source: ctx.bankAccountId,
+          receiverId: ctx.receiver!.id,
+          description: "Invoice: web design",
+          amount: 40.5,
+          privacyLevel: "public",
+          lineItems: [{ name: "Design", quantity: 1, unitPrice: 40.5 }],
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0]).to.include({ param: "lineItems" });
+      });
+    });
+
+    it("error when a payment exceeds the daily spending limit", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiTransactions}`,
+        failOnStatusCode: false,
+        body: {
+          transactionType: "payment",
+          source: ctx.bankAccountId,
+          receiverId: ctx.receiver!.id,
+          description: `Payment: ${ctx.authenticatedUser!.id} to ${ctx.receiver!.id}`,
+          amount: 3000,
+          privacyLevel: "public",
+        },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0]).to.include({
+          param: "amount",
+          limitType: "dailyAmount",
+          limit: 250000,
+          used: 0,
+        });
+      });
+    });
+
+    it("holds a large first payment to a new payee until it is reviewed", function () {
+      cy.database("filter", "transactions", { senderId: ctx.authenticatedUser!.id }).then(
+        (transactions: Transaction[]) => {
+          cy.database("filter", "users").then((users: User[]) => {
+            const payee = users.find(
+              (user) =>
+                user.id !== ctx.authenticatedUser!.id &&
+                !transactions.some(({ receiverId }) => receiverId === user.id)
+            )!;
+
+            cy.request("POST", `${apiTransactions}`, {
+              transactionType: "payment",
+              source: ctx.bankAccountId,
+              receiverId: payee.id,
+              description: `Payment: ${ctx.authenticatedUser!.id} to ${payee.id}`,
+              amount: 1500,
+              privacyLevel: "public",
+            }).then((response) => {
+              expect(response.status).to.eq(200);
+              expect(response.body.transaction).to.include({
+                status: "pending",
+                riskOutcome: "hold",
+              });
+
+              const transactionId = response.body.transaction.id;
+
+              cy.database("find", "users", { role: "operator" }).then((operator: User) =>
+                cy.loginByApi(operator.username)
+              );
+              cy.request("POST", `${Cypress.env("apiUrl")}/riskReviews/${transactionId}`, {
+                outcome: "allow",
+              }).then((response) => {
+                expect(response.body.transaction.status).to.eq("complete");
+              });
+            });
+          });
+        }
+      );
+    });
+  });
+
+  context("Idempotency-Key", function () {
+    const paymentBody = () => ({
+      transactionType: "payment",
+      source: ctx.bankAccountId,
+      receiverId: ctx.receiver!.id,
+      description: `Payment: ${ctx.authenticatedUser!.id} to ${ctx.receiver!.id}`,
+      amount: 25,
+      privacyLevel: "public",
+    });
+
+    it("replays the stored response when a payment is retried with the same key", function () {
+      const headers = { "Idempotency-Key": faker.datatype.uuid() };
+
+      cy.request({ method: "POST", url: apiTransactions, headers, body: paymentBody() }).then(
+        (firstResponse) => {
+          cy.request({ method: "POST", url: apiTransactions, headers, body: paymentBody() }).then(
+            (response) => {
+              expect(response.status).to.eq(200);
+              expect(response.headers["idempotent-replayed"]).to.eq("true");
+              expect(response.body.transaction.id).to.eq(firstResponse.body.transaction.id);
+            }
+          );
+        }
+      );
+
+      cy.database("filter", "transactions", { description: paymentBody().description }).then(
+        (transactions: Transaction[]) => {
+          expect(transactions.filter((transaction) => transaction.amount === 2500)).to.have.length(
+            1
+          );
+        }
+      );
+    });
+
+    it("error when a key is reused with a different body", function () {
+      const headers = { "Idempotency-Key": faker.datatype.uuid() };
+
+      cy.request({ method: "POST", url: apiTransactions, headers, body: paymentBody() });
+      cy.request({
+        method: "POST",
+        url: apiTransactions,
+        headers,
+        body: { ...paymentBody(), amount: 30 },
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0]).to.include({
+          location: "headers",
+          param: "Idempotency-Key",
+        });
+      });
+    });
   });
 
   context("PATCH /transactions/:transactionId", function () {
+    beforeEach(function () {
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "request",
+        source: ctx.bankAccountId,
+        receiverId: ctx.receiver!.id,
+        description: `Request: ${ctx.authenticatedUser!.id} from ${ctx.receiver!.id}`,
+        amount: 10,
+        privacyLevel: "public",
+      }).then((response) => {
+        ctx.transactionId = response.body.transaction.id;
+
+        return cy.loginByApi(ctx.receiver!.username);
+      });
+    });
+
     it("updates a transaction", function () {
       cy.request("PATCH", `${apiTransactions}/${ctx.transactionId}`, {
         requestStatus: "rejected",
@@ -147,6 +404,101 @@ describe("Transactions API", function () {
       });
     });
 
+    it("rejects a request without moving any money", function () {
+      cy.request("PATCH", `${apiTransactions}/${ctx.transactionId}`, {
+        requestStatus: "rejected",
+      });
+
+      cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+        expect(response.body.transaction).to.include({
+          requestStatus: "rejected",
+          status: "incomplete",
+        });
+      });
+
+      cy.database("find", "users", { id: ctx.receiver!.id }).then((user: User) => {
+        expect(user.balance).to.eq(ctx.receiver!.balance);
+      });
+    });
+
+    it("error when an accepted request is accepted again", function () {
+      cy.request("PATCH", `${apiTransactions}/${ctx.transactionId}`, {
+        requestStatus: "accepted",
+      });
+
+      cy.request({
+        method: "PATCH",
+        url: `${apiTransactions}/${ctx.transactionId}`,
+        failOnStatusCode: false,
+        body: { requestStatus: "accepted" },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].msg).to.eq("Request is no longer open");
+      });
+
+      cy.database("find", "users", { id: ctx.receiver!.id }).then((user: User) => {
+        expect(user.balance).to.eq(ctx.receiver!.balance - 1000);
+      });
+    });
+
+    it("error when accepting without the funds or a bank account to top up from", function () {
+      cy.database("filter", "bankaccounts", { userId: ctx.receiver!.id }).then(
+        (bankAccounts: BankAccount[]) => {
+          bankAccounts.forEach(({ id }) => {
+            cy.request("DELETE", `${Cypress.env("apiUrl")}/bankAccounts/${id}`);
+          });
+        }
+      );
+
+      cy.loginByApi(ctx.authenticatedUser!.username);
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "request",
+        source: ctx.bankAccountId,
+        receiverId: ctx.receiver!.id,
+        description: "More than the balance",
+        amount: ctx.receiver!.balance / 100 + 10,
+        privacyLevel: "public",
+      }).then((response) => {
+        const { id: transactionId } = response.body.transaction;
+
+        cy.loginByApi(ctx.receiver!.username);
+        cy.request({
+          method: "PATCH",
+          url: `${apiTransactions}/${transactionId}`,
+          failOnStatusCode: false,
+          body: { requestStatus: "accepted" },
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+          expect(response.body.errors[0].msg).to.eq("Insufficient funds");
+        });
+      });
+    });
+
+    it("error when the requester or another user tries to accept a request", function () {
+      [ctx.authenticatedUser!, ctx.otherUser!].forEach((user) => {
+        cy.loginByApi(user.username);
+
+        cy.request({
+          method: "PATCH",
+          url: `${apiTransactions}/${ctx.transactionId}`,
+          failOnStatusCode: false,
+          body: { requestStatus: "accepted" },
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+          expect(response.body.errors[0].msg).to.eq(
+            "Only the receiver can accept or reject a request"
+          );
+        });
+      });
+
+      cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+        expect(response.body.transaction.requestStatus).to.eq("pending");
+      });
+      cy.database("find", "users", { id: ctx.receiver!.id }).then((user: User) => {
+        expect(user.balance).to.eq(ctx.receiver!.balance);
+      });
+    });
+
     it("error when invalid field sent", function () {
       cy.request({
         method: "PATCH",
@@ -161,4 +513,134 @@ describe("Transactions API", function () {
       });
     });
   });
+
+  context("PATCH /transactions/:transactionId cancellation", function () {
+    beforeEach(function () {
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "request",
+        source: ctx.bankAccountId,
+        receiverId: ctx.receiver!.id,
+        description: `Request: ${ctx.authenticatedUser!.id} from ${ctx.receiver!.id}`,
+        amount: getFakeAmount(),
+        privacyLevel: "public",
+      }).then((response) => {
+        ctx.transactionId = response.body.transaction.id;
+      });
+    });
+
+    it("cancels a request sent by the user", function () {
+      cy.request("PATCH", `${apiTransactions}/${ctx.transactionId}`, {
+        requestStatus: "cancelled",
+      }).then((response) => {
+        expect(response.status).to.eq(204);
+
+        cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+          expect(response.body.transaction.requestStatus).to.eq("cancelled");
+          expect(response.body.transaction.status).to.eq("incomplete");
+        });
+      });
+    });
+
+    it("error when the receiver tries to cancel a request", function () {
+      cy.loginByApi(ctx.receiver!.username);
+
+      cy.request({
+        method: "PATCH",
+        url: `${apiTransactions}/${ctx.transactionId}`,
+        failOnStatusCode: false,
+        body: { requestStatus: "cancelled" },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].msg).to.eq("Only the sender can cancel a request");
+      });
+    });
+  });
+
+  context("POST /transactions/:transactionId/payments", function () {
+    beforeEach(function () {
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "request",
+        source: ctx.bankAccountId,
+        receiverId: ctx.receiver!.id,
+        description: `Request: ${ctx.authenticatedUser!.id} from ${ctx.receiver!.id}`,
+        amount: 30,
+        privacyLevel: "public",
+      }).then((response) => {
+        ctx.transactionId = response.body.transaction.id;
+
+        return cy.loginByApi(ctx.receiver!.username);
+      });
+    });
+
+    it("pays part of a request", function () {
+      cy.request("POST", `${apiTransactions}/${ctx.transactionId}/payments`, {
+        amount: 10,
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.transaction.requestId).to.eq(ctx.transactionId);
+
+        cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+          expect(response.body.transaction.requestStatus).to.eq("pending");
+          expect(response.body.transaction.paidAmount).to.eq(1000);
+          expect(response.body.transaction.payableAmount).to.eq(2000);
+        });
+      });
+    });
+
+    it("error when paying more than is left", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiTransactions}/${ctx.transactionId}/payments`,
+        failOnStatusCode: false,
+        body: { amount: 31 },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("amount");
+      });
+    });
+  });
+
+  context("POST /transactions/:transactionId/refunds", function () {
+    beforeEach(function () {
+      cy.request("POST", `${apiTransactions}`, {
+        transactionType: "payment",
+        source: ctx.bankAccountId,
+        receiverId: ctx.receiver!.id,
+        description: `Payment: ${ctx.authenticatedUser!.id} to ${ctx.receiver!.id}`,
+        amount: 30,
+        privacyLevel: "public",
+      }).then((response) => {
+        ctx.transactionId = response.body.transaction.id;
+
+        return cy.loginByApi(ctx.receiver!.username);
+      });
+    });
+
+    it("refunds part of a payment", function () {
+      cy.request("POST", `${apiTransactions}/${ctx.transactionId}/refunds`, {
+        amount: 10,
+      }).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.transaction.refundOf).to.eq(ctx.transactionId);
+        expect(response.body.transaction.receiverId).to.eq(ctx.authenticatedUser!.id);
+
+        cy.request("GET", `${apiTransactions}/${ctx.transactionId}`).then((response) => {
+          expect(response.body.transaction.refunds.length).to.eq(1);
+          expect(response.body.transaction.refundableAmount).to.eq(2000);
+        });
+      });
+    });
+
+    it("error when refunding more than was paid", function () {
+      cy.request({
+        method: "POST",
+        url: `${apiTransactions}/${ctx.transactionId}/refunds`,
+        failOnStatusCode: false,
+        body: { amount: 31 },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("amount");
+      });
+    });
+  });
 });
@@ -51,6 +51,27 @@ describe("Users API", function () {
     });
   });
 
+  context("GET /users/:userId/limits", function () {
+    it("gets the spending limits and usage of the user", function () {
+      cy.request("GET", `${apiUsers}/${ctx.authenticatedUser!.id}/limits`).then((response) => {
+        expect(response.status).to.eq(200);
+        expect(response.body.limits.dailyAmount).to.deep.equal({ limit: 250000, used: 0 });
+        expect(response.body.limits.hourlyCount).to.have.property("used", 0);
+        expect(response.body.limits.isNewAccount).to.eq(false);
+      });
+    });
+
+    it("error when getting the limits of another user", function () {
+      cy.request({
+        method: "GET",
+        url: `${apiUsers}/${ctx.searchUser!.id}/limits`,
+        failOnStatusCode: false,
+      }).then((response) => {
+        expect(response.status).to.eq(401);
+      });
+    });
+  });
+
   context("GET /users/profile/:username", function () {
     it("get a user profile by username", function () {
       const { username, firstName, lastName, avatar } = ctx.authenticatedUser!;
@@ -169,6 +190,47 @@ describe("Users API", function () {
         expect(response.body.errors.length).to.eq(1);
       });
     });
+
+    it("error when the balance is sent", function () {
+      cy.request({
+        method: "PATCH",
+        url: `${apiUsers}/${ctx.authenticatedUser!.id}`,
+        failOnStatusCode: false,
+        body: { firstName: "Rich", balance: 1000000 },
+      }).then((response) => {
+        expect(response.status).to.eq(422);
+        expect(response.body.errors[0].param).to.eq("balance");
+      });
+    });
+
+    it("error when the account dates or spending limits are sent", function () {
+      [
+        { createdAt: "2019-01-01T00:00:00.000Z" },
+        { modifiedAt: "2019-01-01T00:00:00.000Z" },
+        { spendingLimits: { dailyAmount: 100000000 } },
+      ].forEach((edits) => {
+        cy.request({
+          method: "PATCH",
+          url: `${apiUsers}/${ctx.authenticatedUser!.id}`,
+          failOnStatusCode: false,
+          body: { firstName: "Early", ...edits },
+        }).then((response) => {
+          expect(response.status).to.eq(422);
+          expect(response.body.errors[0].param).to.eq(Object.keys(edits)[0]);
+        });
+      });
+    });
+
+    it("error when updating another user", function () {
+      cy.request({
+        method: "PATCH",
+        url: `${apiUsers}/${ctx.searchUser!.id}`,
+        failOnStatusCode: false,
+        body: { firstName: "Someone" },
+      }).then((response) => {
+        expect(response.status).to.eq(401);
+      });
+    });
   });
 
   context("POST /login", function () {
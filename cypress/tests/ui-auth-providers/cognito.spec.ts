@@ -23,7 +23,7 @@ if (Cypress.env("cognito_username")) {
 
       cy.getBySelLike("bankName-input").type("The Best Bank");
       cy.getBySelLike("accountNumber-input").type("123456789");
-      cy.getBySelLike("routingNumber-input").type("987654321");
+      cy.getBySelLike("routingNumber-input").type("011000015");
       cy.getBySelLike("submit").click();
 
       cy.wait("@createBankAccount");
@@ -22,7 +22,7 @@ if (Cypress.env("okta_client_id")) {
 
       cy.getBySelLike("bankName-input").type("The Best Bank");
       cy.getBySelLike("accountNumber-input").type("123456789");
-      cy.getBySelLike("routingNumber-input").type("987654321");
+      cy.getBySelLike("routingNumber-input").type("011000015");
       cy.getBySelLike("submit").click();
 
       cy.wait("@createBankAccount");
@@ -130,7 +130,7 @@ describe("User Sign-up and Login", function () {
     // We then fill our the bank account creation form and submit
     cy.getBySelLike("bankName-input").type("The Best Bank");
     cy.getBySelLike("accountNumber-input").type("123456789");
-    cy.getBySelLike("routingNumber-input").type("987654321");
+    cy.getBySelLike("routingNumber-input").type("011000015");
     cy.visualSnapshot("About to complete User Onboarding");
     cy.getBySelLike("submit").click();
 
@@ -73,7 +73,7 @@ describe("Bank Accounts", function () {
 
     // Then, we fill out the new bank account form with our bank account information and save it.
     cy.getBySelLike("bankName-input").type("The Best Bank");
-    cy.getBySelLike("routingNumber-input").type("987654321");
+    cy.getBySelLike("routingNumber-input").type("011000015");
     cy.getBySelLike("accountNumber-input").type("123456789");
     cy.visualSnapshot("Fill out New Bank Account Form");
     cy.getBySelLike("submit").click();
@@ -117,7 +117,14 @@ describe("Bank Accounts", function () {
       .and("contain", "Must contain a valid routing number");
     cy.getBySelLike("routingNumber-input").find("input").clear();
 
+    // ABA checksum
     cy.getBySelLike("routingNumber-input").type("123456789").find("input").blur();
+    cy.get("#bankaccount-routingNumber-input-helper-text")
+      .should("be.visible")
+      .and("contain", "Must contain a valid routing number");
+    cy.getBySelLike("routingNumber-input").find("input").clear();
+
+    cy.getBySelLike("routingNumber-input").type("021000021").find("input").blur();
     cy.get("#bankaccount-routingNumber-input-helper-text").should("not.exist");
 
     /** Account number input validations **/
@@ -0,0 +1,10 @@
+import { checkLedgerConsistency } from "../backend/database";
+
+const report = checkLedgerConsistency();
+
+if (report.isConsistent) {
+  console.log("ledger is consistent with user and group balances");
+} else {
+  console.error(JSON.stringify(report, null, 2));
+  process.exitCode = 1;
+}
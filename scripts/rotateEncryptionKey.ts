@@ -0,0 +1,22 @@
+import path from "path";
+import fs from "fs";
+import dotenv from "dotenv";
+import { encryptDatabase, TDatabase } from "../backend/database";
+
+// the encryption keys are read when a record is encrypted, so loading .env here is early enough
+dotenv.config();
+
+// Re-encrypts the sensitive fields of the given database files under FIELD_ENCRYPTION_KEY.
+// Values encrypted under a key listed in FIELD_ENCRYPTION_PREVIOUS_KEYS are decrypted first,
+// and plaintext values are encrypted. Stop the API first, since it keeps the database in memory.
+const defaultFiles = ["database.json", "database-seed.json"].map((file) =>
+  path.join(process.cwd(), "data", file)
+);
+const files = process.argv.length > 2 ? process.argv.slice(2) : defaultFiles;
+
+files.forEach((file) => {
+  const database: TDatabase = JSON.parse(fs.readFileSync(file, "utf-8"));
+
+  fs.writeFileSync(file, JSON.stringify(encryptDatabase(database), null, 2));
+  console.log(`re-encrypted sensitive fields in ${file}`);
+});
@@ -27,6 +27,7 @@ import {
 } from "lodash/fp";
 import {
   BankAccount,
+  BankAccountVerificationStatus,
   User,
   DefaultPrivacyLevel,
   Like,
@@ -42,10 +43,22 @@ import {
   FakeTransaction,
   Contact,
   BankTransferType,
+  BankTransferStatus,
   BankTransfer,
   PaymentNotificationStatus,
+  LedgerEntry,
+  CurrencyCode,
+  ExchangeRate,
+  UserRole,
 } from "../src/models";
+import { encryptDatabase } from "../backend/database";
 import { getFakeAmount } from "../src/utils/transactionUtils";
+import { DEFAULT_CURRENCY } from "../src/utils/currencyUtils";
+import {
+  createLedgerEntries,
+  openingBalanceLedgerAccount,
+  userLedgerAccount,
+} from "../src/utils/ledgerUtils";
 
 export const userbaseSize = +process.env.SEED_USERBASE_SIZE!;
 export const contactsPerUser = +process.env.SEED_CONTACTS_PER_USER!;
@@ -71,6 +84,7 @@ export const totalComments = userbaseSize! * commentsPerUser!;
 export const totalNotifications = userbaseSize! * notificationsPerUser!;
 export const totalContacts = userbaseSize! * contactsPerUser!;
 export const totalBankTransfers = userbaseSize! * bankTransfersPerUser * 2; // deposit & withdrawal
+export const totalLedgerEntries = userbaseSize! * 2; // opening balance debit & credit
 
 export const isPayment = (type: string) => type === "payment";
 export const passwordHash = bcrypt.hashSync(defaultPassword, 10);
@@ -131,13 +145,18 @@ export const createFakeUser = (): User => {
       DefaultPrivacyLevel.contacts,
     ]),
     balance: faker.random.number({ min: 10000, max: 200000 }),
+    currency: DEFAULT_CURRENCY,
     createdAt: faker.date.past(),
     modifiedAt: faker.date.recent(),
   };
 };
 
-// @ts-ignore
-export const createSeedUsers = () => times(() => createFakeUser(), userbaseSize);
+// the last seed user is the operator who reviews held payments and maintains exchange rates
+export const createSeedUsers = (): User[] =>
+  // @ts-ignore
+  times(() => createFakeUser(), userbaseSize).map((user: User, index: number) =>
+    index === userbaseSize - 1 ? { ...user, role: UserRole.operator } : user
+  );
 
 export const createContact = (userId: User["id"], contactUserId: User["id"]) => ({
   id: shortid(),
@@ -185,7 +204,10 @@ export const createSeedBankAccounts = (seedUsers: User[]) =>
       userId: user.id,
       bankName: `${faker.company.companyName()} Bank`,
       accountNumber: faker.finance.account(10),
-      routingNumber: faker.finance.account(9),
+      routingNumber: faker.finance.routingNumber(),
+      verificationStatus: BankAccountVerificationStatus.verified,
+      verificationAttempts: 0,
+      isDefault: true,
       isDeleted: false,
       createdAt: faker.date.past(),
       modifiedAt: faker.date.recent(),
@@ -229,6 +251,8 @@ export const createTransaction = (
     uuid: faker.random.uuid(),
     source: account.id,
     amount: getFakeAmount(),
+    currency: DEFAULT_CURRENCY,
+    exchangeRate: 1,
     description: isPayment(type)
       ? `Payment: ${senderId} to ${receiverId}`
       : `Request: ${receiverId} to ${senderId}`,
@@ -524,7 +548,9 @@ export const createBankTransfer = (
   userId,
   source: bankAccountId,
   amount: getFakeAmount(),
+  currency: DEFAULT_CURRENCY,
   type: transferType,
+  status: BankTransferStatus.complete,
   transactionId,
   createdAt: faker.date.past(),
   modifiedAt: faker.date.recent(),
@@ -569,6 +595,43 @@ export const createSeedBankTransfers = (
     })(seedUsers)
   );
 
+// Seed transactions and bank transfers are historical records,
+// so the ledger only carries each user's opening balance
+export const createSeedLedger = (seedUsers: User[]) =>
+  flattenDeep(
+    map(
+      (user: User): LedgerEntry[] =>
+        createLedgerEntries(user.createdAt, {
+          debit: openingBalanceLedgerAccount,
+          credit: userLedgerAccount(user.id),
+          amount: user.balance,
+        }),
+      seedUsers
+    )
+  );
+
+// Units of each currency per US dollar
+export const seedExchangeRates: { [currency in CurrencyCode]: number } = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+};
+
+export const createSeedExchangeRates = (): ExchangeRate[] =>
+  map(
+    (currency: CurrencyCode) => ({
+      id: shortid(),
+      uuid: faker.random.uuid(),
+      currency,
+      rate: seedExchangeRates[currency],
+      createdAt: faker.date.past(),
+      modifiedAt: faker.date.recent(),
+    }),
+    Object.values(CurrencyCode)
+  );
+
 export const buildDatabase = () => {
   const seedUsers: User[] = createSeedUsers();
   const seedContacts: Contact[] = createSeedContacts(seedUsers);
@@ -587,8 +650,10 @@ export const buildDatabase = () => {
     seedTransactions,
     seedBankAccounts
   );
+  const seedLedger: LedgerEntry[] = createSeedLedger(seedUsers);
 
-  return {
+  // sensitive fields are written encrypted, as the API stores them
+  return encryptDatabase({
     users: seedUsers,
     contacts: seedContacts,
     bankaccounts: seedBankAccounts,
@@ -597,5 +662,17 @@ export const buildDatabase = () => {
     comments: seedComments,
     notifications: seedNotifications,
     banktransfers: seedBankTransfers,
-  };
+    ledger: seedLedger,
+    schedules: [],
+    splits: [],
+    exchangerates: createSeedExchangeRates(),
+    idempotencykeys: [],
+    disputes: [],
+    riskevaluations: [],
+    auditlog: [],
+    transactionlabels: [],
+    budgets: [],
+    groups: [],
+    groupmembers: [],
+  });
 };
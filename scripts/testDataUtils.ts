@@ -0,0 +1,17 @@
+import { getBankAccountsByUserId } from "../backend/database";
+import { User, TransactionPayload, DefaultPrivacyLevel, TransactionStatus } from "../src/models";
+
+// public payment from the sender's first bank account, as the payment form submits it
+export const buildPaymentDetails = (
+  sender: User,
+  receiver: User,
+  amount: number
+): TransactionPayload => ({
+  source: getBankAccountsByUserId(sender.id)[0].id,
+  senderId: sender.id,
+  receiverId: receiver.id,
+  description: `Payment: ${sender.id} to ${receiver.id}`,
+  amount,
+  privacyLevel: DefaultPrivacyLevel.public,
+  status: TransactionStatus.pending,
+});
@@ -0,0 +1,99 @@
+import { map } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  getBankAccountsByUserId,
+  createTransaction,
+  updateUserById,
+  updateBankAccountById,
+  getAuditLogForEntity,
+  getAllForEntity,
+} from "../../backend/database";
+import { runWithAuditContext } from "../../backend/audit";
+import {
+  User,
+  DefaultPrivacyLevel,
+  TransactionStatus,
+  AuditAction,
+  AuditLogEntry,
+} from "../models";
+
+describe("Audit Log", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  const auditContext = (actor: User, route: string) => ({
+    requestId: "request-1",
+    actorId: actor.id,
+    route,
+  });
+
+  it("should record every record an API call creates or changes", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+
+    const payment = runWithAuditContext(auditContext(sender, "POST /transactions"), () =>
+      createTransaction(sender.id, "payment", {
+        source: getBankAccountsByUserId(sender.id)[0].id,
+        senderId: sender.id,
+        receiverId: receiver.id,
+        description: "Audited payment",
+        amount: 30,
+        privacyLevel: DefaultPrivacyLevel.public,
+        status: TransactionStatus.pending,
+      })
+    );
+
+    const [created, completed] = getAuditLogForEntity("transactions", payment.id);
+
+    expect(created).toMatchObject({
+      requestId: "request-1",
+      actorId: sender.id,
+      route: "POST /transactions",
+      action: AuditAction.create,
+    });
+    expect(created.changes.description).toEqual({ after: "Audited payment" });
+    expect(completed.action).toBe(AuditAction.update);
+    expect(completed.changes.status).toEqual({
+      before: TransactionStatus.pending,
+      after: TransactionStatus.complete,
+    });
+    expect(map("changes.balance.after", getAuditLogForEntity("users", receiver.id))).toEqual([
+      receiver.balance + 3000,
+    ]);
+  });
+
+  it("should redact sensitive values and ignore their re-encryption", () => {
+    const [user]: User[] = getAllUsers();
+
+    runWithAuditContext(auditContext(user, `PATCH /users/${user.id}`), () =>
+      updateUserById(user.id, { firstName: "Audited", email: user.email })
+    );
+    runWithAuditContext(auditContext(user, `PATCH /users/${user.id}`), () =>
+      updateUserById(user.id, { email: "audited@example.com" })
+    );
+
+    const [renamed, emailChanged] = getAuditLogForEntity("users", user.id);
+
+    expect(Object.keys(renamed.changes)).toEqual(["firstName"]);
+    expect(emailChanged.changes.email).toEqual({ before: "[redacted]", after: "[redacted]" });
+  });
+
+  it("should only record changes made inside an API call", () => {
+    const [user]: User[] = getAllUsers();
+    const bankAccount = getBankAccountsByUserId(user.id)[0];
+
+    updateBankAccountById(bankAccount.id, { bankName: "Outside a request" });
+
+    expect(getAllForEntity("auditlog") as AuditLogEntry[]).toHaveLength(0);
+
+    runWithAuditContext(auditContext(user, `PATCH /bankAccounts/${bankAccount.id}`), () =>
+      updateBankAccountById(bankAccount.id, { bankName: "Inside a request" })
+    );
+
+    expect(getAuditLogForEntity("bankaccounts", bankAccount.id)[0].changes.bankName).toEqual({
+      before: "Outside a request",
+      after: "Inside a request",
+    });
+  });
+});
@@ -5,12 +5,27 @@ import {
   getBankAccountById,
   getBankAccountsByUserId,
   getRandomUser,
+  getAllUsers,
   seedDatabase,
   createBankAccountForUser,
   removeBankAccountById,
+  getMicroDepositsForBankAccount,
+  verifyBankAccount,
+  getBankAccountSourceError,
+  getDefaultBankAccountForUser,
+  updateBankAccountById,
+  restoreBankAccountById,
 } from "../../backend/database";
 import { User } from "../../src/models/user";
-import { BankAccount } from "../../src/models/bankaccount";
+import { BankAccount, BankAccountVerificationStatus } from "../../src/models/bankaccount";
+
+const createTestBankAccount = (user: User) =>
+  createBankAccountForUser(user.id, {
+    bankName: `${faker.company.companyName()} Bank`,
+    accountNumber: faker.finance.account(10),
+    routingNumber: faker.finance.routingNumber(),
+  });
+
 describe("BankAccounts", () => {
   beforeEach(() => {
     seedDatabase();
@@ -41,7 +56,7 @@ describe("BankAccounts", () => {
     const accountDetails: Partial<BankAccount> = {
       bankName: `${faker.company.companyName()} Bank`,
       accountNumber,
-      routingNumber: faker.finance.account(9),
+      routingNumber: faker.finance.routingNumber(),
     };
     const result = createBankAccountForUser(user.id, accountDetails);
     expect(result.userId).toBe(user.id);
@@ -58,4 +73,115 @@ describe("BankAccounts", () => {
     const updatedBankAccounts = getBankAccountsByUserId(userToLookup.id);
     expect(updatedBankAccounts[0].isDeleted).toBe(true);
   });
+
+  it("should create an unverified bank account with two micro-deposits", () => {
+    const user: User = getRandomUser();
+    const bankAccount = createTestBankAccount(user);
+
+    expect(bankAccount.verificationStatus).toBe(BankAccountVerificationStatus.unverified);
+    expect(bankAccount.verificationAttempts).toBe(0);
+
+    const deposits = getMicroDepositsForBankAccount(bankAccount.id);
+    expect(deposits).toHaveLength(2);
+    deposits.forEach((deposit) => {
+      expect(deposit.amount).toBeGreaterThan(0);
+      expect(deposit.amount).toBeLessThan(100);
+    });
+    expect(getBankAccountSourceError(user.id, bankAccount.id)).toBe("Bank account is not verified");
+  });
+
+  it("should verify a bank account with the micro-deposit amounts", () => {
+    const user: User = getRandomUser();
+    const bankAccount = createTestBankAccount(user);
+    const amounts = getMicroDepositsForBankAccount(bankAccount.id)
+      .map((deposit) => deposit.amount / 100)
+      .reverse();
+
+    const result = verifyBankAccount(bankAccount.id, amounts);
+
+    expect(result.verificationStatus).toBe(BankAccountVerificationStatus.verified);
+    expect(result.verificationAttempts).toBe(0);
+    expect(getBankAccountSourceError(user.id, bankAccount.id)).toBeUndefined();
+  });
+
+  it("should lock a bank account after three wrong guesses", () => {
+    const user: User = getRandomUser();
+    const bankAccount = createTestBankAccount(user);
+    const wrongAmounts = [1, 1];
+
+    verifyBankAccount(bankAccount.id, wrongAmounts);
+    const afterTwo = verifyBankAccount(bankAccount.id, wrongAmounts);
+    expect(afterTwo.verificationStatus).toBe(BankAccountVerificationStatus.unverified);
+    expect(afterTwo.verificationAttempts).toBe(2);
+
+    const afterThree = verifyBankAccount(bankAccount.id, wrongAmounts);
+    expect(afterThree.verificationStatus).toBe(BankAccountVerificationStatus.locked);
+  });
+
+  it("should not allow another user's bank account as a source", () => {
+    const [owner, other]: User[] = getAllUsers();
+    const bankAccount = createTestBankAccount(owner);
+
+    expect(getBankAccountSourceError(other.id, bankAccount.id)).toBe("Bank account not found");
+  });
+
+  it("should make a user's first verified bank account the default", () => {
+    const user: User = getRandomUser();
+    const [seedAccount] = getBankAccountsByUserId(user.id);
+    expect(seedAccount.isDefault).toBe(true);
+
+    expect(createTestBankAccount(user).isDefault).toBe(false);
+
+    removeBankAccountById(seedAccount.id);
+    expect(getDefaultBankAccountForUser(user.id)).toBeUndefined();
+
+    const bankAccount = createTestBankAccount(user);
+    expect(bankAccount.isDefault).toBe(false);
+
+    const amounts = getMicroDepositsForBankAccount(bankAccount.id).map(
+      (deposit) => deposit.amount / 100
+    );
+    expect(verifyBankAccount(bankAccount.id, amounts).isDefault).toBe(true);
+  });
+
+  it("should rename a bank account and move the default to it", () => {
+    const user: User = getRandomUser();
+    const [seedAccount] = getBankAccountsByUserId(user.id);
+    const bankAccount = createTestBankAccount(user);
+
+    const result = updateBankAccountById(bankAccount.id, {
+      bankName: "Renamed Bank",
+      isDefault: true,
+    });
+
+    expect(result.bankName).toBe("Renamed Bank");
+    expect(result.isDefault).toBe(true);
+    expect(getBankAccountById(seedAccount.id).isDefault).toBe(false);
+    expect(getDefaultBankAccountForUser(user.id)!.id).toBe(bankAccount.id);
+  });
+
+  it("should restore a deleted bank account", () => {
+    const user: User = getRandomUser();
+    const [seedAccount] = getBankAccountsByUserId(user.id);
+
+    removeBankAccountById(seedAccount.id);
+    const result = restoreBankAccountById(seedAccount.id);
+
+    expect(result.isDeleted).toBe(false);
+    expect(result.isDefault).toBe(true);
+  });
+
+  it("should not restore an unverified bank account as the default", () => {
+    const user: User = getRandomUser();
+    const [seedAccount] = getBankAccountsByUserId(user.id);
+    const bankAccount = createTestBankAccount(user);
+
+    removeBankAccountById(bankAccount.id);
+    removeBankAccountById(seedAccount.id);
+    const result = restoreBankAccountById(bankAccount.id);
+
+    expect(result.isDeleted).toBe(false);
+    expect(result.isDefault).toBe(false);
+    expect(getDefaultBankAccountForUser(user.id)).toBeUndefined();
+  });
 });
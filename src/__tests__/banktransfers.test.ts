@@ -0,0 +1,68 @@
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  getBankAccountsByUserId,
+  getBankTransfersByUserId,
+  createBankTransferForUser,
+  isActiveBankAccountForUser,
+  removeBankAccountById,
+  checkLedgerConsistency,
+} from "../../backend/database";
+import { User, BankTransferType, BankTransferStatus } from "../models";
+
+describe("BankTransfers", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  it("should retrieve a list of bank transfers for a user", () => {
+    const user: User = getAllUsers()[0];
+
+    const result = getBankTransfersByUserId(user.id);
+    expect(result[0].userId).toBe(user.id);
+  });
+
+  it("should deposit from a bank account into the pay app balance", () => {
+    const user: User = getAllUsers()[0];
+    const balance = user.balance;
+    const bankAccount = getBankAccountsByUserId(user.id)[0];
+
+    const transfer = createBankTransferForUser(user.id, BankTransferType.deposit, {
+      source: bankAccount.id,
+      amount: 25.5,
+    });
+
+    expect(transfer.amount).toBe(2550);
+    expect(transfer.status).toBe(BankTransferStatus.complete);
+    expect(getUserById(user.id).balance).toBe(balance + 2550);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should withdraw from the pay app balance to a bank account", () => {
+    const user: User = getAllUsers()[0];
+    const balance = user.balance;
+    const bankAccount = getBankAccountsByUserId(user.id)[0];
+
+    const transfer = createBankTransferForUser(user.id, BankTransferType.withdrawal, {
+      source: bankAccount.id,
+      amount: 10,
+    });
+
+    expect(transfer.type).toBe(BankTransferType.withdrawal);
+    expect(transfer.status).toBe(BankTransferStatus.complete);
+    expect(getUserById(user.id).balance).toBe(balance - 1000);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should only allow transfers with a user's non-deleted bank accounts", () => {
+    const [user, otherUser]: User[] = getAllUsers();
+    const bankAccount = getBankAccountsByUserId(user.id)[0];
+
+    expect(isActiveBankAccountForUser(user.id, bankAccount.id)).toBe(true);
+    expect(isActiveBankAccountForUser(otherUser.id, bankAccount.id)).toBe(false);
+
+    removeBankAccountById(bankAccount.id);
+    expect(isActiveBankAccountForUser(user.id, bankAccount.id)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  seedDatabase,
+  getAllUsers,
+  getBankAccountsByUserId,
+  createTransaction,
+  getTransactionById,
+  getTransactionsForUserForApi,
+  saveTransactionLabel,
+  getSuggestedCategoryForUser,
+  saveBudgetForUser,
+  getBudgetSummariesForUser,
+  getNotificationsByObj,
+} from "../../backend/database";
+import {
+  User,
+  TransactionPayload,
+  DefaultPrivacyLevel,
+  TransactionStatus,
+  TransactionCategory,
+} from "../models";
+
+describe("Categories and Budgets", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  const payment = (sender: User, receiver: User, amount: number, description = "Payment") =>
+    createTransaction(sender.id, "payment", {
+      source: getBankAccountsByUserId(sender.id)[0].id,
+      senderId: sender.id,
+      receiverId: receiver.id,
+      description,
+      amount,
+      privacyLevel: DefaultPrivacyLevel.public,
+      status: TransactionStatus.pending,
+    } as TransactionPayload);
+
+  it("should label a transaction privately with normalized tags", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const transaction = payment(sender, receiver, 30);
+
+    saveTransactionLabel(sender.id, transaction.id, {
+      category: TransactionCategory.food,
+      tags: [" Trip ", "trip", "Paris"],
+    });
+    const label = saveTransactionLabel(sender.id, transaction.id, { tags: ["Paris"] });
+
+    expect(label.category).toBe(TransactionCategory.food);
+    expect(label.tags).toEqual(["paris"]);
+
+    const [senderView] = getTransactionsForUserForApi(sender.id, { category: "food" });
+    expect(senderView.id).toBe(transaction.id);
+    expect(getTransactionsForUserForApi(sender.id, { tag: "paris" })).toHaveLength(1);
+    expect(getTransactionsForUserForApi(receiver.id, { category: "food" })).toHaveLength(0);
+  });
+
+  it("should suggest a category from the counterparty, then from the description", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const first = payment(sender, receiver, 10, "Settling up");
+    const second = payment(sender, receiver, 10, "Settling up again");
+
+    expect(getSuggestedCategoryForUser(sender.id, getTransactionById(first.id))).toBeUndefined();
+
+    const dinner = payment(sender, receiver, 10, "Pizza dinner");
+    expect(getSuggestedCategoryForUser(sender.id, getTransactionById(dinner.id))).toBe(
+      TransactionCategory.food
+    );
+
+    saveTransactionLabel(sender.id, first.id, { category: TransactionCategory.housing });
+    expect(getSuggestedCategoryForUser(sender.id, getTransactionById(second.id))).toBe(
+      TransactionCategory.housing
+    );
+  });
+
+  it("should report how much of a monthly budget has been spent", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const transaction = payment(sender, receiver, 30);
+
+    saveBudgetForUser(sender.id, { category: TransactionCategory.food, amount: 100 });
+    saveTransactionLabel(sender.id, transaction.id, { category: TransactionCategory.food });
+
+    const [summary] = getBudgetSummariesForUser(sender.id);
+    expect(summary).toMatchObject({
+      category: TransactionCategory.food,
+      amount: 10000,
+      spent: 3000,
+    });
+    // the receiver was paid, so nothing counts against their budgets
+    saveBudgetForUser(receiver.id, { category: TransactionCategory.food, amount: 100 });
+    saveTransactionLabel(receiver.id, transaction.id, { category: TransactionCategory.food });
+    expect(getBudgetSummariesForUser(receiver.id)[0].spent).toBe(0);
+  });
+
+  it("should notify once per threshold when a budget is passed", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const budget = saveBudgetForUser(sender.id, {
+      category: TransactionCategory.food,
+      amount: 50,
+    });
+    const budgetNotifications = () => getNotificationsByObj({ budgetId: budget.id });
+
+    saveTransactionLabel(sender.id, payment(sender, receiver, 30).id, {
+      category: TransactionCategory.food,
+    });
+    expect(budgetNotifications()).toHaveLength(0);
+
+    saveTransactionLabel(sender.id, payment(sender, receiver, 20).id, {
+      category: TransactionCategory.food,
+    });
+    expect(budgetNotifications().map((notification: any) => notification.threshold)).toEqual([
+      80, 100,
+    ]);
+
+    saveTransactionLabel(sender.id, payment(sender, receiver, 5).id, {
+      category: TransactionCategory.food,
+    });
+    expect(budgetNotifications()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  updateUserById,
+  createTransaction,
+  updateTransactionById,
+  getTransactionByIdForApi,
+  updateExchangeRate,
+  checkLedgerConsistency,
+} from "../../backend/database";
+import { User, CurrencyCode, TransactionRequestStatus } from "../models";
+import { getExchangeRate } from "../utils/currencyUtils";
+import { buildPaymentDetails } from "../../scripts/testDataUtils";
+
+describe("Currency", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  it("should derive cross rates from rates against the base currency", () => {
+    const rates: any[] = [
+      { currency: CurrencyCode.USD, rate: 1 },
+      { currency: CurrencyCode.EUR, rate: 0.92 },
+      { currency: CurrencyCode.GBP, rate: 0.79 },
+    ];
+
+    expect(getExchangeRate(rates, CurrencyCode.USD, CurrencyCode.USD)).toBe(1);
+    expect(getExchangeRate(rates, CurrencyCode.USD, CurrencyCode.EUR)).toBe(0.92);
+    expect(getExchangeRate(rates, CurrencyCode.EUR, CurrencyCode.GBP)).toBe(0.858696);
+  });
+
+  it("should convert a payment into the receiver's currency at the recorded rate", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    updateUserById(receiver.id, { currency: CurrencyCode.EUR });
+    const senderBalance = sender.balance;
+    const receiverBalance = receiver.balance;
+
+    const transaction = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 10)
+    );
+
+    expect(transaction.currency).toBe(CurrencyCode.USD);
+    expect(transaction.exchangeRate).toBe(0.92);
+    expect(transaction.receiverCurrency).toBe(CurrencyCode.EUR);
+    expect(transaction.receiverAmount).toBe(920);
+    expect(getUserById(sender.id).balance).toBe(senderBalance - 1000);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance + 920);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should keep the rate a request was created with when it is accepted", () => {
+    const [requester, payer]: User[] = getAllUsers();
+    updateUserById(requester.id, { currency: CurrencyCode.GBP });
+    const payerBalance = payer.balance;
+
+    const request = createTransaction(
+      requester.id,
+      "request",
+      buildPaymentDetails(requester, payer, 7.9)
+    );
+    expect(request.exchangeRate).toBe(1.265823);
+    expect(request.receiverAmount).toBe(1000);
+
+    updateExchangeRate(CurrencyCode.GBP, 0.5);
+    updateTransactionById(request.id, { requestStatus: TransactionRequestStatus.accepted });
+
+    expect(getTransactionByIdForApi(request.id).exchangeRate).toBe(1.265823);
+    expect(getUserById(payer.id).balance).toBe(payerBalance - 1000);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+});
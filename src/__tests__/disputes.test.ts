@@ -0,0 +1,119 @@
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  createTransaction,
+  getTransactionById,
+  getRefundableAmount,
+  getNotificationsByObj,
+  createDisputeForUser,
+  addDisputeMessage,
+  updateDisputeStatus,
+  getActiveDisputeForTransaction,
+} from "../../backend/database";
+import { getDisputeStatusChangeError, getAvailableDisputeStatuses } from "../utils/disputeUtils";
+import { User, DisputeReason, DisputeStatus } from "../models";
+import { buildPaymentDetails } from "../../scripts/testDataUtils";
+
+describe("Disputes", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  const openDispute = (sender: User, receiver: User) => {
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 30)
+    );
+    const dispute = createDisputeForUser(sender.id, {
+      transactionId: payment.id,
+      reason: DisputeReason.wrongRecipient,
+      message: "I sent this to the wrong person",
+    });
+
+    return { payment, dispute };
+  };
+
+  it("should open a dispute and notify the other party", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const { payment, dispute } = openDispute(sender, receiver);
+
+    expect(dispute).toMatchObject({
+      transactionId: payment.id,
+      userId: sender.id,
+      status: DisputeStatus.open,
+    });
+    expect(dispute.messages[0]).toMatchObject({
+      userId: sender.id,
+      content: "I sent this to the wrong person",
+    });
+    expect(getActiveDisputeForTransaction(payment.id)!.id).toBe(dispute.id);
+    expect(getNotificationsByObj({ userId: receiver.id, disputeId: dispute.id })[0]).toMatchObject({
+      disputeStatus: DisputeStatus.open,
+    });
+  });
+
+  it("should append messages from either party", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const { dispute } = openDispute(sender, receiver);
+
+    const updatedDispute = addDisputeMessage(dispute.id, receiver.id, "Let me check");
+
+    expect(updatedDispute.messages.map(({ userId }) => userId)).toEqual([sender.id, receiver.id]);
+    expect(updatedDispute.messages[1].content).toBe("Let me check");
+  });
+
+  it("should only allow the status changes each party may make", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const { payment, dispute } = openDispute(sender, receiver);
+
+    expect(
+      getDisputeStatusChangeError(dispute, payment, sender.id, DisputeStatus.underReview)
+    ).toBe("Only the other party can take the dispute under review");
+    expect(
+      getDisputeStatusChangeError(dispute, payment, sender.id, DisputeStatus.resolvedRefund)
+    ).toBe("Only the user who received the money can refund it");
+    expect(getAvailableDisputeStatuses(dispute, payment, receiver.id)).toEqual([
+      DisputeStatus.underReview,
+      DisputeStatus.resolvedRefund,
+    ]);
+    expect(getAvailableDisputeStatuses(dispute, payment, sender.id)).toEqual([
+      DisputeStatus.resolvedNoAction,
+    ]);
+
+    const closedDispute = updateDisputeStatus(dispute.id, sender.id, {
+      status: DisputeStatus.resolvedNoAction,
+    });
+
+    expect(closedDispute.resolvedAt).toBeDefined();
+    expect(
+      getDisputeStatusChangeError(closedDispute, payment, receiver.id, DisputeStatus.underReview)
+    ).toBe("Dispute is already resolved");
+    expect(getActiveDisputeForTransaction(payment.id)).toBeUndefined();
+  });
+
+  it("should refund what is left of the payment when resolved with a refund", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const { payment, dispute } = openDispute(sender, receiver);
+    const senderBalance = getUserById(sender.id).balance;
+
+    updateDisputeStatus(dispute.id, receiver.id, { status: DisputeStatus.underReview });
+    const resolvedDispute = updateDisputeStatus(dispute.id, receiver.id, {
+      status: DisputeStatus.resolvedRefund,
+    });
+
+    expect(resolvedDispute.status).toBe(DisputeStatus.resolvedRefund);
+    expect(getTransactionById(resolvedDispute.refundId!)).toMatchObject({
+      refundOf: payment.id,
+      amount: 3000,
+    });
+    expect(getRefundableAmount(payment)).toBe(0);
+    expect(getUserById(sender.id).balance).toBe(senderBalance + 3000);
+    expect(
+      getNotificationsByObj({ userId: sender.id, disputeId: dispute.id }).map(
+        ({ disputeStatus }: any) => disputeStatus
+      )
+    ).toEqual([DisputeStatus.underReview, DisputeStatus.resolvedRefund]);
+  });
+});
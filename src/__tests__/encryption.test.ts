@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  updateUserById,
+  encryptDatabase,
+  TDatabase,
+} from "../../backend/database";
+import { encryptValue, decryptValue, isEncryptedValue } from "../../backend/encryption";
+
+const readStoredUser = (userId: string) => {
+  const database: TDatabase = JSON.parse(
+    fs.readFileSync(path.join(process.cwd(), "data", "database.json"), "utf-8")
+  );
+  return database.users.find((user) => user.id === userId)!;
+};
+
+describe("Field Encryption", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  afterEach(() => {
+    delete process.env.FIELD_ENCRYPTION_KEY;
+    delete process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS;
+  });
+
+  it("should encrypt values with a random iv and decrypt them", () => {
+    const first = encryptValue("jane@example.com");
+    const second = encryptValue("jane@example.com");
+
+    expect(isEncryptedValue(first)).toBe(true);
+    expect(first).not.toEqual(second);
+    expect(decryptValue(first)).toBe("jane@example.com");
+    expect(decryptValue("plaintext@example.com")).toBe("plaintext@example.com");
+  });
+
+  it("should only fall back to the development key in development and tests", () => {
+    Object.assign(process.env, { NODE_ENV: "staging" });
+    try {
+      expect(() => encryptValue("jane@example.com")).toThrow("FIELD_ENCRYPTION_KEY must be set");
+    } finally {
+      Object.assign(process.env, { NODE_ENV: "test" });
+    }
+  });
+
+  it("should store sensitive user fields encrypted and read them decrypted", () => {
+    const user = getAllUsers()[0];
+
+    updateUserById(user.id, { email: "new.address@example.com" });
+
+    const storedUser = readStoredUser(user.id);
+    expect(isEncryptedValue(storedUser.email)).toBe(true);
+    expect(isEncryptedValue(storedUser.phoneNumber)).toBe(true);
+    expect(getUserById(user.id).email).toBe("new.address@example.com");
+  });
+
+  it("should re-encrypt values under a rotated key", () => {
+    const previousKey = crypto.randomBytes(32).toString("base64");
+    const rotatedKey = crypto.randomBytes(32).toString("base64");
+
+    const [seedUser] = getAllUsers();
+
+    process.env.FIELD_ENCRYPTION_KEY = previousKey;
+    const user = { ...seedUser, email: encryptValue("jane@example.com") };
+
+    process.env.FIELD_ENCRYPTION_KEY = rotatedKey;
+    expect(() => decryptValue(user.email)).toThrow();
+
+    process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS = previousKey;
+    const database = encryptDatabase({ users: [user], bankaccounts: [] } as unknown as TDatabase);
+    delete process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS;
+
+    expect(database.users[0].email).not.toEqual(user.email);
+    expect(decryptValue(database.users[0].email)).toBe("jane@example.com");
+  });
+});
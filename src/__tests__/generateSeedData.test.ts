@@ -8,6 +8,7 @@ import {
   totalComments,
   totalNotifications,
   totalBankTransfers,
+  totalLedgerEntries,
 } from "../../scripts/seedDataUtils";
 import { TDatabase } from "../../backend/database";
 
@@ -56,4 +57,9 @@ describe.skip("Seed Database", () => {
     expect(database).toHaveProperty("banktransfers");
     expect(database.banktransfers.length).toBeLessThanOrEqual(totalBankTransfers);
   });
+
+  it("should contain an opening balance in the ledger for each user", () => {
+    expect(database).toHaveProperty("ledger");
+    expect(database.ledger.length).toBe(totalLedgerEntries);
+  });
 });
@@ -0,0 +1,145 @@
+import { map } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  updateUserById,
+  getBankAccountsByUserId,
+  createGroup,
+  addGroupMember,
+  updateGroupMemberById,
+  getGroupMemberById,
+  getGroupById,
+  getGroupsForUser,
+  getGroupMemberForUser,
+  getGroupMemberError,
+  getGroupPaymentError,
+  isLastGroupAdmin,
+  createGroupPayment,
+  getTransactionsForGroupForApi,
+  getLedgerBalanceForGroup,
+  getNotificationsByObj,
+  checkLedgerConsistency,
+} from "../../backend/database";
+import { User, CurrencyCode, GroupRole, GroupPaymentType, TransactionStatus } from "../models";
+import { isRefundableTransaction } from "../utils/transactionUtils";
+import { canMakeGroupPayment } from "../utils/groupUtils";
+
+describe("Groups", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  const contribute = (member: User, groupId: string, amount: number) =>
+    createGroupPayment(member.id, getGroupById(groupId), {
+      paymentType: GroupPaymentType.contribution,
+      amount,
+      description: "Trip fund",
+      source: getBankAccountsByUserId(member.id)[0].id,
+    });
+
+  it("should make the creator the admin of a group in their currency", () => {
+    const [creator, user]: User[] = getAllUsers();
+    const group = createGroup(creator.id, { name: "Roommates" });
+
+    expect(group).toMatchObject({ name: "Roommates", currency: CurrencyCode.USD, balance: 0 });
+    expect(getGroupMemberForUser(group.id, creator.id)!.role).toBe(GroupRole.admin);
+    expect(getGroupsForUser(creator.id)[0].members).toHaveLength(1);
+    expect(getGroupsForUser(user.id)).toHaveLength(0);
+
+    expect(getGroupMemberError(group, creator.id)).toBe("User is already a member of the group");
+    updateUserById(user.id, { currency: CurrencyCode.EUR });
+    expect(getGroupMemberError(group, user.id)).toBe("Members of the group must use USD");
+  });
+
+  it("should move member contributions into the group balance and notify the other members", () => {
+    const [admin, contributor, spender]: User[] = getAllUsers();
+    const group = createGroup(admin.id, { name: "Trip" });
+    addGroupMember(group.id, { userId: contributor.id, role: GroupRole.contributor });
+    addGroupMember(group.id, { userId: spender.id, role: GroupRole.spender });
+    const contributorBalance = getUserById(contributor.id).balance;
+
+    const transaction = contribute(contributor, group.id, 40);
+
+    expect(transaction).toMatchObject({
+      senderId: contributor.id,
+      receiverId: group.id,
+      groupId: group.id,
+      status: TransactionStatus.complete,
+    });
+    expect(getGroupById(group.id).balance).toBe(4000);
+    expect(getLedgerBalanceForGroup(group.id)).toBe(4000);
+    expect(getUserById(contributor.id).balance).toBe(contributorBalance - 4000);
+    expect(getTransactionsForGroupForApi(group.id)[0]).toMatchObject({
+      id: transaction.id,
+      receiverName: "Trip",
+    });
+
+    const notifiedUserIds = map("userId", getNotificationsByObj({ transactionId: transaction.id }));
+    expect(notifiedUserIds.sort()).toEqual([admin.id, spender.id].sort());
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should reconcile group balances with the ledger", () => {
+    const [admin]: User[] = getAllUsers();
+    const group = createGroup(admin.id, { name: "Trip" });
+    contribute(admin, group.id, 40);
+
+    // groups are read from the database as they are stored, so drift the balance itself
+    getGroupById(group.id).balance += 100;
+
+    const report = checkLedgerConsistency();
+    expect(report.isConsistent).toBe(false);
+    expect(report.balanceMismatches).toEqual([
+      { groupId: group.id, balance: 4100, ledgerBalance: 4000 },
+    ]);
+  });
+
+  it("should let only admins and spenders pay out, up to the group balance", () => {
+    const [admin, contributor, receiver]: User[] = getAllUsers();
+    const group = createGroup(admin.id, { name: "Trip" });
+    const contributorMember = addGroupMember(group.id, {
+      userId: contributor.id,
+      role: GroupRole.contributor,
+    });
+    contribute(contributor, group.id, 40);
+
+    expect(canMakeGroupPayment(GroupPaymentType.payout, contributorMember)).toBe(false);
+    expect(canMakeGroupPayment(GroupPaymentType.contribution, contributorMember)).toBe(true);
+
+    const payout = {
+      paymentType: GroupPaymentType.payout,
+      amount: 50,
+      description: "Hotel",
+      receiverId: receiver.id,
+    };
+    expect(getGroupPaymentError(getGroupById(group.id), payout)).toMatchObject({
+      param: "amount",
+      msg: "The group balance is too low",
+    });
+
+    const receiverBalance = getUserById(receiver.id).balance;
+    const transaction = createGroupPayment(admin.id, getGroupById(group.id), {
+      ...payout,
+      amount: 25,
+    });
+
+    expect(transaction).toMatchObject({ senderId: group.id, receiverId: receiver.id });
+    expect(getGroupById(group.id).balance).toBe(1500);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance + 2500);
+    expect(isRefundableTransaction(transaction)).toBe(false);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should keep the last admin of a group", () => {
+    const [admin, user]: User[] = getAllUsers();
+    const group = createGroup(admin.id, { name: "Trip" });
+    const member = addGroupMember(group.id, { userId: user.id, role: GroupRole.admin });
+
+    expect(isLastGroupAdmin(getGroupMemberForUser(group.id, admin.id)!)).toBe(false);
+
+    updateGroupMemberById(member.id, { role: GroupRole.spender });
+    expect(isLastGroupAdmin(getGroupMemberForUser(group.id, admin.id)!)).toBe(true);
+    expect(isLastGroupAdmin(getGroupMemberById(member.id))).toBe(false);
+  });
+});
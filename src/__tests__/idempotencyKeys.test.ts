@@ -0,0 +1,58 @@
+import {
+  seedDatabase,
+  getAllUsers,
+  createIdempotencyKey,
+  getIdempotencyKeyForUser,
+  saveIdempotencyKeyResponse,
+  removeExpiredIdempotencyKeys,
+} from "../../backend/database";
+import { setClock, resetClock } from "../../backend/clock";
+import { User } from "../models";
+
+describe("Idempotency Keys", () => {
+  beforeEach(() => {
+    seedDatabase();
+    setClock("2030-01-01T12:00:00.000Z");
+  });
+
+  afterEach(() => {
+    resetClock();
+  });
+
+  const keyDetails = (user: User, key: string) => ({
+    key,
+    userId: user.id,
+    method: "POST",
+    path: "/transactions",
+    requestHash: "hash",
+  });
+
+  it("should store the response for a key, scoped to the user", () => {
+    const [user, otherUser]: User[] = getAllUsers();
+    const idempotencyKey = createIdempotencyKey(keyDetails(user, "key-1"));
+
+    expect(getIdempotencyKeyForUser(user.id, "key-1")!.responseStatus).toBeUndefined();
+
+    saveIdempotencyKeyResponse(idempotencyKey.id, 200, { transaction: { id: "abc" } });
+
+    expect(getIdempotencyKeyForUser(user.id, "key-1")).toMatchObject({
+      responseStatus: 200,
+      responseBody: { transaction: { id: "abc" } },
+      expiresAt: new Date("2030-01-02T12:00:00.000Z"),
+    });
+    expect(getIdempotencyKeyForUser(otherUser.id, "key-1")).toBeUndefined();
+  });
+
+  it("should expire keys after the set period", () => {
+    const [user]: User[] = getAllUsers();
+    createIdempotencyKey(keyDetails(user, "key-1"));
+    setClock("2030-01-01T18:00:00.000Z");
+    createIdempotencyKey(keyDetails(user, "key-2"));
+
+    setClock("2030-01-02T12:00:00.000Z");
+
+    expect(getIdempotencyKeyForUser(user.id, "key-1")).toBeUndefined();
+    expect(getIdempotencyKeyForUser(user.id, "key-2")).toBeDefined();
+    expect(removeExpiredIdempotencyKeys().map((expired) => expired.key)).toEqual(["key-1"]);
+  });
+});
@@ -0,0 +1,81 @@
+import { startOfDay, endOfDay, format as formatDate } from "date-fns";
+import {
+  seedDatabase,
+  getAllUsers,
+  getBankAccountsByUserId,
+  createTransaction,
+  createPaymentForRequest,
+  getInsightsForUser,
+} from "../../backend/database";
+import { User, TransactionPayload, DefaultPrivacyLevel, TransactionStatus } from "../models";
+
+describe("Insights", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  // seeded transactions are all in the past, so this only covers the ones made in the test
+  const today = {
+    dateRangeStart: startOfDay(new Date()).toISOString(),
+    dateRangeEnd: endOfDay(new Date()).toISOString(),
+  };
+  const currentMonth = formatDate(new Date(), "yyyy-MM");
+
+  const transactionDetails = (
+    sender: User,
+    receiver: User,
+    amount: number
+  ): TransactionPayload => ({
+    source: getBankAccountsByUserId(sender.id)[0].id,
+    senderId: sender.id,
+    receiverId: receiver.id,
+    description: `Transaction: ${sender.id} to ${receiver.id}`,
+    amount,
+    privacyLevel: DefaultPrivacyLevel.public,
+    status: TransactionStatus.pending,
+  });
+
+  it("should total what the user sent and received in the date range", () => {
+    const [user, friend, neighbour]: User[] = getAllUsers();
+
+    createTransaction(user.id, "payment", transactionDetails(user, friend, 30));
+    createTransaction(user.id, "payment", transactionDetails(user, friend, 20));
+    createTransaction(friend.id, "payment", transactionDetails(friend, user, 5));
+    createTransaction(neighbour.id, "payment", transactionDetails(neighbour, user, 10));
+
+    const insights = getInsightsForUser(user.id, today);
+
+    expect(insights.monthly).toEqual([{ month: currentMonth, sent: 5000, received: 1500 }]);
+    expect(insights.topCounterparties).toMatchObject([
+      { userId: friend.id, transactionCount: 3, amount: 5500 },
+      { userId: neighbour.id, transactionCount: 1, amount: 1000 },
+    ]);
+    expect(insights.averageAmount).toBe(1625);
+    expect(insights.payments).toEqual({ count: 4, amount: 6500 });
+    expect(insights.requests).toEqual({ count: 0, amount: 0 });
+  });
+
+  it("should count a request paid in parts once, through its payments", () => {
+    const [user, friend]: User[] = getAllUsers();
+    const request = createTransaction(user.id, "request", transactionDetails(user, friend, 40));
+
+    expect(getInsightsForUser(user.id, today).requests.count).toBe(0);
+
+    createPaymentForRequest(request, { amount: 10 });
+    createPaymentForRequest(request, { amount: 30 });
+
+    const insights = getInsightsForUser(user.id, today);
+    expect(insights.monthly).toEqual([{ month: currentMonth, sent: 0, received: 4000 }]);
+    expect(insights.requests).toEqual({ count: 2, amount: 4000 });
+    expect(insights.payments).toEqual({ count: 0, amount: 0 });
+  });
+
+  it("should cover all of the user's transactions without a date range", () => {
+    const [user]: User[] = getAllUsers();
+
+    const insights = getInsightsForUser(user.id);
+
+    expect(insights.monthly.length).toBeGreaterThan(1);
+    expect(insights.topCounterparties.length).toBeLessThanOrEqual(5);
+  });
+});
@@ -0,0 +1,126 @@
+import { map, uniq } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  createTransaction,
+  createUser,
+  updateUserById,
+  adjustPayAppBalance,
+  updateTransactionById,
+  getLedgerEntriesByTransactionId,
+  getLedgerEntriesForUser,
+  getLedgerBalanceForUser,
+  checkLedgerConsistency,
+  getDefaultBankAccountForUser,
+} from "../../backend/database";
+import { User, TransactionRequestStatus, LedgerEntryType, LedgerAccountType } from "../models";
+import { isBalancedJournal } from "../utils/ledgerUtils";
+import { buildPaymentDetails } from "../../scripts/testDataUtils";
+
+describe("Ledger", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  it("should derive seeded user balances from the ledger", () => {
+    const user: User = getAllUsers()[0];
+
+    expect(getLedgerBalanceForUser(user.id)).toBe(user.balance);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should record balanced entries for a payment", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const senderBalance = sender.balance;
+    const receiverBalance = receiver.balance;
+
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 10)
+    );
+    const entries = getLedgerEntriesByTransactionId(payment.id);
+
+    expect(entries.length).toBe(2);
+    expect(isBalancedJournal(entries)).toBe(true);
+    expect(uniq(map("journalId", entries)).length).toBe(1);
+    expect(map("entryType", entries)).toEqual([LedgerEntryType.debit, LedgerEntryType.credit]);
+
+    expect(getUserById(sender.id).balance).toBe(senderBalance - 1000);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance + 1000);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should record balanced entries when a request is accepted", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const senderBalance = sender.balance;
+    const receiverBalance = receiver.balance;
+
+    const request = createTransaction(
+      sender.id,
+      "request",
+      buildPaymentDetails(sender, receiver, 10)
+    );
+    expect(getLedgerEntriesByTransactionId(request.id).length).toBe(0);
+
+    updateTransactionById(request.id, { requestStatus: TransactionRequestStatus.accepted });
+
+    expect(isBalancedJournal(getLedgerEntriesByTransactionId(request.id))).toBe(true);
+    expect(getUserById(sender.id).balance).toBe(senderBalance + 1000);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance - 1000);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should top up an accepted request from the payer's own bank account", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const payerBankAccount = getDefaultBankAccountForUser(receiver.id)!;
+
+    const request = createTransaction(
+      sender.id,
+      "request",
+      buildPaymentDetails(sender, receiver, receiver.balance / 100 + 10)
+    );
+    updateTransactionById(request.id, { requestStatus: TransactionRequestStatus.accepted });
+
+    const topUpEntries = getLedgerEntriesByTransactionId(request.id).filter(
+      (entry) => entry.accountType === LedgerAccountType.bankAccount
+    );
+    expect(topUpEntries).toHaveLength(1);
+    expect(topUpEntries[0].accountId).toBe(payerBankAccount.id);
+    expect(getUserById(receiver.id).balance).toBe(0);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should only change balances through ledger movements", () => {
+    const user = createUser({
+      firstName: "Ledger",
+      lastName: "User",
+      username: "ledger_user",
+      password: "s3cret",
+      balance: 5000,
+    });
+
+    expect(user.balance).toBe(0);
+
+    updateUserById(user.id, { balance: 2500 });
+    expect(getUserById(user.id).balance).toBe(0);
+
+    adjustPayAppBalance(user.id, 2500);
+    expect(getUserById(user.id).balance).toBe(2500);
+    expect(getLedgerBalanceForUser(user.id)).toBe(2500);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should report balances that do not match the ledger", () => {
+    const user: User = getAllUsers()[0];
+    // users are read as decrypted copies, so drift the ledger side instead
+    const [entry] = getLedgerEntriesForUser(user.id);
+    entry.amount = entry.amount + 1;
+
+    const report = checkLedgerConsistency();
+
+    expect(report.isConsistent).toBe(false);
+    expect(report.balanceMismatches[0].userId).toBe(user.id);
+  });
+});
@@ -0,0 +1,81 @@
+import { addDays, subDays } from "date-fns";
+import {
+  seedDatabase,
+  getAllUsers,
+  createPaymentLinkForUser,
+  getPaymentLinkForApi,
+} from "../../backend/database";
+import { signPaymentLink, verifyPaymentLink } from "../../backend/paymentlinks";
+import { User, CurrencyCode } from "../models";
+import { isExpiredPaymentLink, getPaymentLinkUrl } from "../utils/paymentLinkUtils";
+
+describe("Payment Links", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  afterEach(() => {
+    delete process.env.PAYMENT_LINK_SECRET;
+  });
+
+  it("should sign a link with its preset amount and note", () => {
+    const [user]: User[] = getAllUsers();
+
+    const paymentLink = createPaymentLinkForUser(user.id, {
+      amount: 12.5,
+      description: "Concert tickets",
+    });
+
+    expect(paymentLink).toMatchObject({
+      receiver: { id: user.id, username: user.username, firstName: user.firstName },
+      currency: CurrencyCode.USD,
+      amount: 1250,
+      description: "Concert tickets",
+    });
+    expect(paymentLink.receiver).not.toHaveProperty("balance");
+    expect(getPaymentLinkForApi(paymentLink.token)).toEqual(paymentLink);
+    expect(getPaymentLinkUrl("http://localhost:3000", paymentLink.token)).toBe(
+      `http://localhost:3000/transaction/new?paymentLink=${encodeURIComponent(paymentLink.token)}`
+    );
+  });
+
+  it("should not find links that were changed or signed with another secret", () => {
+    const [user, otherUser]: User[] = getAllUsers();
+    const token = signPaymentLink({ userId: user.id, amount: 1000 });
+    const [, signature] = token.split(".");
+
+    const [tamperedLink] = signPaymentLink({ userId: otherUser.id, amount: 1000 }).split(".");
+    expect(verifyPaymentLink(`${tamperedLink}.${signature}`)).toBeUndefined();
+    expect(verifyPaymentLink("not-a-token")).toBeUndefined();
+
+    process.env.PAYMENT_LINK_SECRET = "another secret";
+    expect(getPaymentLinkForApi(token)).toBeUndefined();
+  });
+
+  it("should only fall back to the development secret in development and tests", () => {
+    const [user]: User[] = getAllUsers();
+
+    Object.assign(process.env, { NODE_ENV: "staging" });
+    try {
+      expect(() => signPaymentLink({ userId: user.id, amount: 1000 })).toThrow(
+        "PAYMENT_LINK_SECRET must be set"
+      );
+    } finally {
+      Object.assign(process.env, { NODE_ENV: "test" });
+    }
+  });
+
+  it("should expire links after their expiry date", () => {
+    const [user]: User[] = getAllUsers();
+    const today = new Date();
+
+    const paymentLink = createPaymentLinkForUser(user.id, {
+      expiresAt: addDays(today, 1).toISOString(),
+    });
+
+    expect(isExpiredPaymentLink(paymentLink, today)).toBe(false);
+    expect(isExpiredPaymentLink(paymentLink, addDays(today, 2))).toBe(true);
+    expect(isExpiredPaymentLink({}, addDays(today, 2))).toBe(false);
+    expect(isExpiredPaymentLink({ expiresAt: subDays(today, 1).toISOString() }, today)).toBe(true);
+  });
+});
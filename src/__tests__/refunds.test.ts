@@ -0,0 +1,95 @@
+import { map } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  createTransaction,
+  createRefundForTransaction,
+  getRefundableAmount,
+  getTransactionByIdForApi,
+  getNotificationsByObj,
+  updateUserById,
+  updateTransactionById,
+  checkLedgerConsistency,
+} from "../../backend/database";
+import {
+  User,
+  CurrencyCode,
+  TransactionStatus,
+  TransactionRequestStatus,
+  PaymentNotificationStatus,
+} from "../models";
+import { buildPaymentDetails } from "../../scripts/testDataUtils";
+
+describe("Refunds", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  it("should return part of a payment to its sender and link the refund", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 30)
+    );
+    const senderBalance = getUserById(sender.id).balance;
+    const receiverBalance = getUserById(receiver.id).balance;
+
+    const refund = createRefundForTransaction(payment, { amount: 10 });
+
+    expect(refund).toMatchObject({
+      senderId: receiver.id,
+      receiverId: sender.id,
+      amount: 1000,
+      refundOf: payment.id,
+      status: TransactionStatus.complete,
+    });
+    expect(getUserById(sender.id).balance).toBe(senderBalance + 1000);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance - 1000);
+    expect(getRefundableAmount(payment)).toBe(2000);
+    expect(map("id", getTransactionByIdForApi(payment.id).refunds)).toEqual([refund.id]);
+    expect(getNotificationsByObj({ userId: sender.id, transactionId: refund.id })[0]).toMatchObject(
+      { status: PaymentNotificationStatus.refunded }
+    );
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should refund an accepted request to the user who paid it", () => {
+    const [requester, payer]: User[] = getAllUsers();
+    const request = createTransaction(
+      requester.id,
+      "request",
+      buildPaymentDetails(requester, payer, 20)
+    );
+    updateTransactionById(request.id, { requestStatus: TransactionRequestStatus.accepted });
+    const payerBalance = getUserById(payer.id).balance;
+
+    const refund = createRefundForTransaction(getTransactionByIdForApi(request.id), {
+      amount: 20,
+    });
+
+    expect(refund).toMatchObject({ senderId: requester.id, receiverId: payer.id });
+    expect(getUserById(payer.id).balance).toBe(payerBalance + 2000);
+    expect(getRefundableAmount(request)).toBe(0);
+  });
+
+  it("should convert a refund back at the rate of the original payment", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    updateUserById(receiver.id, { currency: CurrencyCode.EUR });
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 10)
+    );
+    const senderBalance = getUserById(sender.id).balance;
+
+    const refund = createRefundForTransaction(payment, { amount: 9.2 });
+
+    expect(refund.currency).toBe(CurrencyCode.EUR);
+    expect(refund.receiverAmount).toBe(1000);
+    expect(getUserById(sender.id).balance).toBe(senderBalance + 1000);
+    expect(getRefundableAmount(payment)).toBe(0);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { map, filter, sumBy } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  getBankAccountsByUserId,
+  createTransaction,
+  createPaymentForRequest,
+  getPaymentsForRequest,
+  getRequestPaidAmount,
+  getRequestPayableAmount,
+  getTransactionById,
+  getTransactionByIdForApi,
+  getNotificationsByUserId,
+  updateTransactionById,
+  checkLedgerConsistency,
+} from "../../backend/database";
+import {
+  User,
+  TransactionPayload,
+  DefaultPrivacyLevel,
+  TransactionStatus,
+  TransactionRequestStatus,
+} from "../models";
+
+describe("Request Payments", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  const requestDetails = (requester: User, payer: User, amount: number): TransactionPayload => ({
+    source: getBankAccountsByUserId(requester.id)[0].id,
+    senderId: requester.id,
+    receiverId: payer.id,
+    description: `Request: ${requester.id} to ${payer.id}`,
+    amount,
+    privacyLevel: DefaultPrivacyLevel.public,
+    status: TransactionStatus.pending,
+  });
+
+  it("should keep a request open until it is paid in full", () => {
+    const [requester, payer]: User[] = getAllUsers();
+    const requesterBalance = requester.balance;
+    const payerBalance = payer.balance;
+    const request = createTransaction(
+      requester.id,
+      "request",
+      requestDetails(requester, payer, 30)
+    );
+
+    const payment = createPaymentForRequest(request, { amount: 10 });
+
+    expect(payment).toMatchObject({
+      senderId: payer.id,
+      receiverId: requester.id,
+      amount: 1000,
+      requestId: request.id,
+      status: TransactionStatus.complete,
+    });
+    expect(getTransactionById(request.id).requestStatus).toBe(TransactionRequestStatus.pending);
+    expect(getRequestPaidAmount(request)).toBe(1000);
+    expect(getRequestPayableAmount(request)).toBe(2000);
+    expect(getTransactionByIdForApi(request.id)).toMatchObject({
+      paidAmount: 1000,
+      payableAmount: 2000,
+    });
+    expect(getUserById(requester.id).balance).toBe(requesterBalance + 1000);
+    expect(getUserById(payer.id).balance).toBe(payerBalance - 1000);
+
+    createPaymentForRequest(request, { amount: 20 });
+
+    const settledRequest = getTransactionById(request.id);
+    expect(settledRequest.requestStatus).toBe(TransactionRequestStatus.accepted);
+    expect(settledRequest.status).toBe(TransactionStatus.complete);
+    expect(getRequestPaidAmount(settledRequest)).toBe(3000);
+
+    const requesterNotifications = filter(
+      (notification: any) => notification.transactionId !== request.id,
+      getNotificationsByUserId(requester.id)
+    );
+    expect(map("status", requesterNotifications).slice(-2)).toEqual(["partiallyPaid", "received"]);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should pay only what is left when a partly paid request is accepted", () => {
+    const [requester, payer]: User[] = getAllUsers();
+    const payerBalance = payer.balance;
+    const request = createTransaction(
+      requester.id,
+      "request",
+      requestDetails(requester, payer, 30)
+    );
+    createPaymentForRequest(request, { amount: 12.5 });
+
+    updateTransactionById(request.id, { requestStatus: TransactionRequestStatus.accepted });
+
+    const payments = getPaymentsForRequest(request.id);
+    expect(map("amount", payments)).toEqual([1250, 1750]);
+    expect(sumBy("amount", payments)).toBe(3000);
+    expect(getUserById(payer.id).balance).toBe(payerBalance - 3000);
+    expect(getTransactionById(request.id).requestStatus).toBe(TransactionRequestStatus.accepted);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+
+  it("should move the money once when a request is accepted, and none when it is rejected", () => {
+    const [requester, payer]: User[] = getAllUsers();
+    const payerBalance = payer.balance;
+    const accepted = createTransaction(
+      requester.id,
+      "request",
+      requestDetails(requester, payer, 10)
+    );
+    const rejected = createTransaction(
+      requester.id,
+      "request",
+      requestDetails(requester, payer, 20)
+    );
+
+    updateTransactionById(accepted.id, { requestStatus: TransactionRequestStatus.accepted });
+    expect(getUserById(payer.id).balance).toBe(payerBalance - 1000);
+    expect(getRequestPayableAmount(getTransactionById(accepted.id))).toBe(0);
+
+    updateTransactionById(rejected.id, { requestStatus: TransactionRequestStatus.rejected });
+    expect(getTransactionById(rejected.id).status).toBe(TransactionStatus.incomplete);
+    expect(getRequestPayableAmount(getTransactionById(rejected.id))).toBe(0);
+    expect(getUserById(payer.id).balance).toBe(payerBalance - 1000);
+    expect(checkLedgerConsistency().isConsistent).toBe(true);
+  });
+});
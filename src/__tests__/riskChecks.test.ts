@@ -0,0 +1,151 @@
+import { find } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  createTransaction,
+  getTransactionById,
+  getTransactionsByObj,
+  getNotificationsByObj,
+  getRiskEvaluationForTransaction,
+  getRiskEvaluationsAwaitingReview,
+  reviewHeldTransaction,
+  createRefundForTransaction,
+  setRiskRules,
+  resetRiskRules,
+} from "../../backend/database";
+import { User, TransactionStatus, RiskOutcome } from "../models";
+import { buildPaymentDetails } from "../../scripts/testDataUtils";
+
+describe("Risk Checks", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  afterEach(() => {
+    resetRiskRules();
+  });
+
+  // a receiver the sender has never paid before
+  const getNewPayee = (sender: User) =>
+    find(
+      (user: User) =>
+        user.id !== sender.id &&
+        getTransactionsByObj({ senderId: sender.id, receiverId: user.id }).length === 0,
+      getAllUsers()
+    )!;
+
+  it("should complete payments that pass the checks and store the evaluation", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 30)
+    );
+
+    expect(getTransactionById(payment.id).status).toBe(TransactionStatus.complete);
+    expect(getTransactionById(payment.id).riskOutcome).toBeUndefined();
+    expect(getRiskEvaluationForTransaction(payment.id)).toMatchObject({
+      userId: sender.id,
+      score: 0,
+      outcome: RiskOutcome.allow,
+      results: [],
+    });
+  });
+
+  it("should hold a large first payment to a new payee until it is released", () => {
+    const [sender]: User[] = getAllUsers();
+    const receiver = getNewPayee(sender);
+    const receiverBalance = getUserById(receiver.id).balance;
+
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 1500)
+    );
+
+    expect(getTransactionById(payment.id)).toMatchObject({
+      status: TransactionStatus.pending,
+      riskOutcome: RiskOutcome.hold,
+    });
+    expect(getRiskEvaluationForTransaction(payment.id).results).toEqual([
+      expect.objectContaining({ rule: "newPayee", score: 50 }),
+    ]);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance);
+    expect(getNotificationsByObj({ transactionId: payment.id })).toHaveLength(0);
+    expect(getRiskEvaluationsAwaitingReview()).toEqual([
+      expect.objectContaining({ transactionId: payment.id }),
+    ]);
+
+    const releasedPayment = reviewHeldTransaction(payment.id, RiskOutcome.allow);
+
+    expect(releasedPayment).toMatchObject({
+      status: TransactionStatus.complete,
+      riskOutcome: RiskOutcome.allow,
+    });
+    expect(getRiskEvaluationForTransaction(payment.id).reviewOutcome).toBe(RiskOutcome.allow);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance + 150000);
+    expect(getNotificationsByObj({ transactionId: payment.id })).toHaveLength(1);
+    expect(getRiskEvaluationsAwaitingReview()).toHaveLength(0);
+  });
+
+  it("should leave a rejected payment incomplete", () => {
+    const [sender]: User[] = getAllUsers();
+    const receiver = getNewPayee(sender);
+    const senderBalance = getUserById(sender.id).balance;
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 1500)
+    );
+
+    const rejectedPayment = reviewHeldTransaction(payment.id, RiskOutcome.block);
+
+    expect(rejectedPayment).toMatchObject({
+      status: TransactionStatus.incomplete,
+      riskOutcome: RiskOutcome.block,
+    });
+    expect(getUserById(sender.id).balance).toBe(senderBalance);
+  });
+
+  it("should block payments when the rule scores add up", () => {
+    setRiskRules([
+      { name: "always", evaluate: () => ({ score: 60, reason: "Always matches" }) },
+      { name: "again", evaluate: () => ({ score: 40, reason: "Also matches" }) },
+    ]);
+    const [sender, receiver]: User[] = getAllUsers();
+    const senderBalance = getUserById(sender.id).balance;
+
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 30)
+    );
+
+    expect(getTransactionById(payment.id)).toMatchObject({
+      status: TransactionStatus.incomplete,
+      riskOutcome: RiskOutcome.block,
+    });
+    expect(getRiskEvaluationForTransaction(payment.id)).toMatchObject({
+      score: 100,
+      outcome: RiskOutcome.block,
+    });
+    expect(getUserById(sender.id).balance).toBe(senderBalance);
+  });
+
+  it("should not check refunds", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 30)
+    );
+    setRiskRules([{ name: "always", evaluate: () => ({ score: 100, reason: "Always matches" }) }]);
+
+    const refund = createRefundForTransaction(payment, { amount: 10 });
+
+    expect(getTransactionById(refund.id).status).toBe(TransactionStatus.complete);
+    expect(getRiskEvaluationForTransaction(refund.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,208 @@
+import { map } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  getBankAccountsByUserId,
+  getTransactionsByObj,
+  getTransactionByIdForApi,
+  getNotificationsByUserId,
+  createScheduleForUser,
+  updateScheduleById,
+  runDueSchedules,
+  adjustPayAppBalance,
+  updateUserById,
+  setRiskRules,
+  resetRiskRules,
+} from "../../backend/database";
+import { setClock, resetClock } from "../../backend/clock";
+import {
+  User,
+  ScheduleFrequency,
+  ScheduleStatus,
+  ScheduleRunStatus,
+  TransactionStatus,
+} from "../models";
+import { getScheduleOccurrence } from "../utils/scheduleUtils";
+
+describe("Schedules", () => {
+  beforeEach(() => {
+    seedDatabase();
+    setClock("2030-01-31T12:00:00.000Z");
+  });
+
+  afterEach(() => {
+    resetClock();
+    resetRiskRules();
+  });
+
+  it("should keep the day of month for monthly occurrences", () => {
+    const schedule = {
+      frequency: ScheduleFrequency.monthly,
+      interval: 1,
+      startDate: "2030-01-31T12:00:00.000Z",
+    };
+
+    expect(getScheduleOccurrence(schedule, 1)).toEqual(new Date("2030-02-28T12:00:00.000Z"));
+    expect(getScheduleOccurrence(schedule, 2)).toEqual(new Date("2030-03-31T12:00:00.000Z"));
+  });
+
+  it("should make the first payment when a schedule starts today", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const receiverBalance = receiver.balance;
+
+    const schedule = createScheduleForUser(sender.id, {
+      receiverId: receiver.id,
+      source: "",
+      amount: 10,
+      description: "Allowance",
+      frequency: ScheduleFrequency.weekly,
+      interval: 2,
+      startDate: "2030-01-31T12:00:00.000Z",
+    });
+
+    expect(schedule.runCount).toBe(1);
+    expect(schedule.lastRunStatus).toBe(ScheduleRunStatus.complete);
+    expect(new Date(schedule.nextRunAt)).toEqual(new Date("2030-02-14T12:00:00.000Z"));
+
+    const [payment] = getTransactionsByObj({ scheduleId: schedule.id });
+    expect(payment.amount).toBe(1000);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance + 1000);
+    expect(getTransactionByIdForApi(payment.id).schedule).toMatchObject({
+      id: schedule.id,
+      frequency: ScheduleFrequency.weekly,
+    });
+  });
+
+  it("should run due schedules and complete them after the end date", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+
+    const schedule = createScheduleForUser(sender.id, {
+      receiverId: receiver.id,
+      source: "",
+      amount: 10,
+      description: "Rent",
+      frequency: ScheduleFrequency.monthly,
+      interval: 1,
+      startDate: "2030-02-01T00:00:00.000Z",
+      endDate: "2030-03-15T00:00:00.000Z",
+    });
+    expect(schedule.runCount).toBe(0);
+    expect(runDueSchedules()).toHaveLength(0);
+
+    setClock("2030-02-01T00:00:00.000Z");
+    expect(map("id", runDueSchedules())).toEqual([schedule.id]);
+
+    setClock("2030-03-01T00:00:00.000Z");
+    const [completedSchedule] = runDueSchedules();
+    expect(completedSchedule.status).toBe(ScheduleStatus.completed);
+    expect(getTransactionsByObj({ scheduleId: schedule.id })).toHaveLength(2);
+
+    setClock("2030-04-01T00:00:00.000Z");
+    expect(runDueSchedules()).toHaveLength(0);
+  });
+
+  it("should notify the sender when a scheduled payment fails", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    adjustPayAppBalance(sender.id, 0);
+
+    const schedule = createScheduleForUser(sender.id, {
+      receiverId: receiver.id,
+      source: "",
+      amount: 10,
+      description: "Rent",
+      frequency: ScheduleFrequency.monthly,
+      interval: 1,
+      startDate: "2030-01-31T12:00:00.000Z",
+    });
+
+    expect(schedule.lastRunStatus).toBe(ScheduleRunStatus.failed);
+    expect(schedule.status).toBe(ScheduleStatus.active);
+    expect(getTransactionsByObj({ scheduleId: schedule.id })).toHaveLength(0);
+
+    const [notification] = getNotificationsByUserId(sender.id).filter(
+      (notification: any) => notification.scheduleId === schedule.id
+    );
+    expect(notification).toMatchObject({ reason: "Insufficient funds" });
+  });
+
+  it("should fail a run that the spending limits or risk checks stop", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const scheduleDetails = {
+      receiverId: receiver.id,
+      source: "",
+      amount: 10,
+      description: "Rent",
+      frequency: ScheduleFrequency.monthly,
+      interval: 1,
+      startDate: "2030-01-31T12:00:00.000Z",
+    };
+    const scheduleNotification = (scheduleId: string) =>
+      getNotificationsByUserId(sender.id).find(
+        (notification: any) => notification.scheduleId === scheduleId
+      );
+
+    updateUserById(sender.id, { spendingLimits: { dailyAmount: 500 } });
+    const limitedSchedule = createScheduleForUser(sender.id, scheduleDetails);
+
+    expect(limitedSchedule.lastRunStatus).toBe(ScheduleRunStatus.failed);
+    expect(getTransactionsByObj({ scheduleId: limitedSchedule.id })).toHaveLength(0);
+    expect(scheduleNotification(limitedSchedule.id)).toMatchObject({
+      reason: expect.stringMatching(/limit of \$5\.00 exceeded$/),
+    });
+
+    updateUserById(sender.id, { spendingLimits: {} });
+    setRiskRules([{ name: "always", evaluate: () => ({ score: 100, reason: "Always matches" }) }]);
+    const blockedSchedule = createScheduleForUser(sender.id, scheduleDetails);
+
+    expect(blockedSchedule.lastRunStatus).toBe(ScheduleRunStatus.failed);
+    expect(getTransactionsByObj({ scheduleId: blockedSchedule.id })[0].status).toBe(
+      TransactionStatus.incomplete
+    );
+    expect(scheduleNotification(blockedSchedule.id)).toMatchObject({
+      reason: "Payment was blocked by risk checks",
+    });
+  });
+
+  it("should top up a short balance from the schedule's bank account", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const receiverBalance = receiver.balance;
+    const bankAccount = getBankAccountsByUserId(sender.id)[0];
+    adjustPayAppBalance(sender.id, 0);
+
+    const schedule = createScheduleForUser(sender.id, {
+      receiverId: receiver.id,
+      source: bankAccount.id,
+      amount: 10,
+      description: "Rent",
+      frequency: ScheduleFrequency.monthly,
+      interval: 1,
+      startDate: "2030-01-31T12:00:00.000Z",
+    });
+
+    expect(schedule.lastRunStatus).toBe(ScheduleRunStatus.complete);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance + 1000);
+  });
+
+  it("should skip the payments missed while a schedule was paused", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+
+    const schedule = createScheduleForUser(sender.id, {
+      receiverId: receiver.id,
+      source: "",
+      amount: 10,
+      description: "Allowance",
+      frequency: ScheduleFrequency.weekly,
+      interval: 1,
+      startDate: "2030-01-31T12:00:00.000Z",
+    });
+    updateScheduleById(schedule.id, { status: ScheduleStatus.paused });
+
+    setClock("2030-02-20T00:00:00.000Z");
+    expect(runDueSchedules()).toHaveLength(0);
+
+    const resumedSchedule = updateScheduleById(schedule.id, { status: ScheduleStatus.active });
+    expect(new Date(resumedSchedule.nextRunAt)).toEqual(new Date("2030-02-21T12:00:00.000Z"));
+    expect(runDueSchedules()).toHaveLength(0);
+  });
+});
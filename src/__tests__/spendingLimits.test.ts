@@ -0,0 +1,87 @@
+import {
+  seedDatabase,
+  getAllUsers,
+  createTransaction,
+  createRefundForTransaction,
+  getSpendingLimitsForUser,
+  updateUserById,
+} from "../../backend/database";
+import { User } from "../models";
+import {
+  defaultSpendingLimits,
+  newAccountSpendingLimits,
+  getSpendingLimits,
+  getSpendingLimitError,
+} from "../utils/spendingLimitUtils";
+import { buildPaymentDetails } from "../../scripts/testDataUtils";
+
+describe("Spending Limits", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  it("should count outgoing payments and created transactions towards a user's limits", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      buildPaymentDetails(sender, receiver, 40)
+    );
+    createTransaction(sender.id, "request", buildPaymentDetails(sender, receiver, 15));
+    createRefundForTransaction(payment, { amount: 10 });
+
+    const limits = getSpendingLimitsForUser(sender.id);
+    expect(limits).toMatchObject({
+      dailyAmount: { limit: defaultSpendingLimits.dailyAmount, used: 4000 },
+      monthlyAmount: { limit: defaultSpendingLimits.monthlyAmount, used: 4000 },
+      hourlyCount: { limit: defaultSpendingLimits.hourlyCount, used: 2 },
+      isNewAccount: false,
+    });
+
+    // refunds give money back, so they do not count against the payee's limits
+    expect(getSpendingLimitsForUser(receiver.id)).toMatchObject({
+      dailyAmount: { used: 0 },
+      hourlyCount: { used: 1 },
+    });
+  });
+
+  it("should apply stricter limits to new accounts and only let overrides lower them", () => {
+    const [user]: User[] = getAllUsers();
+    const newUser = { ...user, createdAt: new Date() };
+
+    expect(getSpendingLimits(new Date(), newUser)).toEqual(newAccountSpendingLimits);
+    expect(
+      getSpendingLimits(new Date(), {
+        ...newUser,
+        spendingLimits: { dailyAmount: 1000, monthlyAmount: 99999999 },
+      })
+    ).toEqual({ ...newAccountSpendingLimits, dailyAmount: 1000 });
+  });
+
+  it("should return a structured error for the first limit a transaction would break", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    updateUserById(sender.id, { spendingLimits: { dailyAmount: 5000, hourlyCount: 2 } });
+    createTransaction(sender.id, "payment", buildPaymentDetails(sender, receiver, 30));
+
+    const limits = getSpendingLimitsForUser(sender.id);
+
+    expect(getSpendingLimitError(sender, limits, 2000)).toBeUndefined();
+    expect(getSpendingLimitError(sender, limits, 2500)).toEqual({
+      location: "body",
+      param: "amount",
+      msg: "Daily limit of $50.00 exceeded",
+      limitType: "dailyAmount",
+      limit: 5000,
+      used: 3000,
+    });
+
+    createTransaction(sender.id, "request", buildPaymentDetails(sender, receiver, 5));
+
+    expect(getSpendingLimitError(sender, getSpendingLimitsForUser(sender.id), 0)).toMatchObject({
+      limitType: "hourlyCount",
+      limit: 2,
+      used: 2,
+    });
+  });
+});
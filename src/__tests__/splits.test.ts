@@ -0,0 +1,92 @@
+import { map } from "lodash/fp";
+import {
+  seedDatabase,
+  getAllUsers,
+  createSplitForUser,
+  getRequestsForSplit,
+  getSplitSummaryById,
+  getTransactionByIdForApi,
+  updateTransactionById,
+} from "../../backend/database";
+import { User, SplitMethod, TransactionRequestStatus, CurrencyCode } from "../models";
+import { allocateAmount, getSplitShareError } from "../utils/splitUtils";
+
+describe("Splits", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  it("should allocate the cents left over by rounding to the first shares", () => {
+    expect(allocateAmount(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+    expect(allocateAmount(1000, [50, 25, 25])).toEqual([500, 250, 250]);
+  });
+
+  it("should validate percentage and custom shares against the total", () => {
+    const shares = [
+      { receiverId: "a", percentage: 60, amount: 6 },
+      { receiverId: "b", percentage: 30, amount: 3 },
+    ];
+
+    expect(getSplitShareError(1000, SplitMethod.percentage, shares, CurrencyCode.USD)).toBe(
+      "Percentages must add up to 100"
+    );
+    expect(getSplitShareError(1000, SplitMethod.custom, shares, CurrencyCode.USD)).toBe(
+      "Amounts must add up to the total"
+    );
+    expect(getSplitShareError(900, SplitMethod.custom, shares, CurrencyCode.USD)).toBeUndefined();
+    expect(getSplitShareError(1, SplitMethod.even, shares, CurrencyCode.USD)).toBe(
+      "Every share must be more than $0.00"
+    );
+    expect(getSplitShareError(1, SplitMethod.even, shares, CurrencyCode.EUR)).toBe(
+      "Every share must be more than €0.00"
+    );
+  });
+
+  it("should create one request per share", () => {
+    const [requester, ...others]: User[] = getAllUsers();
+
+    const split = createSplitForUser(requester.id, {
+      amount: 100,
+      description: "Dinner",
+      method: SplitMethod.even,
+      shares: others.slice(0, 3).map(({ id }) => ({ receiverId: id })),
+    });
+
+    const requests = getRequestsForSplit(split.id);
+    expect(map("amount", requests)).toEqual([3334, 3333, 3333]);
+    expect(map("receiverId", requests)).toEqual(map("id", others.slice(0, 3)));
+    expect(map("requestStatus", requests)).toEqual([
+      TransactionRequestStatus.pending,
+      TransactionRequestStatus.pending,
+      TransactionRequestStatus.pending,
+    ]);
+  });
+
+  it("should count pending and settled requests", () => {
+    const [requester, ...others]: User[] = getAllUsers();
+
+    const split = createSplitForUser(requester.id, {
+      amount: 30,
+      description: "Groceries",
+      method: SplitMethod.custom,
+      shares: [
+        { receiverId: others[0].id, amount: 20 },
+        { receiverId: others[1].id, amount: 10 },
+      ],
+    });
+    const [firstRequest] = getRequestsForSplit(split.id);
+
+    updateTransactionById(firstRequest.id, {
+      requestStatus: TransactionRequestStatus.accepted,
+    });
+
+    expect(getSplitSummaryById(split.id)).toMatchObject({
+      amount: 3000,
+      requestCount: 2,
+      pendingCount: 1,
+      settledCount: 1,
+      declinedCount: 0,
+    });
+    expect(getTransactionByIdForApi(firstRequest.id).split).toMatchObject({ id: split.id });
+  });
+});
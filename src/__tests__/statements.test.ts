@@ -0,0 +1,100 @@
+import { startOfDay, subDays } from "date-fns";
+import {
+  seedDatabase,
+  getAllUsers,
+  getUserById,
+  getBankAccountsByUserId,
+  createTransaction,
+  updateTransactionById,
+  getTransactionById,
+  getStatementForUser,
+  formatTransactionForApiResponse,
+} from "../../backend/database";
+import {
+  User,
+  TransactionPayload,
+  DefaultPrivacyLevel,
+  TransactionStatus,
+  TransactionRequestStatus,
+} from "../models";
+
+describe("Statements", () => {
+  beforeEach(() => {
+    seedDatabase();
+  });
+
+  const transactionDetails = (
+    sender: User,
+    receiver: User,
+    amount: number
+  ): TransactionPayload => ({
+    source: getBankAccountsByUserId(sender.id)[0].id,
+    senderId: sender.id,
+    receiverId: receiver.id,
+    description: `Transaction: ${sender.id} to ${receiver.id}`,
+    amount,
+    privacyLevel: DefaultPrivacyLevel.public,
+    status: TransactionStatus.pending,
+  });
+
+  it("should record the balance of each party when a transaction completes", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const senderBalance = sender.balance;
+    const receiverBalance = receiver.balance;
+
+    const payment = createTransaction(
+      sender.id,
+      "payment",
+      transactionDetails(sender, receiver, 20)
+    );
+
+    expect(getTransactionById(payment.id)).toMatchObject({
+      balanceAtCompletion: senderBalance - 2000,
+      receiverBalanceAtCompletion: receiverBalance + 2000,
+    });
+
+    const request = createTransaction(
+      sender.id,
+      "request",
+      transactionDetails(sender, receiver, 5)
+    );
+    expect(getTransactionById(request.id).balanceAtCompletion).toBeUndefined();
+
+    updateTransactionById(request.id, { requestStatus: TransactionRequestStatus.accepted });
+
+    expect(getTransactionById(request.id)).toMatchObject({
+      balanceAtCompletion: senderBalance - 1500,
+      receiverBalanceAtCompletion: receiverBalance + 1500,
+    });
+
+    const responseItem = formatTransactionForApiResponse(getTransactionById(request.id));
+    expect(responseItem).not.toHaveProperty("balanceAtCompletion");
+    expect(responseItem).not.toHaveProperty("receiverBalanceAtCompletion");
+  });
+
+  it("should list each movement in the period with its running balance", () => {
+    const [sender, receiver]: User[] = getAllUsers();
+    const openingBalance = sender.balance;
+
+    createTransaction(sender.id, "payment", transactionDetails(sender, receiver, 20));
+    createTransaction(receiver.id, "payment", transactionDetails(receiver, sender, 7.5));
+
+    const statement = getStatementForUser(sender.id, startOfDay(new Date()), new Date());
+
+    expect(statement.openingBalance).toBe(openingBalance);
+    expect(statement.lines.map(({ amount, balance }) => ({ amount, balance }))).toEqual([
+      { amount: -2000, balance: openingBalance - 2000 },
+      { amount: 750, balance: openingBalance - 1250 },
+    ]);
+    expect(statement.lines[0].description).toBe(`Transaction: ${sender.id} to ${receiver.id}`);
+    expect(statement.closingBalance).toBe(getUserById(sender.id).balance);
+
+    const earlierStatement = getStatementForUser(
+      sender.id,
+      subDays(startOfDay(new Date()), 7),
+      subDays(new Date(), 1)
+    );
+    expect(earlierStatement.lines).toEqual([]);
+    expect(earlierStatement.closingBalance).toBe(openingBalance);
+  });
+});
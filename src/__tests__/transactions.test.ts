@@ -1,4 +1,4 @@
-import { map } from "lodash/fp";
+import { map, filter } from "lodash/fp";
 import {
   seedDatabase,
   getTransactionsForUserByObj,
@@ -14,7 +14,10 @@ import {
   getPublicTransactionsDefaultSort,
   getUserById,
   getBankTransferByTransactionId,
+  expireOverdueRequests,
+  getNotificationsByUserId,
 } from "../../backend/database";
+import { setClock, resetClock } from "../../backend/clock";
 
 import {
   User,
@@ -33,6 +36,10 @@ describe("Transactions", () => {
     seedDatabase();
   });
 
+  afterEach(() => {
+    resetClock();
+  });
+
   it("should retrieve a list of all transactions", () => {
     expect(getAllTransactions().length).toBe(totalTransactions);
   });
@@ -320,4 +327,81 @@ describe("Transactions", () => {
     const updatedSender: User = getAllUsers()[0];
     expect(updatedSender.balance).toBe(sender.balance - requestAmount);
   });
+
+  it("should expire a request that is still pending after its expiry date", () => {
+    setClock("2030-01-01T00:00:00.000Z");
+    const sender: User = getAllUsers()[0];
+    const receiver: User = getAllUsers()[1];
+    const senderBankAccount = getBankAccountsByUserId(sender.id)[0];
+
+    const requestDetails: TransactionPayload = {
+      source: senderBankAccount.id!,
+      senderId: sender.id,
+      receiverId: receiver.id,
+      description: `Request: ${sender.id} to ${receiver.id}`,
+      amount: getFakeAmount(),
+      privacyLevel: DefaultPrivacyLevel.public,
+      status: TransactionStatus.pending,
+    };
+
+    const transaction = createTransaction(sender.id, "request", requestDetails);
+    expect(new Date(transaction.requestExpiresAt!)).toEqual(new Date("2030-01-08T00:00:00.000Z"));
+
+    setClock("2030-01-07T23:59:59.000Z");
+    expect(expireOverdueRequests()).toHaveLength(0);
+
+    setClock("2030-01-08T00:00:00.000Z");
+    const expired = expireOverdueRequests();
+    expect(map("id", expired)).toEqual([transaction.id]);
+
+    const expiredTransaction = getTransactionById(transaction.id);
+    expect(expiredTransaction.status).toEqual(TransactionStatus.incomplete);
+    expect(expiredTransaction.requestStatus).toEqual(TransactionRequestStatus.pending);
+
+    const receiverNotifications = getNotificationsByUserId(receiver.id);
+    expect(map("status", filter({ transactionId: transaction.id }, receiverNotifications))).toEqual(
+      ["requested", "incomplete"]
+    );
+
+    // already expired requests are not swept again
+    expect(expireOverdueRequests()).toHaveLength(0);
+  });
+
+  it("should cancel a pending request without moving money and hide it from public feeds", () => {
+    const sender: User = getAllUsers()[0];
+    const receiver: User = getAllUsers()[1];
+    const senderBalance = sender.balance;
+    const receiverBalance = receiver.balance;
+
+    const requestDetails: TransactionPayload = {
+      source: getBankAccountsByUserId(sender.id)[0].id!,
+      senderId: sender.id,
+      receiverId: receiver.id,
+      description: `Request: ${sender.id} to ${receiver.id}`,
+      amount: getFakeAmount(),
+      privacyLevel: DefaultPrivacyLevel.public,
+      status: TransactionStatus.pending,
+    };
+    const transaction = createTransaction(sender.id, "request", requestDetails);
+
+    updateTransactionById(transaction.id, { requestStatus: TransactionRequestStatus.cancelled });
+
+    const cancelledTransaction = getTransactionById(transaction.id);
+    expect(cancelledTransaction.status).toEqual(TransactionStatus.incomplete);
+    expect(cancelledTransaction.requestStatus).toEqual(TransactionRequestStatus.cancelled);
+    expect(getUserById(sender.id).balance).toBe(senderBalance);
+    expect(getUserById(receiver.id).balance).toBe(receiverBalance);
+
+    const receiverNotifications = getNotificationsByUserId(receiver.id);
+    expect(map("status", filter({ transactionId: transaction.id }, receiverNotifications))).toEqual(
+      ["requested", "cancelled"]
+    );
+
+    expect(map("id", getTransactionsForUserByObj(sender.id, {}))).toContain(transaction.id);
+    const { contactsTransactions, publicTransactions } = getPublicTransactionsDefaultSort(
+      getAllUsers()[2].id
+    );
+    expect(map("id", contactsTransactions)).not.toContain(transaction.id);
+    expect(map("id", publicTransactions)).not.toContain(transaction.id);
+  });
 });
@@ -4,15 +4,24 @@ import { Formik, Form, Field, FieldProps } from "formik";
 import { string, object } from "yup";
 import { BankAccountPayload, User } from "../models";
 import { useHistory } from "react-router";
+import {
+  ACCOUNT_NUMBER_MIN_LENGTH,
+  ACCOUNT_NUMBER_MAX_LENGTH,
+  isValidRoutingNumber,
+} from "../utils/bankAccountUtils";
 
 const validationSchema = object({
   bankName: string().min(5, "Must contain at least 5 characters").required("Enter a bank name"),
   routingNumber: string()
     .length(9, "Must contain a valid routing number")
+    .test("routing-number-checksum", "Must contain a valid routing number", (value) =>
+      value ? isValidRoutingNumber(value) : true
+    )
     .required("Enter a valid bank routing number"),
   accountNumber: string()
-    .min(9, "Must contain at least 9 digits")
-    .max(12, "Must contain no more than 12 digits")
+    .matches(/^\d*$/, "Must contain only digits")
+    .min(ACCOUNT_NUMBER_MIN_LENGTH, `Must contain at least ${ACCOUNT_NUMBER_MIN_LENGTH} digits`)
+    .max(ACCOUNT_NUMBER_MAX_LENGTH, `Must contain no more than ${ACCOUNT_NUMBER_MAX_LENGTH} digits`)
     .required("Enter a valid bank account number"),
 });
 
@@ -1,27 +1,84 @@
 import React from "react";
 
-import { Grid, Typography, Button, ListItem } from "@material-ui/core";
+import { Grid, Typography, Button, ListItem, Chip } from "@material-ui/core";
 import { BankAccount } from "../models";
+import {
+  isVerifiedBankAccount,
+  isUnverifiedBankAccount,
+  isLockedBankAccount,
+  getRemainingVerificationAttempts,
+  maskAccountNumber,
+} from "../utils/bankAccountUtils";
+import BankAccountVerifyForm from "./BankAccountVerifyForm";
 
 export interface BankAccountListItemProps {
   bankAccount: BankAccount;
   deleteBankAccount: Function;
+  verifyBankAccount: Function;
+  setDefaultBankAccount: Function;
+  restoreBankAccount: Function;
 }
 
 const BankAccountListItem: React.FC<BankAccountListItemProps> = ({
   bankAccount,
   deleteBankAccount,
+  verifyBankAccount,
+  setDefaultBankAccount,
+  restoreBankAccount,
 }) => {
+  const canVerify = !bankAccount.isDeleted && isUnverifiedBankAccount(bankAccount);
+
   return (
     <ListItem data-test={`bankaccount-list-item-${bankAccount.id}`}>
       <Grid container direction="row" justify="space-between" alignItems="flex-start">
         <Grid item>
           <Typography variant="body1" color="primary" gutterBottom>
-            {bankAccount.bankName} {bankAccount.isDeleted ? "(Deleted)" : undefined}
+            {bankAccount.bankName} {bankAccount.isDeleted ? "(Deleted)" : undefined}{" "}
+            {bankAccount.isDefault && (
+              <Chip label="Default" size="small" color="primary" data-test="bankaccount-default" />
+            )}
+          </Typography>
+          <Typography variant="body2" color="textSecondary" data-test="bankaccount-account-number">
+            Account {maskAccountNumber(bankAccount.accountNumber)}
           </Typography>
+          {canVerify && (
+            <>
+              <Typography
+                variant="body2"
+                color="textSecondary"
+                data-test="bankaccount-verification-status"
+              >
+                Unverified: enter the two small deposits we sent to this account (
+                {getRemainingVerificationAttempts(bankAccount)} attempts left)
+              </Typography>
+              <BankAccountVerifyForm
+                bankAccount={bankAccount}
+                verifyBankAccount={verifyBankAccount}
+              />
+            </>
+          )}
+          {!bankAccount.isDeleted && isLockedBankAccount(bankAccount) && (
+            <Typography variant="body2" color="error" data-test="bankaccount-verification-status">
+              Locked after too many verification attempts
+            </Typography>
+          )}
         </Grid>
         {!bankAccount.isDeleted && (
           <Grid item>
+            {!bankAccount.isDefault && isVerifiedBankAccount(bankAccount) && (
+              <Button
+                variant="outlined"
+                color="primary"
+                size="large"
+                data-test="bankaccount-set-default"
+                onClick={() => {
+                  setDefaultBankAccount({ id: bankAccount.id });
+                }}
+                style={{ marginRight: 8 }}
+              >
+                Make Default
+              </Button>
+            )}
             <Button
               variant="contained"
               color="secondary"
@@ -35,6 +92,21 @@ const BankAccountListItem: React.FC<BankAccountListItemProps> = ({
             </Button>
           </Grid>
         )}
+        {bankAccount.isDeleted && (
+          <Grid item>
+            <Button
+              variant="outlined"
+              color="primary"
+              size="large"
+              data-test="bankaccount-restore"
+              onClick={() => {
+                restoreBankAccount({ id: bankAccount.id });
+              }}
+            >
+              Restore
+            </Button>
+          </Grid>
+        )}
       </Grid>
     </ListItem>
   );
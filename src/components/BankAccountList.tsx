@@ -8,9 +8,18 @@ import EmptyList from "./EmptyList";
 export interface BankAccountListProps {
   bankAccounts: BankAccount[];
   deleteBankAccount: Function;
+  verifyBankAccount: Function;
+  setDefaultBankAccount: Function;
+  restoreBankAccount: Function;
 }
 
-const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts, deleteBankAccount }) => {
+const BankAccountList: React.FC<BankAccountListProps> = ({
+  bankAccounts,
+  deleteBankAccount,
+  verifyBankAccount,
+  setDefaultBankAccount,
+  restoreBankAccount,
+}) => {
   return (
     <>
       {bankAccounts?.length > 0 ? (
@@ -20,6 +29,9 @@ const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts, deleteB
               key={bankAccount.id}
               bankAccount={bankAccount}
               deleteBankAccount={deleteBankAccount}
+              verifyBankAccount={verifyBankAccount}
+              setDefaultBankAccount={setDefaultBankAccount}
+              restoreBankAccount={restoreBankAccount}
             />
           ))}
         </List>
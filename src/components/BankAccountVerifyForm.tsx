@@ -0,0 +1,99 @@
+import React from "react";
+import { makeStyles, TextField, Button, Grid } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { number, object } from "yup";
+import { BankAccount } from "../models";
+
+const depositAmount = number()
+  .typeError("Enter the amount, e.g. 0.32")
+  .moreThan(0, "Must be more than 0.00")
+  .lessThan(1, "Must be less than 1.00")
+  .required("Enter a deposit amount");
+
+const validationSchema = object({
+  firstAmount: depositAmount,
+  secondAmount: depositAmount,
+});
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+}));
+
+type FormValues = {
+  firstAmount: string;
+  secondAmount: string;
+};
+
+export interface BankAccountVerifyFormProps {
+  bankAccount: BankAccount;
+  verifyBankAccount: Function;
+}
+
+const BankAccountVerifyForm: React.FC<BankAccountVerifyFormProps> = ({
+  bankAccount,
+  verifyBankAccount,
+}) => {
+  const classes = useStyles();
+  const initialValues: FormValues = { firstAmount: "", secondAmount: "" };
+
+  return (
+    <Formik
+      initialValues={initialValues}
+      validationSchema={validationSchema}
+      onSubmit={(values, { setSubmitting, resetForm }) => {
+        setSubmitting(true);
+
+        verifyBankAccount({
+          id: bankAccount.id,
+          amounts: [Number(values.firstAmount), Number(values.secondAmount)],
+        });
+
+        resetForm();
+      }}
+    >
+      {({ isValid, isSubmitting, dirty }) => (
+        <Form className={classes.form} data-test="bankaccount-verify-form">
+          <Grid container spacing={1} direction="row" alignItems="flex-start">
+            {(["firstAmount", "secondAmount"] as const).map((name, index) => (
+              <Grid item key={name}>
+                <Field name={name}>
+                  {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
+                    <TextField
+                      variant="outlined"
+                      margin="dense"
+                      required
+                      id={`bankaccount-verify-amount-${index + 1}-input`}
+                      type="text"
+                      placeholder={`Deposit ${index + 1}`}
+                      data-test={`bankaccount-verify-amount-${index + 1}-input`}
+                      error={(touched || value !== initialValue) && Boolean(error)}
+                      helperText={touched || value !== initialValue ? error : ""}
+                      {...field}
+                    />
+                  )}
+                </Field>
+              </Grid>
+            ))}
+            <Grid item>
+              <Button
+                type="submit"
+                variant="contained"
+                color="primary"
+                data-test="bankaccount-verify-submit"
+                disabled={!dirty || !isValid || isSubmitting}
+                style={{ marginTop: 8 }}
+              >
+                Verify
+              </Button>
+            </Grid>
+          </Grid>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default BankAccountVerifyForm;
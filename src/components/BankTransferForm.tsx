@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { find } from "lodash/fp";
+import { makeStyles, TextField, Button, Grid, MenuItem } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { string, object, number } from "yup";
+import { BankAccount, BankTransferType } from "../models";
+
+const validationSchema = object({
+  source: string().required("Select a bank account"),
+  amount: number()
+    .typeError("Please enter a valid amount")
+    .positive("Please enter a valid amount")
+    .required("Please enter a valid amount"),
+});
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+  submit: {
+    margin: theme.spacing(3, 0, 2),
+  },
+}));
+
+export interface BankTransferFormProps {
+  bankAccounts: BankAccount[];
+  createBankTransfer: Function;
+}
+
+interface FormValues {
+  source: string;
+  amount: number | "";
+}
+
+const BankTransferForm: React.FC<BankTransferFormProps> = ({
+  bankAccounts,
+  createBankTransfer,
+}) => {
+  const classes = useStyles();
+  const [transferType, setTransferType] = useState<BankTransferType>();
+  const initialValues: FormValues = {
+    source: find({ isDefault: true }, bankAccounts)?.id || "",
+    amount: "",
+  };
+
+  return (
+    <Formik
+      initialValues={initialValues}
+      enableReinitialize
+      validationSchema={validationSchema}
+      onSubmit={(values, { setSubmitting, resetForm }) => {
+        setSubmitting(true);
+
+        createBankTransfer({ transferType, ...values });
+
+        resetForm();
+      }}
+    >
+      {({ isValid, isSubmitting, dirty }) => (
+        <Form className={classes.form} data-test="banktransfer-form">
+          <Field name="source">
+            {({ field, meta: { error, touched } }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                required
+                select
+                id={"banktransfer-source-input"}
+                label="Bank Account"
+                data-test={"banktransfer-source-input"}
+                error={touched && Boolean(error)}
+                helperText={touched ? error : ""}
+                {...field}
+              >
+                {bankAccounts.map((bankAccount: BankAccount) => (
+                  <MenuItem
+                    key={bankAccount.id}
+                    value={bankAccount.id}
+                    data-test={`banktransfer-source-${bankAccount.id}`}
+                  >
+                    {bankAccount.bankName}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Field>
+          <Field name="amount">
+            {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                required
+                id={"banktransfer-amount-input"}
+                type="text"
+                placeholder="Amount"
+                data-test={"banktransfer-amount-input"}
+                error={(touched || value !== initialValue) && Boolean(error)}
+                helperText={touched || value !== initialValue ? error : ""}
+                {...field}
+              />
+            )}
+          </Field>
+          <Grid container spacing={2} direction="row" justify="flex-start" alignItems="flex-start">
+            <Grid item>
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                color="primary"
+                className={classes.submit}
+                data-test="banktransfer-submit-deposit"
+                disabled={!dirty || !isValid || isSubmitting}
+                onClick={() => setTransferType(BankTransferType.deposit)}
+              >
+                Deposit
+              </Button>
+            </Grid>
+            <Grid item>
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                color="primary"
+                className={classes.submit}
+                data-test="banktransfer-submit-withdrawal"
+                disabled={!dirty || !isValid || isSubmitting}
+                onClick={() => setTransferType(BankTransferType.withdrawal)}
+              >
+                Withdraw
+              </Button>
+            </Grid>
+          </Grid>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default BankTransferForm;
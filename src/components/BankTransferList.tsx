@@ -0,0 +1,40 @@
+import React from "react";
+import { find, orderBy } from "lodash/fp";
+import { List } from "@material-ui/core";
+
+import { BankAccount, BankTransfer } from "../models";
+import BankTransferListItem from "./BankTransferListItem";
+import EmptyList from "./EmptyList";
+
+export interface BankTransferListProps {
+  bankTransfers: BankTransfer[];
+  bankAccounts: BankAccount[];
+}
+
+const BankTransferList: React.FC<BankTransferListProps> = ({ bankTransfers, bankAccounts }) => {
+  const sortedBankTransfers: BankTransfer[] = orderBy(
+    [(bankTransfer: BankTransfer) => new Date(bankTransfer.createdAt)],
+    ["desc"],
+    bankTransfers
+  );
+
+  return (
+    <>
+      {bankTransfers?.length > 0 ? (
+        <List data-test="banktransfer-list">
+          {sortedBankTransfers.map((bankTransfer: BankTransfer) => (
+            <BankTransferListItem
+              key={bankTransfer.id}
+              bankTransfer={bankTransfer}
+              bankAccount={find({ id: bankTransfer.source }, bankAccounts)}
+            />
+          ))}
+        </List>
+      ) : (
+        <EmptyList entity="Transfers" />
+      )}
+    </>
+  );
+};
+
+export default BankTransferList;
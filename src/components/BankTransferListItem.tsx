@@ -0,0 +1,45 @@
+import React from "react";
+import { format as formatDate } from "date-fns";
+import { Grid, Typography, ListItem } from "@material-ui/core";
+import { BankAccount, BankTransfer, BankTransferType } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import { getCurrency } from "../utils/currencyUtils";
+
+export interface BankTransferListItemProps {
+  bankTransfer: BankTransfer;
+  bankAccount?: BankAccount;
+}
+
+const BankTransferListItem: React.FC<BankTransferListItemProps> = ({
+  bankTransfer,
+  bankAccount,
+}) => {
+  const transferLabels: { [type in BankTransferType]: string } = {
+    deposit: "Deposit from",
+    withdrawal: "Withdrawal to",
+    microDeposit: "Verification deposit to",
+  };
+
+  return (
+    <ListItem data-test={`banktransfer-list-item-${bankTransfer.id}`}>
+      <Grid container direction="row" justify="space-between" alignItems="flex-start">
+        <Grid item>
+          <Typography variant="body1" color="primary" gutterBottom>
+            {transferLabels[bankTransfer.type]} {bankAccount?.bankName}
+          </Typography>
+          <Typography variant="body2" color="textSecondary">
+            {formatDate(new Date(bankTransfer.createdAt), "MMM d, yyyy")} &middot;{" "}
+            <span data-test={`banktransfer-status-${bankTransfer.id}`}>{bankTransfer.status}</span>
+          </Typography>
+        </Grid>
+        <Grid item>
+          <Typography variant="body1" data-test={`banktransfer-amount-${bankTransfer.id}`}>
+            {formatAmount(bankTransfer.amount, getCurrency(bankTransfer))}
+          </Typography>
+        </Grid>
+      </Grid>
+    </ListItem>
+  );
+};
+
+export default BankTransferListItem;
@@ -0,0 +1,100 @@
+import React from "react";
+import { makeStyles, TextField, Button, MenuItem } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { string, object, mixed } from "yup";
+import { DisputeReason } from "../models";
+import { disputeReasonLabels } from "../utils/disputeUtils";
+
+const validationSchema = object({
+  reason: mixed<DisputeReason>()
+    .oneOf(Object.values(DisputeReason), "Select a reason")
+    .required("Select a reason"),
+  message: string().trim().required("Describe the problem"),
+});
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+}));
+
+export interface DisputeFormProps {
+  transactionId: string;
+  transactionDispute: (payload: object) => void;
+}
+
+const DisputeForm: React.FC<DisputeFormProps> = ({ transactionId, transactionDispute }) => {
+  const classes = useStyles();
+  const initialValues = { reason: "", message: "" };
+
+  return (
+    <Formik
+      initialValues={initialValues}
+      validationSchema={validationSchema}
+      onSubmit={(values, { setSubmitting }) => {
+        setSubmitting(true);
+        transactionDispute({ transactionId, ...values });
+      }}
+    >
+      {({ isValid, isSubmitting, dirty }) => (
+        <Form className={classes.form} data-test="transaction-dispute-form">
+          <Field name="reason">
+            {({ field, meta }: FieldProps) => (
+              <TextField
+                select
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                label="What went wrong?"
+                id="transaction-dispute-reason-input"
+                data-test="transaction-dispute-reason-input"
+                error={meta.touched && Boolean(meta.error)}
+                helperText={meta.touched ? meta.error : ""}
+                {...field}
+              >
+                {Object.values(DisputeReason).map((reason) => (
+                  <MenuItem
+                    key={reason}
+                    value={reason}
+                    data-test={`transaction-dispute-reason-${reason}`}
+                  >
+                    {disputeReasonLabels[reason]}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Field>
+          <Field name="message">
+            {({ field, meta }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                multiline
+                rows={3}
+                id="transaction-dispute-message-input"
+                placeholder="Tell the other person what happened..."
+                inputProps={{ "data-test": "transaction-dispute-message-input" }}
+                error={meta.touched && Boolean(meta.error)}
+                helperText={meta.touched ? meta.error : ""}
+                {...field}
+              />
+            )}
+          </Field>
+          <Button
+            type="submit"
+            variant="contained"
+            color="primary"
+            data-test="transaction-dispute-submit"
+            disabled={!dirty || !isValid || isSubmitting}
+          >
+            Open Dispute
+          </Button>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default DisputeForm;
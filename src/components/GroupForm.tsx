@@ -0,0 +1,74 @@
+import React from "react";
+import { makeStyles, TextField, Button, Grid } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { string, object } from "yup";
+
+const validationSchema = object({
+  name: string().trim().required("Enter a name for the group"),
+});
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+}));
+
+export interface GroupFormProps {
+  createGroup: Function;
+}
+
+const GroupForm: React.FC<GroupFormProps> = ({ createGroup }) => {
+  const classes = useStyles();
+
+  return (
+    <Formik
+      initialValues={{ name: "" }}
+      validationSchema={validationSchema}
+      onSubmit={(values, { setSubmitting, resetForm }) => {
+        setSubmitting(true);
+
+        createGroup(values);
+
+        resetForm();
+      }}
+    >
+      {({ isValid, isSubmitting, dirty }) => (
+        <Form className={classes.form} data-test="group-form">
+          <Grid container spacing={2} direction="row" alignItems="center">
+            <Grid item xs>
+              <Field name="name">
+                {({ field, meta: { error, touched } }: FieldProps) => (
+                  <TextField
+                    variant="outlined"
+                    margin="dense"
+                    fullWidth
+                    id="group-name-input"
+                    placeholder="Group name"
+                    inputProps={{ "data-test": "group-name-input" }}
+                    error={touched && Boolean(error)}
+                    helperText={touched ? error : ""}
+                    {...field}
+                  />
+                )}
+              </Field>
+            </Grid>
+            <Grid item>
+              <Button
+                type="submit"
+                variant="contained"
+                color="primary"
+                data-test="group-submit"
+                disabled={!dirty || !isValid || isSubmitting}
+              >
+                Create Group
+              </Button>
+            </Grid>
+          </Grid>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default GroupForm;
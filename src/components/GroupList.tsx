@@ -0,0 +1,44 @@
+import React from "react";
+import { Link as RouterLink } from "react-router-dom";
+import { List, ListItem, ListItemText, Typography } from "@material-ui/core";
+
+import { GroupResponseItem } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import { groupRoleLabels } from "../utils/groupUtils";
+import EmptyList from "./EmptyList";
+
+export interface GroupListProps {
+  groups: GroupResponseItem[];
+}
+
+const GroupList: React.FC<GroupListProps> = ({ groups }) => {
+  return (
+    <>
+      {groups?.length > 0 ? (
+        <List data-test="group-list">
+          {groups.map((group: GroupResponseItem) => (
+            <ListItem
+              key={group.id}
+              button
+              component={RouterLink}
+              to={`/groups/${group.id}`}
+              data-test={`group-list-item-${group.id}`}
+            >
+              <ListItemText
+                primary={group.name}
+                secondary={`${group.members.length} members · ${groupRoleLabels[group.role]}`}
+              />
+              <Typography variant="body1" color="primary">
+                {formatAmount(group.balance, group.currency)}
+              </Typography>
+            </ListItem>
+          ))}
+        </List>
+      ) : (
+        <EmptyList entity="Groups" />
+      )}
+    </>
+  );
+};
+
+export default GroupList;
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import { makeStyles, Button, Grid, MenuItem, TextField, Typography } from "@material-ui/core";
+
+import { GroupRole, User } from "../models";
+import { groupRoleLabels } from "../utils/groupUtils";
+import UserListSearchForm from "./UserListSearchForm";
+import UsersList from "./UsersList";
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    marginTop: theme.spacing(1),
+  },
+}));
+
+export interface GroupMemberFormProps {
+  users: User[];
+  userListSearch: Function;
+  addGroupMember: Function;
+}
+
+const GroupMemberForm: React.FC<GroupMemberFormProps> = ({
+  users,
+  userListSearch,
+  addGroupMember,
+}) => {
+  const classes = useStyles();
+  const [selectedUser, setSelectedUser] = useState<User>();
+  const [role, setRole] = useState<GroupRole>(GroupRole.contributor);
+
+  return (
+    <div className={classes.root} data-test="group-member-form">
+      <UserListSearchForm userListSearch={userListSearch} />
+      <Grid container spacing={2} direction="row" justify="space-between" alignItems="center">
+        <Grid item>
+          <Typography variant="body2" color="textSecondary">
+            {selectedUser
+              ? `Add ${selectedUser.firstName} ${selectedUser.lastName} as`
+              : "Search for someone to add"}
+          </Typography>
+        </Grid>
+        <Grid item>
+          <TextField
+            select
+            variant="outlined"
+            margin="dense"
+            value={role}
+            data-test="group-member-role-input"
+            onChange={(event) => setRole(event.target.value as GroupRole)}
+          >
+            {Object.values(GroupRole).map((groupRole) => (
+              <MenuItem key={groupRole} value={groupRole}>
+                {groupRoleLabels[groupRole]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Button
+            variant="contained"
+            color="primary"
+            disabled={!selectedUser}
+            onClick={() => {
+              addGroupMember({ userId: selectedUser!.id, role });
+              setSelectedUser(undefined);
+            }}
+            data-test="group-member-submit"
+          >
+            Add
+          </Button>
+        </Grid>
+      </Grid>
+      <UsersList
+        users={users}
+        setReceiver={setSelectedUser}
+        selectedUserIds={selectedUser ? [selectedUser.id] : []}
+      />
+    </div>
+  );
+};
+
+export default GroupMemberForm;
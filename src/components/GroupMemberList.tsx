@@ -0,0 +1,89 @@
+import React from "react";
+import {
+  Avatar,
+  Button,
+  Grid,
+  List,
+  ListItem,
+  ListItemAvatar,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@material-ui/core";
+
+import { GroupResponseItem, GroupMemberResponseItem, GroupRole, User } from "../models";
+import { groupRoleLabels } from "../utils/groupUtils";
+
+export interface GroupMemberListProps {
+  group: GroupResponseItem;
+  currentUser: User;
+  updateGroupMember: Function;
+  removeGroupMember: Function;
+}
+
+const GroupMemberList: React.FC<GroupMemberListProps> = ({
+  group,
+  currentUser,
+  updateGroupMember,
+  removeGroupMember,
+}) => {
+  const isAdmin = group.role === GroupRole.admin;
+
+  return (
+    <List data-test="group-member-list">
+      {group.members.map((member: GroupMemberResponseItem) => {
+        const isCurrentUser = member.userId === currentUser.id;
+
+        return (
+          <ListItem key={member.id} data-test={`group-member-${member.id}`}>
+            <ListItemAvatar>
+              <Avatar src={member.avatar} />
+            </ListItemAvatar>
+            <Grid container direction="row" justify="space-between" alignItems="center">
+              <Grid item>
+                <Typography variant="body1">{member.fullName}</Typography>
+                {!isAdmin && (
+                  <Typography variant="body2" color="textSecondary">
+                    {groupRoleLabels[member.role]}
+                  </Typography>
+                )}
+              </Grid>
+              <Grid item>
+                {isAdmin && (
+                  <TextField
+                    select
+                    variant="outlined"
+                    margin="dense"
+                    value={member.role}
+                    data-test={`group-member-role-${member.id}`}
+                    onChange={(event) =>
+                      updateGroupMember({ memberId: member.id, role: event.target.value })
+                    }
+                  >
+                    {Object.values(GroupRole).map((role) => (
+                      <MenuItem key={role} value={role}>
+                        {groupRoleLabels[role]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+                {(isAdmin || isCurrentUser) && (
+                  <Button
+                    color="secondary"
+                    size="small"
+                    onClick={() => removeGroupMember({ memberId: member.id })}
+                    data-test={`group-member-remove-${member.id}`}
+                  >
+                    {isCurrentUser ? "Leave" : "Remove"}
+                  </Button>
+                )}
+              </Grid>
+            </Grid>
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+};
+
+export default GroupMemberList;
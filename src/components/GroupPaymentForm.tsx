@@ -0,0 +1,204 @@
+import React from "react";
+import { find } from "lodash/fp";
+import { makeStyles, TextField, Button, MenuItem } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { string, object, number } from "yup";
+import {
+  BankAccount,
+  GroupMemberResponseItem,
+  GroupPaymentType,
+  GroupResponseItem,
+} from "../models";
+import { canPayOutOfGroup } from "../utils/groupUtils";
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+  submit: {
+    margin: theme.spacing(3, 0, 2),
+  },
+}));
+
+export interface GroupPaymentFormProps {
+  group: GroupResponseItem;
+  bankAccounts: BankAccount[];
+  createGroupPayment: Function;
+}
+
+interface FormValues {
+  paymentType: GroupPaymentType;
+  amount: number | "";
+  description: string;
+  receiverId: string;
+  source: string;
+}
+
+const GroupPaymentForm: React.FC<GroupPaymentFormProps> = ({
+  group,
+  bankAccounts,
+  createGroupPayment,
+}) => {
+  const classes = useStyles();
+  const canPayOut = canPayOutOfGroup(group);
+  const initialValues: FormValues = {
+    paymentType: GroupPaymentType.contribution,
+    amount: "",
+    description: "",
+    receiverId: "",
+    source: find({ isDefault: true }, bankAccounts)?.id || "",
+  };
+
+  // payouts cannot take the group below zero
+  const validationSchema = object({
+    paymentType: string().required(),
+    amount: number()
+      .typeError("Please enter a valid amount")
+      .positive("Please enter a valid amount")
+      .required("Please enter a valid amount")
+      .when("paymentType", {
+        is: GroupPaymentType.payout,
+        then: number().max(group.balance / 100, "The group balance is too low"),
+      }),
+    description: string().trim().required("Please enter a note"),
+    receiverId: string().when("paymentType", {
+      is: GroupPaymentType.payout,
+      then: string().required("Select who the group pays"),
+    }),
+  });
+
+  return (
+    <Formik
+      initialValues={initialValues}
+      enableReinitialize
+      validationSchema={validationSchema}
+      onSubmit={(values, { setSubmitting, resetForm }) => {
+        setSubmitting(true);
+
+        const isPayout = values.paymentType === GroupPaymentType.payout;
+        createGroupPayment({
+          paymentType: values.paymentType,
+          amount: values.amount,
+          description: values.description,
+          receiverId: isPayout ? values.receiverId : undefined,
+          source: isPayout ? undefined : values.source,
+        });
+
+        resetForm();
+      }}
+    >
+      {({ values, isValid, isSubmitting, dirty }) => (
+        <Form className={classes.form} data-test="group-payment-form">
+          {canPayOut && (
+            <Field name="paymentType">
+              {({ field }: FieldProps) => (
+                <TextField
+                  variant="outlined"
+                  margin="dense"
+                  fullWidth
+                  select
+                  label="Payment"
+                  data-test="group-payment-type-input"
+                  {...field}
+                >
+                  <MenuItem value={GroupPaymentType.contribution}>Pay into the group</MenuItem>
+                  <MenuItem value={GroupPaymentType.payout}>Pay out of the group</MenuItem>
+                </TextField>
+              )}
+            </Field>
+          )}
+          {values.paymentType === GroupPaymentType.payout ? (
+            <Field name="receiverId">
+              {({ field, meta: { error, touched } }: FieldProps) => (
+                <TextField
+                  variant="outlined"
+                  margin="dense"
+                  fullWidth
+                  select
+                  label="Pay to"
+                  data-test="group-payment-receiver-input"
+                  error={touched && Boolean(error)}
+                  helperText={touched ? error : ""}
+                  {...field}
+                >
+                  {group.members.map((member: GroupMemberResponseItem) => (
+                    <MenuItem key={member.userId} value={member.userId}>
+                      {member.fullName}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </Field>
+          ) : (
+            <Field name="source">
+              {({ field }: FieldProps) => (
+                <TextField
+                  variant="outlined"
+                  margin="dense"
+                  fullWidth
+                  select
+                  label="Top up from (if your balance runs short)"
+                  data-test="group-payment-source-input"
+                  {...field}
+                >
+                  {bankAccounts.map((bankAccount: BankAccount) => (
+                    <MenuItem key={bankAccount.id} value={bankAccount.id}>
+                      {bankAccount.bankName}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </Field>
+          )}
+          <Field name="amount">
+            {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                required
+                id="group-payment-amount-input"
+                type="text"
+                placeholder="Amount"
+                inputProps={{ "data-test": "group-payment-amount-input" }}
+                error={(touched || value !== initialValue) && Boolean(error)}
+                helperText={touched || value !== initialValue ? error : ""}
+                {...field}
+              />
+            )}
+          </Field>
+          <Field name="description">
+            {({ field, meta: { error, touched } }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                required
+                id="group-payment-description-input"
+                type="text"
+                placeholder="Add a note"
+                inputProps={{ "data-test": "group-payment-description-input" }}
+                error={touched && Boolean(error)}
+                helperText={touched ? error : ""}
+                {...field}
+              />
+            )}
+          </Field>
+          <Button
+            type="submit"
+            variant="contained"
+            color="primary"
+            className={classes.submit}
+            data-test="group-payment-submit"
+            disabled={!dirty || !isValid || isSubmitting}
+          >
+            {values.paymentType === GroupPaymentType.payout ? "Pay Out" : "Pay In"}
+          </Button>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default GroupPaymentForm;
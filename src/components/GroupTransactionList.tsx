@@ -0,0 +1,35 @@
+import React, { useEffect } from "react";
+import { useMachine } from "@xstate/react";
+import { TransactionPagination, TransactionResponseItem, Group } from "../models";
+import TransactionList from "./TransactionList";
+import { groupTransactionsMachine } from "../machines/groupTransactionsMachine";
+
+export interface GroupTransactionListProps {
+  group: Group;
+}
+
+const GroupTransactionList: React.FC<GroupTransactionListProps> = ({ group }) => {
+  const [current, send] = useMachine(groupTransactionsMachine);
+  const { pageData, results } = current.context;
+
+  // the balance changes with every payment, so the feed follows it
+  useEffect(() => {
+    send("FETCH", { groupId: group.id });
+  }, [send, group.id, group.balance]);
+
+  const loadNextPage = (page: number) => send("FETCH", { groupId: group.id, page });
+
+  return (
+    <TransactionList
+      filterComponent={null}
+      header={group.name}
+      transactions={results as TransactionResponseItem[]}
+      isLoading={current.matches("loading")}
+      loadNextPage={loadNextPage}
+      pagination={pageData as TransactionPagination}
+      showCreateButton={false}
+    />
+  );
+};
+
+export default GroupTransactionList;
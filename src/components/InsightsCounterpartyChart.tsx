@@ -0,0 +1,49 @@
+import React from "react";
+import {
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Avatar,
+  LinearProgress,
+} from "@material-ui/core";
+
+import { CounterpartyInsight, CurrencyCode } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+
+export interface InsightsCounterpartyChartProps {
+  counterparties: CounterpartyInsight[];
+  currency: CurrencyCode;
+}
+
+const InsightsCounterpartyChart: React.FC<InsightsCounterpartyChartProps> = ({
+  counterparties,
+  currency,
+}) => {
+  // counterparties come largest first
+  const largest = counterparties[0]?.amount || 1;
+
+  return (
+    <List data-test="insights-top-counterparties">
+      {counterparties.map((counterparty) => (
+        <ListItem
+          key={counterparty.userId}
+          data-test={`insights-counterparty-${counterparty.userId}`}
+        >
+          <ListItemAvatar>
+            <Avatar src={counterparty.avatar} />
+          </ListItemAvatar>
+          <ListItemText
+            primary={`${counterparty.fullName} - ${formatAmount(counterparty.amount, currency)}`}
+            secondary={
+              <LinearProgress variant="determinate" value={(counterparty.amount / largest) * 100} />
+            }
+            secondaryTypographyProps={{ component: "div" }}
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+};
+
+export default InsightsCounterpartyChart;
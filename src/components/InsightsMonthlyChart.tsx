@@ -0,0 +1,73 @@
+import React from "react";
+import { makeStyles, Grid, Typography, Tooltip } from "@material-ui/core";
+import { green, red } from "@material-ui/core/colors";
+import { format as formatDate, parseISO } from "date-fns";
+import { max, flatMap } from "lodash/fp";
+
+import { CurrencyCode, MonthlyInsight } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+
+const CHART_HEIGHT = 160;
+
+const useStyles = makeStyles((theme) => ({
+  chart: {
+    height: CHART_HEIGHT + theme.spacing(4),
+    overflowX: "auto",
+    flexWrap: "nowrap",
+  },
+  bars: {
+    height: CHART_HEIGHT,
+    display: "flex",
+    alignItems: "flex-end",
+  },
+  bar: {
+    width: theme.spacing(2),
+    marginRight: 2,
+    minHeight: 1,
+  },
+  sent: {
+    backgroundColor: red[400],
+  },
+  received: {
+    backgroundColor: green[400],
+  },
+}));
+
+export interface InsightsMonthlyChartProps {
+  monthly: MonthlyInsight[];
+  currency: CurrencyCode;
+}
+
+const InsightsMonthlyChart: React.FC<InsightsMonthlyChartProps> = ({ monthly, currency }) => {
+  const classes = useStyles();
+  const largest = max(flatMap(({ sent, received }) => [sent, received], monthly)) || 1;
+  const barHeight = (amount: number) => (amount / largest) * CHART_HEIGHT;
+
+  return (
+    <Grid container spacing={2} className={classes.chart} data-test="insights-monthly-chart">
+      {monthly.map(({ month, sent, received }) => (
+        <Grid item key={month} data-test={`insights-month-${month}`}>
+          <div className={classes.bars}>
+            <Tooltip title={`Sent ${formatAmount(sent, currency)}`}>
+              <div
+                className={`${classes.bar} ${classes.sent}`}
+                style={{ height: barHeight(sent) }}
+              />
+            </Tooltip>
+            <Tooltip title={`Received ${formatAmount(received, currency)}`}>
+              <div
+                className={`${classes.bar} ${classes.received}`}
+                style={{ height: barHeight(received) }}
+              />
+            </Tooltip>
+          </div>
+          <Typography variant="caption" color="textSecondary">
+            {formatDate(parseISO(month), "MMM yy")}
+          </Typography>
+        </Grid>
+      ))}
+    </Grid>
+  );
+};
+
+export default InsightsMonthlyChart;
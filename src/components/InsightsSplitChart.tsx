@@ -0,0 +1,63 @@
+import React from "react";
+import { makeStyles, Grid, Typography } from "@material-ui/core";
+import { blue, orange } from "@material-ui/core/colors";
+
+import { CurrencyCode, Insights } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+
+const useStyles = makeStyles((theme) => ({
+  bar: {
+    display: "flex",
+    height: theme.spacing(3),
+    width: "100%",
+    borderRadius: theme.shape.borderRadius,
+    overflow: "hidden",
+    backgroundColor: theme.palette.grey[200],
+  },
+  payments: {
+    backgroundColor: blue[400],
+  },
+  requests: {
+    backgroundColor: orange[400],
+  },
+}));
+
+export interface InsightsSplitChartProps {
+  payments: Insights["payments"];
+  requests: Insights["requests"];
+  currency: CurrencyCode;
+}
+
+const InsightsSplitChart: React.FC<InsightsSplitChartProps> = ({
+  payments,
+  requests,
+  currency,
+}) => {
+  const classes = useStyles();
+  const total = payments.amount + requests.amount;
+  const paymentsShare = total ? (payments.amount / total) * 100 : 0;
+
+  return (
+    <Grid container direction="column" spacing={1} data-test="insights-split">
+      <Grid item>
+        <div className={classes.bar}>
+          <div className={classes.payments} style={{ width: `${paymentsShare}%` }} />
+          <div
+            className={classes.requests}
+            style={{ width: `${total ? 100 - paymentsShare : 0}%` }}
+          />
+        </div>
+      </Grid>
+      <Grid item container justify="space-between">
+        <Typography variant="body2" data-test="insights-split-payments">
+          Payments: {payments.count} ({formatAmount(payments.amount, currency)})
+        </Typography>
+        <Typography variant="body2" data-test="insights-split-requests">
+          Requests: {requests.count} ({formatAmount(requests.amount, currency)})
+        </Typography>
+      </Grid>
+    </Grid>
+  );
+};
+
+export default InsightsSplitChart;
@@ -0,0 +1,31 @@
+import React from "react";
+import { List, ListItem, ListItemText } from "@material-ui/core";
+import { Link as RouterLink } from "react-router-dom";
+import { format as formatDate } from "date-fns";
+import { LinkedTransaction } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+
+export interface LinkedTransactionListProps {
+  transactions: LinkedTransaction[];
+}
+
+const LinkedTransactionList: React.FC<LinkedTransactionListProps> = ({ transactions }) => (
+  <List>
+    {transactions.map((transaction) => (
+      <ListItem
+        key={transaction.id}
+        button
+        component={RouterLink}
+        to={`/transaction/${transaction.id}`}
+        data-test={`linked-transaction-${transaction.id}`}
+      >
+        <ListItemText
+          primary={formatAmount(transaction.amount, transaction.currency)}
+          secondary={formatDate(new Date(transaction.createdAt), "MMM d, yyyy")}
+        />
+      </ListItem>
+    ))}
+  </List>
+);
+
+export default LinkedTransactionList;
@@ -24,9 +24,16 @@ import {
   ExitToApp as LogoutIcon,
   Notifications as NotificationsIcon,
   AccountBalance as AccountBalanceIcon,
+  SwapHoriz as SwapHorizIcon,
+  Schedule as ScheduleIcon,
+  ReceiptOutlined as ReceiptIcon,
+  InsertChartOutlined as InsightsIcon,
+  GroupWorkOutlined as GroupsIcon,
+  Link as LinkIcon,
 } from "@material-ui/icons";
 
 import { formatAmount } from "../utils/transactionUtils";
+import { getCurrency } from "../utils/currencyUtils";
 import { AuthMachineContext, AuthMachineEvents } from "../machines/authMachine";
 
 const drawerWidth = 240;
@@ -75,6 +82,84 @@ export const mainListItems = (
       </ListItemIcon>
       <ListItemText primary="Bank Accounts" />
     </ListItem>
+    <ListItem
+      button
+      // @ts-ignore
+      onClick={() => showTemporaryDrawer && toggleDrawer()}
+      component={RouterLink}
+      to="/transfers"
+      data-test="sidenav-banktransfers"
+    >
+      <ListItemIcon>
+        <SwapHorizIcon />
+      </ListItemIcon>
+      <ListItemText primary="Transfer" />
+    </ListItem>
+    <ListItem
+      button
+      // @ts-ignore
+      onClick={() => showTemporaryDrawer && toggleDrawer()}
+      component={RouterLink}
+      to="/schedules"
+      data-test="sidenav-schedules"
+    >
+      <ListItemIcon>
+        <ScheduleIcon />
+      </ListItemIcon>
+      <ListItemText primary="Scheduled" />
+    </ListItem>
+    <ListItem
+      button
+      // @ts-ignore
+      onClick={() => showTemporaryDrawer && toggleDrawer()}
+      component={RouterLink}
+      to="/statement"
+      data-test="sidenav-statement"
+    >
+      <ListItemIcon>
+        <ReceiptIcon />
+      </ListItemIcon>
+      <ListItemText primary="Statement" />
+    </ListItem>
+    <ListItem
+      button
+      // @ts-ignore
+      onClick={() => showTemporaryDrawer && toggleDrawer()}
+      component={RouterLink}
+      to="/insights"
+      data-test="sidenav-insights"
+    >
+      <ListItemIcon>
+        <InsightsIcon />
+      </ListItemIcon>
+      <ListItemText primary="Insights" />
+    </ListItem>
+    <ListItem
+      button
+      // @ts-ignore
+      onClick={() => showTemporaryDrawer && toggleDrawer()}
+      component={RouterLink}
+      to="/groups"
+      data-test="sidenav-groups"
+    >
+      <ListItemIcon>
+        <GroupsIcon />
+      </ListItemIcon>
+      <ListItemText primary="Groups" />
+    </ListItem>
+    <ListItem
+      button
+      // @ts-ignore
+      onClick={() => showTemporaryDrawer && toggleDrawer()}
+      component={RouterLink}
+      to="/paymentlink"
+      data-test="sidenav-payment-link"
+    >
+      <ListItemIcon>
+        <LinkIcon />
+      </ListItemIcon>
+      <ListItemText primary="Payment Link" />
+    </ListItem>
     <ListItem
       button
       // @ts-ignore
@@ -246,7 +331,7 @@ const NavDrawer: React.FC<Props> = ({
                 className={classes.amount}
                 data-test="sidenav-user-balance"
               >
-                {currentUser.balance ? formatAmount(currentUser.balance) : formatAmount(0)}
+                {formatAmount(currentUser.balance || 0, getCurrency(currentUser))}
               </Typography>
               <Typography variant="subtitle2" color="inherit" gutterBottom>
                 Account Balance
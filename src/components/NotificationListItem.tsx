@@ -6,6 +6,13 @@ import {
   Payment as PaymentIcon,
   CommentRounded as CommentIcon,
   MonetizationOn as MonetizationOnIcon,
+  TimerOff as TimerOffIcon,
+  EventBusy as EventBusyIcon,
+  Gavel as GavelIcon,
+  Undo as UndoIcon,
+  CancelOutlined as CancelIcon,
+  AccountBalanceWallet as AccountBalanceWalletIcon,
+  GroupWorkOutlined as GroupsIcon,
 } from "@material-ui/icons";
 import {
   Button,
@@ -23,8 +30,24 @@ import {
   isPaymentNotification,
   isPaymentRequestedNotification,
   isPaymentReceivedNotification,
+  isPaymentIncompleteNotification,
+  isPaymentRefundedNotification,
+  isPaymentCancelledNotification,
+  isPaymentPartiallyPaidNotification,
+  isScheduleNotification,
+  isDisputeNotification,
+  isBudgetNotification,
+  isGroupNotification,
 } from "../utils/transactionUtils";
-import { NotificationResponseItem } from "../models";
+import { categoryLabels } from "../utils/categoryUtils";
+import { DisputeStatus, GroupPaymentType, NotificationResponseItem } from "../models";
+
+const disputeNotificationTexts: { [status in DisputeStatus]: string } = {
+  open: "opened a dispute on a transaction.",
+  underReview: "is reviewing a dispute.",
+  resolvedRefund: "resolved a dispute with a refund.",
+  resolvedNoAction: "closed a dispute without action.",
+};
 
 export interface NotificationListItemProps {
   notification: NotificationResponseItem;
@@ -69,6 +92,33 @@ const NotificationListItem: React.FC<NotificationListItemProps> = ({
     listItemText = `${notification.userFullName} liked a transaction.`;
   }
 
+  if (isScheduleNotification(notification)) {
+    listItemIcon = <EventBusyIcon className={classes.red} />;
+    listItemText = `Scheduled payment to ${notification.userFullName} failed: ${notification.reason}.`;
+  }
+
+  if (isDisputeNotification(notification)) {
+    listItemIcon = <GavelIcon />;
+    listItemText = `${notification.userFullName} ${
+      disputeNotificationTexts[notification.disputeStatus]
+    }`;
+  }
+
+  if (isBudgetNotification(notification)) {
+    listItemIcon = <AccountBalanceWalletIcon className={classes.red} />;
+    listItemText = `You have used ${notification.threshold}% of your ${
+      categoryLabels[notification.category]
+    } budget this month.`;
+  }
+
+  if (isGroupNotification(notification)) {
+    listItemIcon = <GroupsIcon />;
+    listItemText =
+      notification.groupPaymentType === GroupPaymentType.contribution
+        ? `${notification.userFullName} paid into ${notification.groupName}.`
+        : `${notification.userFullName} had ${notification.groupName} pay out.`;
+  }
+
   if (isPaymentNotification(notification)) {
     if (isPaymentRequestedNotification(notification)) {
       listItemIcon = <PaymentIcon className={classes.red} />;
@@ -76,6 +126,18 @@ const NotificationListItem: React.FC<NotificationListItemProps> = ({
     } else if (isPaymentReceivedNotification(notification)) {
       listItemIcon = <MonetizationOnIcon className={classes.green} />;
       listItemText = `${notification.userFullName} received payment.`;
+    } else if (isPaymentIncompleteNotification(notification)) {
+      listItemIcon = <TimerOffIcon />;
+      listItemText = `A payment request from ${notification.userFullName} expired.`;
+    } else if (isPaymentRefundedNotification(notification)) {
+      listItemIcon = <UndoIcon className={classes.green} />;
+      listItemText = `${notification.userFullName} refunded your payment.`;
+    } else if (isPaymentCancelledNotification(notification)) {
+      listItemIcon = <CancelIcon />;
+      listItemText = `${notification.userFullName} cancelled a payment request.`;
+    } else if (isPaymentPartiallyPaidNotification(notification)) {
+      listItemIcon = <MonetizationOnIcon className={classes.green} />;
+      listItemText = `${notification.userFullName} paid part of your request.`;
     }
   }
 
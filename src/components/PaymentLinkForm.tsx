@@ -0,0 +1,127 @@
+import React from "react";
+import { makeStyles, TextField, Button } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { string, object, number } from "yup";
+import { CurrencyCode } from "../models";
+import { NumberFormatCustom } from "./TransactionCreateStepTwo";
+
+const validationSchema = object({
+  amount: number().positive("Please enter a valid amount"),
+  description: string().max(140, "Notes can be at most 140 characters"),
+  expiresAt: string(),
+});
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+  submit: {
+    margin: theme.spacing(3, 0, 2),
+  },
+}));
+
+export interface PaymentLinkFormProps {
+  currency: CurrencyCode;
+  createPaymentLink: Function;
+}
+
+interface FormValues {
+  amount: number | "";
+  description: string;
+  expiresAt: string;
+}
+
+const PaymentLinkForm: React.FC<PaymentLinkFormProps> = ({ currency, createPaymentLink }) => {
+  const classes = useStyles();
+  const initialValues: FormValues = { amount: "", description: "", expiresAt: "" };
+
+  return (
+    <Formik
+      initialValues={initialValues}
+      validationSchema={validationSchema}
+      onSubmit={(values, { setSubmitting }) => {
+        setSubmitting(true);
+
+        // a link expiring on a day is good until the end of that day
+        createPaymentLink({
+          amount: values.amount || undefined,
+          description: values.description || undefined,
+          expiresAt: values.expiresAt
+            ? new Date(`${values.expiresAt}T23:59:59`).toISOString()
+            : undefined,
+        });
+
+        setSubmitting(false);
+      }}
+    >
+      {({ isValid, isSubmitting }) => (
+        <Form className={classes.form} data-test="payment-link-form">
+          <Field name="amount">
+            {({ field, meta: { error, touched } }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                id="payment-link-amount-input"
+                type="text"
+                placeholder="Amount (optional)"
+                data-test="payment-link-amount-input"
+                error={touched && Boolean(error)}
+                helperText={touched ? error : ""}
+                InputProps={{
+                  inputComponent: NumberFormatCustom as any,
+                  inputProps: { id: "payment-link-amount", currency },
+                }}
+                {...field}
+              />
+            )}
+          </Field>
+          <Field name="description">
+            {({ field, meta: { error, touched } }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                id="payment-link-description-input"
+                type="text"
+                placeholder="Note (optional)"
+                inputProps={{ "data-test": "payment-link-description-input" }}
+                error={touched && Boolean(error)}
+                helperText={touched ? error : ""}
+                {...field}
+              />
+            )}
+          </Field>
+          <Field name="expiresAt">
+            {({ field }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                id="payment-link-expires-at-input"
+                type="date"
+                label="Expires (optional)"
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ "data-test": "payment-link-expires-at-input" }}
+                {...field}
+              />
+            )}
+          </Field>
+          <Button
+            type="submit"
+            variant="contained"
+            color="primary"
+            className={classes.submit}
+            data-test="payment-link-submit"
+            disabled={!isValid || isSubmitting}
+          >
+            Create Link
+          </Button>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default PaymentLinkForm;
@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+
+export interface PaymentLinkQRCodeProps {
+  url: string;
+}
+
+// Rendered in the browser, so the link never leaves the app to be encoded
+const PaymentLinkQRCode: React.FC<PaymentLinkQRCodeProps> = ({ url }) => {
+  const [dataUrl, setDataUrl] = useState<string>();
+
+  useEffect(() => {
+    let isCurrent = true;
+    QRCode.toDataURL(url, { margin: 1, width: 240 }).then((qrCode) => {
+      if (isCurrent) {
+        setDataUrl(qrCode);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [url]);
+
+  return dataUrl ? (
+    <img src={dataUrl} alt="QR code for the payment link" data-test="payment-link-qr-code" />
+  ) : null;
+};
+
+export default PaymentLinkQRCode;
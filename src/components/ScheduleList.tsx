@@ -0,0 +1,39 @@
+import React from "react";
+import { List } from "@material-ui/core";
+
+import { ScheduleResponseItem } from "../models";
+import ScheduleListItem from "./ScheduleListItem";
+import EmptyList from "./EmptyList";
+
+export interface ScheduleListProps {
+  schedules: ScheduleResponseItem[];
+  updateSchedule: Function;
+  cancelSchedule: Function;
+}
+
+const ScheduleList: React.FC<ScheduleListProps> = ({
+  schedules,
+  updateSchedule,
+  cancelSchedule,
+}) => {
+  return (
+    <>
+      {schedules?.length > 0 ? (
+        <List data-test="schedule-list">
+          {schedules.map((schedule: ScheduleResponseItem) => (
+            <ScheduleListItem
+              key={schedule.id}
+              schedule={schedule}
+              updateSchedule={updateSchedule}
+              cancelSchedule={cancelSchedule}
+            />
+          ))}
+        </List>
+      ) : (
+        <EmptyList entity="Scheduled Payments" />
+      )}
+    </>
+  );
+};
+
+export default ScheduleList;
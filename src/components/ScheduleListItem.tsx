@@ -0,0 +1,72 @@
+import React from "react";
+import { format as formatDate } from "date-fns";
+import { Avatar, Button, Grid, ListItem, ListItemAvatar, Typography } from "@material-ui/core";
+import { ScheduleResponseItem, ScheduleStatus } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import { formatScheduleFrequency, isActiveSchedule } from "../utils/scheduleUtils";
+
+export interface ScheduleListItemProps {
+  schedule: ScheduleResponseItem;
+  updateSchedule: Function;
+  cancelSchedule: Function;
+}
+
+const ScheduleListItem: React.FC<ScheduleListItemProps> = ({
+  schedule,
+  updateSchedule,
+  cancelSchedule,
+}) => {
+  const isPaused = schedule.status === ScheduleStatus.paused;
+  const hasEnded = !isActiveSchedule(schedule) && !isPaused;
+
+  return (
+    <ListItem data-test={`schedule-list-item-${schedule.id}`}>
+      <ListItemAvatar>
+        <Avatar src={schedule.receiverAvatar} />
+      </ListItemAvatar>
+      <Grid container direction="row" justify="space-between" alignItems="center">
+        <Grid item>
+          <Typography variant="body1" color="primary" gutterBottom>
+            {formatAmount(schedule.amount, schedule.currency)} to {schedule.receiverName} for{" "}
+            {schedule.description}
+          </Typography>
+          <Typography variant="body2" color="textSecondary">
+            {formatScheduleFrequency(schedule)} &middot;{" "}
+            <span data-test={`schedule-status-${schedule.id}`}>
+              {isActiveSchedule(schedule)
+                ? `next payment ${formatDate(new Date(schedule.nextRunAt), "MMM d, yyyy")}`
+                : schedule.status}
+            </span>
+          </Typography>
+        </Grid>
+        {!hasEnded && (
+          <Grid item>
+            <Button
+              color="primary"
+              size="small"
+              onClick={() =>
+                updateSchedule({
+                  id: schedule.id,
+                  status: isPaused ? ScheduleStatus.active : ScheduleStatus.paused,
+                })
+              }
+              data-test={`schedule-toggle-${schedule.id}`}
+            >
+              {isPaused ? "Resume" : "Pause"}
+            </Button>
+            <Button
+              color="secondary"
+              size="small"
+              onClick={() => cancelSchedule({ id: schedule.id })}
+              data-test={`schedule-cancel-${schedule.id}`}
+            >
+              Cancel
+            </Button>
+          </Grid>
+        )}
+      </Grid>
+    </ListItem>
+  );
+};
+
+export default ScheduleListItem;
@@ -0,0 +1,52 @@
+import React from "react";
+import { List, ListItem, ListItemText, LinearProgress, Typography } from "@material-ui/core";
+
+import { CurrencyCode, SpendingLimitsSummary, SpendingLimitType } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import { spendingLimitLabels } from "../utils/spendingLimitUtils";
+
+export interface SpendingLimitListProps {
+  limits: SpendingLimitsSummary;
+  currency: CurrencyCode;
+}
+
+const limitTypes: SpendingLimitType[] = ["dailyAmount", "monthlyAmount", "hourlyCount"];
+
+const SpendingLimitList: React.FC<SpendingLimitListProps> = ({ limits, currency }) => {
+  const formatLimitValue = (limitType: SpendingLimitType, value: number) =>
+    limitType === "hourlyCount" ? `${value} transactions` : formatAmount(value, currency);
+
+  return (
+    <>
+      {limits.isNewAccount && (
+        <Typography variant="body2" color="textSecondary" data-test="spending-limits-new-account">
+          Lower limits apply while your account is new.
+        </Typography>
+      )}
+      <List data-test="spending-limit-list">
+        {limitTypes.map((limitType) => {
+          const { limit, used } = limits[limitType];
+
+          return (
+            <ListItem key={limitType} data-test={`spending-limit-${limitType}`}>
+              <ListItemText
+                primary={spendingLimitLabels[limitType]}
+                secondary={
+                  <>
+                    {formatLimitValue(limitType, used)} of {formatLimitValue(limitType, limit)} used
+                    <LinearProgress
+                      variant="determinate"
+                      value={Math.min(100, (used / limit) * 100)}
+                    />
+                  </>
+                }
+              />
+            </ListItem>
+          );
+        })}
+      </List>
+    </>
+  );
+};
+
+export default SpendingLimitList;
@@ -0,0 +1,48 @@
+import React from "react";
+import { Grid, List, Typography, Divider } from "@material-ui/core";
+
+import { Statement, StatementLine } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import StatementListItem from "./StatementListItem";
+import EmptyList from "./EmptyList";
+
+export interface StatementListProps {
+  statement: Statement;
+}
+
+const StatementList: React.FC<StatementListProps> = ({ statement }) => {
+  const { currency } = statement;
+
+  const balanceRow = (label: string, balance: number, dataTest: string) => (
+    <Grid container direction="row" justify="space-between" alignItems="center">
+      <Grid item>
+        <Typography variant="subtitle1">{label}</Typography>
+      </Grid>
+      <Grid item>
+        <Typography variant="subtitle1" data-test={dataTest}>
+          {formatAmount(balance, currency)}
+        </Typography>
+      </Grid>
+    </Grid>
+  );
+
+  return (
+    <>
+      {balanceRow("Opening balance", statement.openingBalance, "statement-opening-balance")}
+      <Divider />
+      {statement.lines.length > 0 ? (
+        <List data-test="statement-list">
+          {statement.lines.map((line: StatementLine) => (
+            <StatementListItem key={line.id} line={line} currency={currency} />
+          ))}
+        </List>
+      ) : (
+        <EmptyList entity="Movements" />
+      )}
+      <Divider />
+      {balanceRow("Closing balance", statement.closingBalance, "statement-closing-balance")}
+    </>
+  );
+};
+
+export default StatementList;
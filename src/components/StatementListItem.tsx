@@ -0,0 +1,66 @@
+import React from "react";
+import { format as formatDate } from "date-fns";
+import { makeStyles, Grid, Typography, ListItem, Link } from "@material-ui/core";
+import { Link as RouterLink } from "react-router-dom";
+import { CurrencyCode, StatementLine } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+
+const useStyles = makeStyles({
+  amountPositive: {
+    color: "#4CAF50",
+  },
+  amountNegative: {
+    color: "red",
+  },
+});
+
+export interface StatementListItemProps {
+  line: StatementLine;
+  currency: CurrencyCode;
+}
+
+const StatementListItem: React.FC<StatementListItemProps> = ({ line, currency }) => {
+  const classes = useStyles();
+
+  return (
+    <ListItem data-test={`statement-line-${line.id}`}>
+      <Grid container direction="row" justify="space-between" alignItems="flex-start">
+        <Grid item>
+          <Typography variant="body1" color="primary" gutterBottom>
+            {line.transactionId ? (
+              <Link component={RouterLink} to={`/transaction/${line.transactionId}`}>
+                {line.description}
+              </Link>
+            ) : (
+              line.description
+            )}
+          </Typography>
+          <Typography variant="body2" color="textSecondary">
+            {formatDate(new Date(line.date), "MMM d, yyyy")}
+          </Typography>
+        </Grid>
+        <Grid item>
+          <Typography
+            variant="body1"
+            align="right"
+            data-test={`statement-line-amount-${line.id}`}
+            className={line.amount < 0 ? classes.amountNegative : classes.amountPositive}
+          >
+            {line.amount < 0 ? "-" : "+"}
+            {formatAmount(Math.abs(line.amount), currency)}
+          </Typography>
+          <Typography
+            variant="body2"
+            color="textSecondary"
+            align="right"
+            data-test={`statement-line-balance-${line.id}`}
+          >
+            {formatAmount(line.balance, currency)}
+          </Typography>
+        </Grid>
+      </Grid>
+    </ListItem>
+  );
+};
+
+export default StatementListItem;
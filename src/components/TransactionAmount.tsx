@@ -2,6 +2,7 @@ import React from "react";
 import { makeStyles, Typography } from "@material-ui/core";
 import { TransactionResponseItem } from "../models";
 import { isRequestTransaction, formatAmount } from "../utils/transactionUtils";
+import { getCurrency } from "../utils/currencyUtils";
 
 const useStyles = makeStyles((theme) => ({
   amountPositive: {
@@ -36,7 +37,7 @@ const TransactionAmount: React.FC<{
       color="primary"
     >
       {isRequestTransaction(transaction) ? "+" : "-"}
-      {transaction.amount && formatAmount(transaction.amount)}
+      {transaction.amount && formatAmount(transaction.amount, getCurrency(transaction))}
     </Typography>
   );
 };
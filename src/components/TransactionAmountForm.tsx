@@ -0,0 +1,101 @@
+import React from "react";
+import { makeStyles, TextField, Button, Grid } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { number, object } from "yup";
+import { CurrencyCode } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import { getCurrencySymbol } from "../utils/currencyUtils";
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+}));
+
+export interface TransactionAmountFormProps {
+  action: "refund" | "payment";
+  label: string;
+  transactionId: string;
+  maxAmount: number;
+  balance: number;
+  currency: CurrencyCode;
+  onSubmit: (payload: object) => void;
+}
+
+// Amount form for paying money towards an existing transaction, such as a refund
+const TransactionAmountForm: React.FC<TransactionAmountFormProps> = ({
+  action,
+  label,
+  transactionId,
+  maxAmount,
+  balance,
+  currency,
+  onSubmit,
+}) => {
+  const classes = useStyles();
+  const initialValues = { amount: maxAmount / 100 };
+
+  // the amount is paid from the pay app balance
+  const validationSchema = object({
+    amount: number()
+      .moreThan(0, "Please enter a valid amount")
+      .max(maxAmount / 100, `At most ${formatAmount(maxAmount, currency)}`)
+      .max(balance / 100, "Insufficient funds")
+      .required("Please enter a valid amount"),
+  });
+
+  return (
+    <Formik
+      initialValues={initialValues}
+      validationSchema={validationSchema}
+      validateOnMount={true}
+      onSubmit={(values, { setSubmitting }) => {
+        setSubmitting(true);
+        onSubmit({ transactionId, ...values });
+      }}
+    >
+      {({ isValid, isSubmitting }) => (
+        <Form className={classes.form} data-test={`transaction-${action}-form`}>
+          <Grid container direction="row" alignItems="flex-start" spacing={2}>
+            <Grid item>
+              <Field name="amount">
+                {({ field, meta }: FieldProps) => (
+                  <TextField
+                    variant="outlined"
+                    margin="dense"
+                    id={`transaction-${action}-amount-input-${transactionId}`}
+                    type="number"
+                    label={`${label} (${getCurrencySymbol(currency)})`}
+                    inputProps={{
+                      min: 0,
+                      step: "any",
+                      "data-test": `transaction-${action}-amount-input-${transactionId}`,
+                    }}
+                    error={Boolean(meta.error)}
+                    helperText={meta.error}
+                    {...field}
+                  />
+                )}
+              </Field>
+            </Grid>
+            <Grid item>
+              <Button
+                type="submit"
+                variant="contained"
+                color="primary"
+                size="small"
+                disabled={!isValid || isSubmitting}
+                data-test={`transaction-${action}-submit-${transactionId}`}
+              >
+                {label}
+              </Button>
+            </Grid>
+          </Grid>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+export default TransactionAmountForm;
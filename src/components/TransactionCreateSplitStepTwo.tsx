@@ -0,0 +1,274 @@
+import React from "react";
+import { Formik, Form, Field, FieldProps, FormikErrors } from "formik";
+import {
+  Paper,
+  Typography,
+  Button,
+  Grid,
+  Container,
+  Avatar,
+  Box,
+  TextField,
+  MenuItem,
+  makeStyles,
+} from "@material-ui/core";
+import { AvatarGroup } from "@material-ui/lab";
+import { User, SplitMethod, SplitShare, CurrencyCode } from "../models";
+import { NumberFormatCustom } from "./TransactionCreateStepTwo";
+import { formatAmount, formatFullName } from "../utils/transactionUtils";
+import { getSplitShareAmounts, getSplitShareError } from "../utils/splitUtils";
+import { getCurrency, getCurrencySymbol } from "../utils/currencyUtils";
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "center",
+  },
+  form: {
+    width: "100%", // Fix IE 11 issue.
+    marginTop: theme.spacing(1),
+  },
+  submit: {
+    margin: theme.spacing(3, 0, 2),
+  },
+}));
+
+export interface TransactionCreateSplitStepTwoProps {
+  receivers: User[];
+  sender: User;
+  createTransaction: Function;
+  showSnackbar: Function;
+}
+
+interface FormValues {
+  amount: number | "";
+  description: string;
+  method: SplitMethod;
+  shares: { receiverId: string; value: number | "" }[];
+}
+
+const toSplitShares = (values: FormValues): SplitShare[] =>
+  values.shares.map(({ receiverId, value }) =>
+    values.method === SplitMethod.even
+      ? { receiverId }
+      : { receiverId, [values.method === SplitMethod.percentage ? "percentage" : "amount"]: +value }
+  );
+
+const validate = (values: FormValues, currency: CurrencyCode) => {
+  const errors: FormikErrors<FormValues> = {};
+
+  if (!(+values.amount > 0)) {
+    errors.amount = "Please enter a valid amount";
+  }
+  if (!values.description) {
+    errors.description = "Please enter a note";
+  }
+  if (!errors.amount) {
+    const shareError = getSplitShareError(
+      Math.round(+values.amount * 100),
+      values.method,
+      toSplitShares(values),
+      currency
+    );
+    if (shareError) {
+      // @ts-ignore
+      errors.shares = shareError;
+    }
+  }
+
+  return errors;
+};
+
+const TransactionCreateSplitStepTwo: React.FC<TransactionCreateSplitStepTwoProps> = ({
+  receivers,
+  sender,
+  createTransaction,
+  showSnackbar,
+}) => {
+  const classes = useStyles();
+  const initialValues: FormValues = {
+    amount: "",
+    description: "",
+    method: SplitMethod.even,
+    shares: receivers.map((receiver) => ({ receiverId: receiver.id, value: "" })),
+  };
+
+  return (
+    <Paper className={classes.paper} elevation={0}>
+      <Box display="flex" height={200} alignItems="center" justifyContent="center">
+        <Grid container direction="column" justify="flex-start" alignItems="center">
+          <Grid item>
+            <AvatarGroup max={4}>
+              {receivers.map((receiver) => (
+                <Avatar key={receiver.id} src={receiver.avatar} />
+              ))}
+            </AvatarGroup>
+          </Grid>
+          <Grid item>
+            <Typography component="h2" variant="h6" color="primary" gutterBottom>
+              Split with {receivers.length} people
+            </Typography>
+          </Grid>
+        </Grid>
+      </Box>
+      <Container maxWidth="xs">
+        <Formik
+          initialValues={initialValues}
+          validate={(values) => validate(values, getCurrency(sender))}
+          validateOnMount={true}
+          onSubmit={(values, { setSubmitting }) => {
+            setSubmitting(true);
+
+            createTransaction({
+              transactionType: "split",
+              senderId: sender.id,
+              amount: values.amount,
+              description: values.description,
+              method: values.method,
+              shares: toSplitShares(values),
+            });
+            showSnackbar({
+              severity: "success",
+              message: "Split Request Submitted!",
+            });
+          }}
+        >
+          {({ isValid, isSubmitting, values, errors }) => {
+            const shareAmounts = isValid
+              ? getSplitShareAmounts(
+                  Math.round(+values.amount * 100),
+                  values.method,
+                  toSplitShares(values)
+                )
+              : [];
+
+            return (
+              <Form className={classes.form} data-test="transaction-split-form">
+                <Field name="amount">
+                  {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
+                    <TextField
+                      variant="outlined"
+                      margin="dense"
+                      fullWidth
+                      required
+                      autoFocus
+                      id={"transaction-split-amount-input"}
+                      type="text"
+                      placeholder="Total amount"
+                      data-test={"transaction-split-amount-input"}
+                      error={(touched || value !== initialValue) && Boolean(error)}
+                      helperText={touched || value !== initialValue ? error : ""}
+                      InputProps={{
+                        inputComponent: NumberFormatCustom as any,
+                        inputProps: { id: "amount", currency: getCurrency(sender) },
+                      }}
+                      {...field}
+                    />
+                  )}
+                </Field>
+                <Field name="description">
+                  {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
+                    <TextField
+                      variant="outlined"
+                      margin="dense"
+                      fullWidth
+                      required
+                      id={"transaction-split-description-input"}
+                      type="text"
+                      placeholder="Add a note"
+                      data-test={"transaction-split-description-input"}
+                      error={(touched || value !== initialValue) && Boolean(error)}
+                      helperText={touched || value !== initialValue ? error : ""}
+                      {...field}
+                    />
+                  )}
+                </Field>
+                <Field name="method">
+                  {({ field }: FieldProps) => (
+                    <TextField
+                      variant="outlined"
+                      margin="dense"
+                      fullWidth
+                      select
+                      id={"transaction-split-method-input"}
+                      label="Split"
+                      data-test={"transaction-split-method-input"}
+                      {...field}
+                    >
+                      <MenuItem value={SplitMethod.even}>Evenly</MenuItem>
+                      <MenuItem value={SplitMethod.percentage}>By percentage</MenuItem>
+                      <MenuItem value={SplitMethod.custom}>By amount</MenuItem>
+                    </TextField>
+                  )}
+                </Field>
+                {receivers.map((receiver, index) => (
+                  <Grid
+                    key={receiver.id}
+                    container
+                    direction="row"
+                    justify="space-between"
+                    alignItems="center"
+                    data-test={`transaction-split-share-${receiver.id}`}
+                  >
+                    <Grid item>
+                      <Typography variant="body2">{formatFullName(receiver)}</Typography>
+                    </Grid>
+                    <Grid item>
+                      {values.method === SplitMethod.even ? (
+                        <Typography variant="body2" color="textSecondary">
+                          {shareAmounts[index]
+                            ? formatAmount(shareAmounts[index], getCurrency(sender))
+                            : "-"}
+                        </Typography>
+                      ) : (
+                        <Field name={`shares[${index}].value`}>
+                          {({ field }: FieldProps) => (
+                            <TextField
+                              margin="dense"
+                              type="number"
+                              placeholder={
+                                values.method === SplitMethod.percentage
+                                  ? "%"
+                                  : getCurrencySymbol(getCurrency(sender))
+                              }
+                              inputProps={{ min: 0, step: "any" }}
+                              data-test={`transaction-split-share-input-${receiver.id}`}
+                              {...field}
+                            />
+                          )}
+                        </Field>
+                      )}
+                    </Grid>
+                  </Grid>
+                ))}
+                {values.amount && errors.shares && (
+                  <Typography variant="body2" color="error" data-test="transaction-split-error">
+                    {errors.shares}
+                  </Typography>
+                )}
+                <Grid container spacing={2} direction="row" justify="center" alignItems="center">
+                  <Grid item>
+                    <Button
+                      type="submit"
+                      fullWidth
+                      variant="contained"
+                      color="primary"
+                      className={classes.submit}
+                      data-test="transaction-split-submit"
+                      disabled={!isValid || isSubmitting}
+                    >
+                      Request
+                    </Button>
+                  </Grid>
+                </Grid>
+              </Form>
+            );
+          }}
+        </Formik>
+      </Container>
+    </Paper>
+  );
+};
+
+export default TransactionCreateSplitStepTwo;
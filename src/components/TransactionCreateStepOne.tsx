@@ -1,5 +1,6 @@
-import React from "react";
-import { makeStyles, Paper } from "@material-ui/core";
+import React, { useState } from "react";
+import { reject } from "lodash/fp";
+import { makeStyles, Paper, Grid, Button, FormControlLabel, Switch } from "@material-ui/core";
 import UsersList from "./UsersList";
 import { User } from "../models";
 import UserListSearchForm from "./UserListSearchForm";
@@ -16,21 +17,68 @@ const useStyles = makeStyles((theme) => ({
 
 export interface TransactionCreateStepOneProps {
   setReceiver: Function;
+  setReceivers: Function;
   userListSearch: Function;
   users: User[];
 }
 
 const TransactionCreateStepOne: React.FC<TransactionCreateStepOneProps> = ({
   setReceiver,
+  setReceivers,
   userListSearch,
   users,
 }) => {
   const classes = useStyles();
+  const [isSplit, setIsSplit] = useState(false);
+  const [selectedUsers, setSelectedUsers] = useState<User[]>([]);
+
+  const toggleSelectedUser = (user: User) =>
+    setSelectedUsers(
+      selectedUsers.some(({ id }) => id === user.id)
+        ? reject({ id: user.id }, selectedUsers)
+        : [...selectedUsers, user]
+    );
 
   return (
     <Paper className={classes.paper} elevation={0}>
       <UserListSearchForm userListSearch={userListSearch} />
-      <UsersList users={users} setReceiver={setReceiver} />
+      <Grid container direction="row" justify="space-between" alignItems="center">
+        <Grid item>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={isSplit}
+                onChange={() => {
+                  setIsSplit(!isSplit);
+                  setSelectedUsers([]);
+                }}
+                color="primary"
+                data-test="user-list-split-toggle"
+              />
+            }
+            label="Split a request"
+          />
+        </Grid>
+        {isSplit && (
+          <Grid item>
+            <Button
+              variant="contained"
+              color="primary"
+              size="small"
+              disabled={selectedUsers.length < 2}
+              onClick={() => setReceivers(selectedUsers)}
+              data-test="user-list-split-next"
+            >
+              Next ({selectedUsers.length} selected)
+            </Button>
+          </Grid>
+        )}
+      </Grid>
+      <UsersList
+        users={users}
+        setReceiver={isSplit ? toggleSelectedUser : setReceiver}
+        selectedUserIds={selectedUsers.map(({ id }) => id)}
+      />
     </Paper>
   );
 };
@@ -14,7 +14,9 @@ import {
   CreateTransactionMachineSchema,
 } from "../machines/createTransactionMachine";
 import { useActor } from "@xstate/react";
+import { User } from "../models";
 import { formatAmount } from "../utils/transactionUtils";
+import { getCurrency } from "../utils/currencyUtils";
 
 const useStyles = makeStyles((theme) => ({
   paper: {
@@ -46,7 +48,9 @@ const TransactionCreateStepThree: React.FC<TransactionCreateStepThreeProps> = ({
   const classes = useStyles();
   const [createTransactionState, sendCreateTransaction] = useActor(createTransactionService);
 
+  const sender = createTransactionState?.context?.sender;
   const receiver = createTransactionState?.context?.receiver;
+  const receivers = createTransactionState?.context?.receivers || [receiver];
   const transactionDetails = createTransactionState?.context?.transactionDetails;
 
   return (
@@ -60,18 +64,20 @@ const TransactionCreateStepThree: React.FC<TransactionCreateStepThreeProps> = ({
         style={{ paddingTop: "5%" }}
       >
         <Grid container direction="row" justify="space-around" alignItems="center" spacing={4}>
-          <Grid item>
-            <Grid container direction="column" justify="flex-start" alignItems="center">
-              <Grid item>
-                <Avatar src={receiver.avatar} />
-              </Grid>
-              <Grid item>
-                <Typography component="h2" variant="h6" color="primary" gutterBottom>
-                  {receiver.firstName} {receiver.lastName}
-                </Typography>
+          {receivers.map((receiver: User) => (
+            <Grid item key={receiver.id}>
+              <Grid container direction="column" justify="flex-start" alignItems="center">
+                <Grid item>
+                  <Avatar src={receiver.avatar} />
+                </Grid>
+                <Grid item>
+                  <Typography component="h2" variant="h6" color="primary" gutterBottom>
+                    {receiver.firstName} {receiver.lastName}
+                  </Typography>
+                </Grid>
               </Grid>
             </Grid>
-          </Grid>
+          ))}
         </Grid>
       </Box>
       <Box
@@ -86,7 +92,10 @@ const TransactionCreateStepThree: React.FC<TransactionCreateStepThreeProps> = ({
             <Typography component="h2" variant="h6" color="primary" gutterBottom>
               {transactionDetails?.transactionType === "payment" ? "Paid " : "Requested "}
               {transactionDetails?.amount &&
-                formatAmount(parseInt(transactionDetails.amount, 10) * 100)}{" "}
+                formatAmount(
+                  parseInt(transactionDetails.amount, 10) * 100,
+                  getCurrency(sender)
+                )}{" "}
               for {transactionDetails?.description}
             </Typography>
           </Grid>
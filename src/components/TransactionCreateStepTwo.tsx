@@ -1,7 +1,8 @@
 import React, { useState } from "react";
 import NumberFormat from "react-number-format";
 import { Formik, Form, Field, FieldProps } from "formik";
-import { string, object, number } from "yup";
+import { string, object, number, array } from "yup";
+import { v4 } from "uuid";
 import {
   Paper,
   Typography,
@@ -11,17 +12,55 @@ import {
   Avatar,
   Box,
   TextField,
+  MenuItem,
   makeStyles,
 } from "@material-ui/core";
-import { User } from "../models";
+import { User, ScheduleFrequency, CurrencyCode, PaymentLinkResponseItem } from "../models";
+import { getCurrency, getCurrencySymbol } from "../utils/currencyUtils";
+import TransactionLineItemFields, {
+  LineItemValues,
+  toLineItemPayloads,
+  getLineItemValuesTotal,
+} from "./TransactionLineItemFields";
 
+// an itemized request's amount is the total of its line items
 const validationSchema = object({
-  amount: number().required("Please enter a valid amount"),
+  amount: number().when("lineItems", {
+    is: (lineItems: LineItemValues[]) => lineItems.length > 0,
+    then: number(),
+    otherwise: number().required("Please enter a valid amount"),
+  }),
   description: string().required("Please enter a note"),
   senderId: string(),
   receiverId: string(),
+  lineItems: array().of(
+    object({
+      name: string().trim().required("Please enter an item"),
+      quantity: number()
+        .typeError("Please enter a valid quantity")
+        .positive("Please enter a valid quantity")
+        .required("Please enter a valid quantity"),
+      unitPrice: number()
+        .typeError("Please enter a valid price")
+        .min(0, "Please enter a valid price")
+        .required("Please enter a valid price"),
+      taxRate: number()
+        .typeError("Please enter a valid tax rate")
+        .min(0, "Please enter a valid tax rate")
+        .max(100, "Please enter a valid tax rate"),
+    })
+  ),
 });
 
+// Repeating payments are created as schedules whose first payment is made today
+const repeatOptions: {
+  [key: string]: { label: string; frequency: ScheduleFrequency; interval: number };
+} = {
+  weekly: { label: "Every week", frequency: ScheduleFrequency.weekly, interval: 1 },
+  biweekly: { label: "Every 2 weeks", frequency: ScheduleFrequency.weekly, interval: 2 },
+  monthly: { label: "Every month", frequency: ScheduleFrequency.monthly, interval: 1 },
+};
+
 const useStyles = makeStyles((theme) => ({
   paper: {
     //marginTop: theme.spacing(2),
@@ -41,10 +80,11 @@ const useStyles = makeStyles((theme) => ({
 interface NumberFormatCustomProps {
   inputRef: (el: HTMLInputElement) => void;
   onChange: (event: { target: { value: string } }) => void;
+  currency?: CurrencyCode;
 }
 
-function NumberFormatCustom(props: NumberFormatCustomProps) {
-  const { inputRef, onChange, ...other } = props;
+export function NumberFormatCustom(props: NumberFormatCustomProps) {
+  const { inputRef, onChange, currency, ...other } = props;
 
   return (
     <NumberFormat
@@ -60,7 +100,7 @@ function NumberFormatCustom(props: NumberFormatCustomProps) {
       }}
       thousandSeparator
       isNumericString
-      prefix="$"
+      prefix={getCurrencySymbol(currency)}
     />
   );
 }
@@ -68,6 +108,7 @@ function NumberFormatCustom(props: NumberFormatCustomProps) {
 export interface TransactionCreateStepTwoProps {
   receiver: User;
   sender: User;
+  paymentLink?: PaymentLinkResponseItem;
   createTransaction: Function;
   showSnackbar: Function;
 }
@@ -77,21 +118,35 @@ interface FormValues {
   description: string;
   senderId: string;
   receiverId: string;
+  repeat: string;
+  endDate: string;
+  lineItems: LineItemValues[];
 }
 
 const TransactionCreateStepTwo: React.FC<TransactionCreateStepTwoProps> = ({
   receiver,
   sender,
+  paymentLink,
   createTransaction,
   showSnackbar,
 }) => {
   const classes = useStyles();
   const [transactionType, setTransactionType] = useState<string>();
+  // sent with the payment or request, so that a double submit creates a single transaction
+  const [idempotencyKey] = useState(v4);
+  // a preset amount is only filled in when it is in the currency the sender pays in
+  const presetAmount =
+    paymentLink?.amount && paymentLink.currency === getCurrency(sender)
+      ? paymentLink.amount / 100
+      : "";
   const initialValues: FormValues = {
-    amount: "",
-    description: "",
+    amount: presetAmount,
+    description: paymentLink?.description || "",
     senderId: sender.id,
     receiverId: receiver.id,
+    repeat: "",
+    endDate: "",
+    lineItems: [],
   };
 
   return (
@@ -120,37 +175,61 @@ const TransactionCreateStepTwo: React.FC<TransactionCreateStepTwoProps> = ({
             // reset transactionType
             setTransactionType(undefined);
 
-            createTransaction({ transactionType, ...values });
+            const { repeat, endDate, lineItems, ...transactionValues } = values;
+            const repeatOption = repeatOptions[repeat];
+
+            createTransaction(
+              lineItems.length > 0
+                ? {
+                    transactionType,
+                    ...transactionValues,
+                    amount: getLineItemValuesTotal(lineItems) / 100,
+                    lineItems: toLineItemPayloads(lineItems),
+                    idempotencyKey,
+                  }
+                : repeatOption
+                ? {
+                    transactionType,
+                    ...transactionValues,
+                    frequency: repeatOption.frequency,
+                    interval: repeatOption.interval,
+                    startDate: new Date().toISOString(),
+                    endDate: endDate || undefined,
+                  }
+                : { transactionType, ...transactionValues, idempotencyKey }
+            );
             showSnackbar({
               severity: "success",
               message: "Transaction Submitted!",
             });
           }}
         >
-          {({ isValid, isSubmitting }) => (
+          {({ isValid, isSubmitting, values }) => (
             <Form className={classes.form} data-test="transaction-create-form">
-              <Field name="amount">
-                {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
-                  <TextField
-                    variant="outlined"
-                    margin="dense"
-                    fullWidth
-                    required
-                    autoFocus
-                    id={"transaction-create-amount-input"}
-                    type="text"
-                    placeholder="Amount"
-                    data-test={"transaction-create-amount-input"}
-                    error={(touched || value !== initialValue) && Boolean(error)}
-                    helperText={touched || value !== initialValue ? error : ""}
-                    InputProps={{
-                      inputComponent: NumberFormatCustom as any,
-                      inputProps: { id: "amount" },
-                    }}
-                    {...field}
-                  />
-                )}
-              </Field>
+              {values.lineItems.length === 0 && (
+                <Field name="amount">
+                  {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
+                    <TextField
+                      variant="outlined"
+                      margin="dense"
+                      fullWidth
+                      required
+                      autoFocus
+                      id={"transaction-create-amount-input"}
+                      type="text"
+                      placeholder="Amount"
+                      data-test={"transaction-create-amount-input"}
+                      error={(touched || value !== initialValue) && Boolean(error)}
+                      helperText={touched || value !== initialValue ? error : ""}
+                      InputProps={{
+                        inputComponent: NumberFormatCustom as any,
+                        inputProps: { id: "amount", currency: getCurrency(sender) },
+                      }}
+                      {...field}
+                    />
+                  )}
+                </Field>
+              )}
               <Field name="description">
                 {({ field, meta: { error, value, initialValue, touched } }: FieldProps) => (
                   <TextField
@@ -168,6 +247,56 @@ const TransactionCreateStepTwo: React.FC<TransactionCreateStepTwoProps> = ({
                   />
                 )}
               </Field>
+              {!values.repeat && (
+                <TransactionLineItemFields
+                  lineItems={values.lineItems}
+                  currency={getCurrency(sender)}
+                />
+              )}
+              {values.lineItems.length === 0 && (
+                <Field name="repeat">
+                  {({ field }: FieldProps) => (
+                    <TextField
+                      variant="outlined"
+                      margin="dense"
+                      fullWidth
+                      select
+                      id={"transaction-create-repeat-input"}
+                      label="Repeat"
+                      data-test={"transaction-create-repeat-input"}
+                      {...field}
+                    >
+                      <MenuItem value="">Does not repeat</MenuItem>
+                      {Object.entries(repeatOptions).map(([value, { label }]) => (
+                        <MenuItem
+                          key={value}
+                          value={value}
+                          data-test={`transaction-create-repeat-${value}`}
+                        >
+                          {label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                </Field>
+              )}
+              {values.repeat && (
+                <Field name="endDate">
+                  {({ field }: FieldProps) => (
+                    <TextField
+                      variant="outlined"
+                      margin="dense"
+                      fullWidth
+                      id={"transaction-create-end-date-input"}
+                      type="date"
+                      label="Until (optional)"
+                      InputLabelProps={{ shrink: true }}
+                      data-test={"transaction-create-end-date-input"}
+                      {...field}
+                    />
+                  )}
+                </Field>
+              )}
               <Grid container spacing={2} direction="row" justify="center" alignItems="center">
                 <Grid item>
                   <Button
@@ -177,7 +306,7 @@ const TransactionCreateStepTwo: React.FC<TransactionCreateStepTwoProps> = ({
                     color="primary"
                     className={classes.submit}
                     data-test="transaction-create-submit-request"
-                    disabled={!isValid || isSubmitting}
+                    disabled={!isValid || isSubmitting || Boolean(values.repeat)}
                     onClick={() => setTransactionType("request")}
                   >
                     Request
@@ -191,7 +320,7 @@ const TransactionCreateStepTwo: React.FC<TransactionCreateStepTwoProps> = ({
                     color="primary"
                     className={classes.submit}
                     data-test="transaction-create-submit-payment"
-                    disabled={!isValid || isSubmitting}
+                    disabled={!isValid || isSubmitting || values.lineItems.length > 0}
                     onClick={() => setTransactionType("payment")}
                   >
                     Pay
@@ -1,17 +1,52 @@
-import React from "react";
-import { Button, Typography, Grid, Avatar, Paper, IconButton, makeStyles } from "@material-ui/core";
+import React, { useState } from "react";
+import {
+  Button,
+  Typography,
+  Grid,
+  Avatar,
+  Paper,
+  IconButton,
+  Link,
+  LinearProgress,
+  makeStyles,
+} from "@material-ui/core";
+import { Link as RouterLink } from "react-router-dom";
+import { isEmpty } from "lodash/fp";
 import { AvatarGroup } from "@material-ui/lab";
-import { ThumbUpAltOutlined as LikeIcon, CommentRounded as CommentIcon } from "@material-ui/icons";
-import { TransactionResponseItem, TransactionRequestStatus, User } from "../models";
+import { format as formatDate } from "date-fns";
+import { v4 } from "uuid";
+import {
+  ThumbUpAltOutlined as LikeIcon,
+  CommentRounded as CommentIcon,
+  Undo as UndoIcon,
+  Payment as PaymentIcon,
+  Gavel as GavelIcon,
+  LocalOffer as LocalOfferIcon,
+  Receipt as ReceiptIcon,
+} from "@material-ui/icons";
+import { TransactionResponseItem, TransactionRequestStatus, User, RiskOutcome } from "../models";
 import CommentForm from "./CommentForm";
+import TransactionAmountForm from "./TransactionAmountForm";
+import LinkedTransactionList from "./LinkedTransactionList";
 import {
   isPendingRequestTransaction,
+  isIncompleteTransaction,
   receiverIsCurrentUser,
+  senderIsCurrentUser,
+  isCancelledRequestTransaction,
   currentUserLikesTransaction,
+  formatAmount,
+  getTransactionPayeeId,
 } from "../utils/transactionUtils";
+import { formatScheduleFrequency } from "../utils/scheduleUtils";
+import { getCurrency, isCrossCurrencyTransaction } from "../utils/currencyUtils";
 import CommentsList from "./CommentList";
 import TransactionTitle from "./TransactionTitle";
 import TransactionAmount from "./TransactionAmount";
+import TransactionDispute from "./TransactionDispute";
+import TransactionLabels from "./TransactionLabels";
+import TransactionInvoice from "./TransactionInvoice";
+import { isDisputableTransaction, isTransactionParty } from "../utils/disputeUtils";
 
 const useStyles = makeStyles((theme) => ({
   paper: {
@@ -75,6 +110,12 @@ type TransactionProps = {
   transactionLike: Function;
   transactionComment: Function;
   transactionUpdate: Function;
+  transactionRefund: Function;
+  transactionPayment: Function;
+  transactionDispute: Function;
+  transactionDisputeMessage: Function;
+  transactionDisputeUpdate: Function;
+  transactionLabel: Function;
   currentUser: User;
 };
 
@@ -83,9 +124,24 @@ const TransactionDetail: React.FC<TransactionProps> = ({
   transactionLike,
   transactionComment,
   transactionUpdate,
+  transactionRefund,
+  transactionPayment,
+  transactionDispute,
+  transactionDisputeMessage,
+  transactionDisputeUpdate,
+  transactionLabel,
   currentUser,
 }) => {
   const classes = useStyles();
+  // one key per visit, so that repeated clicks accept or reject a request only once
+  const [idempotencyKey] = useState(v4);
+  const canRefund =
+    getTransactionPayeeId(transaction) === currentUser.id && transaction.refundableAmount! > 0;
+  const canPayPart =
+    receiverIsCurrentUser(currentUser, transaction) && transaction.payableAmount! > 0;
+  const showDispute =
+    !!transaction.dispute ||
+    (isTransactionParty(currentUser.id, transaction) && isDisputableTransaction(transaction));
 
   return (
     <Paper className={classes.paper}>
@@ -133,6 +189,120 @@ const TransactionDetail: React.FC<TransactionProps> = ({
                 {transaction.description}
               </Typography>
             </Grid>
+            {transaction.refundOf && (
+              <Grid item>
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  gutterBottom
+                  data-test="transaction-refund-of"
+                >
+                  Refund of{" "}
+                  <Link component={RouterLink} to={`/transaction/${transaction.refundOf}`}>
+                    an earlier transaction
+                  </Link>
+                </Typography>
+              </Grid>
+            )}
+            {isCrossCurrencyTransaction(transaction) && (
+              <Grid item>
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  gutterBottom
+                  data-test="transaction-exchange"
+                >
+                  {formatAmount(transaction.receiverAmount!, transaction.receiverCurrency)} at 1{" "}
+                  {getCurrency(transaction)} = {transaction.exchangeRate}{" "}
+                  {transaction.receiverCurrency}
+                </Typography>
+              </Grid>
+            )}
+            {transaction.split && (
+              <Grid item>
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  gutterBottom
+                  data-test="transaction-split-summary"
+                >
+                  Split of {formatAmount(transaction.split.amount, getCurrency(transaction.split))}{" "}
+                  between {transaction.split.requestCount} people &middot;{" "}
+                  {transaction.split.pendingCount} pending &middot; {transaction.split.settledCount}{" "}
+                  settled
+                  {transaction.split.declinedCount > 0 &&
+                    ` · ${transaction.split.declinedCount} declined`}
+                </Typography>
+              </Grid>
+            )}
+            {transaction.schedule && (
+              <Grid item>
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  gutterBottom
+                  data-test="transaction-schedule"
+                >
+                  Scheduled payment &middot; {formatScheduleFrequency(transaction.schedule)}
+                </Typography>
+              </Grid>
+            )}
+            {(transaction.riskOutcome === RiskOutcome.hold ||
+              transaction.riskOutcome === RiskOutcome.block) && (
+              <Grid item>
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  gutterBottom
+                  data-test="transaction-risk-outcome"
+                >
+                  {transaction.riskOutcome === RiskOutcome.hold
+                    ? "Payment held for review"
+                    : "Payment blocked"}
+                </Typography>
+              </Grid>
+            )}
+            {isPendingRequestTransaction(transaction) && transaction.requestExpiresAt && (
+              <Grid item>
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  gutterBottom
+                  data-test="transaction-request-expiry"
+                >
+                  {isIncompleteTransaction(transaction)
+                    ? "Request expired"
+                    : `Request expires ${formatDate(
+                        new Date(transaction.requestExpiresAt),
+                        "MMM d, yyyy"
+                      )}`}
+                </Typography>
+              </Grid>
+            )}
+            {!isEmpty(transaction.requestPayments) && (
+              <Grid item data-test="transaction-request-progress">
+                <Typography variant="body2" color="textSecondary" gutterBottom>
+                  {formatAmount(transaction.paidAmount!, getCurrency(transaction))} of{" "}
+                  {formatAmount(transaction.amount, getCurrency(transaction))} paid
+                </Typography>
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(100, (transaction.paidAmount! / transaction.amount) * 100)}
+                />
+              </Grid>
+            )}
+            {isCancelledRequestTransaction(transaction) && (
+              <Grid item>
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  gutterBottom
+                  data-test="transaction-request-cancelled"
+                >
+                  Request cancelled by {transaction.senderName}
+                </Typography>
+              </Grid>
+            )}
           </Grid>
         </Grid>
         <Grid item>
@@ -157,7 +327,8 @@ const TransactionDetail: React.FC<TransactionProps> = ({
             </Grid>
             <Grid item>
               {receiverIsCurrentUser(currentUser, transaction) &&
-                isPendingRequestTransaction(transaction) && (
+                isPendingRequestTransaction(transaction) &&
+                !isIncompleteTransaction(transaction) && (
                   <Grid item>
                     <Button
                       className={classes.greenButton}
@@ -167,12 +338,37 @@ const TransactionDetail: React.FC<TransactionProps> = ({
                         transactionUpdate({
                           id: transaction.id,
                           requestStatus: TransactionRequestStatus.accepted,
+                          idempotencyKey,
                         })
                       }
                       data-test={`transaction-accept-request-${transaction.id}`}
                     >
                       Accept Request
                     </Button>
+                    {isEmpty(transaction.requestPayments) && (
+                      <Button
+                        variant="contained"
+                        className={classes.redButton}
+                        size="small"
+                        onClick={() =>
+                          transactionUpdate({
+                            id: transaction.id,
+                            requestStatus: TransactionRequestStatus.rejected,
+                            idempotencyKey,
+                          })
+                        }
+                        data-test={`transaction-reject-request-${transaction.id}`}
+                      >
+                        Reject Request
+                      </Button>
+                    )}
+                  </Grid>
+                )}
+              {senderIsCurrentUser(currentUser, transaction) &&
+                isPendingRequestTransaction(transaction) &&
+                !isIncompleteTransaction(transaction) &&
+                isEmpty(transaction.requestPayments) && (
+                  <Grid item>
                     <Button
                       variant="contained"
                       className={classes.redButton}
@@ -180,17 +376,44 @@ const TransactionDetail: React.FC<TransactionProps> = ({
                       onClick={() =>
                         transactionUpdate({
                           id: transaction.id,
-                          requestStatus: TransactionRequestStatus.rejected,
+                          requestStatus: TransactionRequestStatus.cancelled,
+                          idempotencyKey,
                         })
                       }
-                      data-test={`transaction-reject-request-${transaction.id}`}
+                      data-test={`transaction-cancel-request-${transaction.id}`}
                     >
-                      Reject Request
+                      Cancel Request
                     </Button>
                   </Grid>
                 )}
             </Grid>
           </Grid>
+          {canRefund && (
+            <Grid item>
+              <TransactionAmountForm
+                action="refund"
+                label="Refund"
+                transactionId={transaction.id}
+                maxAmount={transaction.refundableAmount!}
+                balance={currentUser.balance}
+                currency={getCurrency(currentUser)}
+                onSubmit={(payload) => transactionRefund(payload)}
+              />
+            </Grid>
+          )}
+          {canPayPart && (
+            <Grid item>
+              <TransactionAmountForm
+                action="payment"
+                label="Pay"
+                transactionId={transaction.id}
+                maxAmount={transaction.payableAmount!}
+                balance={currentUser.balance}
+                currency={getCurrency(currentUser)}
+                onSubmit={(payload) => transactionPayment(payload)}
+              />
+            </Grid>
+          )}
           <Grid item>
             <CommentForm
               transactionId={transaction.id}
@@ -199,6 +422,52 @@ const TransactionDetail: React.FC<TransactionProps> = ({
           </Grid>
         </Grid>
       </Grid>
+      {!isEmpty(transaction.lineItems) && (
+        <Paper className={classes.paperComments} data-test="transaction-invoice-section">
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            <ReceiptIcon /> Invoice
+          </Typography>
+          <TransactionInvoice lineItems={transaction.lineItems!} currency={transaction.currency} />
+        </Paper>
+      )}
+      {transaction.refunds && transaction.refunds.length > 0 && (
+        <Paper className={classes.paperComments} data-test="transaction-refunds">
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            <UndoIcon /> Refunds
+          </Typography>
+          <LinkedTransactionList transactions={transaction.refunds} />
+        </Paper>
+      )}
+      {!isEmpty(transaction.requestPayments) && (
+        <Paper className={classes.paperComments} data-test="transaction-request-payments">
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            <PaymentIcon /> Payments
+          </Typography>
+          <LinkedTransactionList transactions={transaction.requestPayments!} />
+        </Paper>
+      )}
+      {isTransactionParty(currentUser.id, transaction) && (
+        <Paper className={classes.paperComments} data-test="transaction-labels-section">
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            <LocalOfferIcon /> Category & Tags
+          </Typography>
+          <TransactionLabels transaction={transaction} transactionLabel={transactionLabel} />
+        </Paper>
+      )}
+      {showDispute && (
+        <Paper className={classes.paperComments} data-test="transaction-dispute-section">
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            <GavelIcon /> Dispute
+          </Typography>
+          <TransactionDispute
+            transaction={transaction}
+            currentUser={currentUser}
+            transactionDispute={transactionDispute}
+            transactionDisputeMessage={transactionDisputeMessage}
+            transactionDisputeUpdate={transactionDisputeUpdate}
+          />
+        </Paper>
+      )}
       {transaction.comments.length > 0 && (
         <Paper className={classes.paperComments}>
           <Typography component="h2" variant="h6" color="primary" gutterBottom>
@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import {
+  makeStyles,
+  Button,
+  Chip,
+  Grid,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { format as formatDate } from "date-fns";
+import { DisputeStatus, TransactionResponseItem, User } from "../models";
+import {
+  disputeReasonLabels,
+  disputeStatusLabels,
+  getAvailableDisputeStatuses,
+  isDisputableTransaction,
+  isResolvedDispute,
+  isTransactionParty,
+} from "../utils/disputeUtils";
+import DisputeForm from "./DisputeForm";
+
+const useStyles = makeStyles((theme) => ({
+  actions: {
+    marginTop: theme.spacing(1),
+  },
+}));
+
+const statusActionLabels: { [status in DisputeStatus]?: string } = {
+  underReview: "Start Review",
+  resolvedRefund: "Refund",
+  resolvedNoAction: "Close Without Action",
+};
+
+export interface TransactionDisputeProps {
+  transaction: TransactionResponseItem;
+  currentUser: User;
+  transactionDispute: Function;
+  transactionDisputeMessage: Function;
+  transactionDisputeUpdate: Function;
+}
+
+const TransactionDispute: React.FC<TransactionDisputeProps> = ({
+  transaction,
+  currentUser,
+  transactionDispute,
+  transactionDisputeMessage,
+  transactionDisputeUpdate,
+}) => {
+  const classes = useStyles();
+  const [showForm, setShowForm] = useState(false);
+  const { dispute } = transaction;
+  const canOpenDispute =
+    isTransactionParty(currentUser.id, transaction) &&
+    isDisputableTransaction(transaction) &&
+    (!dispute || isResolvedDispute(dispute));
+
+  return (
+    <>
+      {dispute && (
+        <div data-test="transaction-dispute">
+          <Typography variant="body1" gutterBottom>
+            {dispute.userFullName} disputed this transaction: {disputeReasonLabels[dispute.reason]}{" "}
+            <Chip
+              size="small"
+              color={isResolvedDispute(dispute) ? "default" : "secondary"}
+              label={disputeStatusLabels[dispute.status]}
+              data-test="transaction-dispute-status"
+            />
+          </Typography>
+          <List dense>
+            {dispute.messages.map((message) => (
+              <ListItem key={message.id} data-test={`transaction-dispute-message-${message.id}`}>
+                <ListItemText
+                  primary={message.content}
+                  secondary={`${message.userFullName} · ${formatDate(
+                    new Date(message.createdAt),
+                    "MMM d, yyyy"
+                  )}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+          {!isResolvedDispute(dispute) && (
+            <Formik
+              initialValues={{ content: "" }}
+              onSubmit={(values, { resetForm }) => {
+                if (values.content.trim()) {
+                  transactionDisputeMessage({ disputeId: dispute.id, ...values });
+                }
+                resetForm();
+              }}
+            >
+              {() => (
+                <Form>
+                  <Field name="content">
+                    {({ field }: FieldProps) => (
+                      <TextField
+                        variant="outlined"
+                        margin="dense"
+                        fullWidth
+                        id="transaction-dispute-reply-input"
+                        type="text"
+                        placeholder="Reply..."
+                        inputProps={{ "data-test": "transaction-dispute-reply-input" }}
+                        {...field}
+                      />
+                    )}
+                  </Field>
+                </Form>
+              )}
+            </Formik>
+          )}
+          <Grid container spacing={1} className={classes.actions}>
+            {getAvailableDisputeStatuses(dispute, transaction, currentUser.id).map((status) => (
+              <Grid item key={status}>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="small"
+                  data-test={`transaction-dispute-${status}`}
+                  onClick={() => transactionDisputeUpdate({ disputeId: dispute.id, status })}
+                >
+                  {statusActionLabels[status]}
+                </Button>
+              </Grid>
+            ))}
+          </Grid>
+        </div>
+      )}
+      {canOpenDispute && !showForm && (
+        <Button
+          color="primary"
+          size="small"
+          data-test="transaction-dispute-open"
+          onClick={() => setShowForm(true)}
+        >
+          Report a problem
+        </Button>
+      )}
+      {canOpenDispute && showForm && (
+        <DisputeForm
+          transactionId={transaction.id}
+          transactionDispute={(payload) => transactionDispute(payload)}
+        />
+      )}
+    </>
+  );
+};
+
+export default TransactionDispute;
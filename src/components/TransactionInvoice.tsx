@@ -0,0 +1,58 @@
+import React from "react";
+import { Table, TableBody, TableCell, TableHead, TableRow, TableFooter } from "@material-ui/core";
+
+import { CurrencyCode, TransactionLineItem } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import { getLineItemsSubtotal, getLineItemsTax, getLineItemsTotal } from "../utils/lineItemUtils";
+
+export interface TransactionInvoiceProps {
+  lineItems: TransactionLineItem[];
+  currency: CurrencyCode;
+}
+
+const TransactionInvoice: React.FC<TransactionInvoiceProps> = ({ lineItems, currency }) => {
+  const totalRow = (label: string, amount: number, dataTest: string) => (
+    <TableRow>
+      <TableCell colSpan={4} align="right">
+        {label}
+      </TableCell>
+      <TableCell align="right" data-test={dataTest}>
+        {formatAmount(amount, currency)}
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Table size="small" data-test="transaction-invoice">
+      <TableHead>
+        <TableRow>
+          <TableCell>Item</TableCell>
+          <TableCell align="right">Qty</TableCell>
+          <TableCell align="right">Unit price</TableCell>
+          <TableCell align="right">Tax</TableCell>
+          <TableCell align="right">Amount</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {lineItems.map((lineItem, index) => (
+          <TableRow key={index} data-test={`transaction-invoice-line-${index}`}>
+            <TableCell>{lineItem.name}</TableCell>
+            <TableCell align="right">{lineItem.quantity}</TableCell>
+            <TableCell align="right">{formatAmount(lineItem.unitPrice, currency)}</TableCell>
+            <TableCell align="right">{lineItem.taxRate ? `${lineItem.taxRate}%` : "-"}</TableCell>
+            <TableCell align="right">
+              {formatAmount(lineItem.subtotal + lineItem.tax, currency)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        {totalRow("Subtotal", getLineItemsSubtotal(lineItems), "transaction-invoice-subtotal")}
+        {totalRow("Tax", getLineItemsTax(lineItems), "transaction-invoice-tax")}
+        {totalRow("Total", getLineItemsTotal(lineItems), "transaction-invoice-total")}
+      </TableFooter>
+    </Table>
+  );
+};
+
+export default TransactionInvoice;
@@ -12,11 +12,13 @@ import {
   Theme,
   createStyles,
   makeStyles,
+  Chip,
 } from "@material-ui/core";
 import { ThumbUpAltOutlined as LikeIcon, CommentRounded as CommentIcon } from "@material-ui/icons";
 import { TransactionResponseItem } from "../models";
 import TransactionTitle from "./TransactionTitle";
 import TransactionAmount from "./TransactionAmount";
+import { categoryLabels } from "../utils/categoryUtils";
 
 const useStyles = makeStyles((theme) => ({
   root: {
@@ -121,6 +123,16 @@ const TransactionItem: React.FC<TransactionProps> = ({ transaction }) => {
                       {transaction.comments.length}
                     </Typography>
                   </Grid>
+                  {transaction.category && (
+                    <Grid item>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={categoryLabels[transaction.category]}
+                        data-test="transaction-category"
+                      />
+                    </Grid>
+                  )}
                 </Grid>
               </Grid>
             </Grid>
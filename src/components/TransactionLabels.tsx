@@ -0,0 +1,118 @@
+import React from "react";
+import { makeStyles, TextField, MenuItem, Chip, Grid } from "@material-ui/core";
+import { Formik, Form, Field, FieldProps } from "formik";
+import { string, object } from "yup";
+import { TransactionResponseItem, TransactionCategory } from "../models";
+import { categoryLabels } from "../utils/categoryUtils";
+
+const validationSchema = object({
+  tag: string().trim().max(30, "Tags can be at most 30 characters"),
+});
+
+const useStyles = makeStyles((theme) => ({
+  form: {
+    width: "100%", // Fix IE 11 issue.
+  },
+  chip: {
+    marginRight: theme.spacing(1),
+    marginTop: theme.spacing(1),
+  },
+}));
+
+export interface TransactionLabelsProps {
+  transaction: TransactionResponseItem;
+  transactionLabel: Function;
+}
+
+const TransactionLabels: React.FC<TransactionLabelsProps> = ({ transaction, transactionLabel }) => {
+  const classes = useStyles();
+  const tags = transaction.tags || [];
+
+  const saveLabel = (payload: object) =>
+    transactionLabel({ transactionId: transaction.id, ...payload });
+
+  return (
+    <Grid container direction="column" data-test="transaction-labels">
+      <Grid item>
+        <TextField
+          select
+          variant="outlined"
+          margin="dense"
+          fullWidth
+          label="Category"
+          id="transaction-category-input"
+          data-test="transaction-category-input"
+          value={transaction.category || ""}
+          onChange={(event) => saveLabel({ category: event.target.value })}
+        >
+          {Object.values(TransactionCategory).map((category) => (
+            <MenuItem
+              key={category}
+              value={category}
+              data-test={`transaction-category-${category}`}
+            >
+              {categoryLabels[category]}
+            </MenuItem>
+          ))}
+        </TextField>
+        {!transaction.category && transaction.suggestedCategory && (
+          <Chip
+            size="small"
+            color="primary"
+            variant="outlined"
+            className={classes.chip}
+            label={`Suggested: ${categoryLabels[transaction.suggestedCategory]}`}
+            onClick={() => saveLabel({ category: transaction.suggestedCategory })}
+            data-test="transaction-suggested-category"
+          />
+        )}
+      </Grid>
+      <Grid item>
+        {tags.map((tag) => (
+          <Chip
+            key={tag}
+            size="small"
+            className={classes.chip}
+            label={`#${tag}`}
+            onDelete={() => saveLabel({ tags: tags.filter((existing) => existing !== tag) })}
+            data-test={`transaction-tag-${tag}`}
+          />
+        ))}
+      </Grid>
+      <Grid item>
+        <Formik
+          initialValues={{ tag: "" }}
+          validationSchema={validationSchema}
+          onSubmit={(values, { resetForm }) => {
+            if (values.tag.trim()) {
+              saveLabel({ tags: [...tags, values.tag] });
+            }
+            resetForm();
+          }}
+        >
+          {() => (
+            <Form className={classes.form}>
+              <Field name="tag">
+                {({ field, meta }: FieldProps) => (
+                  <TextField
+                    variant="outlined"
+                    margin="dense"
+                    fullWidth
+                    id="transaction-tags-input"
+                    placeholder="Add a tag and press enter"
+                    inputProps={{ "data-test": "transaction-tags-input" }}
+                    error={meta.touched && Boolean(meta.error)}
+                    helperText={meta.touched ? meta.error : ""}
+                    {...field}
+                  />
+                )}
+              </Field>
+            </Form>
+          )}
+        </Formik>
+      </Grid>
+    </Grid>
+  );
+};
+
+export default TransactionLabels;
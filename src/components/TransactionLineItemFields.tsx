@@ -0,0 +1,108 @@
+import React from "react";
+import { Field, FieldArray, FieldProps } from "formik";
+import { Button, Grid, IconButton, TextField, Typography } from "@material-ui/core";
+import { Delete as DeleteIcon } from "@material-ui/icons";
+import { CurrencyCode, TransactionLineItemPayload } from "../models";
+import { formatAmount } from "../utils/transactionUtils";
+import { getLineItemBreakdown, getLineItemsTotal } from "../utils/lineItemUtils";
+
+export interface LineItemValues {
+  name: string;
+  quantity: number | "";
+  unitPrice: number | "";
+  taxRate: number | "";
+}
+
+export const emptyLineItem: LineItemValues = { name: "", quantity: 1, unitPrice: "", taxRate: "" };
+
+// Fields that are still empty or being typed count as zero towards the total
+export const toLineItemPayloads = (lineItems: LineItemValues[]): TransactionLineItemPayload[] =>
+  lineItems.map(({ name, quantity, unitPrice, taxRate }) => ({
+    name,
+    quantity: +quantity || 0,
+    unitPrice: +unitPrice || 0,
+    taxRate: +taxRate || undefined,
+  }));
+
+export const getLineItemValuesTotal = (lineItems: LineItemValues[]) =>
+  getLineItemsTotal(getLineItemBreakdown(toLineItemPayloads(lineItems)));
+
+const lineItemFields: { name: keyof LineItemValues; placeholder: string; xs: 5 | 2 | 3 }[] = [
+  { name: "name", placeholder: "Item", xs: 5 },
+  { name: "quantity", placeholder: "Qty", xs: 2 },
+  { name: "unitPrice", placeholder: "Unit price", xs: 3 },
+  { name: "taxRate", placeholder: "Tax %", xs: 2 },
+];
+
+export interface TransactionLineItemFieldsProps {
+  lineItems: LineItemValues[];
+  currency: CurrencyCode;
+}
+
+const TransactionLineItemFields: React.FC<TransactionLineItemFieldsProps> = ({
+  lineItems,
+  currency,
+}) => (
+  <FieldArray name="lineItems">
+    {({ push, remove }) => (
+      <div data-test="transaction-create-line-items">
+        {lineItems.map((lineItem, index) => (
+          <Grid container spacing={1} alignItems="center" wrap="nowrap" key={index}>
+            <Grid item container spacing={1}>
+              {lineItemFields.map(({ name, placeholder, xs }) => (
+                <Grid item xs={xs} key={name}>
+                  <Field name={`lineItems.${index}.${name}`}>
+                    {({ field, meta: { error, touched } }: FieldProps) => (
+                      <TextField
+                        variant="outlined"
+                        margin="dense"
+                        fullWidth
+                        placeholder={placeholder}
+                        inputProps={{
+                          "data-test": `transaction-create-line-item-${name}-${index}`,
+                        }}
+                        error={touched && Boolean(error)}
+                        {...field}
+                      />
+                    )}
+                  </Field>
+                </Grid>
+              ))}
+            </Grid>
+            <Grid item>
+              <IconButton
+                size="small"
+                aria-label="remove line item"
+                onClick={() => remove(index)}
+                data-test={`transaction-create-line-item-remove-${index}`}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Grid>
+          </Grid>
+        ))}
+        <Grid container justify="space-between" alignItems="center">
+          <Grid item>
+            <Button
+              size="small"
+              color="primary"
+              onClick={() => push(emptyLineItem)}
+              data-test="transaction-create-add-line-item"
+            >
+              Add line item
+            </Button>
+          </Grid>
+          {lineItems.length > 0 && (
+            <Grid item>
+              <Typography variant="body2" data-test="transaction-create-line-items-total">
+                Total: {formatAmount(getLineItemValuesTotal(lineItems), currency)}
+              </Typography>
+            </Grid>
+          )}
+        </Grid>
+      </div>
+    )}
+  </FieldArray>
+);
+
+export default TransactionLineItemFields;
@@ -0,0 +1,51 @@
+import React from "react";
+import { Chip, Menu, MenuItem } from "@material-ui/core";
+import { GetApp as DownloadIcon } from "@material-ui/icons";
+import { TransactionExportFormat } from "../models";
+
+export type TransactionListExportButtonProps = {
+  exportTransactions: Function;
+};
+
+const TransactionListExportButton: React.FC<TransactionListExportButtonProps> = ({
+  exportTransactions,
+}) => {
+  const [exportAnchorEl, setExportAnchorEl] = React.useState<HTMLDivElement | null>(null);
+
+  const handleExportClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    setExportAnchorEl(event.currentTarget);
+  };
+
+  const handleExportSelect = (format: TransactionExportFormat) => {
+    exportTransactions(format);
+    setExportAnchorEl(null);
+  };
+
+  return (
+    <div>
+      <Chip
+        color="primary"
+        variant="outlined"
+        icon={<DownloadIcon />}
+        onClick={handleExportClick}
+        data-test="transaction-list-export-button"
+        label="Export"
+      />
+      <Menu
+        anchorEl={exportAnchorEl}
+        keepMounted
+        open={Boolean(exportAnchorEl)}
+        onClose={() => setExportAnchorEl(null)}
+      >
+        <MenuItem onClick={() => handleExportSelect("csv")} data-test="transaction-list-export-csv">
+          CSV
+        </MenuItem>
+        <MenuItem onClick={() => handleExportSelect("ofx")} data-test="transaction-list-export-ofx">
+          OFX
+        </MenuItem>
+      </Menu>
+    </div>
+  );
+};
+
+export default TransactionListExportButton;
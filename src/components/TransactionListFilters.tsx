@@ -1,9 +1,17 @@
 import React from "react";
 import { makeStyles, Paper, Grid } from "@material-ui/core";
-import { TransactionDateRangePayload, TransactionAmountRangePayload } from "../models";
+import {
+  TransactionDateRangePayload,
+  TransactionAmountRangePayload,
+  TransactionExportFormat,
+  TransactionLabelQueryPayload,
+} from "../models";
 import TransactionListDateRangeFilter from "./TransactionDateRangeFilter";
 import TransactionListAmountRangeFilter from "./TransactionListAmountRangeFilter";
+import TransactionListLabelFilter from "./TransactionListLabelFilter";
+import TransactionListExportButton from "./TransactionListExportButton";
 import { debounce } from "lodash/fp";
+import { downloadTransactionsExport } from "../utils/asyncUtils";
 
 const useStyles = makeStyles((theme) => ({
   paper: {
@@ -18,12 +26,18 @@ export type TransactionListFiltersProps = {
   sendFilterEvent: Function;
   dateRangeFilters: TransactionDateRangePayload;
   amountRangeFilters: TransactionAmountRangePayload;
+  // labels are private, so only lists of the user's own transactions filter by them
+  labelFilters?: TransactionLabelQueryPayload;
+  // exports cover the user's own transactions, so only their personal list offers one
+  exportable?: boolean;
 };
 
 const TransactionListFilters: React.FC<TransactionListFiltersProps> = ({
   sendFilterEvent,
   dateRangeFilters,
   amountRangeFilters,
+  labelFilters,
+  exportable,
 }) => {
   const classes = useStyles();
 
@@ -36,6 +50,20 @@ const TransactionListFilters: React.FC<TransactionListFiltersProps> = ({
   );
   const resetAmountRange = () => sendFilterEvent("AMOUNT_RESET");
 
+  const filterLabels = debounce(200, (payload: TransactionLabelQueryPayload) =>
+    sendFilterEvent("LABEL_FILTER", payload)
+  );
+  const resetLabels = () => sendFilterEvent("LABEL_RESET");
+
+  // exports the user's own transactions that match the active filters
+  const exportTransactions = (format: TransactionExportFormat) =>
+    downloadTransactionsExport({
+      format,
+      ...dateRangeFilters,
+      ...amountRangeFilters,
+      ...labelFilters,
+    });
+
   return (
     <Paper className={classes.paper} elevation={0}>
       <Grid container direction="row" justify="flex-start" alignItems="flex-start" spacing={1}>
@@ -53,6 +81,20 @@ const TransactionListFilters: React.FC<TransactionListFiltersProps> = ({
             resetAmountRange={resetAmountRange}
           />
         </Grid>
+        {labelFilters && (
+          <Grid item>
+            <TransactionListLabelFilter
+              filterLabels={filterLabels}
+              labelFilters={labelFilters}
+              resetLabels={resetLabels}
+            />
+          </Grid>
+        )}
+        {exportable && (
+          <Grid item>
+            <TransactionListExportButton exportTransactions={exportTransactions} />
+          </Grid>
+        )}
       </Grid>
     </Paper>
   );
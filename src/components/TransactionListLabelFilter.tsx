@@ -0,0 +1,118 @@
+import React from "react";
+import { makeStyles, Grid, Popover, TextField, MenuItem, Chip, Button } from "@material-ui/core";
+import { ArrowDropDown as ArrowDropDownIcon } from "@material-ui/icons";
+import { TransactionCategory, TransactionLabelQueryPayload } from "../models";
+import { categoryLabels } from "../utils/categoryUtils";
+
+const useStyles = makeStyles((theme) => ({
+  labelFilterRoot: {
+    width: 300,
+    margin: 30,
+  },
+}));
+
+export type TransactionListLabelFilterProps = {
+  filterLabels: Function;
+  labelFilters: TransactionLabelQueryPayload;
+  resetLabels: Function;
+};
+
+const formatLabelFilters = ({ category, tag }: TransactionLabelQueryPayload) =>
+  [category && categoryLabels[category], tag && `#${tag}`].filter(Boolean).join(", ") || "All";
+
+const TransactionListLabelFilter: React.FC<TransactionListLabelFilterProps> = ({
+  filterLabels,
+  labelFilters,
+  resetLabels,
+}) => {
+  const classes = useStyles();
+  const currentFilters = labelFilters || {};
+  const [tag, setTag] = React.useState<string>(currentFilters.tag || "");
+  const [labelAnchorEl, setLabelAnchorEl] = React.useState<HTMLDivElement | null>(null);
+
+  const labelOpen = Boolean(labelAnchorEl);
+
+  return (
+    <div>
+      <Chip
+        color="primary"
+        variant="outlined"
+        onClick={(event) => setLabelAnchorEl(event.currentTarget)}
+        data-test="transaction-list-filter-labels-button"
+        label={`Category: ${formatLabelFilters(currentFilters)}`}
+        deleteIcon={<ArrowDropDownIcon />}
+        onDelete={(event: any) => setLabelAnchorEl(event.currentTarget)}
+      />
+      <Popover
+        id={labelOpen ? "label-filter-popover" : undefined}
+        open={labelOpen}
+        anchorEl={labelAnchorEl}
+        onClose={() => setLabelAnchorEl(null)}
+        anchorOrigin={{
+          vertical: "bottom",
+          horizontal: "left",
+        }}
+        transformOrigin={{
+          vertical: "top",
+          horizontal: "left",
+        }}
+      >
+        <Grid
+          data-test="transaction-list-filter-labels"
+          container
+          direction="column"
+          spacing={1}
+          className={classes.labelFilterRoot}
+        >
+          <Grid item>
+            <TextField
+              select
+              variant="outlined"
+              margin="dense"
+              fullWidth
+              label="Category"
+              data-test="transaction-list-filter-category-input"
+              value={currentFilters.category || ""}
+              onChange={(event) =>
+                filterLabels({ ...currentFilters, category: event.target.value })
+              }
+            >
+              {Object.values(TransactionCategory).map((category) => (
+                <MenuItem key={category} value={category}>
+                  {categoryLabels[category]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item>
+            <TextField
+              variant="outlined"
+              margin="dense"
+              fullWidth
+              label="Tag"
+              inputProps={{ "data-test": "transaction-list-filter-tag-input" }}
+              value={tag}
+              onChange={(event) => {
+                setTag(event.target.value);
+                filterLabels({ ...currentFilters, tag: event.target.value.trim() || undefined });
+              }}
+            />
+          </Grid>
+          <Grid item>
+            <Button
+              data-test="transaction-list-filter-labels-clear-button"
+              onClick={() => {
+                setTag("");
+                resetLabels();
+              }}
+            >
+              Clear
+            </Button>
+          </Grid>
+        </Grid>
+      </Popover>
+    </div>
+  );
+};
+
+export default TransactionListLabelFilter;
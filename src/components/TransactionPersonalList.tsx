@@ -5,6 +5,7 @@ import {
   TransactionResponseItem,
   TransactionDateRangePayload,
   TransactionAmountRangePayload,
+  TransactionLabelQueryPayload,
 } from "../models";
 import TransactionList from "./TransactionList";
 import { personalTransactionsMachine } from "../machines/personalTransactionsMachine";
@@ -13,12 +14,14 @@ export interface TransactionPersonalListProps {
   filterComponent: ReactNode;
   dateRangeFilters: TransactionDateRangePayload;
   amountRangeFilters: TransactionAmountRangePayload;
+  labelFilters: TransactionLabelQueryPayload;
 }
 
 const TransactionPersonalList: React.FC<TransactionPersonalListProps> = ({
   filterComponent,
   dateRangeFilters,
   amountRangeFilters,
+  labelFilters,
 }) => {
   const [current, send, personalTransactionService] = useMachine(personalTransactionsMachine);
   const { pageData, results } = current.context;
@@ -30,11 +33,11 @@ const TransactionPersonalList: React.FC<TransactionPersonalListProps> = ({
   }
 
   useEffect(() => {
-    send("FETCH", { ...dateRangeFilters, ...amountRangeFilters });
-  }, [send, dateRangeFilters, amountRangeFilters]);
+    send("FETCH", { ...dateRangeFilters, ...amountRangeFilters, ...labelFilters });
+  }, [send, dateRangeFilters, amountRangeFilters, labelFilters]);
 
   const loadNextPage = (page: number) =>
-    send("FETCH", { page, ...dateRangeFilters, ...amountRangeFilters });
+    send("FETCH", { page, ...dateRangeFilters, ...amountRangeFilters, ...labelFilters });
 
   return (
     <>
@@ -2,7 +2,12 @@ import React from "react";
 import { Typography } from "@material-ui/core";
 import { makeStyles } from "@material-ui/core";
 import { TransactionResponseItem } from "../models";
-import { isRequestTransaction, isAcceptedRequestTransaction } from "../utils/transactionUtils";
+import {
+  isRequestTransaction,
+  isAcceptedRequestTransaction,
+  isRefundTransaction,
+  isCancelledRequestTransaction,
+} from "../utils/transactionUtils";
 
 const useStyles = makeStyles((theme) => ({
   title: {
@@ -50,7 +55,11 @@ const TransactionTitle: React.FC<{
         {isRequestTransaction(transaction)
           ? isAcceptedRequestTransaction(transaction)
             ? " charged "
+            : isCancelledRequestTransaction(transaction)
+            ? " cancelled a request to "
             : " requested "
+          : isRefundTransaction(transaction)
+          ? " refunded "
           : " paid "}
       </Typography>
       <Typography
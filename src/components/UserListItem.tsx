@@ -7,11 +7,16 @@ export interface UserListItemProps {
   user: User;
   setReceiver: Function;
   index: Number;
+  selected?: boolean;
 }
 
-const UserListItem: React.FC<UserListItemProps> = ({ user, setReceiver, index }) => {
+const UserListItem: React.FC<UserListItemProps> = ({ user, setReceiver, index, selected }) => {
   return (
-    <ListItem data-test={`user-list-item-${user.id}`} onClick={() => setReceiver(user)}>
+    <ListItem
+      data-test={`user-list-item-${user.id}`}
+      selected={selected}
+      onClick={() => setReceiver(user)}
+    >
       <ListItemAvatar>
         <Avatar src={user.avatar} />
       </ListItemAvatar>
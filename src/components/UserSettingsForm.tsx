@@ -1,8 +1,9 @@
 import React from "react";
-import { makeStyles, TextField, Button, Grid } from "@material-ui/core";
+import { makeStyles, TextField, Button, Grid, MenuItem } from "@material-ui/core";
 import { Formik, Form, Field, FieldProps } from "formik";
 import { string, object, mixed } from "yup";
-import { User, DefaultPrivacyLevel, UserSettingsPayload } from "../models";
+import { User, DefaultPrivacyLevel, UserSettingsPayload, CurrencyCode } from "../models";
+import { currencyCodes, getCurrency } from "../utils/currencyUtils";
 
 const phoneRegExp =
   /^((\\+[1-9]{1,4}[ \\-]*)|(\\([0-9]{2,3}\\)[ \\-]*)|([0-9]{2,4})[ \\-]*)*?[0-9]{3,4}?[ \\-]*[0-9]{3,4}?$/;
@@ -17,6 +18,7 @@ const validationSchema = object({
     .matches(phoneRegExp, "Phone number is not valid")
     .required("Enter a phone number"),
   defaultPrivacyLevel: mixed<DefaultPrivacyLevel>().oneOf(DefaultPrivacyLevelValues),
+  currency: mixed<CurrencyCode>().oneOf(currencyCodes),
 });
 
 const useStyles = makeStyles((theme) => ({
@@ -48,6 +50,7 @@ const UserSettingsForm: React.FC<UserSettingsProps> = ({ userProfile, updateUser
     email: userProfile.email,
     phoneNumber: userProfile.phoneNumber,
     defaultPrivacyLevel: userProfile.defaultPrivacyLevel,
+    currency: getCurrency(userProfile),
   };
 
   return (
@@ -130,6 +133,33 @@ const UserSettingsForm: React.FC<UserSettingsProps> = ({ userProfile, updateUser
               />
             )}
           </Field>
+          <Field name="currency">
+            {({ field }: FieldProps) => (
+              <TextField
+                variant="outlined"
+                margin="dense"
+                fullWidth
+                select
+                id={"user-settings-currency-input"}
+                label="Currency"
+                // balances are held in the user's currency, so it can only change at zero
+                disabled={userProfile.balance !== 0}
+                helperText={
+                  userProfile.balance !== 0
+                    ? "Currency can be changed when your balance is zero"
+                    : ""
+                }
+                data-test="user-settings-currency-input"
+                {...field}
+              >
+                {currencyCodes.map((currency) => (
+                  <MenuItem key={currency} value={currency}>
+                    {currency}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Field>
           <Grid container spacing={2} direction="row" justify="flex-start" alignItems="flex-start">
             <Grid item>
               <Button
@@ -2,19 +2,27 @@ import React from "react";
 import { List } from "@material-ui/core";
 
 import UserListItem from "./UserListItem";
+import { includes } from "lodash/fp";
 import { User } from "../models";
 
 export interface UsersListProps {
   users: User[];
   setReceiver: Function;
+  selectedUserIds?: string[];
 }
 
-const UsersList: React.FC<UsersListProps> = ({ users, setReceiver }) => {
+const UsersList: React.FC<UsersListProps> = ({ users, setReceiver, selectedUserIds }) => {
   return (
     <List data-test="users-list">
       {users &&
         users.map((user: User, index: number) => (
-          <UserListItem key={user.id} user={user} setReceiver={setReceiver} index={index} />
+          <UserListItem
+            key={user.id}
+            user={user}
+            setReceiver={setReceiver}
+            index={index}
+            selected={includes(user.id, selectedUserIds)}
+          />
         ))}
     </List>
   );
@@ -51,6 +51,23 @@ const BankAccountsContainer: React.FC<Props> = ({ authService, bankAccountsServi
     sendBankAccounts({ type: "DELETE", ...payload });
   };
 
+  const verifyBankAccount = (payload: any) => {
+    sendBankAccounts({ type: "UPDATE", operationName: "VerifyBankAccount", ...payload });
+  };
+
+  const setDefaultBankAccount = (payload: any) => {
+    sendBankAccounts({
+      type: "UPDATE",
+      operationName: "UpdateBankAccount",
+      isDefault: true,
+      ...payload,
+    });
+  };
+
+  const restoreBankAccount = (payload: any) => {
+    sendBankAccounts({ type: "UPDATE", operationName: "RestoreBankAccount", ...payload });
+  };
+
   useEffect(() => {
     sendBankAccounts("FETCH");
   }, [sendBankAccounts]);
@@ -90,6 +107,9 @@ const BankAccountsContainer: React.FC<Props> = ({ authService, bankAccountsServi
       <BankAccountList
         bankAccounts={bankAccountsState?.context.results!}
         deleteBankAccount={deleteBankAccount}
+        verifyBankAccount={verifyBankAccount}
+        setDefaultBankAccount={setDefaultBankAccount}
+        restoreBankAccount={restoreBankAccount}
       />
     </Paper>
   );
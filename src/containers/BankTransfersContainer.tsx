@@ -0,0 +1,94 @@
+import React, { useEffect } from "react";
+import { useActor, useMachine } from "@xstate/react";
+import {
+  BaseActionObject,
+  Interpreter,
+  ResolveTypegenMeta,
+  ServiceMap,
+  TypegenDisabled,
+} from "xstate";
+import { filter, reject } from "lodash/fp";
+import { makeStyles, Paper, Typography } from "@material-ui/core";
+
+import { BankAccount } from "../models";
+import { AuthMachineContext, AuthMachineEvents, AuthMachineSchema } from "../machines/authMachine";
+import { DataContext, DataEvents, DataSchema } from "../machines/dataMachine";
+import { bankTransfersMachine } from "../machines/bankTransfersMachine";
+import { formatAmount } from "../utils/transactionUtils";
+import { getCurrency } from "../utils/currencyUtils";
+import { isVerifiedBankAccount } from "../utils/bankAccountUtils";
+import BankTransferForm from "../components/BankTransferForm";
+import BankTransferList from "../components/BankTransferList";
+
+export interface Props {
+  authService: Interpreter<AuthMachineContext, AuthMachineSchema, AuthMachineEvents, any, any>;
+  bankAccountsService: Interpreter<
+    DataContext,
+    DataSchema,
+    DataEvents,
+    any,
+    ResolveTypegenMeta<TypegenDisabled, DataEvents, BaseActionObject, ServiceMap>
+  >;
+}
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    padding: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+  paperList: {
+    marginTop: theme.spacing(2),
+    padding: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+}));
+
+const BankTransfersContainer: React.FC<Props> = ({ authService, bankAccountsService }) => {
+  const classes = useStyles();
+  const [authState] = useActor(authService);
+  const [bankAccountsState, sendBankAccounts] = useActor(bankAccountsService);
+  const [bankTransfersState, sendBankTransfers] = useMachine(bankTransfersMachine);
+
+  const currentUser = authState?.context.user;
+  const bankAccounts: BankAccount[] = bankAccountsState?.context.results! || [];
+
+  const createBankTransfer = (payload: any) => {
+    sendBankTransfers({ type: "CREATE", ...payload });
+  };
+
+  useEffect(() => {
+    sendBankAccounts("FETCH");
+    sendBankTransfers("FETCH");
+  }, [sendBankAccounts, sendBankTransfers]);
+
+  return (
+    <>
+      <Paper className={classes.paper}>
+        <Typography component="h2" variant="h6" color="primary" gutterBottom>
+          Transfer
+        </Typography>
+        <Typography variant="body2" color="textSecondary" data-test="banktransfer-balance">
+          Account Balance: {formatAmount(currentUser?.balance || 0, getCurrency(currentUser))}
+        </Typography>
+        <BankTransferForm
+          bankAccounts={filter(isVerifiedBankAccount, reject({ isDeleted: true }, bankAccounts))}
+          createBankTransfer={createBankTransfer}
+        />
+      </Paper>
+      <Paper className={classes.paperList}>
+        <Typography component="h2" variant="h6" color="primary" gutterBottom>
+          Transfer History
+        </Typography>
+        <BankTransferList
+          bankTransfers={bankTransfersState?.context.results!}
+          bankAccounts={bankAccounts}
+        />
+      </Paper>
+    </>
+  );
+};
+export default BankTransfersContainer;
@@ -0,0 +1,147 @@
+import React, { useEffect } from "react";
+import { useActor, useMachine } from "@xstate/react";
+import { useHistory, useParams } from "react-router-dom";
+import {
+  BaseActionObject,
+  Interpreter,
+  ResolveTypegenMeta,
+  ServiceMap,
+  TypegenDisabled,
+} from "xstate";
+import { filter, first, includes, reject } from "lodash/fp";
+import { makeStyles, Paper, Typography } from "@material-ui/core";
+
+import { BankAccount, GroupResponseItem, User } from "../models";
+import { AuthMachineContext, AuthMachineEvents, AuthMachineSchema } from "../machines/authMachine";
+import { DataContext, DataEvents, DataSchema } from "../machines/dataMachine";
+import { groupDetailMachine } from "../machines/groupDetailMachine";
+import { usersMachine } from "../machines/usersMachine";
+import { formatAmount } from "../utils/transactionUtils";
+import { isVerifiedBankAccount } from "../utils/bankAccountUtils";
+import { canManageGroup, groupRoleLabels } from "../utils/groupUtils";
+import GroupMemberList from "../components/GroupMemberList";
+import GroupMemberForm from "../components/GroupMemberForm";
+import GroupPaymentForm from "../components/GroupPaymentForm";
+import GroupTransactionList from "../components/GroupTransactionList";
+
+export interface Props {
+  authService: Interpreter<AuthMachineContext, AuthMachineSchema, AuthMachineEvents, any, any>;
+  bankAccountsService: Interpreter<
+    DataContext,
+    DataSchema,
+    DataEvents,
+    any,
+    ResolveTypegenMeta<TypegenDisabled, DataEvents, BaseActionObject, ServiceMap>
+  >;
+}
+interface Params {
+  groupId: string;
+}
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    padding: theme.spacing(2),
+    marginBottom: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+}));
+
+const GroupContainer: React.FC<Props> = ({ authService, bankAccountsService }) => {
+  const classes = useStyles();
+  const history = useHistory();
+  const { groupId }: Params = useParams();
+  const [authState] = useActor(authService);
+  const [bankAccountsState, sendBankAccounts] = useActor(bankAccountsService);
+  const [groupState, sendGroup] = useMachine(groupDetailMachine);
+  const [usersState, sendUsers] = useMachine(usersMachine);
+
+  const currentUser = authState?.context.user;
+  const bankAccounts: BankAccount[] = bankAccountsState?.context.results! || [];
+  const group = first(groupState.context?.results) as GroupResponseItem;
+
+  useEffect(() => {
+    sendBankAccounts("FETCH");
+    sendGroup("FETCH", { groupId });
+  }, [sendBankAccounts, sendGroup, groupId]);
+
+  const userListSearch = (payload: any) => sendUsers("FETCH", payload);
+
+  const addGroupMember = (payload: any) =>
+    sendGroup({ type: "CREATE", entity: "MEMBER", groupId, ...payload });
+
+  const updateGroupMember = (payload: any) => sendGroup({ type: "UPDATE", groupId, ...payload });
+
+  const removeGroupMember = (payload: any) => {
+    sendGroup({ type: "DELETE", groupId, ...payload });
+
+    // after leaving, the group is no longer visible to the user
+    if (
+      group.members.some(({ id, userId }) => id === payload.memberId && userId === currentUser?.id)
+    ) {
+      history.push("/groups");
+    }
+  };
+
+  const createGroupPayment = (payload: any) =>
+    sendGroup({ type: "CREATE", entity: "PAYMENT", groupId, ...payload });
+
+  const memberUserIds = group?.members.map(({ userId }) => userId);
+
+  return (
+    <>
+      {groupState.matches("idle") && (
+        <div>
+          Loading...
+          <br />
+        </div>
+      )}
+      {currentUser && group && groupState.matches("success") && (
+        <>
+          <Paper className={classes.paper} data-test="group-detail">
+            <Typography component="h2" variant="h6" color="primary" gutterBottom>
+              {group.name}
+            </Typography>
+            <Typography variant="body2" color="textSecondary" data-test="group-balance">
+              Group Balance: {formatAmount(group.balance, group.currency)} &middot;{" "}
+              {groupRoleLabels[group.role]}
+            </Typography>
+            <GroupPaymentForm
+              group={group}
+              bankAccounts={filter(
+                isVerifiedBankAccount,
+                reject({ isDeleted: true }, bankAccounts)
+              )}
+              createGroupPayment={createGroupPayment}
+            />
+          </Paper>
+          <Paper className={classes.paper}>
+            <Typography component="h2" variant="h6" color="primary" gutterBottom>
+              Members
+            </Typography>
+            <GroupMemberList
+              group={group}
+              currentUser={currentUser}
+              updateGroupMember={updateGroupMember}
+              removeGroupMember={removeGroupMember}
+            />
+            {canManageGroup(group) && (
+              <GroupMemberForm
+                users={reject(
+                  (user: User) => includes(user.id, memberUserIds),
+                  usersState.context.results as User[]
+                )}
+                userListSearch={userListSearch}
+                addGroupMember={addGroupMember}
+              />
+            )}
+          </Paper>
+          <GroupTransactionList group={group} />
+        </>
+      )}
+    </>
+  );
+};
+
+export default GroupContainer;
@@ -0,0 +1,41 @@
+import React, { useEffect } from "react";
+import { useMachine } from "@xstate/react";
+import { makeStyles, Paper, Typography } from "@material-ui/core";
+
+import { GroupResponseItem } from "../models";
+import { groupsMachine } from "../machines/groupsMachine";
+import GroupForm from "../components/GroupForm";
+import GroupList from "../components/GroupList";
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    padding: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+}));
+
+const GroupsContainer: React.FC = () => {
+  const classes = useStyles();
+  const [groupsState, sendGroups] = useMachine(groupsMachine);
+
+  const createGroup = (payload: any) => {
+    sendGroups({ type: "CREATE", ...payload });
+  };
+
+  useEffect(() => {
+    sendGroups("FETCH");
+  }, [sendGroups]);
+
+  return (
+    <Paper className={classes.paper}>
+      <Typography component="h2" variant="h6" color="primary" gutterBottom>
+        Groups
+      </Typography>
+      <GroupForm createGroup={createGroup} />
+      <GroupList groups={groupsState?.context.results! as GroupResponseItem[]} />
+    </Paper>
+  );
+};
+export default GroupsContainer;
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from "react";
+import { useMachine } from "@xstate/react";
+import { makeStyles, Paper, Typography, Grid } from "@material-ui/core";
+
+import { Insights, TransactionDateRangePayload } from "../models";
+import { insightsMachine } from "../machines/insightsMachine";
+import { formatAmount } from "../utils/transactionUtils";
+import TransactionListDateRangeFilter from "../components/TransactionDateRangeFilter";
+import InsightsMonthlyChart from "../components/InsightsMonthlyChart";
+import InsightsCounterpartyChart from "../components/InsightsCounterpartyChart";
+import InsightsSplitChart from "../components/InsightsSplitChart";
+import EmptyList from "../components/EmptyList";
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    padding: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+  section: {
+    marginTop: theme.spacing(3),
+  },
+}));
+
+const InsightsContainer: React.FC = () => {
+  const classes = useStyles();
+  const [insightsState, sendInsights] = useMachine(insightsMachine);
+  const [dateRange, setDateRange] = useState<TransactionDateRangePayload>({});
+
+  const insights = insightsState?.context.results?.[0] as Insights;
+
+  useEffect(() => {
+    sendInsights("FETCH", dateRange);
+  }, [sendInsights, dateRange]);
+
+  const sectionTitle = (title: string) => (
+    <Typography component="h3" variant="subtitle1" color="primary" gutterBottom>
+      {title}
+    </Typography>
+  );
+
+  return (
+    <Paper className={classes.paper}>
+      <Grid container direction="row" justify="space-between" alignItems="center">
+        <Grid item>
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            Insights
+          </Typography>
+          {insights && (
+            <Typography variant="body2" color="textSecondary" data-test="insights-average">
+              Average transaction: {formatAmount(insights.averageAmount, insights.currency)}
+            </Typography>
+          )}
+        </Grid>
+        <Grid item>
+          <TransactionListDateRangeFilter
+            filterDateRange={setDateRange}
+            dateRangeFilters={dateRange}
+            resetDateRange={() => setDateRange({})}
+          />
+        </Grid>
+      </Grid>
+      {insights && insights.monthly.length === 0 && <EmptyList entity="Transactions" />}
+      {insights && insights.monthly.length > 0 && (
+        <>
+          <div className={classes.section}>
+            {sectionTitle("Sent and received per month")}
+            <InsightsMonthlyChart monthly={insights.monthly} currency={insights.currency} />
+          </div>
+          <div className={classes.section}>
+            {sectionTitle("Top people")}
+            <InsightsCounterpartyChart
+              counterparties={insights.topCounterparties}
+              currency={insights.currency}
+            />
+          </div>
+          <div className={classes.section}>
+            {sectionTitle("Payments and requests")}
+            <InsightsSplitChart
+              payments={insights.payments}
+              requests={insights.requests}
+              currency={insights.currency}
+            />
+          </div>
+        </>
+      )}
+    </Paper>
+  );
+};
+export default InsightsContainer;
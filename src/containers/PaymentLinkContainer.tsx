@@ -0,0 +1,89 @@
+import React from "react";
+import { useActor, useMachine } from "@xstate/react";
+import { Interpreter } from "xstate";
+import { first } from "lodash/fp";
+import { format as formatDate } from "date-fns";
+import { makeStyles, Paper, Typography, TextField, Grid } from "@material-ui/core";
+
+import { PaymentLinkResponseItem } from "../models";
+import { AuthMachineContext, AuthMachineEvents, AuthMachineSchema } from "../machines/authMachine";
+import { paymentLinkMachine } from "../machines/paymentLinkMachine";
+import { formatAmount } from "../utils/transactionUtils";
+import { getCurrency } from "../utils/currencyUtils";
+import { getPaymentLinkUrl } from "../utils/paymentLinkUtils";
+import PaymentLinkForm from "../components/PaymentLinkForm";
+import PaymentLinkQRCode from "../components/PaymentLinkQRCode";
+
+export interface Props {
+  authService: Interpreter<AuthMachineContext, AuthMachineSchema, AuthMachineEvents, any, any>;
+}
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    padding: theme.spacing(2),
+    marginBottom: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+}));
+
+const PaymentLinkContainer: React.FC<Props> = ({ authService }) => {
+  const classes = useStyles();
+  const [authState] = useActor(authService);
+  const [paymentLinkState, sendPaymentLink] = useMachine(paymentLinkMachine);
+
+  const currentUser = authState?.context.user;
+  const paymentLink = first(paymentLinkState.context.results) as PaymentLinkResponseItem;
+  const paymentLinkUrl =
+    paymentLink && getPaymentLinkUrl(window.location.origin, paymentLink.token);
+
+  const createPaymentLink = (payload: any) => sendPaymentLink({ type: "CREATE", ...payload });
+
+  return (
+    <>
+      <Paper className={classes.paper}>
+        <Typography component="h2" variant="h6" color="primary" gutterBottom>
+          Payment Link
+        </Typography>
+        <Typography variant="body2" color="textSecondary">
+          Anyone with the link can pay you; the amount and note you set are filled in for them.
+        </Typography>
+        <PaymentLinkForm
+          currency={getCurrency(currentUser)}
+          createPaymentLink={createPaymentLink}
+        />
+      </Paper>
+      {paymentLink && paymentLinkState.matches("success") && (
+        <Paper className={classes.paper} data-test="payment-link">
+          <Grid container direction="column" alignItems="center" spacing={1}>
+            <Grid item>
+              <PaymentLinkQRCode url={paymentLinkUrl} />
+            </Grid>
+            <Grid item>
+              <Typography variant="body2" color="textSecondary" data-test="payment-link-summary">
+                {paymentLink.amount
+                  ? formatAmount(paymentLink.amount, paymentLink.currency)
+                  : "Any amount"}
+                {paymentLink.description && ` for ${paymentLink.description}`}
+                {paymentLink.expiresAt &&
+                  `, until ${formatDate(new Date(paymentLink.expiresAt), "MMM d, yyyy")}`}
+              </Typography>
+            </Grid>
+          </Grid>
+          <TextField
+            variant="outlined"
+            margin="dense"
+            fullWidth
+            label="Link"
+            value={paymentLinkUrl}
+            InputProps={{ readOnly: true }}
+            inputProps={{ "data-test": "payment-link-url" }}
+            onFocus={(event) => event.target.select()}
+          />
+        </Paper>
+      )}
+    </>
+  );
+};
+export default PaymentLinkContainer;
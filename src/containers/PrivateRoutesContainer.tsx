@@ -13,6 +13,13 @@ import TransactionsContainer from "./TransactionsContainer";
 import UserSettingsContainer from "./UserSettingsContainer";
 import NotificationsContainer from "./NotificationsContainer";
 import BankAccountsContainer from "./BankAccountsContainer";
+import BankTransfersContainer from "./BankTransfersContainer";
+import SchedulesContainer from "./SchedulesContainer";
+import StatementContainer from "./StatementContainer";
+import InsightsContainer from "./InsightsContainer";
+import GroupsContainer from "./GroupsContainer";
+import GroupContainer from "./GroupContainer";
+import PaymentLinkContainer from "./PaymentLinkContainer";
 import TransactionCreateContainer from "./TransactionCreateContainer";
 import TransactionDetailContainer from "./TransactionDetailContainer";
 import { DataContext, DataSchema, DataEvents } from "../machines/dataMachine";
@@ -85,6 +92,30 @@ const PrivateRoutesContainer: React.FC<Props> = ({
             bankAccountsService={bankAccountsService}
           />
         </PrivateRoute>
+        <PrivateRoute isLoggedIn={isLoggedIn} exact path="/transfers">
+          <BankTransfersContainer
+            authService={authService}
+            bankAccountsService={bankAccountsService}
+          />
+        </PrivateRoute>
+        <PrivateRoute isLoggedIn={isLoggedIn} exact path="/schedules">
+          <SchedulesContainer />
+        </PrivateRoute>
+        <PrivateRoute isLoggedIn={isLoggedIn} exact path="/statement">
+          <StatementContainer />
+        </PrivateRoute>
+        <PrivateRoute isLoggedIn={isLoggedIn} exact path="/insights">
+          <InsightsContainer />
+        </PrivateRoute>
+        <PrivateRoute isLoggedIn={isLoggedIn} exact path="/groups">
+          <GroupsContainer />
+        </PrivateRoute>
+        <PrivateRoute isLoggedIn={isLoggedIn} exact path="/groups/:groupId">
+          <GroupContainer authService={authService} bankAccountsService={bankAccountsService} />
+        </PrivateRoute>
+        <PrivateRoute isLoggedIn={isLoggedIn} exact path="/paymentlink">
+          <PaymentLinkContainer authService={authService} />
+        </PrivateRoute>
         <PrivateRoute isLoggedIn={isLoggedIn} exact path="/transaction/new">
           <TransactionCreateContainer authService={authService} snackbarService={snackbarService} />
         </PrivateRoute>
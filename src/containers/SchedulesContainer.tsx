@@ -0,0 +1,47 @@
+import React, { useEffect } from "react";
+import { useMachine } from "@xstate/react";
+import { makeStyles, Paper, Typography } from "@material-ui/core";
+
+import { ScheduleResponseItem } from "../models";
+import { schedulesMachine } from "../machines/schedulesMachine";
+import ScheduleList from "../components/ScheduleList";
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    padding: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+}));
+
+const SchedulesContainer: React.FC = () => {
+  const classes = useStyles();
+  const [schedulesState, sendSchedules] = useMachine(schedulesMachine);
+
+  const updateSchedule = (payload: any) => {
+    sendSchedules({ type: "UPDATE", ...payload });
+  };
+
+  const cancelSchedule = (payload: any) => {
+    sendSchedules({ type: "DELETE", ...payload });
+  };
+
+  useEffect(() => {
+    sendSchedules("FETCH");
+  }, [sendSchedules]);
+
+  return (
+    <Paper className={classes.paper}>
+      <Typography component="h2" variant="h6" color="primary" gutterBottom>
+        Scheduled Payments
+      </Typography>
+      <ScheduleList
+        schedules={schedulesState?.context.results! as ScheduleResponseItem[]}
+        updateSchedule={updateSchedule}
+        cancelSchedule={cancelSchedule}
+      />
+    </Paper>
+  );
+};
+export default SchedulesContainer;
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from "react";
+import { useMachine } from "@xstate/react";
+import { makeStyles, Paper, Typography, Grid } from "@material-ui/core";
+import { format as formatDate } from "date-fns";
+
+import { Statement, TransactionDateRangePayload } from "../models";
+import { statementMachine } from "../machines/statementMachine";
+import StatementList from "../components/StatementList";
+import TransactionListDateRangeFilter from "../components/TransactionDateRangeFilter";
+
+const useStyles = makeStyles((theme) => ({
+  paper: {
+    padding: theme.spacing(2),
+    display: "flex",
+    overflow: "auto",
+    flexDirection: "column",
+  },
+}));
+
+const StatementContainer: React.FC = () => {
+  const classes = useStyles();
+  const [statementState, sendStatement] = useMachine(statementMachine);
+  const [dateRange, setDateRange] = useState<TransactionDateRangePayload>({});
+
+  const statement = statementState?.context.results?.[0] as Statement;
+
+  useEffect(() => {
+    // without a date range the backend returns the current month so far
+    sendStatement("FETCH", { from: dateRange.dateRangeStart, to: dateRange.dateRangeEnd });
+  }, [sendStatement, dateRange]);
+
+  return (
+    <Paper className={classes.paper}>
+      <Grid container direction="row" justify="space-between" alignItems="center">
+        <Grid item>
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            Statement
+          </Typography>
+          {statement && (
+            <Typography variant="body2" color="textSecondary" data-test="statement-period">
+              {formatDate(new Date(statement.from), "MMM d, yyyy")} -{" "}
+              {formatDate(new Date(statement.to), "MMM d, yyyy")}
+            </Typography>
+          )}
+        </Grid>
+        <Grid item>
+          <TransactionListDateRangeFilter
+            filterDateRange={setDateRange}
+            dateRangeFilters={dateRange}
+            resetDateRange={() => setDateRange({})}
+          />
+        </Grid>
+      </Grid>
+      {statement && <StatementList statement={statement} />}
+    </Paper>
+  );
+};
+export default StatementContainer;
@@ -1,12 +1,16 @@
 import React, { useEffect } from "react";
 import { useMachine, useActor } from "@xstate/react";
-import { User, TransactionPayload } from "../models";
+import { useLocation } from "react-router-dom";
+import { User, TransactionPayload, PaymentLinkResponseItem } from "../models";
 import TransactionCreateStepOne from "../components/TransactionCreateStepOne";
 import TransactionCreateStepTwo from "../components/TransactionCreateStepTwo";
+import TransactionCreateSplitStepTwo from "../components/TransactionCreateSplitStepTwo";
 import TransactionCreateStepThree from "../components/TransactionCreateStepThree";
 import { createTransactionMachine } from "../machines/createTransactionMachine";
 import { usersMachine } from "../machines/usersMachine";
-import { debounce } from "lodash/fp";
+import { paymentLinkMachine } from "../machines/paymentLinkMachine";
+import { PAYMENT_LINK_QUERY_PARAM } from "../utils/paymentLinkUtils";
+import { debounce, first } from "lodash/fp";
 import {
   BaseActionObject,
   Interpreter,
@@ -16,7 +20,7 @@ import {
 } from "xstate";
 import { AuthMachineContext, AuthMachineEvents, AuthMachineSchema } from "../machines/authMachine";
 import { SnackbarSchema, SnackbarContext, SnackbarEvents } from "../machines/snackbarMachine";
-import { Stepper, Step, StepLabel } from "@material-ui/core";
+import { Stepper, Step, StepLabel, Typography } from "@material-ui/core";
 
 export interface Props {
   authService: Interpreter<AuthMachineContext, AuthMachineSchema, AuthMachineEvents, any, any>;
@@ -46,11 +50,36 @@ const TransactionCreateContainer: React.FC<Props> = ({ authService, snackbarServ
     sendUsers({ type: "FETCH" });
   }, [sendUsers]);
 
+  const { search } = useLocation();
+  const paymentLinkToken = new URLSearchParams(search).get(PAYMENT_LINK_QUERY_PARAM);
+  const [paymentLinkState, sendPaymentLink] = useMachine(paymentLinkMachine);
+
+  useEffect(() => {
+    if (paymentLinkToken) {
+      sendPaymentLink("FETCH", { token: paymentLinkToken });
+    }
+  }, [sendPaymentLink, paymentLinkToken]);
+
   const sender = authState?.context?.user;
+  const paymentLink = first(paymentLinkState.context.results) as PaymentLinkResponseItem;
+
+  // a payment link picks its receiver, so the payment opens on its second step
+  useEffect(() => {
+    if (sender && paymentLink) {
+      const { receiver } = paymentLink;
+      // @ts-ignore
+      sendCreateTransaction({ type: "SET_USERS", sender, receiver, paymentLink });
+    }
+  }, [sendCreateTransaction, sender, paymentLink]);
+
   const setReceiver = (receiver: User) => {
     // @ts-ignore
     sendCreateTransaction({ type: "SET_USERS", sender, receiver });
   };
+  const setReceivers = (receivers: User[]) => {
+    // @ts-ignore
+    sendCreateTransaction({ type: "SET_USERS", sender, receiver: receivers[0], receivers });
+  };
   const createTransaction = (payload: TransactionPayload) => {
     sendCreateTransaction("CREATE", payload);
   };
@@ -58,6 +87,8 @@ const TransactionCreateContainer: React.FC<Props> = ({ authService, snackbarServ
 
   const showSnackbar = (payload: SnackbarContext) => sendSnackbar({ type: "SHOW", ...payload });
 
+  const splitReceivers = createTransactionState.context.receivers;
+
   let activeStep;
   if (createTransactionState.matches("stepTwo")) {
     activeStep = 1;
@@ -80,17 +111,32 @@ const TransactionCreateContainer: React.FC<Props> = ({ authService, snackbarServ
           <StepLabel>Complete</StepLabel>
         </Step>
       </Stepper>
+      {paymentLinkState.matches("failure") && (
+        <Typography color="error" data-test="payment-link-error">
+          This payment link is not valid or has expired.
+        </Typography>
+      )}
       {createTransactionState.matches("stepOne") && (
         <TransactionCreateStepOne
           setReceiver={setReceiver}
+          setReceivers={setReceivers}
           users={usersState.context.results!}
           userListSearch={userListSearch}
         />
       )}
-      {sender && createTransactionState.matches("stepTwo") && (
+      {sender && createTransactionState.matches("stepTwo") && splitReceivers && (
+        <TransactionCreateSplitStepTwo
+          receivers={splitReceivers}
+          sender={sender}
+          createTransaction={createTransaction}
+          showSnackbar={showSnackbar}
+        />
+      )}
+      {sender && createTransactionState.matches("stepTwo") && !splitReceivers && (
         <TransactionCreateStepTwo
           receiver={createTransactionState.context.receiver}
           sender={sender}
+          paymentLink={createTransactionState.context.paymentLink}
           createTransaction={createTransaction}
           showSnackbar={showSnackbar}
         />
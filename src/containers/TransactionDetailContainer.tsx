@@ -31,6 +31,24 @@ const TransactionDetailsContainer: React.FC<Props> = ({ authService }) => {
 
   const transactionUpdate = (payload: any) => sendTransactionDetail("UPDATE", payload);
 
+  const transactionRefund = (payload: any) =>
+    sendTransactionDetail("CREATE", { entity: "REFUND", ...payload });
+
+  const transactionPayment = (payload: any) =>
+    sendTransactionDetail("CREATE", { entity: "PAYMENT", ...payload });
+
+  const transactionDispute = (payload: any) =>
+    sendTransactionDetail("CREATE", { entity: "DISPUTE", ...payload });
+
+  const transactionDisputeMessage = (payload: any) =>
+    sendTransactionDetail("CREATE", { entity: "DISPUTE_MESSAGE", ...payload });
+
+  const transactionDisputeUpdate = (payload: any) =>
+    sendTransactionDetail("UPDATE", { entity: "DISPUTE", ...payload });
+
+  const transactionLabel = (payload: any) =>
+    sendTransactionDetail("UPDATE", { entity: "LABEL", ...payload });
+
   const transaction = first(transactionDetailState.context?.results);
   const currentUser = authState?.context?.user;
 
@@ -48,6 +66,12 @@ const TransactionDetailsContainer: React.FC<Props> = ({ authService }) => {
           transactionLike={transactionLike}
           transactionComment={transactionComment}
           transactionUpdate={transactionUpdate}
+          transactionRefund={transactionRefund}
+          transactionPayment={transactionPayment}
+          transactionDispute={transactionDispute}
+          transactionDisputeMessage={transactionDisputeMessage}
+          transactionDisputeUpdate={transactionDisputeUpdate}
+          transactionLabel={transactionLabel}
           currentUser={currentUser}
         />
       )}
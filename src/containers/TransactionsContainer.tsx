@@ -1,11 +1,19 @@
 import React from "react";
 import { useMachine } from "@xstate/react";
 import { Switch, Route } from "react-router";
-import { TransactionDateRangePayload, TransactionAmountRangePayload } from "../models";
+import {
+  TransactionDateRangePayload,
+  TransactionAmountRangePayload,
+  TransactionLabelQueryPayload,
+} from "../models";
 import TransactionListFilters from "../components/TransactionListFilters";
 import TransactionContactsList from "../components/TransactionContactsList";
 import { transactionFiltersMachine } from "../machines/transactionFiltersMachine";
-import { getDateQueryFields, getAmountQueryFields } from "../utils/transactionUtils";
+import {
+  getDateQueryFields,
+  getAmountQueryFields,
+  getLabelQueryFields,
+} from "../utils/transactionUtils";
 import TransactionPersonalList from "../components/TransactionPersonalList";
 import TransactionPublicList from "../components/TransactionPublicList";
 
@@ -16,9 +24,11 @@ const TransactionsContainer: React.FC = () => {
   const hasAmountRangeFilter = currentFilters.matches({
     amountRange: "filter",
   });
+  const hasLabelFilter = currentFilters.matches({ labels: "filter" });
 
   const dateRangeFilters = hasDateRangeFilter && getDateQueryFields(currentFilters.context);
   const amountRangeFilters = hasAmountRangeFilter && getAmountQueryFields(currentFilters.context);
+  const labelFilters = hasLabelFilter && getLabelQueryFields(currentFilters.context);
 
   const Filters = (
     <TransactionListFilters
@@ -28,6 +38,16 @@ const TransactionsContainer: React.FC = () => {
     />
   );
 
+  const PersonalFilters = (
+    <TransactionListFilters
+      dateRangeFilters={dateRangeFilters as TransactionDateRangePayload}
+      amountRangeFilters={amountRangeFilters as TransactionAmountRangePayload}
+      labelFilters={(labelFilters || {}) as TransactionLabelQueryPayload}
+      sendFilterEvent={sendFilterEvent}
+      exportable
+    />
+  );
+
   return (
     <Switch>
       <Route exact path="/contacts">
@@ -39,9 +59,10 @@ const TransactionsContainer: React.FC = () => {
       </Route>
       <Route exact path="/personal">
         <TransactionPersonalList
-          filterComponent={Filters}
+          filterComponent={PersonalFilters}
           dateRangeFilters={dateRangeFilters as TransactionDateRangePayload}
           amountRangeFilters={amountRangeFilters as TransactionAmountRangePayload}
+          labelFilters={labelFilters as TransactionLabelQueryPayload}
         />
       </Route>
       <Route exact path="/(public)?">
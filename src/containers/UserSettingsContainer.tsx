@@ -1,10 +1,14 @@
-import React from "react";
+import React, { useEffect } from "react";
 import { makeStyles, Paper, Typography, Grid } from "@material-ui/core";
 import UserSettingsForm from "../components/UserSettingsForm";
 import { Interpreter } from "xstate";
 import { AuthMachineContext, AuthMachineEvents } from "../machines/authMachine";
-import { useActor } from "@xstate/react";
+import { useActor, useMachine } from "@xstate/react";
 import PersonalSettingsIllustration from "../components/SvgUndrawPersonalSettingsKihd";
+import SpendingLimitList from "../components/SpendingLimitList";
+import { spendingLimitsMachine } from "../machines/spendingLimitsMachine";
+import { SpendingLimitsSummary } from "../models";
+import { getCurrency } from "../utils/currencyUtils";
 
 const useStyles = makeStyles((theme) => ({
   paper: {
@@ -22,9 +26,17 @@ export interface Props {
 const UserSettingsContainer: React.FC<Props> = ({ authService }) => {
   const classes = useStyles();
   const [authState, sendAuth] = useActor(authService);
+  const [spendingLimitsState, sendSpendingLimits] = useMachine(spendingLimitsMachine);
 
   const currentUser = authState?.context?.user;
   const updateUser = (payload: any) => sendAuth({ type: "UPDATE", ...payload });
+  const spendingLimits = spendingLimitsState?.context.results?.[0] as SpendingLimitsSummary;
+
+  useEffect(() => {
+    if (currentUser?.id) {
+      sendSpendingLimits("FETCH", { userId: currentUser.id });
+    }
+  }, [sendSpendingLimits, currentUser?.id]);
 
   return (
     <Paper className={classes.paper}>
@@ -39,6 +51,14 @@ const UserSettingsContainer: React.FC<Props> = ({ authService }) => {
           {currentUser && <UserSettingsForm userProfile={currentUser} updateUser={updateUser} />}
         </Grid>
       </Grid>
+      {currentUser && spendingLimits && (
+        <>
+          <Typography component="h2" variant="h6" color="primary" gutterBottom>
+            Spending Limits
+          </Typography>
+          <SpendingLimitList limits={spendingLimits} currency={getCurrency(currentUser)} />
+        </>
+      )}
     </Paper>
   );
 };
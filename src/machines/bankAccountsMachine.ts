@@ -13,6 +13,9 @@ const listBankAccountQuery = gql`
       bankName
       accountNumber
       routingNumber
+      verificationStatus
+      verificationAttempts
+      isDefault
       isDeleted
       createdAt
       modifiedAt
@@ -39,12 +42,51 @@ const createBankAccountMutation = gql`
       bankName
       accountNumber
       routingNumber
+      verificationStatus
+      verificationAttempts
+      isDefault
       isDeleted
       createdAt
     }
   }
 `;
 
+const verifyBankAccountMutation = gql`
+  mutation VerifyBankAccount($id: ID!, $amounts: [Float!]!) {
+    verifyBankAccount(id: $id, amounts: $amounts) {
+      id
+      verificationStatus
+      verificationAttempts
+    }
+  }
+`;
+
+const updateBankAccountMutation = gql`
+  mutation UpdateBankAccount($id: ID!, $bankName: String, $isDefault: Boolean) {
+    updateBankAccount(id: $id, bankName: $bankName, isDefault: $isDefault) {
+      id
+      bankName
+      isDefault
+    }
+  }
+`;
+
+const restoreBankAccountMutation = gql`
+  mutation RestoreBankAccount($id: ID!) {
+    restoreBankAccount(id: $id) {
+      id
+      isDeleted
+      isDefault
+    }
+  }
+`;
+
+const updateMutations: { [operationName: string]: typeof verifyBankAccountMutation } = {
+  VerifyBankAccount: verifyBankAccountMutation,
+  UpdateBankAccount: updateBankAccountMutation,
+  RestoreBankAccount: restoreBankAccountMutation,
+};
+
 export const bankAccountsMachine = dataMachine("bankAccounts").withConfig({
   services: {
     fetchData: async (ctx, event: any) => {
@@ -64,6 +106,17 @@ export const bankAccountsMachine = dataMachine("bankAccounts").withConfig({
       });
       return resp.data;
     },
+    // UPDATE events name the mutation to run; a wrong verification guess still counts as an
+    // attempt, so the refetched list shows what is left
+    updateData: async (ctx, event: any) => {
+      const { operationName, ...payload } = omit("type", event);
+      const resp = await httpClient.post(`http://localhost:${backendPort}/graphql`, {
+        operationName,
+        query: updateMutations[operationName].loc?.source.body,
+        variables: payload,
+      });
+      return resp.data;
+    },
     createData: async (ctx, event: any) => {
       const payload = omit("type", event);
       const resp = await httpClient.post(`http://localhost:${backendPort}/graphql`, {
@@ -0,0 +1,23 @@
+import { omit } from "lodash/fp";
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { authService } from "./authMachine";
+import { backendPort } from "../utils/portUtils";
+
+export const bankTransfersMachine = dataMachine("bankTransfers").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const resp = await httpClient.get(`http://localhost:${backendPort}/bankTransfers`);
+      return { results: resp.data.transfers, pageData: {} };
+    },
+    createData: async (ctx, event: any) => {
+      const payload = omit(["type", "transferType"], event);
+      const resp = await httpClient.post(
+        `http://localhost:${backendPort}/bankTransfers/${event.transferType}`,
+        payload
+      );
+      authService.send("REFRESH");
+      return resp.data;
+    },
+  },
+});
@@ -1,8 +1,8 @@
 import { omit } from "lodash/fp";
 import { Machine, assign } from "xstate";
 import { dataMachine } from "./dataMachine";
-import { httpClient } from "../utils/asyncUtils";
-import { User, TransactionCreatePayload } from "../models";
+import { httpClient, idempotencyHeaders } from "../utils/asyncUtils";
+import { User, TransactionCreatePayload, PaymentLinkResponseItem } from "../models";
 import { authService } from "./authMachine";
 import { backendPort } from "../utils/portUtils";
 
@@ -17,8 +17,24 @@ export interface CreateTransactionMachineSchema {
 const transactionDataMachine = dataMachine("transactionData").withConfig({
   services: {
     createData: async (ctx, event: any) => {
-      const payload = omit("type", event);
-      const resp = await httpClient.post(`http://localhost:${backendPort}/transactions`, payload);
+      const payload = omit(["type", "idempotencyKey"], event);
+      let resp;
+      if (payload.transactionType === "split") {
+        resp = await httpClient.post(
+          `http://localhost:${backendPort}/splits`,
+          omit(["transactionType", "senderId"], payload)
+        );
+      } else if (payload.frequency) {
+        // repeating payments are set up as a schedule, which makes the first payment
+        resp = await httpClient.post(
+          `http://localhost:${backendPort}/schedules`,
+          omit(["transactionType", "senderId"], payload)
+        );
+      } else {
+        resp = await httpClient.post(`http://localhost:${backendPort}/transactions`, payload, {
+          headers: idempotencyHeaders(event.idempotencyKey),
+        });
+      }
       authService.send("REFRESH");
       return resp.data;
     },
@@ -33,6 +49,8 @@ export type CreateTransactionMachineEvents =
 export interface CreateTransactionMachineContext {
   sender: User;
   receiver: User;
+  receivers?: User[]; // Populated when a request is split across several users
+  paymentLink?: PaymentLinkResponseItem; // Populated when the payment was opened from a link
   transactionDetails: TransactionCreatePayload;
 }
 
@@ -75,6 +93,8 @@ export const createTransactionMachine = Machine<
       setSenderAndReceiver: assign((ctx, event: any) => ({
         sender: event.sender,
         receiver: event.receiver,
+        receivers: event.receivers,
+        paymentLink: event.paymentLink,
       })),
       setTransactionDetails: assign((ctx, event: any) => ({
         transactionDetails: event,
@@ -0,0 +1,45 @@
+import { omit, first, isEmpty } from "lodash/fp";
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+import { authService } from "./authMachine";
+
+export const groupDetailMachine = dataMachine("groupData").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const contextGroupId = !isEmpty(ctx.results) && first(ctx.results)["id"];
+      const groupId = contextGroupId || event.groupId;
+      const resp = await httpClient.get(`http://localhost:${backendPort}/groups/${groupId}`);
+      return { results: [resp.data.group] };
+    },
+    createData: async (ctx, event: any) => {
+      const payload = omit(["type", "entity", "groupId"], event);
+      if (event.entity === "PAYMENT") {
+        const resp = await httpClient.post(
+          `http://localhost:${backendPort}/groups/${event.groupId}/payments`,
+          payload
+        );
+        authService.send("REFRESH");
+        return resp.data;
+      }
+      const resp = await httpClient.post(
+        `http://localhost:${backendPort}/groups/${event.groupId}/members`,
+        payload
+      );
+      return resp.data;
+    },
+    updateData: async (ctx, event: any) => {
+      const resp = await httpClient.patch(
+        `http://localhost:${backendPort}/groups/${event.groupId}/members/${event.memberId}`,
+        omit(["type", "groupId", "memberId"], event)
+      );
+      return resp.data;
+    },
+    deleteData: async (ctx, event: any) => {
+      const resp = await httpClient.delete(
+        `http://localhost:${backendPort}/groups/${event.groupId}/members/${event.memberId}`
+      );
+      return resp.data;
+    },
+  },
+});
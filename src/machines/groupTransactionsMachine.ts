@@ -0,0 +1,16 @@
+import { omit } from "lodash/fp";
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+
+export const groupTransactionsMachine = dataMachine("groupTransactions").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const resp = await httpClient.get(
+        `http://localhost:${backendPort}/groups/${event.groupId}/transactions`,
+        { params: omit(["type", "groupId"], event) }
+      );
+      return resp.data;
+    },
+  },
+});
@@ -0,0 +1,18 @@
+import { omit } from "lodash/fp";
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+
+export const groupsMachine = dataMachine("groups").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const resp = await httpClient.get(`http://localhost:${backendPort}/groups`);
+      return { results: resp.data.results, pageData: {} };
+    },
+    createData: async (ctx, event: any) => {
+      const payload = omit("type", event);
+      const resp = await httpClient.post(`http://localhost:${backendPort}/groups`, payload);
+      return resp.data;
+    },
+  },
+});
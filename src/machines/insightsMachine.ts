@@ -0,0 +1,14 @@
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+
+export const insightsMachine = dataMachine("insights").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const resp = await httpClient.get(`http://localhost:${backendPort}/insights`, {
+        params: { dateRangeStart: event.dateRangeStart, dateRangeEnd: event.dateRangeEnd },
+      });
+      return { results: [resp.data.insights], pageData: {} };
+    },
+  },
+});
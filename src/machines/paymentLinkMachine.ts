@@ -0,0 +1,22 @@
+import { omit } from "lodash/fp";
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+
+export const paymentLinkMachine = dataMachine("paymentLink").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      // a newly created link is read back through its token, like any shared link
+      const token = event.token || event.data?.paymentLink.token;
+      const resp = await httpClient.get(
+        `http://localhost:${backendPort}/paymentLinks/${encodeURIComponent(token)}`
+      );
+      return { results: [resp.data.paymentLink], pageData: {} };
+    },
+    createData: async (ctx, event: any) => {
+      const payload = omit("type", event);
+      const resp = await httpClient.post(`http://localhost:${backendPort}/paymentLinks`, payload);
+      return resp.data;
+    },
+  },
+});
@@ -0,0 +1,25 @@
+import { omit } from "lodash/fp";
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+
+export const schedulesMachine = dataMachine("schedules").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const resp = await httpClient.get(`http://localhost:${backendPort}/schedules`);
+      return { results: resp.data.results, pageData: {} };
+    },
+    updateData: async (ctx, event: any) => {
+      const payload = omit(["type", "id"], event);
+      const resp = await httpClient.patch(
+        `http://localhost:${backendPort}/schedules/${event.id}`,
+        payload
+      );
+      return resp.data;
+    },
+    deleteData: async (ctx, event: any) => {
+      const resp = await httpClient.delete(`http://localhost:${backendPort}/schedules/${event.id}`);
+      return resp.data;
+    },
+  },
+});
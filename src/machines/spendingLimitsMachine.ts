@@ -0,0 +1,14 @@
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+
+export const spendingLimitsMachine = dataMachine("spendingLimits").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const resp = await httpClient.get(
+        `http://localhost:${backendPort}/users/${event.userId}/limits`
+      );
+      return { results: [resp.data.limits], pageData: {} };
+    },
+  },
+});
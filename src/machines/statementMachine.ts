@@ -0,0 +1,14 @@
+import { dataMachine } from "./dataMachine";
+import { httpClient } from "../utils/asyncUtils";
+import { backendPort } from "../utils/portUtils";
+
+export const statementMachine = dataMachine("statement").withConfig({
+  services: {
+    fetchData: async (ctx, event: any) => {
+      const resp = await httpClient.get(`http://localhost:${backendPort}/statements`, {
+        params: { from: event.from, to: event.to },
+      });
+      return { results: [resp.data.statement], pageData: {} };
+    },
+  },
+});
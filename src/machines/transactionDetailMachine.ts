@@ -1,7 +1,8 @@
 import { omit, flow, first, isEmpty } from "lodash/fp";
 import { dataMachine } from "./dataMachine";
-import { httpClient } from "../utils/asyncUtils";
+import { httpClient, idempotencyHeaders } from "../utils/asyncUtils";
 import { backendPort } from "../utils/portUtils";
+import { authService } from "./authMachine";
 
 export const transactionDetailMachine = dataMachine("transactionData").withConfig({
   services: {
@@ -16,8 +17,29 @@ export const transactionDetailMachine = dataMachine("transactionData").withConfi
       return { results: [resp.data.transaction] };
     },
     createData: async (ctx, event: any) => {
-      let route = event.entity === "LIKE" ? "likes" : "comments";
       const payload = flow(omit("type"), omit("entity"))(event);
+      if (event.entity === "REFUND" || event.entity === "PAYMENT") {
+        const resp = await httpClient.post(
+          `http://localhost:${backendPort}/transactions/${payload.transactionId}/${
+            event.entity === "REFUND" ? "refunds" : "payments"
+          }`,
+          payload
+        );
+        authService.send("REFRESH");
+        return resp.data;
+      }
+      if (event.entity === "DISPUTE") {
+        const resp = await httpClient.post(`http://localhost:${backendPort}/disputes`, payload);
+        return resp.data;
+      }
+      if (event.entity === "DISPUTE_MESSAGE") {
+        const resp = await httpClient.post(
+          `http://localhost:${backendPort}/disputes/${payload.disputeId}/messages`,
+          payload
+        );
+        return resp.data;
+      }
+      let route = event.entity === "LIKE" ? "likes" : "comments";
       const resp = await httpClient.post(
         `http://localhost:${backendPort}/${route}/${payload.transactionId}`,
         payload
@@ -25,12 +47,29 @@ export const transactionDetailMachine = dataMachine("transactionData").withConfi
       return resp.data;
     },
     updateData: async (ctx, event: any) => {
-      const payload = omit("type", event);
+      if (event.entity === "DISPUTE") {
+        const resp = await httpClient.patch(
+          `http://localhost:${backendPort}/disputes/${event.disputeId}`,
+          omit(["type", "entity", "disputeId"], event)
+        );
+        // resolving with a refund moves money
+        authService.send("REFRESH");
+        return resp.data;
+      }
+      if (event.entity === "LABEL") {
+        const resp = await httpClient.patch(
+          `http://localhost:${backendPort}/transactions/${event.transactionId}/labels`,
+          omit(["type", "entity", "transactionId"], event)
+        );
+        return resp.data;
+      }
+      const payload = omit(["type", "idempotencyKey"], event);
       const contextTransactionId = !isEmpty(ctx.results) && first(ctx.results)["id"];
       const transactionId = contextTransactionId || payload.id;
       const resp = await httpClient.patch(
         `http://localhost:${backendPort}/transactions/${transactionId}`,
-        payload
+        payload,
+        { headers: idempotencyHeaders(event.idempotencyKey) }
       );
       return resp.data;
     },
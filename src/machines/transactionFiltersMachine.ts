@@ -14,6 +14,12 @@ interface FilterSchema {
         filter: {};
       };
     };
+    labels: {
+      states: {
+        none: {};
+        filter: {};
+      };
+    };
   };
 }
 
@@ -27,14 +33,22 @@ type AmountFilterEvent = {
   amountMin: string;
   amountMax: string;
 };
+type LabelFilterEvent = {
+  type: "LABEL_FILTER";
+  category?: string;
+  tag?: string;
+};
 type DateResetEvent = { type: "DATE_RESET" };
 type AmountResetEvent = { type: "AMOUNT_RESET" };
+type LabelResetEvent = { type: "LABEL_RESET" };
 type FilterEvents =
   | { type: "NONE" }
   | DateFilterEvent
   | AmountFilterEvent
+  | LabelFilterEvent
   | DateResetEvent
-  | AmountResetEvent;
+  | AmountResetEvent
+  | LabelResetEvent;
 
 export interface FilterContext {}
 
@@ -79,6 +93,24 @@ export const transactionFiltersMachine = Machine<FilterContext, FilterSchema, Fi
           },
         },
       },
+      labels: {
+        initial: "none",
+        states: {
+          none: {
+            entry: "resetLabels",
+            on: {
+              LABEL_FILTER: "filter",
+            },
+          },
+          filter: {
+            entry: "setLabels",
+            on: {
+              LABEL_RESET: "none",
+              LABEL_FILTER: "filter",
+            },
+          },
+        },
+      },
     },
   },
   {
@@ -99,6 +131,14 @@ export const transactionFiltersMachine = Machine<FilterContext, FilterSchema, Fi
         amountMin: undefined,
         amountMax: undefined,
       })),
+      setLabels: assign((ctx: FilterContext, event: any) => ({
+        category: event.category,
+        tag: event.tag,
+      })),
+      resetLabels: assign((ctx: FilterContext, event: any) => ({
+        category: undefined,
+        tag: undefined,
+      })),
     },
   }
 );
@@ -0,0 +1,31 @@
+export enum AuditAction {
+  create = "create",
+  update = "update",
+  delete = "delete",
+}
+
+// Sensitive values are recorded as "[redacted]"
+export interface AuditFieldChange {
+  before?: any; // Missing when the record was created
+  after?: any; // Missing when the record was deleted
+}
+
+export type AuditFieldChanges = { [field: string]: AuditFieldChange };
+
+export interface AuditLogEntry {
+  id: string;
+  uuid: string;
+  requestId: string; // Shared by every change the API call made
+  actorId?: string; // User who made the call; empty for calls made before signing in
+  route: string; // Method and path of the call, e.g. "PATCH /bankAccounts/abc123"
+  entity: string; // Table of the changed record
+  entityId: string;
+  action: AuditAction;
+  changes: AuditFieldChanges;
+  createdAt: Date;
+}
+
+export interface AuditLogQueryPayload {
+  entity: "transactions" | "bankaccounts" | "users";
+  entityId: string;
+}
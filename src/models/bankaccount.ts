@@ -1,3 +1,9 @@
+export enum BankAccountVerificationStatus {
+  unverified = "unverified",
+  verified = "verified",
+  locked = "locked",
+}
+
 export interface BankAccount {
   id: string;
   uuid: string;
@@ -5,6 +11,9 @@ export interface BankAccount {
   bankName: string;
   accountNumber: string;
   routingNumber: string;
+  verificationStatus: BankAccountVerificationStatus; // Only verified accounts can fund the pay app
+  verificationAttempts: number; // Wrong micro-deposit amounts submitted so far
+  isDefault: boolean; // Preselected for withdrawals; at most one active account per user
   isDeleted: boolean;
   createdAt: Date;
   modifiedAt: Date;
@@ -14,3 +23,9 @@ export type BankAccountPayload = Pick<
   BankAccount,
   "userId" | "bankName" | "accountNumber" | "routingNumber"
 >;
+
+export type BankAccountUpdatePayload = Partial<Pick<BankAccount, "bankName" | "isDefault">>;
+
+export type BankAccountVerificationPayload = {
+  amounts: number[]; // The micro-deposit amounts, in any order
+};
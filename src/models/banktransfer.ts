@@ -1,16 +1,29 @@
+import { CurrencyCode } from "./currency";
+
 export enum BankTransferType {
   withdrawal = "withdrawal",
   deposit = "deposit",
+  microDeposit = "microDeposit", // Simulated deposit into the bank account to verify it
 }
+
+export enum BankTransferStatus {
+  pending = "pending",
+  complete = "complete",
+}
+
 export interface BankTransfer {
   id: string;
   uuid: string;
   userId: string;
   source: string;
   amount: number;
+  currency: CurrencyCode; // The user's currency at the time of the transfer
   type: BankTransferType;
-  transactionId: string;
+  status: BankTransferStatus;
+  transactionId?: string; // Empty if the transfer was requested directly by the user
   createdAt: Date;
   modifiedAt: Date;
 }
 export type BankTransferPayload = Omit<BankTransfer, "id" | "uuid" | "createdAt" | "modifiedAt">;
+
+export type BankTransferCreatePayload = Pick<BankTransfer, "source" | "amount">;
@@ -0,0 +1,17 @@
+import { TransactionCategory } from "./category";
+
+export interface Budget {
+  id: string;
+  uuid: string;
+  userId: string;
+  category: TransactionCategory; // A user has at most one budget per category
+  amount: number; // Most the user means to pay per calendar month, in the user's currency
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export type BudgetPayload = Pick<Budget, "category" | "amount">;
+
+export interface BudgetSummary extends Budget {
+  spent: number; // Paid in the category so far this month, in the user's currency
+}
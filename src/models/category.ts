@@ -0,0 +1,32 @@
+export enum TransactionCategory {
+  food = "food",
+  groceries = "groceries",
+  housing = "housing",
+  utilities = "utilities",
+  transport = "transport",
+  entertainment = "entertainment",
+  shopping = "shopping",
+  travel = "travel",
+  health = "health",
+  gifts = "gifts",
+  other = "other",
+}
+
+// A user's own labels for a transaction; each party labels it separately and privately
+export interface TransactionLabel {
+  id: string;
+  uuid: string;
+  transactionId: string;
+  userId: string;
+  category?: TransactionCategory;
+  tags: string[];
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export type TransactionLabelPayload = Partial<Pick<TransactionLabel, "category" | "tags">>;
+
+export type TransactionLabelQueryPayload = {
+  category?: TransactionCategory;
+  tag?: string;
+};
@@ -0,0 +1,18 @@
+export enum CurrencyCode {
+  USD = "USD",
+  EUR = "EUR",
+  GBP = "GBP",
+  CAD = "CAD",
+  AUD = "AUD",
+}
+
+export interface ExchangeRate {
+  id: string;
+  uuid: string;
+  currency: CurrencyCode;
+  rate: number; // Units of the currency per one unit of the base currency (USD)
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export type ExchangeRateUpdatePayload = Pick<ExchangeRate, "rate">;
@@ -6,6 +6,17 @@ import { Like } from "./like";
 import { BankTransfer } from "./banktransfer";
 import { NotificationType } from "./notification";
 import { Comment } from "./comment";
+import { LedgerEntry } from "./ledger";
+import { Schedule } from "./schedule";
+import { Split } from "./split";
+import { ExchangeRate } from "./currency";
+import { IdempotencyKey } from "./idempotencykey";
+import { Dispute } from "./dispute";
+import { RiskEvaluation } from "./riskevaluation";
+import { AuditLogEntry } from "./auditlog";
+import { TransactionLabel } from "./category";
+import { Budget } from "./budget";
+import { Group, GroupMember } from "./group";
 
 export interface DbSchema {
   users: User[];
@@ -16,4 +27,16 @@ export interface DbSchema {
   comments: Comment[];
   notifications: NotificationType[];
   banktransfers: BankTransfer[];
+  ledger: LedgerEntry[];
+  schedules: Schedule[];
+  splits: Split[];
+  exchangerates: ExchangeRate[];
+  idempotencykeys: IdempotencyKey[];
+  disputes: Dispute[];
+  riskevaluations: RiskEvaluation[];
+  auditlog: AuditLogEntry[];
+  transactionlabels: TransactionLabel[];
+  budgets: Budget[];
+  groups: Group[];
+  groupmembers: GroupMember[];
 }
@@ -0,0 +1,52 @@
+export enum DisputeStatus {
+  open = "open",
+  underReview = "underReview",
+  resolvedRefund = "resolvedRefund",
+  resolvedNoAction = "resolvedNoAction",
+}
+
+export enum DisputeReason {
+  wrongRecipient = "wrongRecipient",
+  wrongAmount = "wrongAmount",
+  notReceived = "notReceived",
+  unauthorized = "unauthorized",
+  other = "other",
+}
+
+export interface DisputeMessage {
+  id: string;
+  userId: string;
+  content: string;
+  createdAt: Date;
+}
+
+export interface Dispute {
+  id: string;
+  uuid: string;
+  transactionId: string;
+  userId: string; // The party who opened the dispute
+  reason: DisputeReason;
+  status: DisputeStatus;
+  messages: DisputeMessage[];
+  refundId?: string; // Populated when resolved with a refund; ID of the refund transaction
+  resolvedAt?: Date;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export interface DisputeMessageResponseItem extends DisputeMessage {
+  userFullName: string;
+}
+
+export interface DisputeResponseItem extends Omit<Dispute, "messages"> {
+  userFullName: string;
+  messages: DisputeMessageResponseItem[];
+}
+
+export type DisputePayload = Pick<Dispute, "transactionId" | "reason"> & {
+  message: string; // First message of the thread, explaining the problem
+};
+
+export type DisputeUpdatePayload = Pick<Dispute, "status"> & {
+  source?: string; // Bank account to cover a refund when the balance is too low
+};
@@ -0,0 +1,56 @@
+import { CurrencyCode } from "./currency";
+
+export enum GroupRole {
+  admin = "admin", // Manages the members, pays in and has the group pay out
+  spender = "spender", // Pays in and has the group pay out
+  contributor = "contributor", // Only pays in
+}
+
+export enum GroupPaymentType {
+  contribution = "contribution", // A member pays into the group
+  payout = "payout", // The group pays a user
+}
+
+export interface Group {
+  id: string;
+  uuid: string;
+  name: string;
+  currency: CurrencyCode; // Every member holds their balance in the same currency
+  balance: number; // Derived from the ledger, like user balances
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export interface GroupMember {
+  id: string;
+  uuid: string;
+  groupId: string;
+  userId: string;
+  role: GroupRole;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export interface GroupMemberResponseItem extends GroupMember {
+  fullName: string;
+  avatar: string;
+}
+
+export interface GroupResponseItem extends Group {
+  role: GroupRole; // Role of the user the group was fetched for
+  members: GroupMemberResponseItem[];
+}
+
+export type GroupPayload = Pick<Group, "name">;
+
+export type GroupMemberPayload = Pick<GroupMember, "userId" | "role">;
+
+export type GroupMemberUpdatePayload = Pick<GroupMember, "role">;
+
+export interface GroupPaymentPayload {
+  paymentType: GroupPaymentType;
+  amount: number;
+  description: string;
+  receiverId?: string; // Who the group pays, for payouts
+  source?: string; // Bank account topping up the member's balance, for contributions
+}
@@ -0,0 +1,14 @@
+export interface IdempotencyKey {
+  id: string;
+  uuid: string;
+  key: string; // Value of the Idempotency-Key header; unique per user
+  userId: string;
+  method: string;
+  path: string;
+  requestHash: string; // Hash of the request body, to detect a key reused for another request
+  responseStatus?: number; // Unset while the first request is still being handled
+  responseBody?: object;
+  expiresAt: Date;
+  createdAt: Date;
+  modifiedAt: Date;
+}
@@ -6,3 +6,18 @@ export * from "./like";
 export * from "./comment";
 export * from "./notification";
 export * from "./banktransfer";
+export * from "./ledger";
+export * from "./schedule";
+export * from "./split";
+export * from "./currency";
+export * from "./spendinglimit";
+export * from "./idempotencykey";
+export * from "./statement";
+export * from "./dispute";
+export * from "./riskevaluation";
+export * from "./auditlog";
+export * from "./category";
+export * from "./budget";
+export * from "./insights";
+export * from "./group";
+export * from "./paymentlink";
@@ -0,0 +1,34 @@
+import { CurrencyCode } from "./currency";
+import { TransactionDateRangePayload } from "./transaction";
+
+export interface MonthlyInsight {
+  month: string; // yyyy-MM
+  sent: number;
+  received: number;
+}
+
+export interface CounterpartyInsight {
+  userId: string;
+  fullName: string;
+  avatar: string;
+  transactionCount: number;
+  amount: number; // Sent and received together
+}
+
+export interface TransactionTypeInsight {
+  count: number;
+  amount: number;
+}
+
+// Amounts are in the user's currency, and only count transactions that moved money
+export interface Insights {
+  userId: string;
+  currency: CurrencyCode;
+  monthly: MonthlyInsight[];
+  topCounterparties: CounterpartyInsight[];
+  averageAmount: number;
+  payments: TransactionTypeInsight;
+  requests: TransactionTypeInsight;
+}
+
+export type InsightsQueryPayload = TransactionDateRangePayload;
@@ -0,0 +1,48 @@
+export enum LedgerEntryType {
+  debit = "debit",
+  credit = "credit",
+}
+
+export enum LedgerAccountType {
+  user = "user",
+  bankAccount = "bankAccount",
+  group = "group",
+  equity = "equity",
+}
+
+export interface LedgerEntry {
+  id: string;
+  uuid: string;
+  journalId: string; // Shared by the balanced debit/credit entries of a single movement
+  accountType: LedgerAccountType;
+  accountId: string; // User ID, BankAccount ID, Group ID or equity account name
+  entryType: LedgerEntryType;
+  amount: number;
+  transactionId?: string;
+  bankTransferId?: string;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export type LedgerAccount = Pick<LedgerEntry, "accountType" | "accountId">;
+
+export type LedgerMovement = {
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  amount: number;
+  transactionId?: string;
+  bankTransferId?: string;
+};
+
+export type LedgerBalanceMismatch = {
+  userId?: string;
+  groupId?: string;
+  balance: number;
+  ledgerBalance: number;
+};
+
+export type LedgerConsistencyReport = {
+  isConsistent: boolean;
+  unbalancedJournalIds: string[];
+  balanceMismatches: LedgerBalanceMismatch[];
+};
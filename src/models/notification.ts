@@ -1,7 +1,14 @@
+import { DisputeStatus } from "./dispute";
+import { TransactionCategory } from "./category";
+import { GroupPaymentType } from "./group";
+
 export enum PaymentNotificationStatus {
   requested = "requested",
   received = "received",
   incomplete = "incomplete",
+  refunded = "refunded",
+  cancelled = "cancelled",
+  partiallyPaid = "partiallyPaid",
 }
 
 export enum NotificationsType {
@@ -34,6 +41,27 @@ export interface CommentNotification extends NotificationBase {
   commentId: string;
 }
 
+export interface ScheduleNotification extends Omit<NotificationBase, "transactionId"> {
+  scheduleId: string;
+  reason: string; // Why the scheduled payment could not be made
+}
+
+export interface DisputeNotification extends NotificationBase {
+  disputeId: string;
+  disputeStatus: DisputeStatus; // Status the dispute moved to
+}
+
+export interface BudgetNotification extends Omit<NotificationBase, "transactionId"> {
+  budgetId: string;
+  category: TransactionCategory;
+  threshold: number; // Percentage of the budget the user has passed
+}
+
+export interface GroupNotification extends NotificationBase {
+  groupId: string;
+  groupPaymentType: GroupPaymentType;
+}
+
 export interface PaymentNotificationResponseItem extends PaymentNotification {
   userFullName: string;
 }
@@ -46,6 +74,23 @@ export interface LikeNotificationResponseItem extends LikeNotification {
   userFullName: string;
 }
 
+export interface ScheduleNotificationResponseItem extends ScheduleNotification {
+  userFullName: string;
+}
+
+export interface DisputeNotificationResponseItem extends DisputeNotification {
+  userFullName: string;
+}
+
+export interface BudgetNotificationResponseItem extends BudgetNotification {
+  userFullName: string;
+}
+
+export interface GroupNotificationResponseItem extends GroupNotification {
+  userFullName: string;
+  groupName: string;
+}
+
 export interface NotificationPayloadBase {
   type: NotificationsType;
   transactionId: string;
@@ -63,7 +108,14 @@ export interface CommentNotificationPayload extends NotificationPayloadBase {
   commentId: string;
 }
 
-export type NotificationType = PaymentNotification | LikeNotification | CommentNotification;
+export type NotificationType =
+  | PaymentNotification
+  | LikeNotification
+  | CommentNotification
+  | ScheduleNotification
+  | DisputeNotification
+  | BudgetNotification
+  | GroupNotification;
 
 export type NotificationPayloadType =
   | PaymentNotificationPayload
@@ -73,4 +125,8 @@ export type NotificationPayloadType =
 export type NotificationResponseItem =
   | PaymentNotificationResponseItem
   | LikeNotificationResponseItem
-  | CommentNotificationResponseItem;
+  | CommentNotificationResponseItem
+  | ScheduleNotificationResponseItem
+  | DisputeNotificationResponseItem
+  | BudgetNotificationResponseItem
+  | GroupNotificationResponseItem;
@@ -0,0 +1,32 @@
+import { CurrencyCode } from "./currency";
+
+// What a payment link carries; it is signed, not stored, so it cannot be changed once shared
+export interface PaymentLink {
+  userId: string; // The user who is paid through the link
+  amount?: number; // Preset amount, in the user's currency
+  description?: string;
+  expiresAt?: string;
+}
+
+export interface PaymentLinkPayload {
+  amount?: number;
+  description?: string;
+  expiresAt?: string;
+}
+
+export interface PaymentLinkReceiver {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  avatar: string;
+}
+
+export interface PaymentLinkResponseItem {
+  token: string;
+  receiver: PaymentLinkReceiver;
+  currency: CurrencyCode;
+  amount?: number;
+  description?: string;
+  expiresAt?: string;
+}
@@ -0,0 +1,45 @@
+import { User } from "./user";
+import { Transaction } from "./transaction";
+
+export enum RiskOutcome {
+  allow = "allow",
+  hold = "hold", // The payment stays pending until it is reviewed
+  block = "block", // The payment never completes
+}
+
+export interface RiskRuleResult {
+  rule: string;
+  score: number;
+  reason: string;
+}
+
+// What a rule can look at; everything is read before any balance changes
+export interface RiskContext {
+  sender: User;
+  receiver: User;
+  amount: number; // In the sender's currency
+  currentDate: Date;
+  senderPayments: Transaction[]; // Payments the sender made before this one, held and blocked included
+}
+
+export interface RiskRule {
+  name: string;
+  evaluate: (context: RiskContext) => Omit<RiskRuleResult, "rule"> | undefined;
+}
+
+export interface RiskEvaluation {
+  id: string;
+  uuid: string;
+  transactionId: string;
+  userId: string; // Sender of the evaluated payment
+  amount: number;
+  score: number;
+  outcome: RiskOutcome;
+  results: RiskRuleResult[]; // Only the rules that matched
+  reviewOutcome?: RiskOutcome.allow | RiskOutcome.block; // Populated once a held payment is reviewed
+  reviewedAt?: Date;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export type RiskReviewPayload = { outcome: NonNullable<RiskEvaluation["reviewOutcome"]> };
@@ -0,0 +1,62 @@
+import { DefaultPrivacyLevel } from "./user";
+import { CurrencyCode } from "./currency";
+
+export enum ScheduleFrequency {
+  weekly = "weekly",
+  monthly = "monthly",
+}
+
+export enum ScheduleStatus {
+  active = "active",
+  paused = "paused",
+  completed = "completed",
+  cancelled = "cancelled",
+}
+
+export enum ScheduleRunStatus {
+  complete = "complete",
+  failed = "failed",
+}
+
+export interface Schedule {
+  id: string;
+  uuid: string;
+  userId: string; // Sender of the scheduled payments
+  receiverId: string;
+  source: string; // BankAccount ID used to cover a short pay app balance; may be empty
+  amount: number;
+  description: string;
+  privacyLevel: DefaultPrivacyLevel;
+  frequency: ScheduleFrequency;
+  interval: number; // Every `interval` weeks or months
+  startDate: Date | string; // First payment; later payments fall on the same weekday or day of month
+  endDate?: Date | string; // No payments are made after this date
+  runCount: number; // Occurrences passed so far, including failed and skipped ones
+  nextRunAt: Date | string;
+  lastRunAt?: Date | string;
+  lastRunStatus?: ScheduleRunStatus;
+  status: ScheduleStatus;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export interface ScheduleResponseItem extends Schedule {
+  currency: CurrencyCode; // Sender's currency, which `amount` is in
+  receiverName: string;
+  receiverAvatar: string;
+}
+
+export type SchedulePayload = Pick<
+  Schedule,
+  "receiverId" | "source" | "amount" | "description" | "frequency" | "interval" | "startDate"
+> &
+  Partial<Pick<Schedule, "privacyLevel" | "endDate">>;
+
+export type ScheduleUpdatePayload = Partial<
+  Pick<Schedule, "amount" | "description" | "source" | "endDate" | "status">
+>;
+
+export type ScheduleSummary = Pick<
+  Schedule,
+  "id" | "frequency" | "interval" | "startDate" | "endDate" | "status"
+>;
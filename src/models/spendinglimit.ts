@@ -0,0 +1,25 @@
+export interface SpendingLimits {
+  dailyAmount: number; // Most a user can send per calendar day, in the user's currency
+  monthlyAmount: number; // Most a user can send per calendar month, in the user's currency
+  hourlyCount: number; // Most transactions a user can create in any hour
+}
+
+export type SpendingLimitType = keyof SpendingLimits;
+
+export interface SpendingLimitUsage {
+  limit: number;
+  used: number;
+}
+
+export type SpendingLimitsSummary = { [type in SpendingLimitType]: SpendingLimitUsage } & {
+  isNewAccount: boolean; // New accounts have stricter default limits
+};
+
+export interface SpendingLimitError {
+  location: "body";
+  param: "amount";
+  msg: string;
+  limitType: SpendingLimitType;
+  limit: number;
+  used: number;
+}
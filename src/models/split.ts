@@ -0,0 +1,39 @@
+import { DefaultPrivacyLevel } from "./user";
+import { CurrencyCode } from "./currency";
+
+export enum SplitMethod {
+  even = "even",
+  percentage = "percentage",
+  custom = "custom",
+}
+
+export interface SplitShare {
+  receiverId: string;
+  percentage?: number; // Populated for percentage splits
+  amount?: number; // Populated for custom splits
+}
+
+export interface Split {
+  id: string;
+  uuid: string;
+  userId: string; // Requester; sender of every child request
+  amount: number;
+  currency: CurrencyCode; // Requester's currency
+  description: string;
+  privacyLevel: DefaultPrivacyLevel;
+  method: SplitMethod;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+export type SplitPayload = Pick<Split, "amount" | "description" | "method"> &
+  Partial<Pick<Split, "privacyLevel">> & {
+    shares: SplitShare[];
+  };
+
+export interface SplitSummary extends Pick<Split, "id" | "amount" | "currency" | "method"> {
+  requestCount: number;
+  pendingCount: number;
+  settledCount: number;
+  declinedCount: number; // Rejected or expired requests
+}
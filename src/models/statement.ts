@@ -0,0 +1,26 @@
+import { CurrencyCode } from "./currency";
+
+export interface StatementLine {
+  id: string; // LedgerEntry ID
+  date: Date;
+  description: string;
+  amount: number; // Positive for money in, negative for money out
+  balance: number; // Running balance after the line
+  transactionId?: string;
+  bankTransferId?: string;
+}
+
+export interface Statement {
+  userId: string;
+  currency: CurrencyCode;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+}
+
+export interface StatementQueryPayload {
+  from?: string;
+  to?: string;
+}
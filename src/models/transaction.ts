@@ -1,5 +1,14 @@
 import { DefaultPrivacyLevel } from "./user";
-import { Like, Comment } from ".";
+import {
+  Like,
+  Comment,
+  ScheduleSummary,
+  SplitSummary,
+  CurrencyCode,
+  DisputeResponseItem,
+  RiskOutcome,
+  TransactionCategory,
+} from ".";
 
 export enum TransactionStatus {
   pending = "pending",
@@ -11,6 +20,7 @@ export enum TransactionRequestStatus {
   pending = "pending",
   accepted = "accepted",
   rejected = "rejected",
+  cancelled = "cancelled",
 }
 
 export interface Transaction {
@@ -18,14 +28,28 @@ export interface Transaction {
   uuid: string;
   source: string; // Empty if Payment or Request; Populated with BankAccount ID
   amount: number;
+  currency: CurrencyCode; // Sender's currency, which `amount` is in
+  exchangeRate: number; // Rate used to convert `amount` to the receiver's currency
+  receiverCurrency?: CurrencyCode; // Populated when the receiver uses a different currency
+  receiverAmount?: number; // `amount` converted to `receiverCurrency`
   description: string;
   privacyLevel: DefaultPrivacyLevel;
   receiverId: string;
   senderId: string;
-  balanceAtCompletion?: number;
+  balanceAtCompletion?: number; // Sender's balance once the money has moved
+  receiverBalanceAtCompletion?: number; // Receiver's balance once the money has moved
   status: TransactionStatus;
   requestStatus?: TransactionRequestStatus | string;
   requestResolvedAt?: Date | string;
+  requestExpiresAt?: Date | string; // Populated for requests; the request becomes incomplete after it
+  scheduleId?: string; // Populated for payments made by a recurring schedule
+  splitId?: string; // Populated for requests that are part of a split
+  refundOf?: string; // Populated for refunds; ID of the transaction being returned
+  requestId?: string; // Populated for payments towards part of a request; ID of the request
+  riskOutcome?: RiskOutcome; // Populated for payments held or blocked by risk checks; allow once released
+  groupId?: string; // Populated for payments into or out of a group wallet; the group is the receiver or the sender
+  groupMemberId?: string; // Populated for group payments; the member who paid in or had the group pay out
+  lineItems?: TransactionLineItem[]; // Populated for itemized requests; their total is `amount`
   createdAt: Date;
   modifiedAt: Date;
 }
@@ -35,33 +59,96 @@ export interface FakeTransaction {
   uuid?: string;
   source?: string; // Empty if Payment or Request; Populated with BankAccount ID
   amount?: number;
+  currency?: CurrencyCode;
+  exchangeRate?: number;
+  receiverCurrency?: CurrencyCode;
+  receiverAmount?: number;
   description?: string;
   privacyLevel?: DefaultPrivacyLevel;
   receiverId: string;
   senderId: string;
   balanceAtCompletion?: number;
+  receiverBalanceAtCompletion?: number;
   status?: TransactionStatus;
   requestStatus?: TransactionRequestStatus | string;
   requestResolvedAt?: Date | string;
+  requestExpiresAt?: Date | string;
+  scheduleId?: string;
+  splitId?: string;
+  refundOf?: string;
+  requestId?: string;
+  riskOutcome?: RiskOutcome;
+  groupId?: string;
+  groupMemberId?: string;
+  lineItems?: TransactionLineItem[];
   createdAt?: Date;
   modifiedAt?: Date;
 }
 
-export interface TransactionResponseItem extends Transaction {
+// Balances at completion stay private to the data store; the API never returns them
+export interface TransactionResponseItem
+  extends Omit<Transaction, "balanceAtCompletion" | "receiverBalanceAtCompletion"> {
   likes: Like[];
   comments: Comment[];
   receiverName: string;
   receiverAvatar: string;
   senderName: string;
   senderAvatar: string;
+  schedule?: ScheduleSummary;
+  split?: SplitSummary;
+  refunds?: LinkedTransaction[];
+  refundableAmount?: number; // Amount in the payee's currency that can still be refunded
+  requestPayments?: LinkedTransaction[];
+  paidAmount?: number; // Amount of a request paid so far, in the request's currency
+  payableAmount?: number; // Amount of a request left to pay, in the payer's currency
+  dispute?: DisputeResponseItem; // Latest dispute; only shown to the two parties
+  category?: TransactionCategory; // The current user's own category for the transaction
+  tags?: string[]; // The current user's own tags for the transaction
+  suggestedCategory?: TransactionCategory; // Offered while the current user has not chosen one
+}
+
+// A line of an itemized request; amounts are in the transaction's currency
+export interface TransactionLineItem {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate?: number; // Percentage added to the line's subtotal
+  subtotal: number; // `quantity` times `unitPrice`
+  tax: number;
 }
 
+export type TransactionLineItemPayload = Pick<
+  TransactionLineItem,
+  "name" | "quantity" | "unitPrice" | "taxRate"
+>;
+
+// Refunds and partial payments as listed on the transaction they belong to
+export type LinkedTransaction = Pick<
+  Transaction,
+  "id" | "amount" | "currency" | "receiverAmount" | "createdAt"
+>;
+
+export type TransactionRefundPayload = {
+  amount: number;
+  source?: string; // Bank account to cover the refund when the balance is too low
+};
+
+export type TransactionRequestPaymentPayload = {
+  amount: number;
+  source?: string; // Bank account to cover the payment when the balance is too low
+};
+
 export type TransactionScenario = {
   status: TransactionStatus;
   requestStatus: TransactionRequestStatus | string;
 };
 
-export type TransactionPayload = Omit<Transaction, "id" | "uuid" | "createdAt" | "modifiedAt">;
+export type TransactionPayload = Omit<
+  Transaction,
+  "id" | "uuid" | "createdAt" | "modifiedAt" | "currency" | "exchangeRate" | "lineItems"
+> & {
+  lineItems?: TransactionLineItemPayload[]; // Unit prices in the sender's currency units, like `amount`
+};
 
 export type TransactionCreatePayload = Partial<
   Pick<Transaction, "senderId" | "receiverId" | "description"> & {
@@ -78,6 +165,8 @@ type TransactionQueryBase = {
   amountMin?: number;
   amountMax?: number;
   status?: TransactionStatus;
+  category?: TransactionCategory;
+  tag?: string;
   limit?: number;
   page?: number;
 };
@@ -94,6 +183,15 @@ export type TransactionAmountRangePayload = Partial<
 
 export type TransactionPaginationPayload = Partial<Pick<TransactionQueryPayload, "page" | "limit">>;
 
+export type TransactionExportFormat = "csv" | "ofx";
+
+export type TransactionExportQueryPayload = TransactionDateRangePayload &
+  TransactionAmountRangePayload &
+  Pick<TransactionQueryPayload, "status"> & {
+    requestStatus?: TransactionRequestStatus;
+    format: TransactionExportFormat;
+  };
+
 export type TransactionClearFiltersPayload = {
   filterType: "date" | "amount";
 };
@@ -1,9 +1,17 @@
+import { CurrencyCode } from "./currency";
+import { SpendingLimits } from "./spendinglimit";
+
 export enum DefaultPrivacyLevel {
   public = "public",
   private = "private",
   contacts = "contacts",
 }
 
+// Operators maintain app-wide data, like exchange rates, and review held payments
+export enum UserRole {
+  operator = "operator",
+}
+
 export interface User {
   id: string;
   uuid: string;
@@ -14,15 +22,18 @@ export interface User {
   email: string;
   phoneNumber: string;
   balance: number;
+  currency: CurrencyCode; // Currency of the balance and of everything the user sends
   avatar: string;
   defaultPrivacyLevel: DefaultPrivacyLevel;
+  spendingLimits?: Partial<SpendingLimits>; // Overrides the default limits for this user
+  role?: UserRole; // Regular users have no role
   createdAt: Date;
   modifiedAt: Date;
 }
 
 export type UserSettingsPayload = Pick<
   User,
-  "firstName" | "lastName" | "email" | "phoneNumber" | "defaultPrivacyLevel"
+  "firstName" | "lastName" | "email" | "phoneNumber" | "defaultPrivacyLevel" | "currency"
 >;
 
 export type SignInPayload = Pick<User, "username" | "password"> & {
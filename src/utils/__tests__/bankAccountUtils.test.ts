@@ -0,0 +1,27 @@
+import { isValidRoutingNumber, isValidAccountNumber, maskAccountNumber } from "../bankAccountUtils";
+
+describe("Bank Account Utils", () => {
+  test("accepts routing numbers that pass the ABA checksum", () => {
+    expect(isValidRoutingNumber("011000015")).toBe(true);
+    expect(isValidRoutingNumber("021000021")).toBe(true);
+  });
+
+  test("rejects routing numbers that fail the checksum or are not nine digits", () => {
+    expect(isValidRoutingNumber("123456789")).toBe(false);
+    expect(isValidRoutingNumber("02100002")).toBe(false);
+    expect(isValidRoutingNumber("02100002a")).toBe(false);
+  });
+
+  test("accepts account numbers of 9 to 12 digits only", () => {
+    expect(isValidAccountNumber("123456789")).toBe(true);
+    expect(isValidAccountNumber("123456789012")).toBe(true);
+    expect(isValidAccountNumber("12345678")).toBe(false);
+    expect(isValidAccountNumber("1234567890123")).toBe(false);
+    expect(isValidAccountNumber("12345-6789")).toBe(false);
+  });
+
+  test("masks account numbers to the last four digits", () => {
+    expect(maskAccountNumber("123456789012")).toBe("****9012");
+    expect(maskAccountNumber(maskAccountNumber("123456789012"))).toBe("****9012");
+  });
+});
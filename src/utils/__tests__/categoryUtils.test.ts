@@ -0,0 +1,29 @@
+import { suggestCategory, getReachedBudgetThresholds, normalizeTags } from "../categoryUtils";
+import { TransactionCategory } from "../../models";
+
+describe("Category Utils", () => {
+  test("suggests the category used most with the counterparty", () => {
+    expect(
+      suggestCategory("Pizza night", [
+        TransactionCategory.housing,
+        TransactionCategory.gifts,
+        TransactionCategory.gifts,
+      ])
+    ).toBe(TransactionCategory.gifts);
+  });
+
+  test("falls back to keywords in the description", () => {
+    expect(suggestCategory("Pizza night", [])).toBe(TransactionCategory.food);
+    expect(suggestCategory("Thanks!", [])).toBeUndefined();
+  });
+
+  test("lists the budget thresholds that spending has reached", () => {
+    expect(getReachedBudgetThresholds(7999, 10000)).toEqual([]);
+    expect(getReachedBudgetThresholds(8000, 10000)).toEqual([80]);
+    expect(getReachedBudgetThresholds(12000, 10000)).toEqual([80, 100]);
+  });
+
+  test("normalizes tags", () => {
+    expect(normalizeTags([" Trip", "trip ", "", "Paris"])).toEqual(["trip", "paris"]);
+  });
+});
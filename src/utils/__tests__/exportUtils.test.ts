@@ -0,0 +1,99 @@
+import {
+  escapeCsvValue,
+  formatTransactionCsvRow,
+  formatTransactionOfx,
+  getSignedAmountForUser,
+  isSettledTransaction,
+} from "../exportUtils";
+import {
+  TransactionRequestStatus,
+  DefaultPrivacyLevel,
+  TransactionStatus,
+  CurrencyCode,
+  TransactionResponseItem,
+} from "../../models";
+
+const fakeTransaction = (requestStatus?: TransactionRequestStatus): TransactionResponseItem => ({
+  id: "t45AiwidW",
+  uuid: "0dd2a4e1-7cfd-4acd-bf53-6a377be01c56",
+  source: "",
+  amount: 4250,
+  currency: CurrencyCode.USD,
+  exchangeRate: 1,
+  description: 'Dinner, drinks & "dessert"',
+  privacyLevel: DefaultPrivacyLevel.public,
+  receiverId: "receiver",
+  senderId: "sender",
+  status: TransactionStatus.complete,
+  requestStatus,
+  createdAt: new Date("2020-05-21T11:46:37.285Z"),
+  modifiedAt: new Date("2020-05-21T11:46:37.285Z"),
+  likes: [],
+  comments: [],
+  senderName: "Edgar Johns",
+  senderAvatar: "",
+  receiverName: "Ted Parisian",
+  receiverAvatar: "",
+});
+
+describe("Export Utils", () => {
+  test("signs amounts from the user's side of the transaction", () => {
+    expect(getSignedAmountForUser("sender", fakeTransaction())).toBe(-4250);
+    expect(getSignedAmountForUser("receiver", fakeTransaction())).toBe(4250);
+
+    const request = fakeTransaction(TransactionRequestStatus.accepted);
+    expect(getSignedAmountForUser("sender", request)).toBe(4250);
+    expect(getSignedAmountForUser("receiver", request)).toBe(-4250);
+  });
+
+  test("quotes CSV values that contain separators or quotes", () => {
+    expect(escapeCsvValue("plain")).toBe("plain");
+    expect(escapeCsvValue('a, "b"')).toBe('"a, ""b"""');
+  });
+
+  test("keeps CSV values from being run as formulas", () => {
+    expect(escapeCsvValue('=HYPERLINK("http://example.com")')).toBe(
+      '"\'=HYPERLINK(""http://example.com"")"'
+    );
+    expect(escapeCsvValue("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(escapeCsvValue("\t-1+2")).toBe("'\t-1+2");
+    expect(escapeCsvValue("-42.50")).toBe("-42.50");
+  });
+
+  test("formats a transaction as a CSV row", () => {
+    expect(formatTransactionCsvRow("sender", CurrencyCode.USD, fakeTransaction())).toBe(
+      "t45AiwidW,2020-05-21T11:46:37.285Z,payment,complete,,Edgar Johns,Ted Parisian," +
+        '"Dinner, drinks & ""dessert""",-42.50,USD\r\n'
+    );
+  });
+
+  test("formats a transaction as an OFX statement transaction", () => {
+    const ofx = formatTransactionOfx("receiver", fakeTransaction());
+
+    expect(ofx).toContain("<TRNTYPE>CREDIT</TRNTYPE>");
+    expect(ofx).toContain("<TRNAMT>42.50</TRNAMT>");
+    expect(ofx).toContain("<FITID>t45AiwidW</FITID>");
+    expect(ofx).toContain("<NAME>Edgar Johns</NAME>");
+    expect(ofx).toContain('<MEMO>Dinner, drinks &amp; "dessert"</MEMO>');
+  });
+
+  test("treats only completed transactions as settled", () => {
+    expect(isSettledTransaction(fakeTransaction())).toBe(true);
+    expect(isSettledTransaction({ ...fakeTransaction(), status: TransactionStatus.pending })).toBe(
+      false
+    );
+
+    const paidInParts = {
+      ...fakeTransaction(TransactionRequestStatus.accepted),
+      requestPayments: [
+        {
+          id: "payment",
+          amount: 4250,
+          currency: CurrencyCode.USD,
+          createdAt: new Date("2020-05-21T11:46:37.285Z"),
+        },
+      ],
+    };
+    expect(isSettledTransaction(paidInParts)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import {
+  getLineItemBreakdown,
+  getLineItemsSubtotal,
+  getLineItemsTax,
+  getLineItemsTotal,
+  getLineItemsError,
+} from "../lineItemUtils";
+
+describe("Line Item Utils", () => {
+  const lineItems = [
+    { name: " Design ", quantity: 3, unitPrice: 40.5, taxRate: 8.25 },
+    { name: "Hosting", quantity: 1, unitPrice: 9.99 },
+  ];
+
+  test("breaks line items down into cents, rounding the tax per line", () => {
+    expect(getLineItemBreakdown(lineItems)).toEqual([
+      { name: "Design", quantity: 3, unitPrice: 4050, taxRate: 8.25, subtotal: 12150, tax: 1002 },
+      { name: "Hosting", quantity: 1, unitPrice: 999, taxRate: undefined, subtotal: 999, tax: 0 },
+    ]);
+  });
+
+  test("totals the breakdown", () => {
+    const breakdown = getLineItemBreakdown(lineItems);
+
+    expect(getLineItemsSubtotal(breakdown)).toBe(13149);
+    expect(getLineItemsTax(breakdown)).toBe(1002);
+    expect(getLineItemsTotal(breakdown)).toBe(14151);
+  });
+
+  test("errors when the amount does not match the total", () => {
+    expect(getLineItemsError(14151, lineItems)).toBeUndefined();
+    expect(getLineItemsError(14100, lineItems)).toBe(
+      "Amount must match the total of the line items, $141.51"
+    );
+  });
+});
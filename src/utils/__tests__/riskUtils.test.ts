@@ -0,0 +1,56 @@
+import { subHours, subMinutes } from "date-fns";
+import { times } from "lodash/fp";
+import { evaluateRiskRules, defaultRiskRules, RAPID_PAYMENT_COUNT } from "../riskUtils";
+import { RiskOutcome, Transaction, TransactionStatus, User } from "../../models";
+
+describe("Risk Utils", () => {
+  const currentDate = new Date("2030-01-01T12:00:00.000Z");
+  const sender = { id: "sender", createdAt: subHours(currentDate, 48) } as User;
+  const receiver = { id: "receiver" } as User;
+  const paymentTo = (receiverId: string, createdAt: Date) =>
+    ({ receiverId, createdAt, status: TransactionStatus.complete } as Transaction);
+
+  test("allows payments that match no rule", () => {
+    expect(
+      evaluateRiskRules(defaultRiskRules, {
+        sender,
+        receiver,
+        amount: 200000,
+        currentDate,
+        senderPayments: [paymentTo(receiver.id, subHours(currentDate, 5))],
+      })
+    ).toEqual({ score: 0, outcome: RiskOutcome.allow, results: [] });
+  });
+
+  test("holds many payments in a short window", () => {
+    const { outcome, results } = evaluateRiskRules(defaultRiskRules, {
+      sender,
+      receiver,
+      amount: 1000,
+      currentDate,
+      senderPayments: times(
+        () => paymentTo(receiver.id, subMinutes(currentDate, 2)),
+        RAPID_PAYMENT_COUNT
+      ),
+    });
+
+    expect(outcome).toBe(RiskOutcome.hold);
+    expect(results.map(({ rule }) => rule)).toEqual(["rapidPayments"]);
+  });
+
+  test("blocks a large payment to a new payee from a brand new account", () => {
+    const { score, outcome } = evaluateRiskRules(defaultRiskRules, {
+      sender: { ...sender, createdAt: subHours(currentDate, 1) },
+      receiver,
+      amount: 200000,
+      currentDate,
+      senderPayments: times(
+        () => paymentTo("someone-else", subMinutes(currentDate, 2)),
+        RAPID_PAYMENT_COUNT
+      ),
+    });
+
+    expect(score).toBe(130);
+    expect(outcome).toBe(RiskOutcome.block);
+  });
+});
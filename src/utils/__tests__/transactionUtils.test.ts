@@ -12,6 +12,7 @@ import {
   TransactionRequestStatus,
   DefaultPrivacyLevel,
   TransactionStatus,
+  CurrencyCode,
   TransactionResponseItem,
 } from "../../models";
 import shortid from "shortid";
@@ -24,6 +25,8 @@ const fakeTransaction = (
   uuid: faker.datatype.uuid(),
   source: shortid(),
   amount: getFakeAmount(),
+  currency: CurrencyCode.USD,
+  exchangeRate: 1,
   description: "food",
   privacyLevel: DefaultPrivacyLevel.public,
   receiverId: shortid(),
@@ -67,6 +70,7 @@ describe("Transaction Utils", () => {
         avatar: faker.internet.avatar(),
         defaultPrivacyLevel: DefaultPrivacyLevel.public,
         balance: faker.datatype.number(),
+        currency: CurrencyCode.USD,
         createdAt: faker.date.past(),
         modifiedAt: faker.date.recent(),
       };
@@ -1,5 +1,7 @@
 import dotenv from "dotenv";
-import axios from "axios";
+import axios, { AxiosRequestHeaders } from "axios";
+import { TransactionExportQueryPayload } from "../models";
+import { backendPort } from "./portUtils";
 
 dotenv.config();
 
@@ -22,4 +24,24 @@ httpClient.interceptors.request.use((config) => {
   return config;
 });
 
-export { httpClient };
+// Retries of a request sent with the same key are only acted on once by the backend
+const idempotencyHeaders = (idempotencyKey?: string): AxiosRequestHeaders =>
+  idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {};
+
+// Fetches the export with the session's credentials and hands it to the browser as a download
+const downloadTransactionsExport = async (query: TransactionExportQueryPayload) => {
+  const resp = await httpClient.get(`http://localhost:${backendPort}/transactions/export`, {
+    params: query,
+    responseType: "blob",
+  });
+  const filename = /filename="?([^";]+)"?/.exec(resp.headers["content-disposition"])?.[1];
+  const url = window.URL.createObjectURL(resp.data);
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = filename || `transactions.${query.format}`;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export { httpClient, idempotencyHeaders, downloadTransactionsExport };
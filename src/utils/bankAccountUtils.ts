@@ -0,0 +1,78 @@
+import { sortBy, isEqual, random } from "lodash/fp";
+import { BankAccount, BankAccountVerificationStatus } from "../models";
+
+export const MAX_BANK_ACCOUNT_VERIFICATION_ATTEMPTS = 3;
+
+export const isVerifiedBankAccount = (bankAccount: BankAccount) =>
+  bankAccount.verificationStatus === BankAccountVerificationStatus.verified;
+
+export const isUnverifiedBankAccount = (bankAccount: BankAccount) =>
+  bankAccount.verificationStatus === BankAccountVerificationStatus.unverified;
+
+export const isLockedBankAccount = (bankAccount: BankAccount) =>
+  bankAccount.verificationStatus === BankAccountVerificationStatus.locked;
+
+export const getRemainingVerificationAttempts = (bankAccount: BankAccount) =>
+  Math.max(0, MAX_BANK_ACCOUNT_VERIFICATION_ATTEMPTS - bankAccount.verificationAttempts);
+
+// Two different amounts of 1 to 99 cents, as a bank would send to prove the account is owned
+export const createMicroDepositAmounts = (): number[] => {
+  const first = random(1, 99);
+  let second = random(1, 99);
+
+  while (second === first) {
+    second = random(1, 99);
+  }
+
+  return [first, second];
+};
+
+// Amounts are compared in cents and in any order
+export const matchesMicroDepositAmounts = (expected: number[], submitted: number[]) =>
+  isEqual(
+    sortBy((amount) => amount, expected),
+    sortBy((amount) => amount, submitted)
+  );
+
+// Why the account cannot be verified (again), if it cannot
+export const getBankAccountVerificationError = (bankAccount: BankAccount) => {
+  if (isVerifiedBankAccount(bankAccount)) {
+    return "Bank account is already verified";
+  }
+  if (isLockedBankAccount(bankAccount)) {
+    return "Bank account is locked after too many attempts";
+  }
+};
+
+export const getVerificationFailureMessage = (bankAccount: BankAccount) =>
+  isLockedBankAccount(bankAccount)
+    ? "Amounts do not match; the bank account is now locked"
+    : `Amounts do not match; ${getRemainingVerificationAttempts(bankAccount)} attempts left`;
+
+export const ACCOUNT_NUMBER_MIN_LENGTH = 9;
+export const ACCOUNT_NUMBER_MAX_LENGTH = 12;
+
+const ROUTING_NUMBER_WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+const getRoutingNumberChecksum = (routingNumber: string) =>
+  ROUTING_NUMBER_WEIGHTS.reduce(
+    (sum, weight, index) => sum + weight * Number(routingNumber[index]),
+    0
+  );
+
+// ABA routing numbers are nine digits whose weighted sum (3, 7, 1 repeating) is a multiple of 10
+export const isValidRoutingNumber = (routingNumber: string) =>
+  /^\d{9}$/.test(routingNumber) && getRoutingNumberChecksum(routingNumber) % 10 === 0;
+
+export const isValidAccountNumber = (accountNumber: string) =>
+  new RegExp(`^\\d{${ACCOUNT_NUMBER_MIN_LENGTH},${ACCOUNT_NUMBER_MAX_LENGTH}}$`).test(
+    accountNumber
+  );
+
+export const maskAccountNumber = (accountNumber: string) => `****${accountNumber.slice(-4)}`;
+
+// Bank accounts leave the API with only the last four digits of the account number
+export const maskBankAccount = (bankAccount: BankAccount): BankAccount => ({
+  ...bankAccount,
+  accountNumber: maskAccountNumber(bankAccount.accountNumber),
+});
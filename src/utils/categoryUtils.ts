@@ -0,0 +1,66 @@
+import { countBy, find, identity, includes, keys, orderBy, some, uniq } from "lodash/fp";
+import { TransactionCategory } from "../models";
+
+export const categoryLabels: { [category in TransactionCategory]: string } = {
+  food: "Food & Drink",
+  groceries: "Groceries",
+  housing: "Housing",
+  utilities: "Utilities",
+  transport: "Transport",
+  entertainment: "Entertainment",
+  shopping: "Shopping",
+  travel: "Travel",
+  health: "Health",
+  gifts: "Gifts",
+  other: "Other",
+};
+
+// Words in a description that point to a category
+const categoryKeywords: { [category in TransactionCategory]?: string[] } = {
+  food: ["dinner", "lunch", "breakfast", "brunch", "coffee", "pizza", "restaurant", "drinks"],
+  groceries: ["grocery", "groceries", "supermarket"],
+  housing: ["rent", "mortgage", "landlord", "deposit"],
+  utilities: ["electric", "electricity", "water", "internet", "wifi", "phone", "bills"],
+  transport: ["uber", "lyft", "taxi", "cab", "bus", "train", "gas", "fuel", "parking"],
+  entertainment: ["movie", "movies", "cinema", "concert", "tickets", "netflix", "games"],
+  shopping: ["clothes", "shoes", "amazon", "shopping"],
+  travel: ["hotel", "flight", "flights", "airbnb", "trip", "vacation"],
+  health: ["doctor", "pharmacy", "gym", "dentist", "medicine"],
+  gifts: ["gift", "gifts", "birthday", "present", "wedding"],
+};
+
+// Percentages of a monthly budget at which its user is notified
+export const BUDGET_THRESHOLDS = [80, 100];
+
+export const normalizeTags = (tags: string[]) =>
+  uniq(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean));
+
+export const getCategoryForDescription = (description: string) => {
+  const words = description.toLowerCase().split(/[^a-z]+/);
+
+  return find(
+    (category: TransactionCategory) =>
+      some((keyword: string) => includes(keyword, words), categoryKeywords[category]),
+    keys(categoryKeywords) as TransactionCategory[]
+  );
+};
+
+// The category the user has chosen most often with the same counterparty wins; without one,
+// the description decides
+export const suggestCategory = (
+  description: string,
+  counterpartyCategories: TransactionCategory[]
+): TransactionCategory | undefined => {
+  const counts = countBy(identity, counterpartyCategories);
+  const [mostUsed] = orderBy(
+    [(category: TransactionCategory) => counts[category]],
+    ["desc"],
+    uniq(counterpartyCategories)
+  );
+
+  return mostUsed || getCategoryForDescription(description);
+};
+
+// Thresholds the spending has reached, as percentages of the budget amount
+export const getReachedBudgetThresholds = (spent: number, amount: number) =>
+  BUDGET_THRESHOLDS.filter((threshold) => spent * 100 >= amount * threshold);
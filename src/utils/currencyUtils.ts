@@ -0,0 +1,52 @@
+import { curry, find } from "lodash/fp";
+import { CurrencyCode, ExchangeRate, Transaction } from "../models";
+
+export const DEFAULT_CURRENCY = CurrencyCode.USD;
+
+export const currencyCodes = Object.values(CurrencyCode);
+
+// Records created before currencies were introduced are in the default currency
+export const getCurrency = (entity?: { currency?: CurrencyCode }) =>
+  entity?.currency || DEFAULT_CURRENCY;
+
+// Rate to multiply an amount in `from` by to get the amount in `to`
+export const getExchangeRate = curry(
+  (rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode) => {
+    if (from === to) {
+      return 1;
+    }
+
+    const fromRate = find({ currency: from }, rates)!.rate;
+    const toRate = find({ currency: to }, rates)!.rate;
+
+    return +(toRate / fromRate).toFixed(6);
+  }
+);
+
+export const convertAmount = (amount: number, rate: number) => Math.round(amount * rate);
+
+export const isCrossCurrencyTransaction = (transaction: Transaction) =>
+  !!transaction.receiverCurrency && transaction.receiverCurrency !== getCurrency(transaction);
+
+// Amount of the transaction in the given user's own currency
+export const getTransactionAmountForUser = (userId: string, transaction: Transaction) =>
+  userId === transaction.receiverId && isCrossCurrencyTransaction(transaction)
+    ? transaction.receiverAmount!
+    : transaction.amount;
+
+// Refunds and payments towards a request convert at the rate of the transaction they belong to,
+// not the current one
+export const getLinkedTransactionExchangeRate = (
+  transaction: Transaction,
+  currency: CurrencyCode
+) =>
+  currency === getCurrency(transaction)
+    ? transaction.exchangeRate
+    : +(1 / transaction.exchangeRate).toFixed(6);
+
+/* istanbul ignore next */
+export const getCurrencySymbol = (currency: CurrencyCode = DEFAULT_CURRENCY) =>
+  find(
+    { type: "currency" },
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).formatToParts(0)
+  )!.value;
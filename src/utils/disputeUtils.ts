@@ -0,0 +1,77 @@
+import { includes } from "lodash/fp";
+import { Dispute, DisputeReason, DisputeStatus, Transaction, User } from "../models";
+import { getTransactionPayeeId, isRefundableTransaction } from "./transactionUtils";
+
+export const disputeReasonLabels: { [reason in DisputeReason]: string } = {
+  wrongRecipient: "Sent to the wrong person",
+  wrongAmount: "Wrong amount",
+  notReceived: "Goods or services not received",
+  unauthorized: "I did not make this transaction",
+  other: "Something else",
+};
+
+export const disputeStatusLabels: { [status in DisputeStatus]: string } = {
+  open: "Open",
+  underReview: "Under review",
+  resolvedRefund: "Resolved with a refund",
+  resolvedNoAction: "Resolved without action",
+};
+
+// The statuses a dispute can move to from each status; resolved disputes are final
+const disputeTransitions: { [status in DisputeStatus]: DisputeStatus[] } = {
+  open: [DisputeStatus.underReview, DisputeStatus.resolvedRefund, DisputeStatus.resolvedNoAction],
+  underReview: [DisputeStatus.resolvedRefund, DisputeStatus.resolvedNoAction],
+  resolvedRefund: [],
+  resolvedNoAction: [],
+};
+
+export const isResolvedDispute = (dispute: Dispute) =>
+  disputeTransitions[dispute.status].length === 0;
+
+export const isTransactionParty = (userId: User["id"], transaction: Transaction) =>
+  transaction.senderId === userId || transaction.receiverId === userId;
+
+export const getOtherTransactionPartyId = (userId: User["id"], transaction: Transaction) =>
+  transaction.senderId === userId ? transaction.receiverId : transaction.senderId;
+
+// Disputes follow the same rules as refunds: refunds and partial payments are disputed
+// through the transaction they belong to
+export const isDisputableTransaction = (transaction: Transaction) =>
+  isRefundableTransaction(transaction);
+
+// Why the user cannot move the dispute to the status, if they cannot. The other party takes the
+// dispute under review, only the payee can settle it with a refund, and only the party who
+// opened it can close it without action.
+export const getDisputeStatusChangeError = (
+  dispute: Dispute,
+  transaction: Transaction,
+  userId: User["id"],
+  status: DisputeStatus
+) => {
+  if (isResolvedDispute(dispute)) {
+    return "Dispute is already resolved";
+  }
+  if (!includes(status, disputeTransitions[dispute.status])) {
+    return `Dispute cannot move from ${disputeStatusLabels[dispute.status]} to ${
+      disputeStatusLabels[status]
+    }`;
+  }
+  if (status === DisputeStatus.underReview && userId === dispute.userId) {
+    return "Only the other party can take the dispute under review";
+  }
+  if (status === DisputeStatus.resolvedRefund && userId !== getTransactionPayeeId(transaction)) {
+    return "Only the user who received the money can refund it";
+  }
+  if (status === DisputeStatus.resolvedNoAction && userId !== dispute.userId) {
+    return "Only the user who opened the dispute can close it without action";
+  }
+};
+
+export const getAvailableDisputeStatuses = (
+  dispute: Dispute,
+  transaction: Transaction,
+  userId: User["id"]
+) =>
+  disputeTransitions[dispute.status].filter(
+    (status) => !getDisputeStatusChangeError(dispute, transaction, userId, status)
+  );
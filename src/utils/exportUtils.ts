@@ -0,0 +1,140 @@
+import { isEmpty } from "lodash/fp";
+import { format as formatDate } from "date-fns";
+import { CurrencyCode, TransactionResponseItem, TransactionExportFormat } from "../models";
+import { getTransactionAmountForUser } from "./currencyUtils";
+import {
+  getTransactionPayerId,
+  isRequestTransaction,
+  isCompleteTransaction,
+} from "./transactionUtils";
+
+export const exportContentTypes: { [format in TransactionExportFormat]: string } = {
+  csv: "text/csv",
+  ofx: "application/x-ofx",
+};
+
+export const getExportFilename = (format: TransactionExportFormat, date: Date) =>
+  `transactions-${formatDate(date, "yyyy-MM-dd")}.${format}`;
+
+// Amount from the user's side of the transaction: negative when the user pays
+export const getSignedAmountForUser = (userId: string, transaction: TransactionResponseItem) =>
+  (getTransactionPayerId(transaction) === userId ? -1 : 1) *
+  getTransactionAmountForUser(userId, transaction);
+
+const formatDecimalAmount = (amount: number) => (amount / 100).toFixed(2);
+
+// CSV
+
+export const csvHeader = [
+  "id",
+  "date",
+  "type",
+  "status",
+  "requestStatus",
+  "sender",
+  "receiver",
+  "description",
+  "amount",
+  "currency",
+];
+
+// Text that spreadsheets would run as a formula is prefixed, so it is shown as text; plain
+// numbers, like negative amounts, are left as they are
+const neutralizeCsvFormula = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+
+export const escapeCsvValue = (value: string) => {
+  const safeValue = neutralizeCsvFormula(value);
+
+  return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+};
+
+export const formatCsvRow = (values: string[]) => `${values.map(escapeCsvValue).join(",")}\r\n`;
+
+export const formatTransactionCsvRow = (
+  userId: string,
+  currency: CurrencyCode,
+  transaction: TransactionResponseItem
+) =>
+  formatCsvRow([
+    transaction.id,
+    new Date(transaction.createdAt).toISOString(),
+    isRequestTransaction(transaction) ? "request" : "payment",
+    transaction.status,
+    transaction.requestStatus || "",
+    transaction.senderName,
+    transaction.receiverName,
+    transaction.description,
+    formatDecimalAmount(getSignedAmountForUser(userId, transaction)),
+    currency,
+  ]);
+
+// OFX
+
+const formatOfxDate = (date: Date | string) => formatDate(new Date(date), "yyyyMMddHHmmss");
+
+export const escapeOfxValue = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const formatOfxHeader = (
+  userId: string,
+  currency: CurrencyCode,
+  generatedAt: Date,
+  from?: Date | string,
+  to?: Date | string
+) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    `<DTSERVER>${formatOfxDate(generatedAt)}</DTSERVER>`,
+    "<LANGUAGE>ENG</LANGUAGE>",
+    "</SONRS></SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1><STMTTRNRS>",
+    "<TRNUID>0</TRNUID>",
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    "<STMTRS>",
+    `<CURDEF>${currency}</CURDEF>`,
+    `<BANKACCTFROM><BANKID>PAYAPP</BANKID><ACCTID>${userId}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>`,
+    "<BANKTRANLIST>",
+    `<DTSTART>${formatOfxDate(from || new Date(0))}</DTSTART>`,
+    `<DTEND>${formatOfxDate(to || generatedAt)}</DTEND>`,
+    "",
+  ].join("\n");
+
+// Only completed transactions moved money; requests paid in parts moved it through their payments
+export const isSettledTransaction = (transaction: TransactionResponseItem) =>
+  isCompleteTransaction(transaction) && isEmpty(transaction.requestPayments);
+
+const getCounterpartyName = (userId: string, transaction: TransactionResponseItem) =>
+  transaction.senderId === userId ? transaction.receiverName : transaction.senderName;
+
+export const formatTransactionOfx = (userId: string, transaction: TransactionResponseItem) => {
+  const amount = getSignedAmountForUser(userId, transaction);
+
+  return [
+    "<STMTTRN>",
+    `<TRNTYPE>${amount < 0 ? "DEBIT" : "CREDIT"}</TRNTYPE>`,
+    `<DTPOSTED>${formatOfxDate(transaction.createdAt)}</DTPOSTED>`,
+    `<TRNAMT>${formatDecimalAmount(amount)}</TRNAMT>`,
+    `<FITID>${transaction.id}</FITID>`,
+    `<NAME>${escapeOfxValue(getCounterpartyName(userId, transaction).slice(0, 32))}</NAME>`,
+    `<MEMO>${escapeOfxValue(transaction.description)}</MEMO>`,
+    "</STMTTRN>",
+    "",
+  ].join("\n");
+};
+
+export const formatOfxFooter = (balance: number, generatedAt: Date) =>
+  [
+    "</BANKTRANLIST>",
+    `<LEDGERBAL><BALAMT>${formatDecimalAmount(balance)}</BALAMT><DTASOF>${formatOfxDate(
+      generatedAt
+    )}</DTASOF></LEDGERBAL>`,
+    "</STMTRS>",
+    "</STMTTRNRS></BANKMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\n");
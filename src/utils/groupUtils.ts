@@ -0,0 +1,26 @@
+import { includes } from "lodash/fp";
+import { GroupMember, GroupPaymentType, GroupRole, Transaction } from "../models";
+
+export const groupRoleLabels: { [role in GroupRole]: string } = {
+  admin: "Admin",
+  spender: "Spender",
+  contributor: "Contributor",
+};
+
+type GroupMembership = Pick<GroupMember, "role">;
+
+// Every member pays in; only some of them can have the group pay out
+export const canPayIntoGroup = (member?: GroupMembership) => !!member;
+
+export const canPayOutOfGroup = (member?: GroupMembership) =>
+  includes(member?.role, [GroupRole.admin, GroupRole.spender]);
+
+export const canManageGroup = (member?: GroupMembership) => member?.role === GroupRole.admin;
+
+export const canMakeGroupPayment = (paymentType: GroupPaymentType, member?: GroupMembership) =>
+  paymentType === GroupPaymentType.payout ? canPayOutOfGroup(member) : canPayIntoGroup(member);
+
+export const getGroupPaymentType = (transaction: Transaction) =>
+  transaction.receiverId === transaction.groupId
+    ? GroupPaymentType.contribution
+    : GroupPaymentType.payout;
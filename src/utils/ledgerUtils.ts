@@ -0,0 +1,83 @@
+import shortid from "shortid";
+import { v4 } from "uuid";
+import { flow, filter, map, sum, isEqual, get, curry } from "lodash/fp";
+import {
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerAccountType,
+  LedgerAccount,
+  LedgerMovement,
+  CurrencyCode,
+} from "../models";
+
+export const OPENING_BALANCE_ACCOUNT_ID = "opening-balance";
+
+export const userLedgerAccount = (userId: string): LedgerAccount => ({
+  accountType: LedgerAccountType.user,
+  accountId: userId,
+});
+
+export const bankAccountLedgerAccount = (bankAccountId: string): LedgerAccount => ({
+  accountType: LedgerAccountType.bankAccount,
+  accountId: bankAccountId,
+});
+
+export const groupLedgerAccount = (groupId: string): LedgerAccount => ({
+  accountType: LedgerAccountType.group,
+  accountId: groupId,
+});
+
+export const openingBalanceLedgerAccount: LedgerAccount = {
+  accountType: LedgerAccountType.equity,
+  accountId: OPENING_BALANCE_ACCOUNT_ID,
+};
+
+// Cross-currency payments are routed through one exchange account per currency,
+// so that each movement balances in a single currency
+export const exchangeLedgerAccount = (currency: CurrencyCode): LedgerAccount => ({
+  accountType: LedgerAccountType.equity,
+  accountId: `exchange-${currency}`,
+});
+
+export const isCreditEntry = (entry: LedgerEntry) =>
+  flow(get("entryType"), isEqual(LedgerEntryType.credit))(entry);
+
+export const isDebitEntry = (entry: LedgerEntry) =>
+  flow(get("entryType"), isEqual(LedgerEntryType.debit))(entry);
+
+export const sumEntryAmounts = (entries: LedgerEntry[]): number =>
+  flow(map("amount"), sum)(entries);
+
+// User accounts hold money owed by the app to the user, so credits increase the balance
+export const getLedgerBalance = (entries: LedgerEntry[]) =>
+  sumEntryAmounts(filter(isCreditEntry, entries)) - sumEntryAmounts(filter(isDebitEntry, entries));
+
+// Signed change to a user account: money in is positive, money out negative
+export const getEntryBalanceChange = (entry: LedgerEntry) =>
+  isCreditEntry(entry) ? entry.amount : -entry.amount;
+
+export const isBalancedJournal = (entries: LedgerEntry[]) =>
+  sumEntryAmounts(filter(isDebitEntry, entries)) ===
+  sumEntryAmounts(filter(isCreditEntry, entries));
+
+export const createLedgerEntries = curry(
+  (createdAt: Date, movement: LedgerMovement): LedgerEntry[] => {
+    const { debit, credit, amount, transactionId, bankTransferId } = movement;
+    const journalId = shortid();
+
+    const createEntry = (account: LedgerAccount, entryType: LedgerEntryType): LedgerEntry => ({
+      id: shortid(),
+      uuid: v4(),
+      journalId,
+      ...account,
+      entryType,
+      amount,
+      transactionId,
+      bankTransferId,
+      createdAt,
+      modifiedAt: createdAt,
+    });
+
+    return [createEntry(debit, LedgerEntryType.debit), createEntry(credit, LedgerEntryType.credit)];
+  }
+);
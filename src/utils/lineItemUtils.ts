@@ -0,0 +1,42 @@
+import { map, sum } from "lodash/fp";
+import { CurrencyCode, TransactionLineItem, TransactionLineItemPayload } from "../models";
+import { formatAmount } from "./transactionUtils";
+
+// Line amounts in cents; unit prices are entered in dollars like the request's amount, and each
+// line's tax is rounded on its own, as it would be on a printed invoice
+export const getLineItemBreakdown = (
+  lineItems: TransactionLineItemPayload[]
+): TransactionLineItem[] =>
+  lineItems.map(({ name, quantity, unitPrice, taxRate }) => {
+    const unitPriceInCents = Math.round(unitPrice * 100);
+    const subtotal = Math.round(quantity * unitPriceInCents);
+
+    return {
+      name: name.trim(),
+      quantity,
+      unitPrice: unitPriceInCents,
+      taxRate: taxRate || undefined,
+      subtotal,
+      tax: Math.round((subtotal * (taxRate || 0)) / 100),
+    };
+  });
+
+export const getLineItemsSubtotal = (lineItems: TransactionLineItem[]) =>
+  sum(map("subtotal", lineItems));
+
+export const getLineItemsTax = (lineItems: TransactionLineItem[]) => sum(map("tax", lineItems));
+
+export const getLineItemsTotal = (lineItems: TransactionLineItem[]) =>
+  getLineItemsSubtotal(lineItems) + getLineItemsTax(lineItems);
+
+export const getLineItemsError = (
+  amount: number,
+  lineItems: TransactionLineItemPayload[],
+  currency?: CurrencyCode
+) => {
+  const total = getLineItemsTotal(getLineItemBreakdown(lineItems));
+
+  if (total !== amount) {
+    return `Amount must match the total of the line items, ${formatAmount(total, currency)}`;
+  }
+};
@@ -0,0 +1,13 @@
+import { isBefore } from "date-fns";
+import { PaymentLinkResponseItem } from "../models";
+
+export const PAYMENT_LINK_QUERY_PARAM = "paymentLink";
+
+export const isExpiredPaymentLink = (
+  paymentLink: Pick<PaymentLinkResponseItem, "expiresAt">,
+  date: Date
+) => !!paymentLink.expiresAt && isBefore(new Date(paymentLink.expiresAt), date);
+
+// Opening the link starts a payment to its receiver
+export const getPaymentLinkUrl = (origin: string, token: string) =>
+  `${origin}/transaction/new?${PAYMENT_LINK_QUERY_PARAM}=${encodeURIComponent(token)}`;
@@ -0,0 +1,85 @@
+import { differenceInHours, differenceInMinutes } from "date-fns";
+import { filter, some, sumBy } from "lodash/fp";
+import {
+  RiskContext,
+  RiskEvaluation,
+  RiskOutcome,
+  RiskRule,
+  RiskRuleResult,
+  Transaction,
+  TransactionStatus,
+} from "../models";
+import { formatAmount } from "./transactionUtils";
+import { getCurrency } from "./currencyUtils";
+
+export const RISK_HOLD_SCORE = 50;
+export const RISK_BLOCK_SCORE = 100;
+
+export const NEW_PAYEE_AMOUNT = 100000;
+export const RAPID_PAYMENT_MINUTES = 10;
+export const RAPID_PAYMENT_COUNT = 10;
+export const NEW_SENDER_HOURS = 24;
+
+export const newPayeeRule: RiskRule = {
+  name: "newPayee",
+  evaluate: ({ sender, receiver, amount, senderPayments }) =>
+    amount > NEW_PAYEE_AMOUNT &&
+    !some({ receiverId: receiver.id, status: TransactionStatus.complete }, senderPayments)
+      ? {
+          score: 50,
+          reason: `First payment to this user is over ${formatAmount(
+            NEW_PAYEE_AMOUNT,
+            getCurrency(sender)
+          )}`,
+        }
+      : undefined,
+};
+
+export const rapidPaymentsRule: RiskRule = {
+  name: "rapidPayments",
+  evaluate: ({ currentDate, senderPayments }) =>
+    filter(
+      (payment: Transaction) =>
+        differenceInMinutes(currentDate, new Date(payment.createdAt)) < RAPID_PAYMENT_MINUTES,
+      senderPayments
+    ).length >= RAPID_PAYMENT_COUNT
+      ? {
+          score: 50,
+          reason: `${RAPID_PAYMENT_COUNT} or more payments in ${RAPID_PAYMENT_MINUTES} minutes`,
+        }
+      : undefined,
+};
+
+export const newSenderRule: RiskRule = {
+  name: "newSender",
+  evaluate: ({ sender, currentDate }) =>
+    differenceInHours(currentDate, new Date(sender.createdAt)) < NEW_SENDER_HOURS
+      ? { score: 30, reason: `Account created less than ${NEW_SENDER_HOURS} hours ago` }
+      : undefined,
+};
+
+export const defaultRiskRules: RiskRule[] = [newPayeeRule, rapidPaymentsRule, newSenderRule];
+
+export const getRiskOutcome = (score: number) => {
+  if (score >= RISK_BLOCK_SCORE) {
+    return RiskOutcome.block;
+  }
+  if (score >= RISK_HOLD_SCORE) {
+    return RiskOutcome.hold;
+  }
+  return RiskOutcome.allow;
+};
+
+// Scores of the matching rules add up; the total decides the outcome
+export const evaluateRiskRules = (
+  rules: RiskRule[],
+  context: RiskContext
+): Pick<RiskEvaluation, "score" | "outcome" | "results"> => {
+  const results = rules.reduce((matched: RiskRuleResult[], rule) => {
+    const result = rule.evaluate(context);
+    return result ? [...matched, { rule: rule.name, ...result }] : matched;
+  }, []);
+  const score = sumBy("score", results);
+
+  return { score, outcome: getRiskOutcome(score), results };
+};
@@ -0,0 +1,50 @@
+import { addMonths, addWeeks, isAfter, format as formatDate } from "date-fns";
+import { curry, flow, get, isEqual } from "lodash/fp";
+import { Schedule, ScheduleFrequency, ScheduleStatus, ScheduleSummary } from "../models";
+
+export const isActiveSchedule = (schedule: Schedule) =>
+  flow(get("status"), isEqual(ScheduleStatus.active))(schedule);
+
+// Occurrences are always computed from the start date so that monthly schedules
+// keep their day of month (e.g. the 31st) after passing through shorter months
+export const getScheduleOccurrence = (
+  schedule: Pick<Schedule, "frequency" | "interval" | "startDate">,
+  occurrence: number
+) => {
+  const startDate = new Date(schedule.startDate);
+  const periods = schedule.interval * occurrence;
+
+  return schedule.frequency === ScheduleFrequency.monthly
+    ? addMonths(startDate, periods)
+    : addWeeks(startDate, periods);
+};
+
+// Number of occurrences before the first one that is not in the past; used to skip
+// the payments that fell due while a schedule was paused
+export const getUpcomingRunCount = curry((currentDate: Date, schedule: Schedule) => {
+  let runCount = schedule.runCount;
+
+  while (isAfter(currentDate, getScheduleOccurrence(schedule, runCount))) {
+    runCount++;
+  }
+
+  return runCount;
+});
+
+export const isPastScheduleEnd = curry((schedule: Schedule, date: Date) =>
+  schedule.endDate ? isAfter(date, new Date(schedule.endDate)) : false
+);
+
+export const isScheduleDue = curry(
+  (currentDate: Date, schedule: Schedule) =>
+    isActiveSchedule(schedule) && !isAfter(new Date(schedule.nextRunAt), currentDate)
+);
+
+export const formatScheduleFrequency = (schedule: ScheduleSummary) => {
+  const unit = schedule.frequency === ScheduleFrequency.monthly ? "month" : "week";
+  const every = schedule.interval === 1 ? `Every ${unit}` : `Every ${schedule.interval} ${unit}s`;
+
+  return schedule.endDate
+    ? `${every} until ${formatDate(new Date(schedule.endDate), "MMM d, yyyy")}`
+    : every;
+};
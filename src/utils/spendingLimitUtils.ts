@@ -0,0 +1,94 @@
+import { differenceInDays } from "date-fns";
+import { curry, find } from "lodash/fp";
+import {
+  User,
+  SpendingLimits,
+  SpendingLimitType,
+  SpendingLimitsSummary,
+  SpendingLimitError,
+} from "../models";
+import { formatAmount } from "./transactionUtils";
+import { getCurrency } from "./currencyUtils";
+
+export const NEW_ACCOUNT_DAYS = 30;
+
+export const defaultSpendingLimits: SpendingLimits = {
+  dailyAmount: 250000,
+  monthlyAmount: 1000000,
+  hourlyCount: 20,
+};
+
+export const newAccountSpendingLimits: SpendingLimits = {
+  dailyAmount: 50000,
+  monthlyAmount: 200000,
+  hourlyCount: 10,
+};
+
+export const spendingLimitLabels: { [type in SpendingLimitType]: string } = {
+  dailyAmount: "Daily limit",
+  monthlyAmount: "Monthly limit",
+  hourlyCount: "Hourly transaction limit",
+};
+
+export const isNewAccount = curry(
+  (currentDate: Date, user: User) =>
+    differenceInDays(currentDate, new Date(user.createdAt)) < NEW_ACCOUNT_DAYS
+);
+
+export const getDefaultSpendingLimits = (currentDate: Date, user: User) =>
+  isNewAccount(currentDate, user) ? newAccountSpendingLimits : defaultSpendingLimits;
+
+// A user's own limits can only be stricter than the defaults for their account
+export const getSpendingLimits = (currentDate: Date, user: User): SpendingLimits => {
+  const defaults = getDefaultSpendingLimits(currentDate, user);
+
+  return {
+    dailyAmount: Math.min(
+      defaults.dailyAmount,
+      user.spendingLimits?.dailyAmount ?? defaults.dailyAmount
+    ),
+    monthlyAmount: Math.min(
+      defaults.monthlyAmount,
+      user.spendingLimits?.monthlyAmount ?? defaults.monthlyAmount
+    ),
+    hourlyCount: Math.min(
+      defaults.hourlyCount,
+      user.spendingLimits?.hourlyCount ?? defaults.hourlyCount
+    ),
+  };
+};
+
+// First limit broken by sending `amount` (zero for requests) in `transactionCount` new transactions
+export const getSpendingLimitError = (
+  user: User,
+  summary: SpendingLimitsSummary,
+  amount: number,
+  transactionCount = 1
+): SpendingLimitError | undefined => {
+  const exceeded = find(
+    (limitType: SpendingLimitType) =>
+      limitType === "hourlyCount"
+        ? transactionCount > 0 &&
+          summary.hourlyCount.used + transactionCount > summary.hourlyCount.limit
+        : amount > 0 && summary[limitType].used + amount > summary[limitType].limit,
+    ["hourlyCount", "dailyAmount", "monthlyAmount"] as SpendingLimitType[]
+  );
+
+  if (!exceeded) {
+    return undefined;
+  }
+
+  const { limit, used } = summary[exceeded];
+
+  return {
+    location: "body",
+    param: "amount",
+    msg:
+      exceeded === "hourlyCount"
+        ? `${spendingLimitLabels[exceeded]} of ${limit} reached`
+        : `${spendingLimitLabels[exceeded]} of ${formatAmount(limit, getCurrency(user))} exceeded`,
+    limitType: exceeded,
+    limit,
+    used,
+  };
+};
@@ -0,0 +1,81 @@
+import { filter, map, sum } from "lodash/fp";
+import { CurrencyCode, Split, SplitMethod, SplitShare, SplitSummary, Transaction } from "../models";
+import {
+  formatAmount,
+  isAcceptedRequestTransaction,
+  isIncompleteTransaction,
+  isPendingRequestTransaction,
+} from "./transactionUtils";
+
+// Divides an amount in proportion to the weights; the cents left over by rounding down
+// go to the first shares so that the shares always add up to the amount
+export const allocateAmount = (amount: number, weights: number[]) => {
+  const totalWeight = sum(weights);
+  const amounts = weights.map((weight) => Math.floor((amount * weight) / totalWeight));
+  let remainder = amount - sum(amounts);
+
+  return amounts.map((shareAmount) => (remainder-- > 0 ? shareAmount + 1 : shareAmount));
+};
+
+// Share amounts in cents; custom share amounts are entered in dollars like the total
+export const getSplitShareAmounts = (amount: number, method: SplitMethod, shares: SplitShare[]) => {
+  if (method === SplitMethod.custom) {
+    return shares.map((share) => Math.round(share.amount! * 100));
+  }
+
+  if (method === SplitMethod.percentage) {
+    return allocateAmount(
+      amount,
+      shares.map((share) => share.percentage!)
+    );
+  }
+
+  return allocateAmount(
+    amount,
+    map(() => 1, shares)
+  );
+};
+
+export const getSplitShareError = (
+  amount: number,
+  method: SplitMethod,
+  shares: SplitShare[],
+  currency: CurrencyCode
+) => {
+  const shareAmounts = getSplitShareAmounts(amount, method, shares);
+
+  if (
+    method === SplitMethod.percentage &&
+    Math.round(sum(map("percentage", shares)) * 100) !== 10000
+  ) {
+    return "Percentages must add up to 100";
+  }
+
+  if (method === SplitMethod.custom && sum(shareAmounts) !== amount) {
+    return "Amounts must add up to the total";
+  }
+
+  if (shareAmounts.some((shareAmount) => !(shareAmount > 0))) {
+    return `Every share must be more than ${formatAmount(0, currency)}`;
+  }
+};
+
+export const getSplitSummary = (split: Split, requests: Transaction[]): SplitSummary => {
+  const pendingCount = filter(
+    (request: Transaction) =>
+      isPendingRequestTransaction(request) && !isIncompleteTransaction(request),
+    requests
+  ).length;
+  const settledCount = filter(isAcceptedRequestTransaction, requests).length;
+
+  return {
+    id: split.id,
+    amount: split.amount,
+    currency: split.currency,
+    method: split.method,
+    requestCount: requests.length,
+    pendingCount,
+    settledCount,
+    declinedCount: requests.length - pendingCount - settledCount,
+  };
+};
@@ -1,6 +1,7 @@
 import {
   Transaction,
   User,
+  TransactionStatus,
   TransactionRequestStatus,
   NotificationType,
   PaymentNotificationStatus,
@@ -10,9 +11,17 @@ import {
   TransactionAmountRangePayload,
   LikeNotification,
   CommentNotification,
+  ScheduleNotification,
+  DisputeNotification,
+  BudgetNotification,
+  CurrencyCode,
+  TransactionLabelQueryPayload,
+  GroupNotification,
 } from "../models";
 import { faker } from "@faker-js/faker";
 import Dinero from "dinero.js";
+import { isAfter } from "date-fns";
+import { DEFAULT_CURRENCY } from "./currencyUtils";
 import {
   flow,
   get,
@@ -45,14 +54,59 @@ export const isAcceptedRequestTransaction = (transaction: Transaction) =>
 export const isRejectedRequestTransaction = (transaction: Transaction) =>
   flow(get("requestStatus"), isEqual(TransactionRequestStatus.rejected))(transaction);
 
+/* istanbul ignore next */
+export const isCancelledRequestTransaction = (transaction: Transaction) =>
+  flow(get("requestStatus"), isEqual(TransactionRequestStatus.cancelled))(transaction);
+
 export const isPayment = negate(isRequestTransaction);
 
+/* istanbul ignore next */
+export const isIncompleteTransaction = (transaction: Transaction) =>
+  flow(get("status"), isEqual(TransactionStatus.incomplete))(transaction);
+
+/* istanbul ignore next */
+export const isCompleteTransaction = (transaction: Transaction) =>
+  flow(get("status"), isEqual(TransactionStatus.complete))(transaction);
+
+export const isRefundTransaction = (transaction: Transaction) => !!transaction.refundOf;
+
+export const isRequestPaymentTransaction = (transaction: Transaction) => !!transaction.requestId;
+
+export const isGroupTransaction = (transaction: Transaction) => !!transaction.groupId;
+
+// Completed transactions can be returned, except for refunds themselves and partial payments,
+// which are returned through the request they paid. Money in a group wallet goes back with a payout.
+export const isRefundableTransaction = (transaction: Transaction) =>
+  isCompleteTransaction(transaction) &&
+  !isRefundTransaction(transaction) &&
+  !isRequestPaymentTransaction(transaction) &&
+  !isGroupTransaction(transaction);
+
+// The user who received the money; requests are paid by their receiver
+export const getTransactionPayeeId = (transaction: Transaction) =>
+  isRequestTransaction(transaction) ? transaction.senderId : transaction.receiverId;
+
+export const getTransactionPayerId = (transaction: Transaction) =>
+  isRequestTransaction(transaction) ? transaction.receiverId : transaction.senderId;
+
+// Open requests that can still be paid, in full or in part
+export const isPayableRequestTransaction = (transaction: Transaction) =>
+  isPendingRequestTransaction(transaction) && !isIncompleteTransaction(transaction);
+
+export const isExpiredRequestTransaction = curry(
+  (currentDate: Date, transaction: Transaction) =>
+    isPendingRequestTransaction(transaction) &&
+    !!transaction.requestExpiresAt &&
+    !isAfter(new Date(transaction.requestExpiresAt!), currentDate)
+);
+
 /* istanbul ignore next */
 export const getFakeAmount = (min: number = 1000, max: number = 50000) =>
   parseInt(faker.finance.amount(min, max), 10);
 
 /* istanbul ignore next */
-export const formatAmount = (amount: number) => Dinero({ amount }).toFormat();
+export const formatAmount = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY) =>
+  Dinero({ amount, currency: currency as Dinero.Currency }).toFormat();
 
 /* istanbul ignore next */
 export const formatAmountSlider = (amount: number) => Dinero({ amount }).toFormat("$0,0");
@@ -84,6 +138,10 @@ export const hasSufficientFunds = (sender: User, transaction: Transaction) =>
 export const receiverIsCurrentUser = (currentUser: User, transaction: Transaction) =>
   isEqual(get("id", currentUser), get("receiverId", transaction));
 
+/* istanbul ignore next */
+export const senderIsCurrentUser = (currentUser: User, transaction: Transaction) =>
+  isEqual(get("id", currentUser), get("senderId", transaction));
+
 export const formatFullName = (user: User) =>
   flow(pick(["firstName", "lastName"]), values, join(" "))(user);
 
@@ -95,6 +153,22 @@ export const isLikeNotification = (
   notification: NotificationType
 ): notification is LikeNotification => has("likeId")(notification);
 
+export const isScheduleNotification = (
+  notification: NotificationType
+): notification is ScheduleNotification => has("scheduleId")(notification);
+
+export const isDisputeNotification = (
+  notification: NotificationType
+): notification is DisputeNotification => has("disputeId")(notification);
+
+export const isBudgetNotification = (
+  notification: NotificationType
+): notification is BudgetNotification => has("budgetId")(notification);
+
+export const isGroupNotification = (
+  notification: NotificationType
+): notification is GroupNotification => has("groupId")(notification);
+
 export const isPaymentNotification = (notification: NotificationType) =>
   has("status")(notification);
 
@@ -106,6 +180,22 @@ export const isPaymentRequestedNotification = (notification: NotificationType) =
 export const isPaymentReceivedNotification = (notification: NotificationType) =>
   flow(get("status"), isEqual(PaymentNotificationStatus.received))(notification);
 
+/* istanbul ignore next */
+export const isPaymentIncompleteNotification = (notification: NotificationType) =>
+  flow(get("status"), isEqual(PaymentNotificationStatus.incomplete))(notification);
+
+/* istanbul ignore next */
+export const isPaymentRefundedNotification = (notification: NotificationType) =>
+  flow(get("status"), isEqual(PaymentNotificationStatus.refunded))(notification);
+
+/* istanbul ignore next */
+export const isPaymentCancelledNotification = (notification: NotificationType) =>
+  flow(get("status"), isEqual(PaymentNotificationStatus.cancelled))(notification);
+
+/* istanbul ignore next */
+export const isPaymentPartiallyPaidNotification = (notification: NotificationType) =>
+  flow(get("status"), isEqual(PaymentNotificationStatus.partiallyPaid))(notification);
+
 /* istanbul ignore next */
 export const currentUserLikesTransaction = (
   currentUser: User,
@@ -151,8 +241,22 @@ export const getQueryWithoutDateFields = (query: TransactionQueryPayload) =>
 export const getQueryWithoutAmountFields = (query: TransactionQueryPayload) =>
   query && hasAmountQueryFields(query) ? omitAmountQueryFields(query) : query;
 
+export const hasLabelQueryFields = (query: TransactionQueryPayload) =>
+  has("category", query) || has("tag", query);
+
+export const getLabelQueryFields = (query: TransactionQueryPayload): TransactionLabelQueryPayload =>
+  pick(["category", "tag"], query);
+
+export const omitLabelQueryFields = (query: TransactionQueryPayload) =>
+  omit(["category", "tag"], query);
+
 export const getQueryWithoutFilterFields = (query: TransactionQueryPayload) =>
-  flow(omitAmountQueryFields, omitDateQueryFields, omitPaginationQueryFields)(query);
+  flow(
+    omitAmountQueryFields,
+    omitDateQueryFields,
+    omitLabelQueryFields,
+    omitPaginationQueryFields
+  )(query);
 
 /* istanbul ignore next */
 export const padAmountWithZeros = (number: number) => Math.ceil(number * 1000);